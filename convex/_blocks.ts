@@ -0,0 +1,55 @@
+import type { Id } from "./_generated/dataModel.d.ts";
+import type { QueryCtx } from "./_generated/server.d.ts";
+
+// Member-to-member blocking. A block works both ways for visibility: the
+// two members stop seeing each other in search, friend requests, forum
+// comments, trip listings and invites, and location sharing. Only the
+// blocker can lift it.
+
+export async function hasBlocked(
+  ctx: QueryCtx,
+  blockerId: Id<"users">,
+  blockedId: Id<"users">,
+) {
+  const block = await ctx.db
+    .query("userBlocks")
+    .withIndex("by_blocker", (q) =>
+      q.eq("blockerId", blockerId).eq("blockedId", blockedId),
+    )
+    .unique();
+  return block !== null;
+}
+
+export async function isBlockedEitherWay(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  otherUserId: Id<"users">,
+) {
+  return (
+    (await hasBlocked(ctx, userId, otherUserId)) ||
+    (await hasBlocked(ctx, otherUserId, userId))
+  );
+}
+
+/**
+ * Everyone the user has blocked or been blocked by
+ */
+export async function getBlockedUserIds(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+): Promise<Set<Id<"users">>> {
+  const [blocked, blockedBy] = await Promise.all([
+    ctx.db
+      .query("userBlocks")
+      .withIndex("by_blocker", (q) => q.eq("blockerId", userId))
+      .collect(),
+    ctx.db
+      .query("userBlocks")
+      .withIndex("by_blocked", (q) => q.eq("blockedId", userId))
+      .collect(),
+  ]);
+  return new Set([
+    ...blocked.map((block) => block.blockedId),
+    ...blockedBy.map((block) => block.blockerId),
+  ]);
+}
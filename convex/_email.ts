@@ -0,0 +1,58 @@
+import { Resend as ResendAPI } from "resend";
+
+// Outgoing app email (alerts, notices). Sign-in and password reset codes are
+// sent by the auth providers in otp/ and passwordReset/ instead.
+// Only call from actions: sending is a network request.
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  html: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Sender when AUTH_EMAIL isn't set; the same variable and fallback the
+// sign-in and password reset code emails use
+const DEFAULT_FROM = "Camo & Ammo <no-reply@sbinfotech.us>";
+
+function resendProvider(apiKey: string): EmailProvider {
+  const resend = new ResendAPI(apiKey);
+  return {
+    name: "resend",
+    async send(message) {
+      const { error } = await resend.emails.send({
+        from: process.env.AUTH_EMAIL ?? DEFAULT_FROM,
+        ...message,
+      });
+      if (error) {
+        throw new Error(JSON.stringify(error));
+      }
+    },
+  };
+}
+
+// Local development without a Resend key: log what would have been sent
+const consoleProvider: EmailProvider = {
+  name: "console",
+  async send(message) {
+    console.log("[email] Not sending, no AUTH_RESEND_KEY set:", {
+      to: message.to,
+      subject: message.subject,
+    });
+  },
+};
+
+export function getEmailProvider(): EmailProvider {
+  const apiKey = process.env.AUTH_RESEND_KEY;
+  return apiKey ? resendProvider(apiKey) : consoleProvider;
+}
+
+// Absolute link into the web app, for use in emails
+export function appUrl(path: string) {
+  const siteUrl = (process.env.SITE_URL ?? "").replace(/\/$/, "");
+  return `${siteUrl}${path}`;
+}
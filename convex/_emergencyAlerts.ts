@@ -0,0 +1,308 @@
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { MutationCtx } from "./_generated/server.d.ts";
+import { haversineMeters } from "./_geo";
+import { loadTrackPoints } from "./_trackSegments";
+import { simplifyPath } from "./_trackProcessing";
+import { sendNotification } from "./_notifications";
+import type { NotificationKind } from "./_notificationKinds";
+import { getBlockedUserIds } from "./_blocks";
+
+// Creating and closing emergency alerts, shared by SOS (emergencyAlerts.ts)
+// and overdue check-ins (hunts.ts). Callers schedule
+// internal.emergencyAlerts.sendAlertEmails afterwards.
+
+export const MAX_ALERT_MESSAGE_LENGTH = 500;
+const MAX_BREADCRUMB_POINTS = 500;
+const TRACK_TAIL_POINTS = 200;
+const BREADCRUMB_SIMPLIFY_TOLERANCE_METERS = 10;
+// Fixes closer than this to the previous one are jitter, not movement
+const MIN_BREADCRUMB_SPACING_METERS = 10;
+
+type Alert = Doc<"emergencyAlerts">;
+type BreadcrumbPoint = Alert["breadcrumb"][number];
+
+export interface AlertLocation {
+  lat: number;
+  lng: number;
+  accuracy?: number;
+}
+
+function generateShareToken() {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+export function appendBreadcrumb(
+  breadcrumb: BreadcrumbPoint[],
+  point: BreadcrumbPoint,
+): BreadcrumbPoint[] {
+  const last = breadcrumb[breadcrumb.length - 1];
+  if (
+    last &&
+    haversineMeters(last.lat, last.lng, point.lat, point.lng) <
+      MIN_BREADCRUMB_SPACING_METERS
+  ) {
+    return breadcrumb;
+  }
+  return [...breadcrumb, point].slice(-MAX_BREADCRUMB_POINTS);
+}
+
+function getEmergencyContacts(user: Doc<"users">) {
+  return [
+    user.emergencyContact1,
+    user.emergencyContact2,
+    user.emergencyContact3,
+  ].filter(
+    (contact): contact is NonNullable<typeof contact> =>
+      contact !== undefined && contact.phone.trim() !== "",
+  );
+}
+
+// Emergency contacts, each linked to their member account when they have one
+async function resolveContacts(ctx: MutationCtx, user: Doc<"users">) {
+  return await Promise.all(
+    getEmergencyContacts(user).map(async (contact) => {
+      const email = contact.email?.trim() || undefined;
+      const member =
+        (email
+          ? await ctx.db
+              .query("users")
+              .withIndex("email", (q) => q.eq("email", email))
+              .first()
+          : null) ??
+        (await ctx.db
+          .query("users")
+          .withIndex("phone", (q) => q.eq("phoneNumber", contact.phone.trim()))
+          .first());
+      return {
+        name: contact.name,
+        phone: contact.phone,
+        relationship: contact.relationship,
+        email,
+        userId: member && member._id !== user._id ? member._id : undefined,
+      };
+    }),
+  );
+}
+
+// Friends who are out with location sharing switched on right now. Blocks
+// in either direction cover location sharing, so those friends are left out.
+async function getFriendsSharingLocation(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+) {
+  const friendships1 = await ctx.db
+    .query("friendships")
+    .withIndex("by_user1", (q) => q.eq("user1Id", userId))
+    .collect();
+  const friendships2 = await ctx.db
+    .query("friendships")
+    .withIndex("by_user2", (q) => q.eq("user2Id", userId))
+    .collect();
+
+  const blockedIds = await getBlockedUserIds(ctx, userId);
+  const friendIds: Id<"users">[] = [
+    ...friendships1.map((f) => f.user2Id),
+    ...friendships2.map((f) => f.user1Id),
+  ].filter((friendId) => !blockedIds.has(friendId));
+
+  const now = Date.now();
+  const sharing = await Promise.all(
+    friendIds.map(async (friendId) => {
+      const share = await ctx.db
+        .query("locationShares")
+        .withIndex("by_user", (q) => q.eq("userId", friendId))
+        .first();
+      const isSharing =
+        share?.isActive === true &&
+        share.shareWith !== "none" &&
+        (!share.expiresAt || share.expiresAt > now);
+      return isSharing ? friendId : null;
+    }),
+  );
+  return sharing.filter((id): id is Id<"users"> => id !== null);
+}
+
+// Tail of the member's active track, simplified, to seed the breadcrumb
+async function getActiveTrackTail(ctx: MutationCtx, userId: Id<"users">) {
+  const track = await ctx.db
+    .query("tracks")
+    .withIndex("by_user_active", (q) =>
+      q.eq("userId", userId).eq("isActive", true),
+    )
+    .first();
+  if (!track) {
+    return { trackId: undefined, points: [] };
+  }
+
+  const points = await loadTrackPoints(ctx, track);
+  const tail = simplifyPath(points, BREADCRUMB_SIMPLIFY_TOLERANCE_METERS)
+    .slice(-TRACK_TAIL_POINTS)
+    .map(({ lat, lng, timestamp }) => ({ lat, lng, timestamp }));
+  return { trackId: track._id, points: tail };
+}
+
+export function alertRecipientIds(alert: Alert) {
+  const ids = new Set<Id<"users">>(alert.notifiedUserIds);
+  for (const contact of alert.notifiedContacts) {
+    if (contact.userId) ids.add(contact.userId);
+  }
+  return [...ids];
+}
+
+// Contacts who are also friends are only counted once
+export function alertRecipientCount(alert: Alert) {
+  const outsideContacts = alert.notifiedContacts.filter(
+    (contact) => !contact.userId,
+  );
+  return outsideContacts.length + alertRecipientIds(alert).length;
+}
+
+function describeAlert(
+  alert: Alert,
+  name: string,
+): { kind: NotificationKind; title: string; message: string } {
+  if (alert.status !== "active") {
+    return {
+      kind: "emergency_alert_resolved",
+      title: `${name} is safe`,
+      message: `${name} has ${alert.status} their emergency alert.`,
+    };
+  }
+  if (alert.source === "overdue") {
+    const where = alert.huntLocation ? ` at ${alert.huntLocation.name}` : "";
+    return {
+      kind: "emergency_alert",
+      title: `${name} is overdue`,
+      message: `${name} hasn't checked in from their hunt${where}. Tap to see their last known location.`,
+    };
+  }
+  return {
+    kind: "emergency_alert",
+    title: `SOS from ${name}`,
+    message: alert.message
+      ? `${name} needs help: "${alert.message}". Tap to follow their location.`
+      : `${name} needs help. Tap to follow their location.`,
+  };
+}
+
+// In-app notifications for everyone on the alert. relatedId carries the
+// share token so the notification can open the live status page.
+async function notifyRecipients(
+  ctx: MutationCtx,
+  alert: Alert,
+  sender: Doc<"users">,
+) {
+  const { kind, title, message } = describeAlert(
+    alert,
+    sender.name ?? "A member",
+  );
+
+  for (const userId of alertRecipientIds(alert)) {
+    await sendNotification(ctx, {
+      userId,
+      kind,
+      title,
+      message,
+      relatedId: alert.shareToken,
+    });
+  }
+}
+
+export async function getActiveAlert(ctx: MutationCtx, userId: Id<"users">) {
+  return await ctx.db
+    .query("emergencyAlerts")
+    .withIndex("by_user_status", (q) =>
+      q.eq("userId", userId).eq("status", "active"),
+    )
+    .first();
+}
+
+/**
+ * Record a new alert and notify the member's contacts and friends in-app.
+ * Returns the stored alert.
+ */
+export async function createEmergencyAlert(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  options: AlertLocation & {
+    source: "sos" | "overdue";
+    message?: string;
+    huntId?: Id<"hunts">;
+    huntLocation?: Alert["huntLocation"];
+    // When the position was recorded, if earlier than now
+    locationUpdatedAt?: number;
+  },
+): Promise<Alert> {
+  const now = Date.now();
+  const locationUpdatedAt = options.locationUpdatedAt ?? now;
+  const { trackId, points } = await getActiveTrackTail(ctx, user._id);
+  const notifiedContacts = await resolveContacts(ctx, user);
+  const notifiedUserIds = await getFriendsSharingLocation(ctx, user._id);
+
+  const alertId = await ctx.db.insert("emergencyAlerts", {
+    userId: user._id,
+    status: "active",
+    source: options.source,
+    message:
+      options.message?.trim().slice(0, MAX_ALERT_MESSAGE_LENGTH) || undefined,
+    shareToken: generateShareToken(),
+    lat: options.lat,
+    lng: options.lng,
+    accuracy: options.accuracy,
+    locationUpdatedAt,
+    trackId,
+    breadcrumb: appendBreadcrumb(points, {
+      lat: options.lat,
+      lng: options.lng,
+      timestamp: locationUpdatedAt,
+    }),
+    huntId: options.huntId,
+    huntLocation: options.huntLocation,
+    notifiedContacts,
+    notifiedUserIds,
+    createdAt: now,
+  });
+
+  const alert = (await ctx.db.get(alertId))!;
+  await notifyRecipients(ctx, alert, user);
+  return alert;
+}
+
+/**
+ * Close an active alert and tell everyone who was notified. Closing an
+ * overdue alert also counts as checking in for its hunt.
+ */
+export async function closeEmergencyAlert(
+  ctx: MutationCtx,
+  alert: Alert,
+  user: Doc<"users">,
+  status: "resolved" | "cancelled",
+  note?: string,
+): Promise<Alert> {
+  const now = Date.now();
+  await ctx.db.patch(alert._id, {
+    status,
+    resolvedAt: now,
+    resolutionNote: note?.trim().slice(0, MAX_ALERT_MESSAGE_LENGTH) || undefined,
+  });
+
+  if (alert.huntId) {
+    const hunt = await ctx.db.get(alert.huntId);
+    if (hunt && hunt.checkInStatus !== "checked_in") {
+      await ctx.db.patch(hunt._id, {
+        checkInStatus: "checked_in",
+        checkedInAt: now,
+        nextCheckInActionAt: undefined,
+        updatedAt: now,
+      });
+    }
+  }
+
+  const closed = (await ctx.db.get(alert._id))!;
+  await notifyRecipients(ctx, closed, user);
+  return closed;
+}
@@ -0,0 +1,122 @@
+import { ConvexError } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { MutationCtx, QueryCtx } from "./_generated/server.d.ts";
+
+// Friend groups are owned by one member, who picks the other members from
+// their friends. Everyone in a group, owner included, can share their
+// location, tracks and waypoints with it and open its map.
+
+export async function isInGroup(
+  ctx: QueryCtx,
+  group: Doc<"friendGroups">,
+  userId: Id<"users">,
+) {
+  if (group.ownerId === userId) return true;
+  const membership = await ctx.db
+    .query("friendGroupMembers")
+    .withIndex("by_group", (q) =>
+      q.eq("groupId", group._id).eq("userId", userId),
+    )
+    .unique();
+  return membership !== null;
+}
+
+/**
+ * Owner first, then the members in the order they were added
+ */
+export async function getGroupMemberIds(
+  ctx: QueryCtx,
+  group: Doc<"friendGroups">,
+): Promise<Id<"users">[]> {
+  const memberships = await ctx.db
+    .query("friendGroupMembers")
+    .withIndex("by_group", (q) => q.eq("groupId", group._id))
+    .collect();
+  return [group.ownerId, ...memberships.map((m) => m.userId)];
+}
+
+/**
+ * Groups the user owns or belongs to
+ */
+export async function getUserGroups(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+): Promise<Doc<"friendGroups">[]> {
+  const [owned, memberships] = await Promise.all([
+    ctx.db
+      .query("friendGroups")
+      .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+      .collect(),
+    ctx.db
+      .query("friendGroupMembers")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect(),
+  ]);
+  const memberOf = await Promise.all(
+    memberships.map((membership) => ctx.db.get(membership.groupId)),
+  );
+  return [...owned, ...memberOf.filter((g) => g !== null)];
+}
+
+/**
+ * Load groups the user is about to share with or invite from, failing if
+ * any is missing or the user isn't in it
+ */
+export async function getGroupsForSharing(
+  ctx: QueryCtx,
+  groupIds: Id<"friendGroups">[],
+  userId: Id<"users">,
+): Promise<Doc<"friendGroups">[]> {
+  const groups: Doc<"friendGroups">[] = [];
+  for (const groupId of new Set(groupIds)) {
+    const group = await ctx.db.get(groupId);
+    if (!group || !(await isInGroup(ctx, group, userId))) {
+      throw new ConvexError({
+        message: "Group not found",
+        code: "NOT_FOUND",
+      });
+    }
+    groups.push(group);
+  }
+  return groups;
+}
+
+/**
+ * Stop sharing a member's tracks and waypoints with a group they're leaving
+ */
+export async function removeMemberShares(
+  ctx: MutationCtx,
+  group: Doc<"friendGroups">,
+  userId: Id<"users">,
+) {
+  const shares = await ctx.db
+    .query("mapItemShares")
+    .withIndex("by_group", (q) => q.eq("groupId", group._id))
+    .filter((q) => q.eq(q.field("ownerId"), userId))
+    .collect();
+  for (const share of shares) {
+    await ctx.db.delete(share._id);
+  }
+}
+
+/**
+ * Take `userId` out of every group `ownerId` owns, along with what they
+ * shared with it, e.g. when they stop being friends
+ */
+export async function removeFromOwnedGroups(
+  ctx: MutationCtx,
+  ownerId: Id<"users">,
+  userId: Id<"users">,
+) {
+  const memberships = await ctx.db
+    .query("friendGroupMembers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  for (const membership of memberships) {
+    const group = await ctx.db.get(membership.groupId);
+    if (group?.ownerId === ownerId) {
+      await ctx.db.delete(membership._id);
+      await removeMemberShares(ctx, group, userId);
+    }
+  }
+}
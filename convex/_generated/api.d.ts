@@ -8,25 +8,61 @@
  * @module
  */
 
+import type * as _blocks from "../_blocks.js";
+import type * as _email from "../_email.js";
+import type * as _emergencyAlerts from "../_emergencyAlerts.js";
+import type * as _friendGroups from "../_friendGroups.js";
+import type * as _geo from "../_geo.js";
+import type * as _geoIndex from "../_geoIndex.js";
+import type * as _geoPoints from "../_geoPoints.js";
+import type * as _gpsFormats from "../_gpsFormats.js";
 import type * as _helpers from "../_helpers.js";
+import type * as _historicalWeather from "../_historicalWeather.js";
+import type * as _huntConditions from "../_huntConditions.js";
+import type * as _landImport from "../_landImport.js";
+import type * as _mapItemShares from "../_mapItemShares.js";
+import type * as _notificationKinds from "../_notificationKinds.js";
+import type * as _notifications from "../_notifications.js";
+import type * as _permissions from "../_permissions.js";
+import type * as _recoveryAlerts from "../_recoveryAlerts.js";
+import type * as _recoveryResponders from "../_recoveryResponders.js";
+import type * as _solunar from "../_solunar.js";
+import type * as _trackProcessing from "../_trackProcessing.js";
+import type * as _trackSegments from "../_trackSegments.js";
+import type * as _weather from "../_weather.js";
 import type * as activeViewers from "../activeViewers.js";
 import type * as audit from "../audit.js";
 import type * as auth from "../auth.js";
+import type * as crons from "../crons.js";
 import type * as deerRecovery from "../deerRecovery.js";
+import type * as emails_EmergencyAlertEmail from "../emails/EmergencyAlertEmail.js";
+import type * as emails_NotificationEmail from "../emails/NotificationEmail.js";
+import type * as emergencyAlerts from "../emergencyAlerts.js";
 import type * as errors from "../errors.js";
 import type * as forums from "../forums.js";
+import type * as friendGroups from "../friendGroups.js";
 import type * as friends from "../friends.js";
+import type * as gpsFiles from "../gpsFiles.js";
 import type * as http from "../http.js";
 import type * as huntingUnits from "../huntingUnits.js";
 import type * as hunts from "../hunts.js";
+import type * as landImport from "../landImport.js";
 import type * as landLeases from "../landLeases.js";
+import type * as landStatus from "../landStatus.js";
 import type * as locationSharing from "../locationSharing.js";
+import type * as mapItemShares from "../mapItemShares.js";
+import type * as notifications from "../notifications.js";
+import type * as offlineRegions from "../offlineRegions.js";
 import type * as otp_ResendOTP from "../otp/ResendOTP.js";
 import type * as otp_VerificationCodeEmail from "../otp/VerificationCodeEmail.js";
 import type * as passwordReset_PasswordResetEmail from "../passwordReset/PasswordResetEmail.js";
 import type * as passwordReset_ResendOTPPasswordReset from "../passwordReset/ResendOTPPasswordReset.js";
 import type * as profile from "../profile.js";
 import type * as properties from "../properties.js";
+import type * as push from "../push.js";
+import type * as pushDelivery from "../pushDelivery.js";
+import type * as recoveryResponders from "../recoveryResponders.js";
+import type * as recoveryVolunteers from "../recoveryVolunteers.js";
 import type * as roles from "../roles.js";
 import type * as scoutingTrips from "../scoutingTrips.js";
 import type * as solunar from "../solunar.js";
@@ -44,25 +80,61 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  _blocks: typeof _blocks;
+  _email: typeof _email;
+  _emergencyAlerts: typeof _emergencyAlerts;
+  _friendGroups: typeof _friendGroups;
+  _geo: typeof _geo;
+  _geoIndex: typeof _geoIndex;
+  _geoPoints: typeof _geoPoints;
+  _gpsFormats: typeof _gpsFormats;
   _helpers: typeof _helpers;
+  _historicalWeather: typeof _historicalWeather;
+  _huntConditions: typeof _huntConditions;
+  _landImport: typeof _landImport;
+  _mapItemShares: typeof _mapItemShares;
+  _notificationKinds: typeof _notificationKinds;
+  _notifications: typeof _notifications;
+  _permissions: typeof _permissions;
+  _recoveryAlerts: typeof _recoveryAlerts;
+  _recoveryResponders: typeof _recoveryResponders;
+  _solunar: typeof _solunar;
+  _trackProcessing: typeof _trackProcessing;
+  _trackSegments: typeof _trackSegments;
+  _weather: typeof _weather;
   activeViewers: typeof activeViewers;
   audit: typeof audit;
   auth: typeof auth;
+  crons: typeof crons;
   deerRecovery: typeof deerRecovery;
+  "emails/EmergencyAlertEmail": typeof emails_EmergencyAlertEmail;
+  "emails/NotificationEmail": typeof emails_NotificationEmail;
+  emergencyAlerts: typeof emergencyAlerts;
   errors: typeof errors;
   forums: typeof forums;
+  friendGroups: typeof friendGroups;
   friends: typeof friends;
+  gpsFiles: typeof gpsFiles;
   http: typeof http;
   huntingUnits: typeof huntingUnits;
   hunts: typeof hunts;
+  landImport: typeof landImport;
   landLeases: typeof landLeases;
+  landStatus: typeof landStatus;
   locationSharing: typeof locationSharing;
+  mapItemShares: typeof mapItemShares;
+  notifications: typeof notifications;
+  offlineRegions: typeof offlineRegions;
   "otp/ResendOTP": typeof otp_ResendOTP;
   "otp/VerificationCodeEmail": typeof otp_VerificationCodeEmail;
   "passwordReset/PasswordResetEmail": typeof passwordReset_PasswordResetEmail;
   "passwordReset/ResendOTPPasswordReset": typeof passwordReset_ResendOTPPasswordReset;
   profile: typeof profile;
   properties: typeof properties;
+  push: typeof push;
+  pushDelivery: typeof pushDelivery;
+  recoveryResponders: typeof recoveryResponders;
+  recoveryVolunteers: typeof recoveryVolunteers;
   roles: typeof roles;
   scoutingTrips: typeof scoutingTrips;
   solunar: typeof solunar;
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "vitest";
+import {
+  boundaryAreaSquareMeters,
+  boundaryCentroid,
+  boundingBoxesIntersect,
+  countGeohashesCovering,
+  encodeGeohash,
+  geohashBounds,
+  geohashesCovering,
+  haversineMeters,
+  pointInBoundaries,
+  polygonBoundingBox,
+  type Boundaries,
+} from "./_geo";
+
+// A 0.01° square with a 0.002° hole in the middle
+const square: Boundaries = {
+  type: "Polygon",
+  coordinates: [
+    [
+      [-93.01, 45],
+      [-93, 45],
+      [-93, 45.01],
+      [-93.01, 45.01],
+      [-93.01, 45],
+    ],
+    [
+      [-93.006, 45.004],
+      [-93.004, 45.004],
+      [-93.004, 45.006],
+      [-93.006, 45.006],
+      [-93.006, 45.004],
+    ],
+  ],
+};
+
+describe("haversineMeters", () => {
+  test("measures a degree of latitude", () => {
+    expect(haversineMeters(45, -93, 46, -93)).toBeCloseTo(111_195, -1);
+    expect(haversineMeters(45, -93, 45, -93)).toBe(0);
+  });
+});
+
+describe("geohash", () => {
+  test("encodes the reference coordinate", () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe("u4pruydqqvj");
+  });
+
+  test("decodes a cell to bounds around its points", () => {
+    const bounds = geohashBounds(encodeGeohash(45.1, -93.2, 6));
+    expect(bounds.minLat).toBeLessThanOrEqual(45.1);
+    expect(bounds.maxLat).toBeGreaterThanOrEqual(45.1);
+    expect(bounds.minLng).toBeLessThanOrEqual(-93.2);
+    expect(bounds.maxLng).toBeGreaterThanOrEqual(-93.2);
+  });
+
+  test("covers a box with the counted number of distinct cells", () => {
+    const bbox = { minLat: 45, maxLat: 45.3, minLng: -93.3, maxLng: -93 };
+    const cells = geohashesCovering(bbox, 5);
+    expect(cells).toHaveLength(countGeohashesCovering(bbox, 5));
+    expect(new Set(cells).size).toBe(cells.length);
+    expect(cells).toContain(encodeGeohash(45.15, -93.15, 5));
+  });
+});
+
+describe("polygons", () => {
+  test("bounds only the outer ring", () => {
+    expect(polygonBoundingBox([square.coordinates as number[][][]])).toEqual({
+      minLat: 45,
+      maxLat: 45.01,
+      minLng: -93.01,
+      maxLng: -93,
+    });
+  });
+
+  test("tests boxes for overlap", () => {
+    const a = { minLat: 0, maxLat: 1, minLng: 0, maxLng: 1 };
+    expect(
+      boundingBoxesIntersect(a, { minLat: 1, maxLat: 2, minLng: 1, maxLng: 2 }),
+    ).toBe(true);
+    expect(
+      boundingBoxesIntersect(a, { minLat: 2, maxLat: 3, minLng: 0, maxLng: 1 }),
+    ).toBe(false);
+  });
+
+  test("leaves holes out", () => {
+    expect(pointInBoundaries(45.002, -93.008, square)).toBe(true);
+    expect(pointInBoundaries(45.005, -93.005, square)).toBe(false);
+    expect(pointInBoundaries(45.02, -93.005, square)).toBe(false);
+  });
+
+  test("finds the centroid and area", () => {
+    const centroid = boundaryCentroid(square);
+    expect(centroid.lat).toBeCloseTo(45.005, 6);
+    expect(centroid.lng).toBeCloseTo(-93.005, 6);
+
+    // 0.01° squared less the 0.002° hole, about 0.96 of ~873,000 m²
+    const area = boundaryAreaSquareMeters(square);
+    expect(area).toBeGreaterThan(820_000);
+    expect(area).toBeLessThan(860_000);
+  });
+});
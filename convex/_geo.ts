@@ -0,0 +1,331 @@
+/**
+ * Shared geographic helpers for Convex functions
+ */
+
+const EARTH_RADIUS_METERS = 6371e3;
+
+/**
+ * Great-circle distance between two coordinates in meters (Haversine formula)
+ */
+export function haversineMeters(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
+  const Δλ = ((lng2 - lng1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS_METERS * c;
+}
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// GeoJSON polygon rings are arrays of [lng, lat] positions
+export type PolygonRings = number[][][];
+
+/**
+ * Bounding box of one or more GeoJSON polygons
+ */
+export function polygonBoundingBox(polygons: PolygonRings[]): BoundingBox {
+  const bbox: BoundingBox = {
+    minLat: Infinity,
+    maxLat: -Infinity,
+    minLng: Infinity,
+    maxLng: -Infinity,
+  };
+  for (const rings of polygons) {
+    // Holes lie inside the outer ring, so it alone defines the extent
+    for (const [lng, lat] of rings[0] ?? []) {
+      bbox.minLat = Math.min(bbox.minLat, lat);
+      bbox.maxLat = Math.max(bbox.maxLat, lat);
+      bbox.minLng = Math.min(bbox.minLng, lng);
+      bbox.maxLng = Math.max(bbox.maxLng, lng);
+    }
+  }
+  return bbox;
+}
+
+export function boundingBoxesIntersect(a: BoundingBox, b: BoundingBox) {
+  return (
+    a.minLat <= b.maxLat &&
+    a.maxLat >= b.minLat &&
+    a.minLng <= b.maxLng &&
+    a.maxLng >= b.minLng
+  );
+}
+
+const GEOHASH_BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+/**
+ * Standard geohash of a coordinate at the given precision (1-12 chars)
+ */
+export function encodeGeohash(
+  lat: number,
+  lng: number,
+  precision: number,
+): string {
+  let latMin = -90;
+  let latMax = 90;
+  let lngMin = -180;
+  let lngMax = 180;
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        value = value * 2 + 1;
+        lngMin = mid;
+      } else {
+        value = value * 2;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        value = value * 2 + 1;
+        latMin = mid;
+      } else {
+        value = value * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += GEOHASH_BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * The area a geohash cell covers
+ */
+export function geohashBounds(hash: string): BoundingBox {
+  let minLat = -90;
+  let maxLat = 90;
+  let minLng = -180;
+  let maxLng = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = GEOHASH_BASE32.indexOf(char);
+    for (let bit = 4; bit >= 0; bit--) {
+      const set = ((value >> bit) & 1) === 1;
+      if (evenBit) {
+        const mid = (minLng + maxLng) / 2;
+        if (set) minLng = mid;
+        else maxLng = mid;
+      } else {
+        const mid = (minLat + maxLat) / 2;
+        if (set) minLat = mid;
+        else maxLat = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { minLat, maxLat, minLng, maxLng };
+}
+
+/**
+ * Height and width in degrees of a geohash cell at the given precision
+ */
+export function geohashCellSize(precision: number) {
+  const totalBits = precision * 5;
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return {
+    latDegrees: 180 / Math.pow(2, latBits),
+    lngDegrees: 360 / Math.pow(2, lngBits),
+  };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Number of geohash cells needed to cover a bounding box at a precision
+ */
+export function countGeohashesCovering(bbox: BoundingBox, precision: number) {
+  const { latDegrees, lngDegrees } = geohashCellSize(precision);
+  const rows =
+    Math.floor((clamp(bbox.maxLat, -90, 90) + 90) / latDegrees) -
+    Math.floor((clamp(bbox.minLat, -90, 90) + 90) / latDegrees) +
+    1;
+  const cols =
+    Math.floor((clamp(bbox.maxLng, -180, 180) + 180) / lngDegrees) -
+    Math.floor((clamp(bbox.minLng, -180, 180) + 180) / lngDegrees) +
+    1;
+  return rows * cols;
+}
+
+/**
+ * All geohash cells at a precision that intersect a bounding box
+ */
+export function geohashesCovering(
+  bbox: BoundingBox,
+  precision: number,
+): string[] {
+  const { latDegrees, lngDegrees } = geohashCellSize(precision);
+  const minRow = Math.floor((clamp(bbox.minLat, -90, 90) + 90) / latDegrees);
+  const maxRow = Math.floor((clamp(bbox.maxLat, -90, 90) + 90) / latDegrees);
+  const minCol = Math.floor((clamp(bbox.minLng, -180, 180) + 180) / lngDegrees);
+  const maxCol = Math.floor((clamp(bbox.maxLng, -180, 180) + 180) / lngDegrees);
+
+  const cells: string[] = [];
+  for (let row = minRow; row <= maxRow; row++) {
+    for (let col = minCol; col <= maxCol; col++) {
+      // Encode the cell center so floating point edges can't spill over
+      const lat = clamp(-90 + (row + 0.5) * latDegrees, -90, 90);
+      const lng = clamp(-180 + (col + 0.5) * lngDegrees, -180, 180);
+      cells.push(encodeGeohash(lat, lng, precision));
+    }
+  }
+  return cells;
+}
+
+// Ray casting test against a single ring of [lng, lat] positions
+function pointInRing(lat: number, lng: number, ring: number[][]) {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    const crosses =
+      latI > lat !== latJ > lat &&
+      lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a coordinate lies inside a GeoJSON polygon (outer ring minus holes)
+ */
+export function pointInPolygon(lat: number, lng: number, rings: PolygonRings) {
+  if (rings.length === 0 || !pointInRing(lat, lng, rings[0])) {
+    return false;
+  }
+  return !rings.slice(1).some((hole) => pointInRing(lat, lng, hole));
+}
+
+// GeoJSON geometry stored in `boundaries` on properties and huntingUnits
+export type Boundaries =
+  | { type: "Polygon"; coordinates: PolygonRings }
+  | { type: "MultiPolygon"; coordinates: PolygonRings[] };
+
+export function boundaryPolygons(boundaries: Boundaries): PolygonRings[] {
+  return boundaries.type === "Polygon"
+    ? [boundaries.coordinates]
+    : boundaries.coordinates;
+}
+
+export function pointInBoundaries(
+  lat: number,
+  lng: number,
+  boundaries: Boundaries,
+) {
+  return boundaryPolygons(boundaries).some((rings) =>
+    pointInPolygon(lat, lng, rings),
+  );
+}
+
+// Signed planar area and centroid of a ring, in degrees
+function ringAreaAndCentroid(ring: number[][]) {
+  // Work relative to the first vertex to keep the cross products precise
+  const [originLng, originLat] = ring[0] ?? [0, 0];
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const x1 = ring[j][0] - originLng;
+    const y1 = ring[j][1] - originLat;
+    const x2 = ring[i][0] - originLng;
+    const y2 = ring[i][1] - originLat;
+    const cross = x1 * y2 - x2 * y1;
+    area += cross;
+    cx += (x1 + x2) * cross;
+    cy += (y1 + y2) * cross;
+  }
+  area /= 2;
+  return area === 0
+    ? { area: 0, lng: originLng, lat: originLat }
+    : {
+        area,
+        lng: originLng + cx / (6 * area),
+        lat: originLat + cy / (6 * area),
+      };
+}
+
+/**
+ * Area-weighted centroid of the outer rings. Falls back to the bounding box
+ * center for degenerate shapes.
+ */
+export function boundaryCentroid(boundaries: Boundaries) {
+  let totalArea = 0;
+  let lat = 0;
+  let lng = 0;
+  for (const rings of boundaryPolygons(boundaries)) {
+    if (!rings[0]) continue;
+    const ring = ringAreaAndCentroid(rings[0]);
+    const weight = Math.abs(ring.area);
+    totalArea += weight;
+    lat += ring.lat * weight;
+    lng += ring.lng * weight;
+  }
+
+  if (totalArea === 0) {
+    const bbox = polygonBoundingBox(boundaryPolygons(boundaries));
+    return {
+      lat: (bbox.minLat + bbox.maxLat) / 2,
+      lng: (bbox.minLng + bbox.maxLng) / 2,
+    };
+  }
+  return { lat: lat / totalArea, lng: lng / totalArea };
+}
+
+/**
+ * Approximate surface area in square meters (outer rings minus holes),
+ * projecting each ring around its own latitude
+ */
+export function boundaryAreaSquareMeters(boundaries: Boundaries) {
+  const metersPerDegLat = (Math.PI * EARTH_RADIUS_METERS) / 180;
+  let total = 0;
+  for (const rings of boundaryPolygons(boundaries)) {
+    rings.forEach((ring, index) => {
+      if (ring.length === 0) return;
+      const meanLat = ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length;
+      const metersPerDegLng =
+        metersPerDegLat * Math.cos((meanLat * Math.PI) / 180);
+      const area =
+        Math.abs(ringAreaAndCentroid(ring).area) *
+        metersPerDegLat *
+        metersPerDegLng;
+      total += index === 0 ? area : -area;
+    });
+  }
+  return Math.max(0, total);
+}
@@ -0,0 +1,61 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import { addToGeoIndex, findInGeoIndex, removeFromGeoIndex } from "./_geoIndex";
+
+// A ~100m parcel, a county-sized unit and a parcel a few miles away
+const parcel = { minLat: 45.0, maxLat: 45.001, minLng: -93.0, maxLng: -92.999 };
+const county = { minLat: 44.5, maxLat: 45.5, minLng: -93.5, maxLng: -92.5 };
+const farParcel = {
+  minLat: 45.1,
+  maxLat: 45.101,
+  minLng: -93.0,
+  maxLng: -92.999,
+};
+
+// A viewport of a few hundred meters around the first parcel
+const viewport = {
+  minLat: 44.999,
+  maxLat: 45.002,
+  minLng: -93.001,
+  maxLng: -92.998,
+};
+
+describe("findInGeoIndex", () => {
+  test("finds small entities in the viewport and large ones around it", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      await addToGeoIndex(ctx, "property", "parcel", parcel);
+      await addToGeoIndex(ctx, "property", "county", county);
+      await addToGeoIndex(ctx, "property", "far", farParcel);
+      await addToGeoIndex(ctx, "huntingUnit", "unit", parcel);
+
+      const found = await findInGeoIndex(ctx, "property", viewport, 10);
+      expect(found.sort()).toEqual(["county", "parcel"]);
+    });
+  });
+
+  test("stops at the limit", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      for (let i = 0; i < 5; i++) {
+        await addToGeoIndex(ctx, "property", `parcel-${i}`, parcel);
+      }
+      expect(await findInGeoIndex(ctx, "property", viewport, 3)).toHaveLength(
+        3,
+      );
+    });
+  });
+
+  test("reindexing replaces the old cells", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      await addToGeoIndex(ctx, "property", "moved", parcel);
+      await addToGeoIndex(ctx, "property", "moved", farParcel);
+      expect(await findInGeoIndex(ctx, "property", viewport, 10)).toEqual([]);
+
+      await removeFromGeoIndex(ctx, "property", "moved");
+      expect(await ctx.db.query("geoIndex").collect()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import type { MutationCtx, QueryCtx } from "./_generated/server.d.ts";
+import {
+  boundingBoxesIntersect,
+  countGeohashesCovering,
+  geohashesCovering,
+  boundaryPolygons,
+  polygonBoundingBox,
+  type BoundingBox,
+  type Boundaries,
+} from "./_geo";
+
+// Spatial index for polygon layers. Each entity is stored under the geohash
+// cells covering its bounding box, at the finest precision that keeps the
+// cell count small. A viewport query then combines prefix scans (entities
+// indexed at the viewport's precision or finer) with exact lookups of
+// ancestor cells (large entities indexed coarser than the viewport).
+
+export type GeoEntityType = "property" | "huntingUnit";
+
+const MIN_PRECISION = 1;
+const MAX_PRECISION = 7; // ~150m cells
+const MAX_CELLS_PER_ENTITY = 8;
+const MAX_CELLS_PER_QUERY = 16;
+// Index rows one viewport query may read, across all of its cells
+const MAX_ROWS_PER_QUERY = 2000;
+
+// Geohash characters all sort below "~", so prefix + "~" bounds a prefix scan
+const PREFIX_END = "~";
+
+function chooseEntityPrecision(bbox: BoundingBox) {
+  for (let precision = MAX_PRECISION; precision > MIN_PRECISION; precision--) {
+    if (countGeohashesCovering(bbox, precision) <= MAX_CELLS_PER_ENTITY) {
+      return precision;
+    }
+  }
+  return MIN_PRECISION;
+}
+
+function chooseQueryPrecision(bbox: BoundingBox) {
+  for (let precision = MAX_PRECISION; precision > MIN_PRECISION; precision--) {
+    if (countGeohashesCovering(bbox, precision) <= MAX_CELLS_PER_QUERY) {
+      return precision;
+    }
+  }
+  return MIN_PRECISION;
+}
+
+export async function removeFromGeoIndex(
+  ctx: MutationCtx,
+  entityType: GeoEntityType,
+  entityId: string,
+) {
+  const existing = await ctx.db
+    .query("geoIndex")
+    .withIndex("by_entity", (q) =>
+      q.eq("entityType", entityType).eq("entityId", entityId),
+    )
+    .collect();
+  for (const row of existing) {
+    await ctx.db.delete(row._id);
+  }
+}
+
+/**
+ * (Re)index an entity under the cells covering its bounding box
+ */
+export async function addToGeoIndex(
+  ctx: MutationCtx,
+  entityType: GeoEntityType,
+  entityId: string,
+  bbox: BoundingBox,
+) {
+  await removeFromGeoIndex(ctx, entityType, entityId);
+
+  const precision = chooseEntityPrecision(bbox);
+  for (const cell of geohashesCovering(bbox, precision)) {
+    await ctx.db.insert("geoIndex", {
+      entityType,
+      entityId,
+      cell,
+      minLat: bbox.minLat,
+      maxLat: bbox.maxLat,
+      minLng: bbox.minLng,
+      maxLng: bbox.maxLng,
+    });
+  }
+}
+
+/**
+ * Ids of entities whose bounding box intersects `bbox`, at most `limit`.
+ * Stops early once `limit` is reached or MAX_ROWS_PER_QUERY index rows have
+ * been read, so a crowded viewport returns a partial result rather than
+ * reading the whole layer.
+ */
+export async function findInGeoIndex(
+  ctx: QueryCtx,
+  entityType: GeoEntityType,
+  bbox: BoundingBox,
+  limit: number,
+): Promise<string[]> {
+  const precision = chooseQueryPrecision(bbox);
+  const cells = geohashesCovering(bbox, precision);
+
+  const ancestors = new Set<string>();
+  for (const cell of cells) {
+    for (let length = MIN_PRECISION; length < cell.length; length++) {
+      ancestors.add(cell.slice(0, length));
+    }
+  }
+
+  const found = new Set<string>();
+  let rowsRead = 0;
+  const done = () => found.size >= limit || rowsRead >= MAX_ROWS_PER_QUERY;
+  const collect = (rows: (BoundingBox & { entityId: string })[]) => {
+    rowsRead += rows.length;
+    for (const row of rows) {
+      if (found.size >= limit) return;
+      // Cells are coarse; check the stored extent against the viewport
+      if (boundingBoxesIntersect(row, bbox)) {
+        found.add(row.entityId);
+      }
+    }
+  };
+
+  for (const ancestor of ancestors) {
+    if (done()) break;
+    collect(
+      await ctx.db
+        .query("geoIndex")
+        .withIndex("by_type_cell", (q) =>
+          q.eq("entityType", entityType).eq("cell", ancestor),
+        )
+        .take(MAX_ROWS_PER_QUERY - rowsRead),
+    );
+  }
+
+  for (const cell of cells) {
+    if (done()) break;
+    collect(
+      await ctx.db
+        .query("geoIndex")
+        .withIndex("by_type_cell", (q) =>
+          q
+            .eq("entityType", entityType)
+            .gte("cell", cell)
+            .lt("cell", cell + PREFIX_END),
+        )
+        .take(
+          Math.min(limit * MAX_CELLS_PER_ENTITY, MAX_ROWS_PER_QUERY - rowsRead),
+        ),
+    );
+  }
+
+  return [...found];
+}
+
+/**
+ * Index an entity by its GeoJSON `boundaries`
+ */
+export async function indexBoundaries(
+  ctx: MutationCtx,
+  entityType: GeoEntityType,
+  entityId: string,
+  boundaries: Boundaries,
+) {
+  await addToGeoIndex(
+    ctx,
+    entityType,
+    entityId,
+    polygonBoundingBox(boundaryPolygons(boundaries)),
+  );
+}
@@ -0,0 +1,133 @@
+import { describe, expect, test } from "vitest";
+import {
+  distanceMiles,
+  geohashPrefixesForRadius,
+  GEOHASH_PREFIX_END,
+  METERS_PER_MILE,
+  paginateByDistance,
+  pointGeohash,
+  scanPointsInRadius,
+} from "./_geoPoints";
+
+interface Row {
+  _id: string;
+  lat: number;
+  lng: number;
+  geohash: string;
+}
+
+// Rows in a ring of increasing distance north-east of the origin, plus a
+// crowd of rows packed into one spot
+function makeRows(spread: number, crowded: number): Row[] {
+  const rows: Row[] = [];
+  for (let i = 0; i < spread; i++) {
+    const lat = 45 + (i + 1) * 0.001;
+    const lng = -93 + (i + 1) * 0.001;
+    rows.push({
+      _id: `spread-${i}`,
+      lat,
+      lng,
+      geohash: pointGeohash(lat, lng),
+    });
+  }
+  for (let i = 0; i < crowded; i++) {
+    const lat = 45.03 + i * 0.00001;
+    const lng = -93.03;
+    rows.push({
+      _id: `crowd-${String(i).padStart(4, "0")}`,
+      lat,
+      lng,
+      geohash: pointGeohash(lat, lng),
+    });
+  }
+  return rows.sort((a, b) => (a.geohash < b.geohash ? -1 : 1));
+}
+
+// Mimics an indexed prefix scan, counting the rows it reads
+function scanner(rows: Row[]) {
+  const scan = async (prefix: string, limit: number) => {
+    const matched = rows
+      .filter(
+        (row) =>
+          row.geohash >= prefix && row.geohash < prefix + GEOHASH_PREFIX_END,
+      )
+      .slice(0, limit);
+    scan.reads += matched.length;
+    return matched;
+  };
+  scan.reads = 0;
+  return scan;
+}
+
+describe("geohashPrefixesForRadius", () => {
+  test("covers the origin with a bounded number of cells", () => {
+    const prefixes = geohashPrefixesForRadius(45, -93, 10 * METERS_PER_MILE);
+    expect(prefixes.length).toBeLessThanOrEqual(16);
+    expect(
+      prefixes.some((prefix) => pointGeohash(45, -93).startsWith(prefix)),
+    ).toBe(true);
+  });
+});
+
+describe("scanPointsInRadius", () => {
+  test("splits busy cells instead of dropping rows", async () => {
+    const rows = makeRows(20, 500);
+    const scan = scanner(rows);
+    const result = await scanPointsInRadius(
+      { lat: 45, lng: -93, radiusMeters: 10 * METERS_PER_MILE },
+      scan,
+      { rowsPerCell: 50, maxRows: 10_000 },
+    );
+    expect(result.completeWithinMeters).toBe(10 * METERS_PER_MILE);
+    expect(new Set(result.rows.map((row) => row._id))).toEqual(
+      new Set(rows.map((row) => row._id)),
+    );
+  });
+
+  test("stops at the read budget with the nearest rows", async () => {
+    const rows = makeRows(20, 500);
+    const scan = scanner(rows);
+    const result = await scanPointsInRadius(
+      { lat: 45, lng: -93, radiusMeters: 10 * METERS_PER_MILE },
+      scan,
+      { rowsPerCell: 50, maxRows: 200 },
+    );
+    expect(scan.reads).toBeLessThanOrEqual(200);
+    expect(result.completeWithinMeters).toBeLessThan(10 * METERS_PER_MILE);
+    // Every row nearer than the reported distance was read
+    const within = rows.filter(
+      (row) =>
+        distanceMiles(45, -93, row.lat, row.lng) * METERS_PER_MILE <
+        result.completeWithinMeters,
+    );
+    const read = new Set(result.rows.map((row) => row._id));
+    expect(within.every((row) => read.has(row._id))).toBe(true);
+  });
+});
+
+describe("paginateByDistance", () => {
+  test("pages through every row in range, nearest first", async () => {
+    const rows = makeRows(40, 300);
+    const scan = scanner(rows);
+    const origin = { lat: 45, lng: -93, radiusMiles: 3 };
+    const expected = rows
+      .map((row) => ({
+        ...row,
+        distance: distanceMiles(45, -93, row.lat, row.lng),
+      }))
+      .filter((row) => row.distance <= origin.radiusMiles)
+      .sort((a, b) => a.distance - b.distance || (a._id < b._id ? -1 : 1))
+      .map((row) => row._id);
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    for (let page = 0; page < 100; page++) {
+      const result: Awaited<ReturnType<typeof paginateByDistance<Row>>> =
+        await paginateByDistance(scan, origin, { numItems: 25, cursor });
+      seen.push(...result.page.map((row) => row._id));
+      cursor = result.continueCursor;
+      if (result.isDone) break;
+    }
+    expect(seen).toEqual(expected);
+  });
+});
@@ -0,0 +1,232 @@
+import {
+  countGeohashesCovering,
+  encodeGeohash,
+  geohashBounds,
+  geohashesCovering,
+  haversineMeters,
+  type BoundingBox,
+} from "./_geo";
+
+// Radius search over point data. Each row keeps the geohash of its own
+// coordinate at a fixed precision in an indexed field, so a radius query is
+// a handful of prefix range scans over the cells covering the circle's
+// bounding box, followed by an exact distance check.
+
+export const METERS_PER_MILE = 1609.344;
+
+const POINT_PRECISION = 7; // ~150m cells
+const MAX_CELLS_PER_QUERY = 16;
+const METERS_PER_DEGREE_LAT = 111_320;
+
+// Geohash characters all sort below "~", so prefix + "~" bounds a prefix scan
+export const GEOHASH_PREFIX_END = "~";
+
+/**
+ * Geohash stored on a point row
+ */
+export function pointGeohash(lat: number, lng: number) {
+  return encodeGeohash(lat, lng, POINT_PRECISION);
+}
+
+/**
+ * Bounding box of a circle, widened in longitude for the latitude
+ */
+export function boundingBoxAroundPoint(
+  lat: number,
+  lng: number,
+  radiusMeters: number,
+): BoundingBox {
+  const latDelta = radiusMeters / METERS_PER_DEGREE_LAT;
+  // Keep the cosine away from zero so polar queries stay finite
+  const cosLat = Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  const lngDelta = latDelta / cosLat;
+  return {
+    minLat: lat - latDelta,
+    maxLat: lat + latDelta,
+    minLng: lng - lngDelta,
+    maxLng: lng + lngDelta,
+  };
+}
+
+/**
+ * Geohash prefixes whose cells together cover a circle. Cells at one
+ * precision never overlap, so each point matches at most one prefix.
+ */
+export function geohashPrefixesForRadius(
+  lat: number,
+  lng: number,
+  radiusMeters: number,
+): string[] {
+  const bbox = boundingBoxAroundPoint(lat, lng, radiusMeters);
+  let precision = POINT_PRECISION;
+  while (
+    precision > 1 &&
+    countGeohashesCovering(bbox, precision) > MAX_CELLS_PER_QUERY
+  ) {
+    precision--;
+  }
+  return geohashesCovering(bbox, precision);
+}
+
+// Nearest and farthest a cell's points can be from a coordinate
+function cellDistanceMeters(lat: number, lng: number, cell: string) {
+  const bounds = geohashBounds(cell);
+  const nearestLat = Math.min(Math.max(lat, bounds.minLat), bounds.maxLat);
+  const nearestLng = Math.min(Math.max(lng, bounds.minLng), bounds.maxLng);
+  const farthest = Math.max(
+    ...[bounds.minLat, bounds.maxLat].flatMap((cornerLat) =>
+      [bounds.minLng, bounds.maxLng].map((cornerLng) =>
+        haversineMeters(lat, lng, cornerLat, cornerLng),
+      ),
+    ),
+  );
+  return {
+    nearest: haversineMeters(lat, lng, nearestLat, nearestLng),
+    farthest,
+  };
+}
+
+/**
+ * Rows within the cells covering a circle, read nearest cell first.
+ * `scanCell` reads at most `limit` rows under one geohash prefix. A cell
+ * that fills `rowsPerCell` is split into its child cells within the circle
+ * and read again, down to the stored precision, so a busy cell can't hide
+ * rows nearer the center. Cells entirely nearer than `fromMeters` are
+ * skipped.
+ *
+ * No more than `maxRows` rows are read in all. When that runs out the scan
+ * stops, and `completeWithinMeters` says how far out every row was read;
+ * otherwise it is the radius.
+ */
+export async function scanPointsInRadius<T>(
+  origin: {
+    lat: number;
+    lng: number;
+    radiusMeters: number;
+    fromMeters?: number;
+  },
+  scanCell: (prefix: string, limit: number) => Promise<T[]>,
+  budget: { rowsPerCell: number; maxRows: number },
+): Promise<{ rows: T[]; completeWithinMeters: number }> {
+  const { lat, lng, radiusMeters, fromMeters = 0 } = origin;
+  const bbox = boundingBoxAroundPoint(lat, lng, radiusMeters);
+  const pending: { prefix: string; nearest: number }[] = [];
+  const enqueue = (prefixes: string[]) => {
+    for (const prefix of prefixes) {
+      const { nearest, farthest } = cellDistanceMeters(lat, lng, prefix);
+      if (nearest <= radiusMeters && farthest >= fromMeters) {
+        pending.push({ prefix, nearest });
+      }
+    }
+    // Farthest first, so pop() takes the nearest
+    pending.sort((a, b) => b.nearest - a.nearest);
+  };
+  enqueue(geohashPrefixesForRadius(lat, lng, radiusMeters));
+
+  const rows: T[] = [];
+  let rowsRead = 0;
+  while (pending.length > 0) {
+    const { prefix, nearest } = pending.pop()!;
+    const remaining = budget.maxRows - rowsRead;
+    const finest = prefix.length >= POINT_PRECISION;
+    const limit = finest ? remaining : Math.min(budget.rowsPerCell, remaining);
+    if (limit <= 0) {
+      return { rows, completeWithinMeters: nearest };
+    }
+
+    const cellRows = await scanCell(prefix, limit);
+    rowsRead += cellRows.length;
+    if (cellRows.length < limit) {
+      rows.push(...cellRows);
+    } else if (finest) {
+      // Out of budget partway through a cell
+      return { rows, completeWithinMeters: nearest };
+    } else {
+      enqueue(
+        geohashesCovering(bbox, prefix.length + 1).filter((cell) =>
+          cell.startsWith(prefix),
+        ),
+      );
+    }
+  }
+  return { rows, completeWithinMeters: radiusMeters };
+}
+
+export function distanceMiles(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+) {
+  return haversineMeters(lat1, lng1, lat2, lng2) / METERS_PER_MILE;
+}
+
+// Rows read per cell by a radius feed before the cell is split, and in all
+// for one page
+const MAX_ROWS_PER_CELL = 100;
+const MAX_ROWS_PER_PAGE = 1600;
+
+/**
+ * One page of the points within `radiusMiles` of an origin, nearest first.
+ * `scanCell` reads the rows under one geohash prefix. The cursor is the
+ * distance and id of the last row returned, so pages stay stable while
+ * rows are added or removed, and each page only reads from the cursor's
+ * distance outward.
+ */
+export async function paginateByDistance<
+  T extends { _id: string; lat: number; lng: number },
+>(
+  scanCell: (prefix: string, limit: number) => Promise<T[]>,
+  origin: { lat: number; lng: number; radiusMiles: number },
+  paginationOpts: { numItems: number; cursor: string | null },
+) {
+  let afterDistance = -1;
+  let afterId = "";
+  if (paginationOpts.cursor) {
+    const separator = paginationOpts.cursor.indexOf(":");
+    afterDistance = Number(paginationOpts.cursor.slice(0, separator));
+    afterId = paginationOpts.cursor.slice(separator + 1);
+  }
+
+  const { rows, completeWithinMeters } = await scanPointsInRadius(
+    {
+      lat: origin.lat,
+      lng: origin.lng,
+      radiusMeters: origin.radiusMiles * METERS_PER_MILE,
+      fromMeters: Math.max(afterDistance, 0) * METERS_PER_MILE,
+    },
+    scanCell,
+    { rowsPerCell: MAX_ROWS_PER_CELL, maxRows: MAX_ROWS_PER_PAGE },
+  );
+  const complete = completeWithinMeters >= origin.radiusMiles * METERS_PER_MILE;
+  const completeWithinMiles = completeWithinMeters / METERS_PER_MILE;
+
+  const remaining: (T & { distance: number })[] = [];
+  for (const row of rows) {
+    const distance = distanceMiles(origin.lat, origin.lng, row.lat, row.lng);
+    if (
+      distance <= origin.radiusMiles &&
+      // Past the scanned distance a nearer row may not have been read yet
+      (complete || distance < completeWithinMiles) &&
+      (distance > afterDistance ||
+        (distance === afterDistance && row._id > afterId))
+    ) {
+      remaining.push({ ...row, distance });
+    }
+  }
+  remaining.sort((a, b) => a.distance - b.distance || (a._id < b._id ? -1 : 1));
+
+  const page = remaining.slice(0, paginationOpts.numItems);
+  const last = page[page.length - 1];
+  return {
+    page,
+    // An empty page can't move the cursor on, so a cell too busy to read
+    // within one page ends the feed
+    isDone:
+      page.length === 0 ||
+      (complete && remaining.length <= paginationOpts.numItems),
+    continueCursor: last
+      ? `${last.distance}:${last._id}`
+      : (paginationOpts.cursor ?? ""),
+  };
+}
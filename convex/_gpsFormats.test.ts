@@ -0,0 +1,153 @@
+import { describe, expect, test } from "vitest";
+import {
+  detectGpsFileFormat,
+  fillMissingTimestamps,
+  parseGpx,
+  parseKml,
+  toGpx,
+  toKml,
+  type GpsFileContents,
+} from "./_gpsFormats";
+
+const contents: GpsFileContents = {
+  tracks: [
+    {
+      name: "Morning sit & walk out",
+      description: "North ridge",
+      points: [
+        { lat: 45.1, lng: -93.2, altitude: 280, timestamp: 1_700_000_000_000 },
+        {
+          lat: 45.1005,
+          lng: -93.2004,
+          altitude: 282,
+          timestamp: 1_700_000_060_000,
+        },
+      ],
+    },
+  ],
+  waypoints: [
+    {
+      name: "Oak <stand>",
+      description: "Facing west",
+      lat: 45.102,
+      lng: -93.199,
+      altitude: 290,
+      type: "stand",
+      timestamp: 1_699_999_000_000,
+    },
+  ],
+};
+
+describe("GPX", () => {
+  test("round trips tracks and waypoints", () => {
+    const parsed = parseGpx(toGpx(contents, "Export"));
+    expect(parsed).toEqual(contents);
+  });
+
+  test("reads routes as tracks and skips invalid points", () => {
+    const parsed = parseGpx(`<?xml version="1.0"?>
+      <gpx version="1.1">
+        <rte><name>Drag route</name>
+          <rtept lat="45" lon="-93"></rtept>
+          <rtept lat="95" lon="-93"></rtept>
+          <rtept lat='45.001' lon='-93.001'><ele>nope</ele></rtept>
+        </rte>
+      </gpx>`);
+    expect(parsed.tracks).toEqual([
+      {
+        name: "Drag route",
+        description: undefined,
+        points: [
+          { lat: 45, lng: -93, altitude: undefined, timestamp: undefined },
+          {
+            lat: 45.001,
+            lng: -93.001,
+            altitude: undefined,
+            timestamp: undefined,
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("names waypoints that have none", () => {
+    const parsed = parseGpx(
+      `<gpx><wpt lat="45" lon="-93"><sym>Flag</sym></wpt></gpx>`,
+    );
+    expect(parsed.waypoints[0]).toMatchObject({
+      name: "Imported waypoint",
+      type: "Flag",
+    });
+  });
+});
+
+describe("KML", () => {
+  test("round trips timed tracks through gx:Track", () => {
+    const kml = toKml(contents, "Export");
+    expect(kml).toContain("<gx:Track>");
+    expect(parseKml(kml)).toEqual(contents);
+  });
+
+  test("writes untimed tracks as a LineString", () => {
+    const untimed: GpsFileContents = {
+      tracks: [
+        {
+          name: "Fence line",
+          points: [
+            { lat: 45, lng: -93 },
+            { lat: 45.001, lng: -93.001, altitude: 300 },
+          ],
+        },
+      ],
+      waypoints: [],
+    };
+    const kml = toKml(untimed, "Export");
+    expect(kml).toContain("<LineString>");
+    expect(parseKml(kml).tracks[0].points).toEqual([
+      { lat: 45, lng: -93, altitude: undefined },
+      { lat: 45.001, lng: -93.001, altitude: 300 },
+    ]);
+  });
+
+  test("reads CDATA names", () => {
+    const parsed = parseKml(`<kml><Document><Placemark>
+      <name><![CDATA[Camp & truck]]></name>
+      <Point><coordinates>-93,45</coordinates></Point>
+    </Placemark></Document></kml>`);
+    expect(parsed.waypoints[0].name).toBe("Camp & truck");
+  });
+});
+
+describe("detectGpsFileFormat", () => {
+  test("goes by extension, then by root element", () => {
+    expect(detectGpsFileFormat("Trip.GPX", "")).toBe("gpx");
+    expect(detectGpsFileFormat("trip.kml", "")).toBe("kml");
+    expect(detectGpsFileFormat("export.xml", "<kml>")).toBe("kml");
+    expect(detectGpsFileFormat("export.xml", "<gpx version")).toBe("gpx");
+    expect(detectGpsFileFormat("notes.txt", "hello")).toBeNull();
+  });
+});
+
+describe("fillMissingTimestamps", () => {
+  const point = (timestamp?: number) => ({ lat: 45, lng: -93, timestamp });
+
+  test("spreads untimed points between their timed neighbours", () => {
+    const filled = fillMissingTimestamps(
+      [point(), point(1000), point(), point(), point(1300), point()],
+      5,
+    );
+    expect(filled.map((p) => p.timestamp)).toEqual([
+      999, 1000, 1100, 1200, 1300, 1301,
+    ]);
+  });
+
+  test("lays out a track without times from the fallback", () => {
+    const filled = fillMissingTimestamps([point(), point(), point()], 5);
+    expect(filled.map((p) => p.timestamp)).toEqual([5, 6, 7]);
+  });
+
+  test("sorts timed points into time order", () => {
+    const filled = fillMissingTimestamps([point(2000), point(1000)], 5);
+    expect(filled.map((p) => p.timestamp)).toEqual([1000, 2000]);
+  });
+});
@@ -0,0 +1,444 @@
+/**
+ * GPX 1.1 and KML serialization/parsing for tracks and waypoints.
+ * The Convex runtime has no DOMParser, so parsing is done with a small
+ * tolerant tag scanner that only understands the elements we care about.
+ */
+
+export interface GpsPoint {
+  lat: number;
+  lng: number;
+  timestamp?: number;
+  altitude?: number;
+}
+
+export interface GpsTrack {
+  name: string;
+  description?: string;
+  points: GpsPoint[];
+}
+
+export interface GpsWaypoint {
+  name: string;
+  description?: string;
+  lat: number;
+  lng: number;
+  altitude?: number;
+  type?: string;
+  timestamp?: number;
+}
+
+export interface GpsFileContents {
+  tracks: GpsTrack[];
+  waypoints: GpsWaypoint[];
+}
+
+export type GpsFileFormat = "gpx" | "kml";
+
+const APP_NAME = "Camo & Ammo";
+
+export const GPS_FILE_MIME_TYPES: Record<GpsFileFormat, string> = {
+  gpx: "application/gpx+xml",
+  kml: "application/vnd.google-earth.kml+xml",
+};
+
+// ---------------------------------------------------------------------------
+// Serialization
+// ---------------------------------------------------------------------------
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function isoTime(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function optionalTag(tag: string, value: string | number | undefined) {
+  if (value === undefined || value === "") return "";
+  return `<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
+
+export function toGpx(contents: GpsFileContents, name: string): string {
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="${escapeXml(APP_NAME)}" xmlns="http://www.topografix.com/GPX/1/1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">`,
+    `  <metadata>${optionalTag("name", name)}<time>${isoTime(Date.now())}</time></metadata>`,
+  ];
+
+  for (const wpt of contents.waypoints) {
+    lines.push(
+      `  <wpt lat="${wpt.lat}" lon="${wpt.lng}">` +
+        optionalTag("ele", wpt.altitude) +
+        (wpt.timestamp !== undefined
+          ? `<time>${isoTime(wpt.timestamp)}</time>`
+          : "") +
+        optionalTag("name", wpt.name) +
+        optionalTag("desc", wpt.description) +
+        optionalTag("sym", wpt.type) +
+        optionalTag("type", wpt.type) +
+        `</wpt>`,
+    );
+  }
+
+  for (const track of contents.tracks) {
+    lines.push(
+      `  <trk>${optionalTag("name", track.name)}${optionalTag("desc", track.description)}`,
+    );
+    lines.push(`    <trkseg>`);
+    for (const point of track.points) {
+      lines.push(
+        `      <trkpt lat="${point.lat}" lon="${point.lng}">` +
+          optionalTag("ele", point.altitude) +
+          (point.timestamp !== undefined
+            ? `<time>${isoTime(point.timestamp)}</time>`
+            : "") +
+          `</trkpt>`,
+      );
+    }
+    lines.push(`    </trkseg>`);
+    lines.push(`  </trk>`);
+  }
+
+  lines.push(`</gpx>`);
+  return lines.join("\n");
+}
+
+function kmlCoordinate(point: { lat: number; lng: number; altitude?: number }) {
+  return point.altitude !== undefined
+    ? `${point.lng},${point.lat},${point.altitude}`
+    : `${point.lng},${point.lat}`;
+}
+
+export function toKml(contents: GpsFileContents, name: string): string {
+  const lines: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">`,
+    `<Document>`,
+    `  ${optionalTag("name", name)}`,
+  ];
+
+  for (const wpt of contents.waypoints) {
+    lines.push(
+      `  <Placemark>${optionalTag("name", wpt.name)}${optionalTag("description", wpt.description)}` +
+        (wpt.timestamp !== undefined
+          ? `<TimeStamp><when>${isoTime(wpt.timestamp)}</when></TimeStamp>`
+          : "") +
+        (wpt.type
+          ? `<ExtendedData><Data name="type"><value>${escapeXml(wpt.type)}</value></Data></ExtendedData>`
+          : "") +
+        `<Point><coordinates>${kmlCoordinate(wpt)}</coordinates></Point></Placemark>`,
+    );
+  }
+
+  for (const track of contents.tracks) {
+    lines.push(
+      `  <Placemark>${optionalTag("name", track.name)}${optionalTag("description", track.description)}`,
+    );
+    const timed = track.points.every((p) => p.timestamp !== undefined);
+    if (timed && track.points.length > 0) {
+      // gx:Track keeps per-point timestamps, which LineString cannot
+      lines.push(`    <gx:Track>`);
+      for (const point of track.points) {
+        lines.push(`      <when>${isoTime(point.timestamp!)}</when>`);
+      }
+      for (const point of track.points) {
+        lines.push(
+          `      <gx:coord>${point.lng} ${point.lat}${
+            point.altitude !== undefined ? ` ${point.altitude}` : ""
+          }</gx:coord>`,
+        );
+      }
+      lines.push(`    </gx:Track>`);
+    } else {
+      lines.push(
+        `    <LineString><coordinates>${track.points
+          .map(kmlCoordinate)
+          .join(" ")}</coordinates></LineString>`,
+      );
+    }
+    lines.push(`  </Placemark>`);
+  }
+
+  lines.push(`</Document>`);
+  lines.push(`</kml>`);
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function decodeXml(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+interface XmlElement {
+  attrs: string;
+  body: string;
+}
+
+// Matches <tag ...>...</tag> and <tag .../>, with or without a namespace prefix
+function findElements(xml: string, tag: string): XmlElement[] {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}\\s*>)`,
+    "g",
+  );
+  const elements: XmlElement[] = [];
+  for (const match of xml.matchAll(pattern)) {
+    elements.push({ attrs: match[1] ?? "", body: match[2] ?? "" });
+  }
+  return elements;
+}
+
+function childText(xml: string, tag: string): string | undefined {
+  const element = findElements(xml, tag)[0];
+  if (!element) return undefined;
+  const text = decodeXml(element.body);
+  return text === "" ? undefined : text;
+}
+
+function attribute(attrs: string, name: string): string | undefined {
+  const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  if (!match) return undefined;
+  return decodeXml(match[2] ?? match[3] ?? "");
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseTime(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+function isValidCoordinate(lat: number | undefined, lng: number | undefined) {
+  return (
+    lat !== undefined &&
+    lng !== undefined &&
+    lat >= -90 &&
+    lat <= 90 &&
+    lng >= -180 &&
+    lng <= 180
+  );
+}
+
+function parseGpxPoint(element: XmlElement): GpsPoint | null {
+  const lat = parseNumber(attribute(element.attrs, "lat"));
+  const lng = parseNumber(attribute(element.attrs, "lon"));
+  if (!isValidCoordinate(lat, lng)) return null;
+  return {
+    lat: lat!,
+    lng: lng!,
+    altitude: parseNumber(childText(element.body, "ele")),
+    timestamp: parseTime(childText(element.body, "time")),
+  };
+}
+
+export function parseGpx(xml: string): GpsFileContents {
+  const waypoints: GpsWaypoint[] = [];
+  for (const element of findElements(xml, "wpt")) {
+    const point = parseGpxPoint(element);
+    if (!point) continue;
+    waypoints.push({
+      ...point,
+      name: childText(element.body, "name") ?? "Imported waypoint",
+      description:
+        childText(element.body, "desc") ?? childText(element.body, "cmt"),
+      type: childText(element.body, "type") ?? childText(element.body, "sym"),
+    });
+  }
+
+  const tracks: GpsTrack[] = [];
+  for (const trk of findElements(xml, "trk")) {
+    const points = findElements(trk.body, "trkpt")
+      .map(parseGpxPoint)
+      .filter((p): p is GpsPoint => p !== null);
+    if (points.length === 0) continue;
+    tracks.push({
+      name: childText(trk.body, "name") ?? "Imported track",
+      description: childText(trk.body, "desc"),
+      points,
+    });
+  }
+
+  // Routes are planned paths without timestamps; treat them as tracks
+  for (const rte of findElements(xml, "rte")) {
+    const points = findElements(rte.body, "rtept")
+      .map(parseGpxPoint)
+      .filter((p): p is GpsPoint => p !== null);
+    if (points.length === 0) continue;
+    tracks.push({
+      name: childText(rte.body, "name") ?? "Imported route",
+      description: childText(rte.body, "desc"),
+      points,
+    });
+  }
+
+  return { tracks, waypoints };
+}
+
+function parseKmlCoordinates(text: string): GpsPoint[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((tuple): GpsPoint | null => {
+      const [lng, lat, alt] = tuple.split(",").map((n) => parseNumber(n));
+      if (!isValidCoordinate(lat, lng)) return null;
+      return { lat: lat!, lng: lng!, altitude: alt };
+    })
+    .filter((p): p is GpsPoint => p !== null);
+}
+
+function kmlExtendedValue(xml: string, name: string): string | undefined {
+  for (const data of findElements(xml, "Data")) {
+    if (attribute(data.attrs, "name") === name) {
+      return childText(data.body, "value");
+    }
+  }
+  return undefined;
+}
+
+export function parseKml(xml: string): GpsFileContents {
+  const tracks: GpsTrack[] = [];
+  const waypoints: GpsWaypoint[] = [];
+
+  for (const placemark of findElements(xml, "Placemark")) {
+    const name = childText(placemark.body, "name");
+    const description = childText(placemark.body, "description");
+
+    const gxTrack = findElements(placemark.body, "Track")[0];
+    if (gxTrack) {
+      const times = findElements(gxTrack.body, "when").map((w) =>
+        parseTime(decodeXml(w.body)),
+      );
+      const points: GpsPoint[] = [];
+      findElements(gxTrack.body, "coord").forEach((coord, i) => {
+        const [lng, lat, alt] = decodeXml(coord.body)
+          .split(/\s+/)
+          .map((n) => parseNumber(n));
+        if (!isValidCoordinate(lat, lng)) return;
+        points.push({ lat: lat!, lng: lng!, altitude: alt, timestamp: times[i] });
+      });
+      if (points.length > 0) {
+        tracks.push({ name: name ?? "Imported track", description, points });
+      }
+      continue;
+    }
+
+    const lineStrings = findElements(placemark.body, "LineString");
+    if (lineStrings.length > 0) {
+      const points = lineStrings.flatMap((line) =>
+        parseKmlCoordinates(childText(line.body, "coordinates") ?? ""),
+      );
+      if (points.length > 0) {
+        tracks.push({ name: name ?? "Imported track", description, points });
+      }
+      continue;
+    }
+
+    const point = findElements(placemark.body, "Point")[0];
+    if (point) {
+      const [coordinate] = parseKmlCoordinates(
+        childText(point.body, "coordinates") ?? "",
+      );
+      if (!coordinate) continue;
+      waypoints.push({
+        ...coordinate,
+        name: name ?? "Imported waypoint",
+        description,
+        type: kmlExtendedValue(placemark.body, "type"),
+        timestamp: parseTime(childText(placemark.body, "when")),
+      });
+    }
+  }
+
+  return { tracks, waypoints };
+}
+
+/**
+ * Detect the file format from its name, falling back to sniffing the root element
+ */
+export function detectGpsFileFormat(
+  fileName: string,
+  content: string,
+): GpsFileFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".gpx")) return "gpx";
+  if (lower.endsWith(".kml")) return "kml";
+  if (/<gpx\b/i.test(content)) return "gpx";
+  if (/<kml\b/i.test(content)) return "kml";
+  return null;
+}
+
+/**
+ * Track points with a timestamp on each. Points the file left untimed take
+ * their time from the timed points around them, spread evenly between the
+ * two, or a millisecond apart beyond the first or last. A track with no
+ * times at all is laid out from `fallbackStart`. Points come back in time
+ * order.
+ */
+export function fillMissingTimestamps(
+  points: GpsPoint[],
+  fallbackStart: number,
+): (GpsPoint & { timestamp: number })[] {
+  const timed = points.flatMap((point, index) =>
+    point.timestamp !== undefined ? [index] : [],
+  );
+  if (timed.length === 0) {
+    return points.map((point, index) => ({
+      ...point,
+      timestamp: fallbackStart + index,
+    }));
+  }
+
+  const first = timed[0];
+  const last = timed[timed.length - 1];
+  let next = 0; // Position in `timed` of the first timed point at or after i
+  const filled = points.map((point, index) => {
+    if (point.timestamp !== undefined) {
+      next++;
+      return { ...point, timestamp: point.timestamp };
+    }
+    if (index < first) {
+      return {
+        ...point,
+        timestamp: points[first].timestamp! - (first - index),
+      };
+    }
+    if (index > last) {
+      return { ...point, timestamp: points[last].timestamp! + (index - last) };
+    }
+    const before = timed[next - 1];
+    const after = timed[next];
+    const start = points[before].timestamp!;
+    const end = points[after].timestamp!;
+    return {
+      ...point,
+      timestamp: start + ((end - start) * (index - before)) / (after - before),
+    };
+  });
+
+  return filled.sort((a, b) => a.timestamp - b.timestamp);
+}
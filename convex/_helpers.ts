@@ -29,36 +29,6 @@ export async function requireAuth(ctx: QueryCtx | MutationCtx) {
   return user;
 }
 
-/**
- * Helper function to require admin or owner role
- * Throws FORBIDDEN error if user is not admin or owner
- */
-export async function requireAdminOrOwner(ctx: QueryCtx | MutationCtx) {
-  const user = await requireAuth(ctx);
-  if (user.role !== "owner" && user.role !== "admin") {
-    throw new ConvexError({
-      message: "Not authorized",
-      code: "FORBIDDEN",
-    });
-  }
-  return user;
-}
-
-/**
- * Helper function to require owner role
- * Throws FORBIDDEN error if user is not owner
- */
-export async function requireOwner(ctx: QueryCtx | MutationCtx) {
-  const user = await requireAuth(ctx);
-  if (user.role !== "owner") {
-    throw new ConvexError({
-      message: "Only owners can perform this action",
-      code: "FORBIDDEN",
-    });
-  }
-  return user;
-}
-
 /**
  * Get current user ID from auth identity
  * Returns null if not authenticated
@@ -0,0 +1,179 @@
+import { toCompassDirection } from "./_weather";
+
+// Weather at a past time and place, for hunts logged after the fact.
+// Open-Meteo's archive needs no key and is the default. Set
+// HISTORICAL_WEATHER_PROVIDER=openweather to use OpenWeather's One Call
+// time machine instead, which needs a One Call 3.0 subscription on
+// OPENWEATHER_API_KEY. Only call from actions: lookups are network requests.
+
+export interface HistoricalWeather {
+  description: string;
+  temperature: number; // °F
+  windSpeed: number; // mph
+  windDirection: string; // compass point, e.g. "NW"
+}
+
+export interface HistoricalWeatherProvider {
+  name: string;
+  // null when the provider has no observation for that time and place
+  getWeatherAt(
+    lat: number,
+    lng: number,
+    time: number,
+  ): Promise<HistoricalWeather | null>;
+}
+
+// WMO weather interpretation codes used by Open-Meteo
+const WMO_DESCRIPTIONS: Record<number, string> = {
+  0: "Clear",
+  1: "Mostly clear",
+  2: "Partly cloudy",
+  3: "Overcast",
+  45: "Fog",
+  48: "Freezing fog",
+  51: "Light drizzle",
+  53: "Drizzle",
+  55: "Heavy drizzle",
+  56: "Freezing drizzle",
+  57: "Freezing drizzle",
+  61: "Light rain",
+  63: "Rain",
+  65: "Heavy rain",
+  66: "Freezing rain",
+  67: "Freezing rain",
+  71: "Light snow",
+  73: "Snow",
+  75: "Heavy snow",
+  77: "Snow grains",
+  80: "Rain showers",
+  81: "Rain showers",
+  82: "Heavy rain showers",
+  85: "Snow showers",
+  86: "Heavy snow showers",
+  95: "Thunderstorm",
+  96: "Thunderstorm with hail",
+  99: "Thunderstorm with hail",
+};
+
+interface OpenMeteoArchiveResponse {
+  hourly?: {
+    time: number[];
+    temperature_2m: (number | null)[];
+    wind_speed_10m: (number | null)[];
+    wind_direction_10m: (number | null)[];
+    weather_code: (number | null)[];
+  };
+}
+
+const openMeteoProvider: HistoricalWeatherProvider = {
+  name: "open-meteo",
+  async getWeatherAt(lat, lng, time) {
+    const day = new Date(time).toISOString().slice(0, 10);
+    const params = new URLSearchParams({
+      latitude: lat.toString(),
+      longitude: lng.toString(),
+      start_date: day,
+      end_date: day,
+      hourly: "temperature_2m,wind_speed_10m,wind_direction_10m,weather_code",
+      temperature_unit: "fahrenheit",
+      wind_speed_unit: "mph",
+      timeformat: "unixtime",
+      timezone: "GMT",
+    });
+
+    const response = await fetch(
+      `https://archive-api.open-meteo.com/v1/archive?${params.toString()}`,
+    );
+    if (!response.ok) {
+      throw new Error(
+        `Open-Meteo archive request failed: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const data: OpenMeteoArchiveResponse = await response.json();
+    const hourly = data.hourly;
+    if (!hourly || hourly.time.length === 0) {
+      return null;
+    }
+
+    // The hour closest to the requested time
+    const seconds = time / 1000;
+    let index = 0;
+    hourly.time.forEach((hour, i) => {
+      if (Math.abs(hour - seconds) < Math.abs(hourly.time[index] - seconds)) {
+        index = i;
+      }
+    });
+
+    const temperature = hourly.temperature_2m[index];
+    const windSpeed = hourly.wind_speed_10m[index];
+    const windDirection = hourly.wind_direction_10m[index];
+    const code = hourly.weather_code[index];
+    // Recent days can still be missing from the archive
+    if (temperature === null || windSpeed === null || windDirection === null) {
+      return null;
+    }
+
+    return {
+      description: (code !== null && WMO_DESCRIPTIONS[code]) || "Unknown",
+      temperature: Math.round(temperature),
+      windSpeed: Math.round(windSpeed),
+      windDirection: toCompassDirection(windDirection),
+    };
+  },
+};
+
+interface OpenWeatherTimeMachineResponse {
+  data?: Array<{
+    temp: number;
+    wind_speed: number;
+    wind_deg: number;
+    weather: Array<{ main: string; description: string }>;
+  }>;
+}
+
+function openWeatherProvider(apiKey: string): HistoricalWeatherProvider {
+  return {
+    name: "openweather",
+    async getWeatherAt(lat, lng, time) {
+      const params = new URLSearchParams({
+        lat: lat.toString(),
+        lon: lng.toString(),
+        dt: Math.floor(time / 1000).toString(),
+        appid: apiKey,
+        units: "imperial",
+      });
+
+      const response = await fetch(
+        `https://api.openweathermap.org/data/3.0/onecall/timemachine?${params.toString()}`,
+      );
+      if (!response.ok) {
+        throw new Error(
+          `OpenWeather time machine request failed: ${response.status} ${response.statusText}`,
+        );
+      }
+
+      const data: OpenWeatherTimeMachineResponse = await response.json();
+      const observation = data.data?.[0];
+      if (!observation) {
+        return null;
+      }
+
+      const description = observation.weather[0]?.description ?? "Unknown";
+      return {
+        description: description.charAt(0).toUpperCase() + description.slice(1),
+        temperature: Math.round(observation.temp),
+        windSpeed: Math.round(observation.wind_speed),
+        windDirection: toCompassDirection(observation.wind_deg),
+      };
+    },
+  };
+}
+
+export function getHistoricalWeatherProvider(): HistoricalWeatherProvider {
+  const apiKey = process.env.OPENWEATHER_API_KEY;
+  if (process.env.HISTORICAL_WEATHER_PROVIDER === "openweather" && apiKey) {
+    return openWeatherProvider(apiKey);
+  }
+  return openMeteoProvider;
+}
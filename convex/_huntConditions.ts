@@ -0,0 +1,98 @@
+import { v, type Infer } from "convex/values";
+import { fetchCurrentWeather } from "./_weather";
+import { fetchSolunarTimes, getSolunarPeriods } from "./_solunar";
+
+// The conditions snapshot stored on a hunt when it starts and ends, so
+// success can later be compared against weather, pressure and the moon.
+// Only call captureHuntConditions from actions: it makes network requests.
+
+const periodValidator = v.object({ start: v.number(), end: v.number() });
+
+export const huntConditionsValidator = v.object({
+  capturedAt: v.number(),
+  description: v.optional(v.string()),
+  temperature: v.optional(v.number()),
+  humidity: v.optional(v.number()),
+  pressure: v.optional(v.number()),
+  pressureTrend: v.optional(
+    v.union(v.literal("rising"), v.literal("falling"), v.literal("steady")),
+  ),
+  windSpeed: v.optional(v.number()),
+  windDirection: v.optional(v.number()),
+  windGust: v.optional(v.number()),
+  moonPhase: v.optional(v.string()),
+  moonIllumination: v.optional(v.number()),
+  solunarDayRating: v.optional(v.number()),
+  majorPeriods: v.optional(v.array(periodValidator)),
+  minorPeriods: v.optional(v.array(periodValidator)),
+});
+
+export type HuntConditions = Infer<typeof huntConditionsValidator>;
+
+// The server has no idea of the hunter's time zone; solar time from the
+// longitude is close enough to pick the right solunar day
+function getSolunarDay(lng: number, time: number) {
+  const utcOffsetHours = Math.round(lng / 15);
+  const local = new Date(time + utcOffsetHours * 60 * 60 * 1000);
+  const date = [
+    local.getUTCFullYear(),
+    String(local.getUTCMonth() + 1).padStart(2, "0"),
+    String(local.getUTCDate()).padStart(2, "0"),
+  ].join("");
+  return { date, utcOffsetHours };
+}
+
+/**
+ * Current weather plus the day's moon and solunar periods at a location.
+ * A lookup that fails is logged and its fields are left out.
+ */
+export async function captureHuntConditions(
+  lat: number,
+  lng: number,
+): Promise<HuntConditions> {
+  const capturedAt = Date.now();
+  const { date, utcOffsetHours } = getSolunarDay(lng, capturedAt);
+
+  const [weather, solunar] = await Promise.allSettled([
+    fetchCurrentWeather(lat, lng, "imperial"),
+    fetchSolunarTimes(lat, lng, date, utcOffsetHours),
+  ]);
+
+  const conditions: HuntConditions = { capturedAt };
+
+  if (weather.status === "fulfilled") {
+    const current = weather.value;
+    Object.assign(conditions, {
+      description: current.description,
+      temperature: current.temperature,
+      humidity: current.humidity,
+      pressure: current.pressure,
+      pressureTrend: current.pressureTrend,
+      windSpeed: current.windSpeed,
+      windDirection: current.windDirection,
+      windGust: current.windGust,
+    });
+  } else {
+    console.log("[captureHuntConditions] Weather unavailable", {
+      error: String(weather.reason),
+    });
+  }
+
+  if (solunar.status === "fulfilled") {
+    const times = solunar.value;
+    const periods = getSolunarPeriods(times, date, utcOffsetHours);
+    Object.assign(conditions, {
+      moonPhase: times.moonPhase,
+      moonIllumination: times.moonIllumination,
+      solunarDayRating: times.dayRating,
+      majorPeriods: periods.major,
+      minorPeriods: periods.minor,
+    });
+  } else {
+    console.log("[captureHuntConditions] Solunar data unavailable", {
+      error: String(solunar.reason),
+    });
+  }
+
+  return conditions;
+}
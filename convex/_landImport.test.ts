@@ -0,0 +1,170 @@
+import { describe, expect, test } from "vitest";
+import {
+  mapHuntingUnitFeature,
+  mapPropertyFeature,
+  resolveFieldMapping,
+  validateGeometry,
+} from "./_landImport";
+
+// An open ring; the importer closes it
+const ring = [
+  [-93.01, 45],
+  [-93, 45],
+  [-93, 45.01],
+  [-93.01, 45.01],
+];
+
+function feature(properties: Record<string, unknown>) {
+  return {
+    type: "Feature",
+    geometry: { type: "Polygon", coordinates: [ring] },
+    properties,
+  };
+}
+
+describe("resolveFieldMapping", () => {
+  test("matches field names and aliases however they are written", () => {
+    // PARCEL_NO and APN are both parcel id aliases; the earlier alias wins
+    const mapping = resolveFieldMapping("property", [
+      "PARCEL_NO",
+      "APN",
+      "County Name",
+      "ST",
+      "OWNER1",
+      "GIS_ACRES",
+    ]);
+    expect(mapping).toMatchObject({
+      parcelId: "PARCEL_NO",
+      county: "County Name",
+      state: "ST",
+      ownerName: "OWNER1",
+      acreage: "GIS_ACRES",
+      address: undefined,
+    });
+  });
+
+  test("lets explicit mappings win, and an empty one unmap a field", () => {
+    const mapping = resolveFieldMapping("property", ["APN", "PIN", "ST"], {
+      parcelId: "PIN",
+      state: "",
+    });
+    expect(mapping.parcelId).toBe("PIN");
+    expect(mapping.state).toBeUndefined();
+  });
+});
+
+describe("validateGeometry", () => {
+  test("closes open rings and stores one-part MultiPolygons as Polygons", () => {
+    const boundaries = validateGeometry({
+      type: "MultiPolygon",
+      coordinates: [[ring]],
+    });
+    expect(boundaries).toEqual({
+      type: "Polygon",
+      coordinates: [[...ring, ring[0]]],
+    });
+  });
+
+  test("explains what is wrong with bad geometry", () => {
+    expect(validateGeometry(undefined)).toBe("Feature has no geometry");
+    expect(validateGeometry({ type: "Point", coordinates: [0, 0] })).toMatch(
+      /Unsupported geometry type "Point"/,
+    );
+    expect(
+      typeof validateGeometry({
+        type: "Polygon",
+        coordinates: [
+          [
+            [-200, 45],
+            [-93, 45],
+            [-93, 46],
+          ],
+        ],
+      }),
+    ).toBe("string");
+  });
+});
+
+describe("mapPropertyFeature", () => {
+  const mapping = resolveFieldMapping("property", [
+    "APN",
+    "OWNER",
+    "OWN_TYPE",
+    "ACRES",
+  ]);
+
+  test("maps attributes, fills defaults and normalizes the ownership type", () => {
+    const result = mapPropertyFeature(
+      feature({
+        APN: 1234,
+        OWNER: "  Jane Doe ",
+        OWN_TYPE: "USFS",
+        ACRES: "1,250.456",
+      }),
+      mapping,
+      { county: "Aitkin", state: "MN" },
+    );
+    expect(result).toMatchObject({
+      ok: true,
+      value: {
+        parcelId: "1234",
+        ownerName: "Jane Doe",
+        county: "Aitkin",
+        state: "MN",
+        propertyType: "federal",
+        acreage: 1250.46,
+      },
+    });
+  });
+
+  test("computes acreage from the shape when the file has none", () => {
+    const result = mapPropertyFeature(
+      feature({ APN: "1", OWNER: "Jane Doe" }),
+      mapping,
+      { county: "Aitkin", state: "MN" },
+    );
+    // 0.01° square at 45°N is roughly 216 acres
+    expect(result.ok && result.value.acreage).toBeCloseTo(216, -1);
+    expect(result.ok && result.value.propertyType).toBe("private");
+  });
+
+  test("reports the missing required field", () => {
+    expect(
+      mapPropertyFeature(feature({ APN: "1" }), mapping, { state: "MN" }),
+    ).toEqual({
+      ok: false,
+      message: 'Missing required field "county"',
+    });
+  });
+});
+
+describe("mapHuntingUnitFeature", () => {
+  test("reads yes/no attributes and defaults the flags", () => {
+    const mapping = resolveFieldMapping("huntingUnit", [
+      "UNIT_ID",
+      "UNIT_NAME",
+      "DESIGNATION",
+      "HUNTING",
+    ]);
+    const result = mapHuntingUnitFeature(
+      feature({
+        UNIT_ID: "WMA-12",
+        UNIT_NAME: "Mud Lake",
+        DESIGNATION: "WMA",
+        HUNTING: "No",
+      }),
+      mapping,
+      { state: "MN" },
+    );
+    expect(result).toMatchObject({
+      ok: true,
+      value: {
+        unitId: "WMA-12",
+        name: "Mud Lake",
+        type: "WMA",
+        allowsHunting: false,
+        permitRequired: false,
+      },
+    });
+  });
+});
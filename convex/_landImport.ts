@@ -0,0 +1,328 @@
+import {
+  boundaryAreaSquareMeters,
+  boundaryCentroid,
+  type Boundaries,
+  type PolygonRings,
+} from "./_geo";
+
+// Validation and field mapping for parcel / hunting unit GeoJSON imports.
+// Pure functions only; the mutation lives in landImport.ts.
+
+export type LandImportKind = "property" | "huntingUnit";
+
+type FieldKind = "string" | "number" | "boolean";
+
+interface FieldSpec {
+  field: string;
+  kind: FieldKind;
+  required: boolean;
+  // Common attribute names in county / state GIS exports
+  aliases: string[];
+}
+
+export const LAND_IMPORT_FIELDS: Record<LandImportKind, FieldSpec[]> = {
+  property: [
+    {
+      field: "parcelId",
+      kind: "string",
+      required: true,
+      aliases: ["parcel_id", "parcelno", "parcel_num", "parcel", "apn", "pin", "pid"],
+    },
+    { field: "county", kind: "string", required: true, aliases: ["county_name", "cnty", "co_name"] },
+    { field: "state", kind: "string", required: true, aliases: ["state_name", "st", "st_abbr"] },
+    {
+      field: "ownerName",
+      kind: "string",
+      required: true,
+      aliases: ["owner", "owner_name", "ownername1", "own_name", "owner1"],
+    },
+    { field: "acreage", kind: "number", required: false, aliases: ["acres", "gis_acres", "calc_acres", "deeded_acres"] },
+    { field: "propertyType", kind: "string", required: false, aliases: ["ownership", "own_type", "owner_type", "land_type"] },
+    { field: "address", kind: "string", required: false, aliases: ["site_address", "situs", "situs_addr", "prop_addr"] },
+    { field: "ownerAddress", kind: "string", required: false, aliases: ["mail_address", "mailing_address", "owner_addr"] },
+    { field: "ownerPhone", kind: "string", required: false, aliases: ["phone", "owner_phone"] },
+    { field: "ownerEmail", kind: "string", required: false, aliases: ["email", "owner_email"] },
+    { field: "landUse", kind: "string", required: false, aliases: ["land_use", "use_code", "luc", "class"] },
+  ],
+  huntingUnit: [
+    { field: "unitId", kind: "string", required: true, aliases: ["unit_id", "unit", "area_id", "objectid", "id"] },
+    { field: "name", kind: "string", required: true, aliases: ["unit_name", "area_name", "site_name", "label"] },
+    { field: "type", kind: "string", required: true, aliases: ["unit_type", "area_type", "designation", "category"] },
+    { field: "state", kind: "string", required: true, aliases: ["state_name", "st", "st_abbr"] },
+    { field: "description", kind: "string", required: false, aliases: ["desc", "comments"] },
+    { field: "regulations", kind: "string", required: false, aliases: ["regs", "rules", "restrictions"] },
+    { field: "allowsHunting", kind: "boolean", required: false, aliases: ["hunting", "hunt_allowed", "open_to_hunting"] },
+    { field: "seasonDates", kind: "string", required: false, aliases: ["seasons", "season", "season_dates"] },
+    { field: "permitRequired", kind: "boolean", required: false, aliases: ["permit", "permit_req", "requires_permit"] },
+  ],
+};
+
+const PROPERTY_TYPES = ["public", "private", "state", "federal"];
+const SQUARE_METERS_PER_ACRE = 4046.8564224;
+
+export interface MappedProperty {
+  parcelId: string;
+  county: string;
+  state: string;
+  ownerName: string;
+  acreage: number;
+  propertyType: string;
+  address?: string;
+  ownerAddress?: string;
+  ownerPhone?: string;
+  ownerEmail?: string;
+  landUse?: string;
+  boundaries: Boundaries;
+  centerLat: number;
+  centerLng: number;
+}
+
+export interface MappedHuntingUnit {
+  unitId: string;
+  name: string;
+  type: string;
+  state: string;
+  description?: string;
+  regulations?: string;
+  allowsHunting: boolean;
+  seasonDates?: string;
+  permitRequired: boolean;
+  boundaries: Boundaries;
+  centerLat: number;
+  centerLng: number;
+}
+
+export type MapFeatureResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; message: string };
+
+function normalizeKey(key: string) {
+  return key.toLowerCase().replace(/[\s_-]/g, "");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPosition(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    value.every((n) => typeof n === "number" && Number.isFinite(n)) &&
+    value[0] >= -180 &&
+    value[0] <= 180 &&
+    value[1] >= -90 &&
+    value[1] <= 90
+  );
+}
+
+// Validate a polygon's rings, dropping altitude and closing open rings
+function validatePolygon(value: unknown, label: string): PolygonRings | string {
+  if (!Array.isArray(value) || value.length === 0) {
+    return `${label} has no rings`;
+  }
+  const rings: PolygonRings = [];
+  for (const [index, ring] of value.entries()) {
+    if (!Array.isArray(ring) || !ring.every(isPosition)) {
+      return `${label} ring ${index} has invalid coordinates`;
+    }
+    const positions = ring.map(([lng, lat]) => [lng, lat]);
+    const first = positions[0];
+    const last = positions[positions.length - 1];
+    if (first && last && (first[0] !== last[0] || first[1] !== last[1])) {
+      positions.push([first[0], first[1]]);
+    }
+    if (positions.length < 4) {
+      return `${label} ring ${index} needs at least 3 distinct points`;
+    }
+    rings.push(positions);
+  }
+  return rings;
+}
+
+/**
+ * Validate a GeoJSON geometry and convert it to stored boundaries
+ */
+export function validateGeometry(geometry: unknown): Boundaries | string {
+  if (!isRecord(geometry)) {
+    return "Feature has no geometry";
+  }
+  if (geometry.type === "Polygon") {
+    const rings = validatePolygon(geometry.coordinates, "Polygon");
+    return typeof rings === "string"
+      ? rings
+      : { type: "Polygon", coordinates: rings };
+  }
+  if (geometry.type === "MultiPolygon") {
+    if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length === 0) {
+      return "MultiPolygon has no polygons";
+    }
+    const polygons: PolygonRings[] = [];
+    for (const [index, polygon] of geometry.coordinates.entries()) {
+      const rings = validatePolygon(polygon, `Polygon ${index}`);
+      if (typeof rings === "string") return rings;
+      polygons.push(rings);
+    }
+    // A single-part MultiPolygon is stored as a plain Polygon
+    return polygons.length === 1
+      ? { type: "Polygon", coordinates: polygons[0] }
+      : { type: "MultiPolygon", coordinates: polygons };
+  }
+  return `Unsupported geometry type "${String(geometry.type)}" (expected Polygon or MultiPolygon)`;
+}
+
+function coerce(value: unknown, kind: FieldKind): string | number | boolean | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (kind === "number") {
+    const n = typeof value === "number" ? value : Number(String(value).replace(/,/g, ""));
+    return Number.isFinite(n) ? n : undefined;
+  }
+  if (kind === "boolean") {
+    if (typeof value === "boolean") return value;
+    const text = String(value).trim().toLowerCase();
+    if (["true", "yes", "y", "1", "open"].includes(text)) return true;
+    if (["false", "no", "n", "0", "closed"].includes(text)) return false;
+    return undefined;
+  }
+  const text = String(value).trim();
+  return text === "" ? undefined : text;
+}
+
+/**
+ * Resolve each schema field to a source attribute. Explicit mappings win;
+ * an explicit empty string leaves the field unmapped. Otherwise the field
+ * name or a known alias is matched case-insensitively.
+ */
+export function resolveFieldMapping(
+  kind: LandImportKind,
+  sourceKeys: string[],
+  explicit: Record<string, string> = {},
+): Record<string, string | undefined> {
+  const byNormalized = new Map(sourceKeys.map((key) => [normalizeKey(key), key]));
+  const mapping: Record<string, string | undefined> = {};
+  for (const spec of LAND_IMPORT_FIELDS[kind]) {
+    if (spec.field in explicit) {
+      mapping[spec.field] = explicit[spec.field] || undefined;
+      continue;
+    }
+    const candidates = [spec.field, ...spec.aliases].map(normalizeKey);
+    mapping[spec.field] = candidates
+      .map((candidate) => byNormalized.get(candidate))
+      .find((key) => key !== undefined);
+  }
+  return mapping;
+}
+
+function readFields(
+  kind: LandImportKind,
+  properties: Record<string, unknown>,
+  mapping: Record<string, string | undefined>,
+  defaults: Record<string, string>,
+): Record<string, string | number | boolean | undefined> | string {
+  const values: Record<string, string | number | boolean | undefined> = {};
+  for (const spec of LAND_IMPORT_FIELDS[kind]) {
+    const source = mapping[spec.field];
+    let value = coerce(source ? properties[source] : undefined, spec.kind);
+    if (value === undefined && defaults[spec.field] !== undefined) {
+      value = coerce(defaults[spec.field], spec.kind);
+    }
+    if (value === undefined && spec.required) {
+      return `Missing required field "${spec.field}"${source ? ` (from "${source}")` : ""}`;
+    }
+    values[spec.field] = value;
+  }
+  return values;
+}
+
+function normalizePropertyType(value: string | undefined) {
+  if (!value) return "private";
+  const lower = value.toLowerCase();
+  if (PROPERTY_TYPES.includes(lower)) return lower;
+  if (lower.includes("federal") || lower.includes("usfs") || lower.includes("blm")) {
+    return "federal";
+  }
+  if (lower.includes("state")) return "state";
+  if (lower.includes("public") || lower.includes("county") || lower.includes("city")) {
+    return "public";
+  }
+  return "private";
+}
+
+function getFeatureParts(feature: unknown) {
+  if (!isRecord(feature) || feature.type !== "Feature") {
+    return "Not a GeoJSON Feature";
+  }
+  const boundaries = validateGeometry(feature.geometry);
+  if (typeof boundaries === "string") return boundaries;
+  const properties = isRecord(feature.properties) ? feature.properties : {};
+  return { boundaries, properties };
+}
+
+export function mapPropertyFeature(
+  feature: unknown,
+  mapping: Record<string, string | undefined>,
+  defaults: Record<string, string>,
+): MapFeatureResult<MappedProperty> {
+  const parts = getFeatureParts(feature);
+  if (typeof parts === "string") return { ok: false, message: parts };
+
+  const values = readFields("property", parts.properties, mapping, defaults);
+  if (typeof values === "string") return { ok: false, message: values };
+
+  const center = boundaryCentroid(parts.boundaries);
+  const acreage =
+    (values.acreage as number | undefined) ??
+    boundaryAreaSquareMeters(parts.boundaries) / SQUARE_METERS_PER_ACRE;
+
+  return {
+    ok: true,
+    value: {
+      parcelId: values.parcelId as string,
+      county: values.county as string,
+      state: values.state as string,
+      ownerName: values.ownerName as string,
+      acreage: Math.round(acreage * 100) / 100,
+      propertyType: normalizePropertyType(values.propertyType as string | undefined),
+      address: values.address as string | undefined,
+      ownerAddress: values.ownerAddress as string | undefined,
+      ownerPhone: values.ownerPhone as string | undefined,
+      ownerEmail: values.ownerEmail as string | undefined,
+      landUse: values.landUse as string | undefined,
+      boundaries: parts.boundaries,
+      centerLat: center.lat,
+      centerLng: center.lng,
+    },
+  };
+}
+
+export function mapHuntingUnitFeature(
+  feature: unknown,
+  mapping: Record<string, string | undefined>,
+  defaults: Record<string, string>,
+): MapFeatureResult<MappedHuntingUnit> {
+  const parts = getFeatureParts(feature);
+  if (typeof parts === "string") return { ok: false, message: parts };
+
+  const values = readFields("huntingUnit", parts.properties, mapping, defaults);
+  if (typeof values === "string") return { ok: false, message: values };
+
+  const center = boundaryCentroid(parts.boundaries);
+
+  return {
+    ok: true,
+    value: {
+      unitId: values.unitId as string,
+      name: values.name as string,
+      type: values.type as string,
+      state: values.state as string,
+      description: values.description as string | undefined,
+      regulations: values.regulations as string | undefined,
+      allowsHunting: (values.allowsHunting as boolean | undefined) ?? true,
+      seasonDates: values.seasonDates as string | undefined,
+      permitRequired: (values.permitRequired as boolean | undefined) ?? false,
+      boundaries: parts.boundaries,
+      centerLat: center.lat,
+      centerLng: center.lng,
+    },
+  };
+}
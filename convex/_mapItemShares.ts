@@ -0,0 +1,133 @@
+import { v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { MutationCtx, QueryCtx } from "./_generated/server.d.ts";
+import { isBlockedEitherWay } from "./_blocks";
+import { isInGroup } from "./_friendGroups";
+
+// Tracks and waypoints are private to their owner unless shared. A share
+// targets a friend group, one friend, all of the owner's friends, or a
+// link token, and grants read or edit access. Access is worked out on
+// every read, so removing a share, a friendship or a group membership
+// takes effect immediately.
+
+export type MapItemId = Id<"tracks"> | Id<"waypoints">;
+
+export type SharePermission = "read" | "edit";
+
+export const mapItemIdValidator = v.union(v.id("tracks"), v.id("waypoints"));
+
+export const sharePermissionValidator = v.union(
+  v.literal("read"),
+  v.literal("edit"),
+);
+
+export function generateLinkToken() {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+}
+
+export async function areFriends(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  otherId: Id<"users">,
+) {
+  const friendship =
+    (await ctx.db
+      .query("friendships")
+      .withIndex("by_user1", (q) => q.eq("user1Id", userId))
+      .filter((q) => q.eq(q.field("user2Id"), otherId))
+      .first()) ??
+    (await ctx.db
+      .query("friendships")
+      .withIndex("by_user1", (q) => q.eq("user1Id", otherId))
+      .filter((q) => q.eq(q.field("user2Id"), userId))
+      .first());
+  return friendship !== null;
+}
+
+async function shareGrantsAccess(
+  ctx: QueryCtx,
+  share: Doc<"mapItemShares">,
+  userId: Id<"users">,
+  isFriend: () => Promise<boolean>,
+) {
+  if (share.groupId) {
+    const group = await ctx.db.get(share.groupId);
+    return (
+      !!group &&
+      (await isInGroup(ctx, group, userId)) &&
+      (await isInGroup(ctx, group, share.ownerId))
+    );
+  }
+  if (share.userId) {
+    return share.userId === userId && (await isFriend());
+  }
+  if (share.allFriends) {
+    return await isFriend();
+  }
+  // Link shares are only honored with the token itself
+  return false;
+}
+
+/**
+ * What a signed-in member other than the owner may do with an item:
+ * "edit", "read", or null for no access
+ */
+export async function getSharedPermission(
+  ctx: QueryCtx,
+  itemId: MapItemId,
+  ownerId: Id<"users">,
+  userId: Id<"users">,
+): Promise<SharePermission | null> {
+  if (await isBlockedEitherWay(ctx, ownerId, userId)) {
+    return null;
+  }
+
+  let friend: boolean | undefined;
+  const isFriend = async () =>
+    (friend ??= await areFriends(ctx, ownerId, userId));
+
+  const shares = await ctx.db
+    .query("mapItemShares")
+    .withIndex("by_item", (q) => q.eq("itemId", itemId))
+    .collect();
+
+  let permission: SharePermission | null = null;
+  for (const share of shares) {
+    if (!(await shareGrantsAccess(ctx, share, userId, isFriend))) continue;
+    if (share.permission === "edit") return "edit";
+    permission = "read";
+  }
+  return permission;
+}
+
+/**
+ * Whether a link token opens this item
+ */
+export async function isValidLinkToken(
+  ctx: QueryCtx,
+  itemId: MapItemId,
+  linkToken: string,
+) {
+  const share = await ctx.db
+    .query("mapItemShares")
+    .withIndex("by_link_token", (q) => q.eq("linkToken", linkToken))
+    .unique();
+  return share?.itemId === itemId;
+}
+
+/**
+ * Remove every share of an item that is being deleted
+ */
+export async function deleteItemShares(ctx: MutationCtx, itemId: MapItemId) {
+  const shares = await ctx.db
+    .query("mapItemShares")
+    .withIndex("by_item", (q) => q.eq("itemId", itemId))
+    .collect();
+  for (const share of shares) {
+    await ctx.db.delete(share._id);
+  }
+}
@@ -0,0 +1,171 @@
+import { v } from "convex/values";
+
+// Catalog of notification kinds. Kept free of server imports so the client
+// can share it for labels and icons.
+
+export type NotificationChannel = "inApp" | "email" | "push";
+export type NotificationChannels = Record<NotificationChannel, boolean>;
+export type NotificationCategory =
+  | "forums"
+  | "recovery"
+  | "safety"
+  | "friends"
+  | "trips"
+  | "leases";
+
+// Category headings, in the order the settings page lists them
+export const NOTIFICATION_CATEGORY_LABELS: Record<
+  NotificationCategory,
+  string
+> = {
+  safety: "Safety",
+  recovery: "Recovery Requests",
+  friends: "Friends",
+  trips: "Scouting Trips",
+  leases: "Land Leases",
+  forums: "Forums",
+};
+
+interface NotificationKindInfo {
+  category: NotificationCategory;
+  label: string;
+  description: string;
+  defaultChannels: NotificationChannels;
+  // Safety-critical: always shown in-app, never held for quiet hours or a
+  // digest
+  urgent?: boolean;
+  // Where an email or push about this kind should link to, if not the app's
+  // home
+  path?: (relatedId: string) => string;
+}
+
+export const NOTIFICATION_KINDS = {
+  post_approved: {
+    category: "forums",
+    label: "Post approved",
+    description: "A moderator approved one of your forum posts",
+    defaultChannels: { inApp: true, email: false, push: true },
+  },
+  post_rejected: {
+    category: "forums",
+    label: "Post rejected",
+    description: "A moderator rejected one of your forum posts",
+    defaultChannels: { inApp: true, email: true, push: true },
+  },
+  forum_warning: {
+    category: "forums",
+    label: "Forum warnings",
+    description: "You received a warning for a post or comment",
+    defaultChannels: { inApp: true, email: true, push: true },
+  },
+  forum_ban_removed: {
+    category: "forums",
+    label: "Ban removed",
+    description: "An administrator lifted your forum ban",
+    defaultChannels: { inApp: true, email: true, push: false },
+  },
+  forum_ban_expired: {
+    category: "forums",
+    label: "Ban expired",
+    description: "Your forum ban has ended",
+    defaultChannels: { inApp: true, email: false, push: false },
+  },
+  deer_recovery_followup: {
+    category: "recovery",
+    label: "Deer recovery follow-ups",
+    description: "Reminders to update an open deer recovery request",
+    defaultChannels: { inApp: true, email: false, push: true },
+  },
+  vehicle_recovery_followup: {
+    category: "recovery",
+    label: "Vehicle recovery follow-ups",
+    description: "Reminders to update an open vehicle recovery request",
+    defaultChannels: { inApp: true, email: false, push: true },
+  },
+  // Only sent to users who chose an alert radius
+  nearby_recovery_request: {
+    category: "recovery",
+    label: "Recovery requests near you",
+    description: "Someone nearby needs help recovering a deer or vehicle",
+    defaultChannels: { inApp: true, email: false, push: true },
+  },
+  recovery_help_offered: {
+    category: "recovery",
+    label: "Offers to help",
+    description: "Someone offered to help with your recovery request",
+    defaultChannels: { inApp: true, email: false, push: true },
+  },
+  recovery_offer_accepted: {
+    category: "recovery",
+    label: "Offer accepted",
+    description: "A hunter accepted your offer to help with a recovery",
+    defaultChannels: { inApp: true, email: false, push: true },
+  },
+  recovery_thank_you: {
+    category: "recovery",
+    label: "Recovery thank-yous",
+    description: "A hunter you helped marked their recovery complete",
+    defaultChannels: { inApp: true, email: true, push: false },
+  },
+  // Alert recipients already get a dedicated alert email
+  // (emergencyAlerts.sendAlertEmails), so email is off by default here
+  emergency_alert: {
+    category: "safety",
+    label: "Emergency alerts",
+    description: "A friend or contact sent an SOS or missed a check-in",
+    defaultChannels: { inApp: true, email: false, push: true },
+    urgent: true,
+    path: (shareToken) => `/sos/${shareToken}`,
+  },
+  emergency_alert_resolved: {
+    category: "safety",
+    label: "Emergency alert resolved",
+    description: "Someone whose alert you received is safe",
+    defaultChannels: { inApp: true, email: false, push: true },
+    urgent: true,
+    path: (shareToken) => `/sos/${shareToken}`,
+  },
+  check_in_reminder: {
+    category: "safety",
+    label: "Check-in reminders",
+    description: "Your hunt's check-in time has passed",
+    defaultChannels: { inApp: true, email: true, push: true },
+    urgent: true,
+  },
+  friend_request: {
+    category: "friends",
+    label: "Friend requests",
+    description: "Someone wants to add you as a friend",
+    defaultChannels: { inApp: true, email: false, push: true },
+  },
+  trip_invite: {
+    category: "trips",
+    label: "Trip invites",
+    description: "A friend invited you on a scouting trip",
+    defaultChannels: { inApp: true, email: true, push: true },
+  },
+  lease_inquiry_reply: {
+    category: "leases",
+    label: "Lease inquiry replies",
+    description: "A landowner answered your lease inquiry",
+    defaultChannels: { inApp: true, email: true, push: true },
+  },
+} satisfies Record<string, NotificationKindInfo>;
+
+export type NotificationKind = keyof typeof NOTIFICATION_KINDS;
+
+export const NOTIFICATION_KIND_LIST = Object.keys(
+  NOTIFICATION_KINDS,
+) as NotificationKind[];
+
+export const notificationKindValidator = v.union(
+  ...NOTIFICATION_KIND_LIST.map((kind) => v.literal(kind)),
+);
+
+export function getKindInfo(kind: NotificationKind): NotificationKindInfo {
+  return NOTIFICATION_KINDS[kind];
+}
+
+export function isNotificationKind(kind: string): kind is NotificationKind {
+  return kind in NOTIFICATION_KINDS;
+}
@@ -0,0 +1,197 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import schema from "./schema";
+import type { Doc } from "./_generated/dataModel.d.ts";
+import {
+  computeNextDigestAt,
+  isInQuietHours,
+  resolveChannels,
+  sendNotification,
+} from "./_notifications";
+
+// Central time in winter, quiet from 10pm to 6am
+const OFFSET = -6 * 60;
+const QUIET = { startMinute: 22 * 60, endMinute: 6 * 60 };
+
+function preferences(
+  overrides: Partial<Doc<"notificationPreferences">> = {},
+): Doc<"notificationPreferences"> {
+  return {
+    _id: "prefs" as Doc<"notificationPreferences">["_id"],
+    _creationTime: 0,
+    userId: "user" as Doc<"users">["_id"],
+    utcOffsetMinutes: OFFSET,
+    digest: "off",
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe("isInQuietHours", () => {
+  test("handles windows that wrap midnight", () => {
+    // 11pm, 5:59am and 6am local
+    expect(isInQuietHours(QUIET, OFFSET, Date.parse("2026-01-10T05:00Z"))).toBe(
+      true,
+    );
+    expect(isInQuietHours(QUIET, OFFSET, Date.parse("2026-01-10T11:59Z"))).toBe(
+      true,
+    );
+    expect(isInQuietHours(QUIET, OFFSET, Date.parse("2026-01-10T12:00Z"))).toBe(
+      false,
+    );
+  });
+
+  test("handles windows within a day and empty windows", () => {
+    const lunch = { startMinute: 12 * 60, endMinute: 13 * 60 };
+    expect(isInQuietHours(lunch, 0, Date.parse("2026-01-10T12:30Z"))).toBe(
+      true,
+    );
+    expect(isInQuietHours(lunch, 0, Date.parse("2026-01-10T13:00Z"))).toBe(
+      false,
+    );
+    const none = { startMinute: 600, endMinute: 600 };
+    expect(isInQuietHours(none, 0, Date.parse("2026-01-10T10:00Z"))).toBe(
+      false,
+    );
+  });
+});
+
+describe("computeNextDigestAt", () => {
+  test("sends hourly digests at the top of the next hour", () => {
+    expect(
+      computeNextDigestAt(
+        preferences({ digest: "hourly" }),
+        Date.parse("2026-01-10T15:34Z"),
+      ),
+    ).toBe(Date.parse("2026-01-10T16:00Z"));
+  });
+
+  test("sends daily digests at 7am local", () => {
+    // 9am local, so tomorrow's 7am
+    expect(
+      computeNextDigestAt(
+        preferences({ digest: "daily" }),
+        Date.parse("2026-01-10T15:00Z"),
+      ),
+    ).toBe(Date.parse("2026-01-11T13:00Z"));
+    // 6:30am local, so later today
+    expect(
+      computeNextDigestAt(
+        preferences({ digest: "daily" }),
+        Date.parse("2026-01-10T12:30Z"),
+      ),
+    ).toBe(Date.parse("2026-01-10T13:00Z"));
+  });
+
+  test("waits for quiet hours to end", () => {
+    // Held at 11pm local with no digest: out at 6am local
+    expect(
+      computeNextDigestAt(
+        preferences({ quietHours: QUIET }),
+        Date.parse("2026-01-10T05:00Z"),
+      ),
+    ).toBe(Date.parse("2026-01-10T12:00Z"));
+    // A daily digest inside quiet hours until 8am local moves to 8am
+    expect(
+      computeNextDigestAt(
+        preferences({
+          digest: "daily",
+          quietHours: { startMinute: 22 * 60, endMinute: 8 * 60 },
+        }),
+        Date.parse("2026-01-10T15:00Z"),
+      ),
+    ).toBe(Date.parse("2026-01-11T14:00Z"));
+  });
+});
+
+describe("resolveChannels", () => {
+  test("uses the member's override, but keeps urgent kinds in the app", () => {
+    expect(resolveChannels("friend_request", null)).toEqual({
+      inApp: true,
+      email: false,
+      push: true,
+    });
+    const muted = preferences({
+      channels: [
+        { kind: "friend_request", inApp: false, email: false, push: false },
+        { kind: "emergency_alert", inApp: false, email: false, push: false },
+      ],
+    });
+    expect(resolveChannels("friend_request", muted)).toEqual({
+      inApp: false,
+      email: false,
+      push: false,
+    });
+    expect(resolveChannels("emergency_alert", muted).inApp).toBe(true);
+  });
+});
+
+describe("sendNotification", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // 11pm local, inside quiet hours
+    vi.setSystemTime(Date.parse("2026-01-10T05:00Z"));
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function setup(digest: "off" | "daily") {
+    const t = convexTest(schema);
+    const userId = await t.run(async (ctx) => {
+      const userId = await ctx.db.insert("users", {
+        name: "Test Hunter",
+        email: "hunter@example.com",
+      });
+      await ctx.db.insert("notificationPreferences", {
+        userId,
+        channels: [
+          { kind: "post_rejected", inApp: true, email: true, push: false },
+        ],
+        quietHours: QUIET,
+        utcOffsetMinutes: OFFSET,
+        digest,
+        updatedAt: 0,
+      });
+      return userId;
+    });
+    return { t, userId };
+  }
+
+  test("holds email during quiet hours and schedules the send", async () => {
+    const { t, userId } = await setup("off");
+    await t.run(async (ctx) => {
+      const id = await sendNotification(ctx, {
+        userId,
+        kind: "post_rejected",
+        title: "Post rejected",
+        message: "Your post was rejected",
+      });
+      expect(id).not.toBeNull();
+
+      const held = await ctx.db.query("heldNotificationEmails").collect();
+      expect(held.map((email) => email.kind)).toEqual(["post_rejected"]);
+      const prefs = await ctx.db.query("notificationPreferences").first();
+      expect(prefs?.nextDigestAt).toBe(Date.parse("2026-01-10T12:00Z"));
+    });
+  });
+
+  test("doesn't hold urgent kinds", async () => {
+    const { t, userId } = await setup("daily");
+    await t.run(async (ctx) => {
+      await sendNotification(ctx, {
+        userId,
+        kind: "emergency_alert",
+        title: "Emergency alert",
+        message: "A friend needs help",
+        relatedId: "token",
+      });
+      expect(await ctx.db.query("heldNotificationEmails").collect()).toEqual(
+        [],
+      );
+      expect(
+        (await ctx.db.query("notifications").collect()).map((n) => n.type),
+      ).toEqual(["emergency_alert"]);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { MutationCtx, QueryCtx } from "./_generated/server.d.ts";
+import { internal } from "./_generated/api";
+import {
+  getKindInfo,
+  type NotificationChannels,
+  type NotificationKind,
+} from "./_notificationKinds";
+
+// The single entry point for sending a notification. Every notification goes
+// through sendNotification so the recipient's channel preferences, quiet
+// hours and digest setting are applied the same way everywhere.
+
+type Preferences = Doc<"notificationPreferences">;
+type QuietHours = NonNullable<Preferences["quietHours"]>;
+
+/**
+ * Channels a kind is delivered on for this user: their override if they set
+ * one, else the catalog default. Urgent kinds can't be hidden in-app.
+ */
+export function resolveChannels(
+  kind: NotificationKind,
+  preferences: Preferences | null,
+): NotificationChannels {
+  const info = getKindInfo(kind);
+  const override = preferences?.channels?.find((c) => c.kind === kind);
+  const channels = override
+    ? { inApp: override.inApp, email: override.email, push: override.push }
+    : { ...info.defaultChannels };
+  if (info.urgent) {
+    channels.inApp = true;
+  }
+  return channels;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MINUTES = 24 * 60;
+// Daily digests go out at this local time
+const DAILY_DIGEST_MINUTE = 7 * 60;
+
+function localMinuteOfDay(utcOffsetMinutes: number, time: number) {
+  const localMinutes = Math.floor(time / MINUTE_MS) + utcOffsetMinutes;
+  return ((localMinutes % DAY_MINUTES) + DAY_MINUTES) % DAY_MINUTES;
+}
+
+// Start and end are local minutes of the day; a window may wrap midnight
+export function isInQuietHours(
+  quietHours: QuietHours,
+  utcOffsetMinutes: number,
+  time: number,
+) {
+  const { startMinute, endMinute } = quietHours;
+  if (startMinute === endMinute) return false;
+  const minute = localMinuteOfDay(utcOffsetMinutes, time);
+  return startMinute < endMinute
+    ? minute >= startMinute && minute < endMinute
+    : minute >= startMinute || minute < endMinute;
+}
+
+// First time after `time` when the local clock reads `targetMinute`
+function nextLocalMinute(
+  utcOffsetMinutes: number,
+  targetMinute: number,
+  time: number,
+) {
+  const minute = localMinuteOfDay(utcOffsetMinutes, time);
+  const minutesUntil = (targetMinute - minute + DAY_MINUTES) % DAY_MINUTES;
+  const startOfMinute = time - (time % MINUTE_MS);
+  return startOfMinute + (minutesUntil || DAY_MINUTES) * MINUTE_MS;
+}
+
+/**
+ * When held emails should go out: the next digest slot, moved to the end of
+ * quiet hours if it falls inside them. Without a digest, held emails go out
+ * as soon as quiet hours end.
+ */
+export function computeNextDigestAt(preferences: Preferences, now: number) {
+  let sendAt = now;
+  if (preferences.digest === "hourly") {
+    sendAt = now - (now % HOUR_MS) + HOUR_MS;
+  } else if (preferences.digest === "daily") {
+    sendAt = nextLocalMinute(
+      preferences.utcOffsetMinutes,
+      DAILY_DIGEST_MINUTE,
+      now,
+    );
+  }
+
+  const quietHours = preferences.quietHours;
+  if (
+    quietHours &&
+    isInQuietHours(quietHours, preferences.utcOffsetMinutes, sendAt)
+  ) {
+    sendAt = nextLocalMinute(
+      preferences.utcOffsetMinutes,
+      quietHours.endMinute,
+      sendAt,
+    );
+  }
+  return sendAt;
+}
+
+export async function getPreferences(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<"users">,
+) {
+  return await ctx.db
+    .query("notificationPreferences")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .unique();
+}
+
+export function notificationUrl(kind: NotificationKind, relatedId?: string) {
+  const info = getKindInfo(kind);
+  return relatedId && info.path ? info.path(relatedId) : "/";
+}
+
+/**
+ * Send a notification on every channel the recipient has enabled for its
+ * kind. Unless the kind is urgent, email is held for the digest (or until
+ * quiet hours end) and push is skipped during quiet hours. Returns the in-app notification, if one was stored.
+ */
+export async function sendNotification(
+  ctx: MutationCtx,
+  notification: {
+    userId: Id<"users">;
+    kind: NotificationKind;
+    title: string;
+    message: string;
+    relatedId?: string;
+  },
+): Promise<Id<"notifications"> | null> {
+  const { userId, kind, title, message, relatedId } = notification;
+  const info = getKindInfo(kind);
+  const preferences = await getPreferences(ctx, userId);
+  const channels = resolveChannels(kind, preferences);
+  const now = Date.now();
+
+  let notificationId: Id<"notifications"> | null = null;
+  if (channels.inApp) {
+    notificationId = await ctx.db.insert("notifications", {
+      userId,
+      type: kind,
+      title,
+      message,
+      relatedId,
+      isRead: false,
+      createdAt: now,
+    });
+  }
+
+  const inQuietHours =
+    !info.urgent &&
+    preferences?.quietHours !== undefined &&
+    isInQuietHours(preferences.quietHours, preferences.utcOffsetMinutes, now);
+
+  if (channels.email) {
+    const hold =
+      !info.urgent &&
+      preferences !== null &&
+      (preferences.digest !== "off" || inQuietHours);
+
+    if (hold) {
+      await ctx.db.insert("heldNotificationEmails", {
+        userId,
+        kind,
+        title,
+        message,
+        relatedId,
+        createdAt: now,
+      });
+      if (preferences.nextDigestAt === undefined) {
+        await ctx.db.patch(preferences._id, {
+          nextDigestAt: computeNextDigestAt(preferences, now),
+        });
+      }
+    } else {
+      const user = await ctx.db.get(userId);
+      if (user?.email) {
+        await ctx.scheduler.runAfter(
+          0,
+          internal.notifications.sendNotificationEmail,
+          {
+            to: user.email,
+            isDigest: false,
+            items: [{ title, message, path: notificationUrl(kind, relatedId) }],
+          },
+        );
+      }
+    }
+  }
+
+  // Pushes are dropped, not held, during quiet hours: the in-app copy stays
+  if (channels.push && !inQuietHours) {
+    const subscription = await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .first();
+    if (subscription) {
+      await ctx.scheduler.runAfter(0, internal.pushDelivery.sendPush, {
+        userId,
+        title,
+        body: message,
+        url: notificationUrl(kind, relatedId),
+        tag: relatedId ? `${kind}:${relatedId}` : kind,
+        urgent: info.urgent ?? false,
+      });
+    }
+  }
+
+  return notificationId;
+}
@@ -0,0 +1,142 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import type { Doc } from "./_generated/dataModel.d.ts";
+import type { MutationCtx } from "./_generated/server.d.ts";
+import {
+  ALL_PERMISSIONS,
+  DEFAULT_PERMISSIONS,
+  getUserPermissions,
+  outranks,
+  PERMISSIONS,
+  requireGrantable,
+  requirePermission,
+} from "./_permissions";
+
+async function insertUser(
+  ctx: MutationCtx,
+  fields: Partial<Doc<"users">> = {},
+): Promise<Doc<"users">> {
+  const userId = await ctx.db.insert("users", { name: "Test", ...fields });
+  return (await ctx.db.get(userId))!;
+}
+
+describe("getUserPermissions", () => {
+  test("gives owners everything and falls back to role defaults", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      const owner = await insertUser(ctx, { role: "owner" });
+      const admin = await insertUser(ctx, { role: "admin" });
+      const member = await insertUser(ctx);
+
+      expect(await getUserPermissions(ctx, owner)).toEqual(ALL_PERMISSIONS);
+      expect(await getUserPermissions(ctx, admin)).toEqual(
+        DEFAULT_PERMISSIONS.admin,
+      );
+      expect(await getUserPermissions(ctx, member)).toEqual([]);
+    });
+  });
+
+  test("prefers a custom role and drops unknown permissions", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      const roleId = await ctx.db.insert("roles", {
+        name: "Moderator",
+        permissions: [PERMISSIONS.MODERATE_FORUMS, "retired_permission"],
+        createdAt: 0,
+        updatedAt: 0,
+      });
+      const moderator = await insertUser(ctx, { role: "member", roleId });
+      expect(await getUserPermissions(ctx, moderator)).toEqual([
+        PERMISSIONS.MODERATE_FORUMS,
+      ]);
+    });
+  });
+
+  test("reads an edited built-in role", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      await ctx.db.insert("roles", {
+        key: "admin",
+        name: "Administrator",
+        permissions: [PERMISSIONS.VIEW_USERS],
+        createdAt: 0,
+        updatedAt: 0,
+      });
+      const admin = await insertUser(ctx, { role: "admin" });
+      expect(await getUserPermissions(ctx, admin)).toEqual([
+        PERMISSIONS.VIEW_USERS,
+      ]);
+    });
+  });
+});
+
+describe("requirePermission", () => {
+  test("finds the caller by email, then by subject", async () => {
+    const t = convexTest(schema);
+    const { adminId } = await t.run(async (ctx) => {
+      const admin = await insertUser(ctx, {
+        role: "admin",
+        email: "admin@example.com",
+      });
+      return { adminId: admin._id };
+    });
+
+    const byEmail = await t
+      .withIdentity({ email: "admin@example.com" })
+      .run((ctx) => requirePermission(ctx, PERMISSIONS.VIEW_USERS));
+    expect(byEmail._id).toBe(adminId);
+
+    // An email with no account falls back to the subject
+    const bySubject = await t
+      .withIdentity({ email: "changed@example.com", subject: `${adminId}|s1` })
+      .run((ctx) => requirePermission(ctx, PERMISSIONS.VIEW_USERS));
+    expect(bySubject._id).toBe(adminId);
+  });
+
+  test("rejects signed-out callers and missing permissions", async () => {
+    const t = convexTest(schema);
+    await t.run((ctx) =>
+      insertUser(ctx, { role: "admin", email: "admin@example.com" }),
+    );
+
+    await expect(
+      t.run((ctx) => requirePermission(ctx, PERMISSIONS.VIEW_USERS)),
+    ).rejects.toThrow("User not logged in");
+    await expect(
+      t
+        .withIdentity({ email: "admin@example.com" })
+        .run((ctx) => requirePermission(ctx, PERMISSIONS.MANAGE_ROLES)),
+    ).rejects.toThrow("Not authorized");
+  });
+});
+
+describe("rank checks", () => {
+  test("only lets permissions the caller holds be granted", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      const admin = await insertUser(ctx, { role: "admin" });
+      await requireGrantable(ctx, admin, [PERMISSIONS.BAN_USERS]);
+      await expect(
+        requireGrantable(ctx, admin, [PERMISSIONS.DELETE_USERS]),
+      ).rejects.toThrow("You can only grant permissions you hold yourself");
+    });
+  });
+
+  test("ranks owners above everyone and supersets above subsets", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      const owner = await insertUser(ctx, { role: "owner" });
+      const admin = await insertUser(ctx, { role: "admin" });
+      const member = await insertUser(ctx);
+
+      expect(await outranks(ctx, owner, admin)).toBe(true);
+      expect(await outranks(ctx, admin, owner)).toBe(false);
+      expect(await outranks(ctx, admin, member)).toBe(true);
+      expect(await outranks(ctx, member, admin)).toBe(false);
+      // Equal permissions don't outrank
+      const otherAdmin = await insertUser(ctx, { role: "admin" });
+      expect(await outranks(ctx, otherAdmin, admin)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { ConvexError, v } from "convex/values";
+import type { Doc } from "./_generated/dataModel.d.ts";
+import type { MutationCtx, QueryCtx } from "./_generated/server.d.ts";
+
+// Authorization for admin features. Every admin query and mutation asks for
+// one permission rather than a role. A user's permissions come from their
+// custom role if they have one, otherwise from their built-in role's row in
+// the roles table, or its defaults until that row exists. Owners always hold
+// every permission so they can't lock themselves out.
+
+export const PERMISSIONS = {
+  // User management
+  VIEW_USERS: "view_users",
+  EDIT_USERS: "edit_users",
+  DELETE_USERS: "delete_users",
+  BAN_USERS: "ban_users",
+
+  // Role management
+  MANAGE_ROLES: "manage_roles",
+
+  // Content moderation
+  MODERATE_FORUMS: "moderate_forums",
+  MODERATE_MARKETPLACE: "moderate_marketplace",
+
+  // Member support
+  MANAGE_SUPPORT: "manage_support",
+
+  // Subscriptions
+  MANAGE_SUBSCRIPTIONS: "manage_subscriptions",
+
+  // System
+  VIEW_ANALYTICS: "view_analytics",
+  VIEW_AUDIT_LOGS: "view_audit_logs",
+  IMPORT_LAND_DATA: "import_land_data",
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export type BuiltInRole = "owner" | "admin" | "member";
+
+export const builtInRoleValidator = v.union(
+  v.literal("owner"),
+  v.literal("admin"),
+  v.literal("member"),
+);
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+export const DEFAULT_PERMISSIONS: Record<BuiltInRole, Permission[]> = {
+  owner: ALL_PERMISSIONS,
+  admin: [
+    PERMISSIONS.VIEW_USERS,
+    PERMISSIONS.EDIT_USERS,
+    PERMISSIONS.BAN_USERS,
+    PERMISSIONS.MODERATE_FORUMS,
+    PERMISSIONS.MODERATE_MARKETPLACE,
+    PERMISSIONS.MANAGE_SUPPORT,
+    PERMISSIONS.VIEW_ANALYTICS,
+    PERMISSIONS.VIEW_AUDIT_LOGS,
+    PERMISSIONS.IMPORT_LAND_DATA,
+  ],
+  member: [],
+};
+
+export function isPermission(value: string): value is Permission {
+  return (ALL_PERMISSIONS as string[]).includes(value);
+}
+
+export const BUILT_IN_ROLES: Record<
+  BuiltInRole,
+  { name: string; description: string }
+> = {
+  owner: {
+    name: "Owner",
+    description: "Full system access with all permissions",
+  },
+  admin: {
+    name: "Administrator",
+    description: "Elevated privileges for platform management",
+  },
+  member: {
+    name: "Member",
+    description: "Standard user access",
+  },
+};
+
+export function isBuiltInRole(value: string): value is BuiltInRole {
+  return value === "owner" || value === "admin" || value === "member";
+}
+
+export async function getBuiltInRole(ctx: QueryCtx, key: BuiltInRole) {
+  return await ctx.db
+    .query("roles")
+    .withIndex("by_key", (q) => q.eq("key", key))
+    .unique();
+}
+
+/**
+ * The built-in role's row, created from the defaults if it doesn't exist yet
+ */
+export async function ensureBuiltInRole(ctx: MutationCtx, key: BuiltInRole) {
+  const existing = await getBuiltInRole(ctx, key);
+  if (existing) return existing;
+
+  const now = Date.now();
+  const roleId = await ctx.db.insert("roles", {
+    key,
+    name: BUILT_IN_ROLES[key].name,
+    description: BUILT_IN_ROLES[key].description,
+    permissions: DEFAULT_PERMISSIONS[key],
+    createdAt: now,
+    updatedAt: now,
+  });
+  return (await ctx.db.get(roleId))!;
+}
+
+export async function getBuiltInRolePermissions(
+  ctx: QueryCtx,
+  key: BuiltInRole,
+): Promise<Permission[]> {
+  if (key === "owner") return ALL_PERMISSIONS;
+  const role = await getBuiltInRole(ctx, key);
+  return (role?.permissions ?? DEFAULT_PERMISSIONS[key]).filter(isPermission);
+}
+
+export async function getUserPermissions(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+): Promise<Permission[]> {
+  const builtIn = user.role ?? "member";
+  if (builtIn === "owner") return ALL_PERMISSIONS;
+
+  if (user.roleId) {
+    const role = await ctx.db.get(user.roleId);
+    if (role) return role.permissions.filter(isPermission);
+  }
+  return await getBuiltInRolePermissions(ctx, builtIn);
+}
+
+export async function hasPermission(
+  ctx: QueryCtx,
+  user: Doc<"users"> | null | undefined,
+  permission: Permission,
+) {
+  return !!user && (await getUserPermissions(ctx, user)).includes(permission);
+}
+
+/**
+ * Whether `user` holds every one of `permissions`. Owners hold them all.
+ */
+export async function holdsAllPermissions(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  permissions: readonly string[],
+) {
+  const held = await getUserPermissions(ctx, user);
+  return permissions.every((p) => (held as string[]).includes(p));
+}
+
+/**
+ * Throws FORBIDDEN unless `user` holds every permission they are about to
+ * hand out, so managing roles can't be used to gain more access
+ */
+export async function requireGrantable(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  permissions: readonly string[],
+) {
+  if (!(await holdsAllPermissions(ctx, user, permissions))) {
+    throw new ConvexError({
+      message: "You can only grant permissions you hold yourself",
+      code: "FORBIDDEN",
+    });
+  }
+}
+
+/**
+ * Whether `target` outranks `actor`: an owner over a non-owner, or anyone
+ * holding a permission the actor doesn't
+ */
+export async function outranks(
+  ctx: QueryCtx,
+  target: Doc<"users">,
+  actor: Doc<"users">,
+) {
+  if (actor.role === "owner") return false;
+  if (target.role === "owner") return true;
+  return !(await holdsAllPermissions(
+    ctx,
+    actor,
+    await getUserPermissions(ctx, target),
+  ));
+}
+
+async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  if (identity.email) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", identity.email!))
+      .unique();
+    if (user) {
+      return user;
+    }
+  }
+
+  // Fall back to the subject, "<userId>|<session>"
+  const userId = ctx.db.normalizeId("users", identity.subject.split("|")[0]);
+  return userId ? await ctx.db.get(userId) : null;
+}
+
+/**
+ * The signed-in user, if they hold `permission`. Throws UNAUTHENTICATED when
+ * signed out and FORBIDDEN when the permission is missing.
+ */
+export async function requirePermission(
+  ctx: QueryCtx | MutationCtx,
+  permission: Permission,
+) {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new ConvexError({
+      message: "User not logged in",
+      code: "UNAUTHENTICATED",
+    });
+  }
+  if (!(await hasPermission(ctx, user, permission))) {
+    console.log("[requirePermission] Missing permission", {
+      userId: user._id,
+      permission,
+    });
+    throw new ConvexError({
+      message: "Not authorized",
+      code: "FORBIDDEN",
+    });
+  }
+  return user;
+}
@@ -0,0 +1,148 @@
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { MutationCtx, QueryCtx } from "./_generated/server.d.ts";
+import { getBlockedUserIds } from "./_blocks";
+import {
+  distanceMiles,
+  GEOHASH_PREFIX_END,
+  METERS_PER_MILE,
+  scanPointsInRadius,
+} from "./_geoPoints";
+import { sendNotification } from "./_notifications";
+
+// Volunteer responders are members who chose an alert radius for nearby
+// deer and vehicle recovery requests. Their last location is indexed by
+// geohash on notificationPreferences, so matching a request only reads the
+// volunteers within the largest allowed radius of it.
+
+export const MAX_RECOVERY_ALERT_RADIUS_MILES = 100;
+// A location older than this says little about where the member is now
+const MAX_LOCATION_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Volunteer rows read per geohash cell before it is split into finer cells,
+// and in all for one request
+const MAX_ROWS_PER_CELL = 200;
+const MAX_VOLUNTEER_ROWS = 4000;
+
+export type RecoveryRequestType = "deer" | "vehicle";
+
+export interface VolunteerMatch {
+  preferences: Doc<"notificationPreferences">;
+  miles: number;
+}
+
+/**
+ * Volunteers with a recent location whose own alert radius covers the
+ * point, nearest first. In a crowded area only the nearest
+ * MAX_VOLUNTEER_ROWS volunteers are considered.
+ */
+export async function findVolunteersInRange(
+  ctx: QueryCtx,
+  lat: number,
+  lng: number,
+): Promise<VolunteerMatch[]> {
+  const now = Date.now();
+  const { rows, completeWithinMeters } = await scanPointsInRadius(
+    {
+      lat,
+      lng,
+      radiusMeters: MAX_RECOVERY_ALERT_RADIUS_MILES * METERS_PER_MILE,
+    },
+    (prefix, limit) =>
+      ctx.db
+        .query("notificationPreferences")
+        .withIndex("by_last_location_geohash", (q) =>
+          q
+            .gte("lastLocationGeohash", prefix)
+            .lt("lastLocationGeohash", prefix + GEOHASH_PREFIX_END),
+        )
+        .take(limit),
+    { rowsPerCell: MAX_ROWS_PER_CELL, maxRows: MAX_VOLUNTEER_ROWS },
+  );
+  if (
+    completeWithinMeters <
+    MAX_RECOVERY_ALERT_RADIUS_MILES * METERS_PER_MILE
+  ) {
+    console.log("[findVolunteersInRange] Stopped at the read limit", {
+      completeWithinMiles: completeWithinMeters / METERS_PER_MILE,
+    });
+  }
+
+  const matches: VolunteerMatch[] = [];
+  for (const preferences of rows) {
+    const { lastLocation, recoveryAlertRadiusMiles } = preferences;
+    if (
+      !lastLocation ||
+      !recoveryAlertRadiusMiles ||
+      now - lastLocation.updatedAt > MAX_LOCATION_AGE_MS
+    ) {
+      continue;
+    }
+    const miles = distanceMiles(lastLocation.lat, lastLocation.lng, lat, lng);
+    if (miles <= recoveryAlertRadiusMiles) {
+      matches.push({ preferences, miles });
+    }
+  }
+
+  return matches.sort((a, b) => a.miles - b.miles);
+}
+
+/**
+ * Tell nearby volunteers about a new request and record who was told.
+ * Volunteers blocked either way with the owner are left out.
+ */
+export async function notifyNearbyVolunteers(
+  ctx: MutationCtx,
+  request: {
+    type: RecoveryRequestType;
+    requestId: string;
+    ownerId: Id<"users">;
+    ownerName?: string;
+    lat: number;
+    lng: number;
+    locationName?: string;
+  },
+) {
+  const volunteers = await findVolunteersInRange(ctx, request.lat, request.lng);
+  const blockedIds = await getBlockedUserIds(ctx, request.ownerId);
+
+  const name = request.ownerName ?? "A hunter";
+  const what =
+    request.type === "deer" ? "recovering a deer" : "with a stuck vehicle";
+  const where = request.locationName ? ` near ${request.locationName}` : "";
+  const now = Date.now();
+
+  let notified = 0;
+  for (const { preferences, miles } of volunteers) {
+    if (
+      preferences.userId === request.ownerId ||
+      blockedIds.has(preferences.userId)
+    ) {
+      continue;
+    }
+
+    await sendNotification(ctx, {
+      userId: preferences.userId,
+      kind: "nearby_recovery_request",
+      title:
+        request.type === "deer"
+          ? "Deer Recovery Help Needed Nearby"
+          : "Vehicle Recovery Help Needed Nearby",
+      message: `${name} needs help ${what}${where}, about ${formatMiles(miles)} mi from you.`,
+      relatedId: request.requestId,
+    });
+    await ctx.db.insert("recoveryVolunteerAlerts", {
+      requestType: request.type,
+      requestId: request.requestId,
+      userId: preferences.userId,
+      distanceMiles: miles,
+      notifiedAt: now,
+    });
+    notified++;
+  }
+
+  return notified;
+}
+
+// Whole miles only, so messages don't give away anyone's exact position
+export function formatMiles(miles: number) {
+  return miles < 1 ? "less than 1" : String(Math.round(miles));
+}
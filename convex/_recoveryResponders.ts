@@ -0,0 +1,100 @@
+import { ConvexError, v } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { MutationCtx, QueryCtx } from "./_generated/server.d.ts";
+
+// Shared pieces of the responder workflow for deer and vehicle recovery
+// requests. Helpers offer to help, the requester accepts or declines each
+// offer, accepted responders see each other's live location while the
+// request is open, and the requester confirms completion with a rating.
+// Each step is recorded in the request's comment table as an event entry,
+// so the thread doubles as the request's history.
+
+export type RecoveryRequestId =
+  | Id<"deerRecoveryRequests">
+  | Id<"vehicleRecoveryRequests">;
+
+export const recoveryRequestIdValidator = v.union(
+  v.id("deerRecoveryRequests"),
+  v.id("vehicleRecoveryRequests"),
+);
+
+export type RecoveryEvent =
+  | "offered"
+  | "withdrawn"
+  | "accepted"
+  | "declined"
+  | "eta_updated"
+  | "completed"
+  | "closed"
+  | "reopened";
+
+// Live locations older than this are no longer shown
+export const LIVE_LOCATION_TTL_MS = 30 * 60 * 1000;
+
+export async function getRecoveryRequest(
+  ctx: QueryCtx,
+  requestId: RecoveryRequestId,
+): Promise<
+  | { type: "deer"; request: Doc<"deerRecoveryRequests"> }
+  | { type: "vehicle"; request: Doc<"vehicleRecoveryRequests"> }
+> {
+  const deerId = ctx.db.normalizeId("deerRecoveryRequests", requestId);
+  if (deerId) {
+    const request = await ctx.db.get(deerId);
+    if (request) return { type: "deer", request };
+  } else {
+    const vehicleId = ctx.db.normalizeId("vehicleRecoveryRequests", requestId);
+    const request = vehicleId ? await ctx.db.get(vehicleId) : null;
+    if (request) return { type: "vehicle", request };
+  }
+
+  throw new ConvexError({
+    message: "Request not found",
+    code: "NOT_FOUND",
+  });
+}
+
+/**
+ * Add a workflow event to the request's comment thread. Events don't count
+ * toward the request's comment count.
+ */
+export async function recordRecoveryEvent(
+  ctx: MutationCtx,
+  requestId: RecoveryRequestId,
+  userId: Id<"users">,
+  event: RecoveryEvent,
+  content: string,
+) {
+  const entry = { userId, content, event, createdAt: Date.now() };
+  const deerId = ctx.db.normalizeId("deerRecoveryRequests", requestId);
+  if (deerId) {
+    await ctx.db.insert("deerRecoveryComments", { requestId: deerId, ...entry });
+    return;
+  }
+  const vehicleId = ctx.db.normalizeId("vehicleRecoveryRequests", requestId);
+  if (vehicleId) {
+    await ctx.db.insert("vehicleRecoveryComments", {
+      requestId: vehicleId,
+      ...entry,
+    });
+  }
+}
+
+/**
+ * Stop sharing every live location on a request once it is no longer open
+ */
+export async function clearLiveLocations(
+  ctx: MutationCtx,
+  requestId: RecoveryRequestId,
+) {
+  const responders = await ctx.db
+    .query("recoveryResponders")
+    .withIndex("by_request", (q) => q.eq("requestId", requestId))
+    .collect();
+  for (const responder of responders) {
+    if (responder.liveLocation) {
+      await ctx.db.patch(responder._id, { liveLocation: undefined });
+    }
+  }
+  await ctx.db.patch(requestId, { ownerLiveLocation: undefined });
+}
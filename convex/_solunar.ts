@@ -0,0 +1,204 @@
+import { ConvexError } from "convex/values";
+
+// Solunar.org feeding periods and moon data, shared by the solunar action
+// and the conditions captured when a hunt starts and ends. Only call from
+// actions: lookups are network requests.
+
+export interface SolunarTimes {
+  sunRise: string;
+  sunSet: string;
+  moonPhase: string;
+  moonIllumination: number;
+  major1Start: string;
+  major1Stop: string;
+  major2Start: string;
+  major2Stop: string;
+  minor1Start: string;
+  minor1Stop: string;
+  minor2Start: string;
+  minor2Stop: string;
+  dayRating: number;
+  hourlyRating: Record<string, number>;
+}
+
+/**
+ * Solunar times for `date` ("YYYYMMDD"), as local "HH:mm" times at
+ * `utcOffsetHours`
+ */
+export async function fetchSolunarTimes(
+  lat: number,
+  lng: number,
+  date: string,
+  utcOffsetHours: number,
+): Promise<SolunarTimes> {
+  try {
+    // Call Solunar API
+    const url = `https://api.solunar.org/solunar/${lat},${lng},${date},${utcOffsetHours}`;
+
+    // Add timeout to fetch request (30 seconds)
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 30000);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+    } catch (error) {
+      const fetchError = error as {
+        name?: string;
+        code?: string;
+        message?: string;
+      };
+      clearTimeout(timeoutId);
+
+      // Handle timeout errors
+      if (
+        fetchError.name === "AbortError" ||
+        fetchError.code === "UND_ERR_CONNECT_TIMEOUT"
+      ) {
+        throw new ConvexError({
+          message:
+            "Connection timeout while fetching solunar data. The Solunar API may be temporarily unavailable. Please try again later.",
+          code: "EXTERNAL_SERVICE_ERROR",
+        });
+      }
+
+      // Handle connection errors
+      if (
+        fetchError.code === "UND_ERR_CONNECT_TIMEOUT" ||
+        fetchError.message?.includes("timeout")
+      ) {
+        throw new ConvexError({
+          message:
+            "Unable to connect to Solunar API. The service may be temporarily unavailable. Please try again later.",
+          code: "EXTERNAL_SERVICE_ERROR",
+        });
+      }
+
+      // Re-throw other fetch errors
+      throw fetchError;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "Unknown error");
+      throw new ConvexError({
+        message: `Failed to fetch solunar data: ${response.status} ${response.statusText}. ${errorText}`,
+        code: "EXTERNAL_SERVICE_ERROR",
+      });
+    }
+
+    const data: SolunarTimes = await response.json();
+
+    return {
+      sunRise: data.sunRise,
+      sunSet: data.sunSet,
+      moonPhase: data.moonPhase,
+      moonIllumination: data.moonIllumination,
+      major1Start: data.major1Start,
+      major1Stop: data.major1Stop,
+      major2Start: data.major2Start,
+      major2Stop: data.major2Stop,
+      minor1Start: data.minor1Start,
+      minor1Stop: data.minor1Stop,
+      minor2Start: data.minor2Start,
+      minor2Stop: data.minor2Stop,
+      dayRating: data.dayRating,
+      hourlyRating: data.hourlyRating,
+    };
+  } catch (error) {
+    // If it's already a ConvexError, re-throw it
+    if (error instanceof ConvexError) {
+      throw error;
+    }
+
+    console.error("Solunar API error:", error);
+
+    // Provide more specific error messages based on error type
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes("timeout") || errorMessage.includes("Timeout")) {
+      throw new ConvexError({
+        message:
+          "Connection timeout while fetching solunar data. The Solunar API may be temporarily unavailable. Please try again later.",
+        code: "EXTERNAL_SERVICE_ERROR",
+      });
+    }
+
+    if (
+      errorMessage.includes("fetch failed") ||
+      errorMessage.includes("ECONNREFUSED")
+    ) {
+      throw new ConvexError({
+        message:
+          "Unable to connect to Solunar API. The service may be temporarily unavailable. Please try again later.",
+        code: "EXTERNAL_SERVICE_ERROR",
+      });
+    }
+
+    // Generic error fallback
+    throw new ConvexError({
+      message: `Unable to fetch hunting times: ${errorMessage}`,
+      code: "EXTERNAL_SERVICE_ERROR",
+    });
+  }
+}
+
+export interface SolunarPeriod {
+  start: number;
+  end: number;
+}
+
+// "HH:mm" on `date` at `utcOffsetHours` as a timestamp, or undefined for
+// the placeholders the API uses when a period doesn't happen that day
+function toTimestamp(date: string, time: string, utcOffsetHours: number) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time?.trim() ?? "");
+  if (!match) return undefined;
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(4, 6)) - 1;
+  const day = Number(date.slice(6, 8));
+  return (
+    Date.UTC(year, month, day, Number(match[1]), Number(match[2])) -
+    utcOffsetHours * 60 * 60 * 1000
+  );
+}
+
+function toPeriod(
+  date: string,
+  start: string,
+  stop: string,
+  utcOffsetHours: number,
+): SolunarPeriod | null {
+  const startAt = toTimestamp(date, start, utcOffsetHours);
+  let endAt = toTimestamp(date, stop, utcOffsetHours);
+  if (startAt === undefined || endAt === undefined) return null;
+  // A period that runs past midnight ends the next day
+  if (endAt < startAt) endAt += 24 * 60 * 60 * 1000;
+  return { start: startAt, end: endAt };
+}
+
+/**
+ * The major and minor periods from `times` as timestamps
+ */
+export function getSolunarPeriods(
+  times: SolunarTimes,
+  date: string,
+  utcOffsetHours: number,
+) {
+  const periods = (pairs: [string, string][]) =>
+    pairs
+      .map(([start, stop]) => toPeriod(date, start, stop, utcOffsetHours))
+      .filter((period): period is SolunarPeriod => period !== null);
+
+  return {
+    major: periods([
+      [times.major1Start, times.major1Stop],
+      [times.major2Start, times.major2Stop],
+    ]),
+    minor: periods([
+      [times.minor1Start, times.minor1Stop],
+      [times.minor2Start, times.minor2Stop],
+    ]),
+  };
+}
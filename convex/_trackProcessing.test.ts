@@ -0,0 +1,89 @@
+import { describe, expect, test } from "vitest";
+import { processTrack, simplifyPath } from "./_trackProcessing";
+import type { TrackPoint } from "./_trackSegments";
+
+// About 10m of latitude
+const STEP = 0.00009;
+
+// Walking north from `start`, one fix every 10 seconds
+function walk(count: number, start = 0, fromLat = 45): TrackPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    lat: fromLat + i * STEP,
+    lng: -93,
+    timestamp: (start + i * 10) * 1000,
+  }));
+}
+
+describe("processTrack", () => {
+  test("measures a steady walk", () => {
+    const stats = processTrack(walk(61));
+    expect(stats.duration).toBe(600);
+    expect(stats.distance).toBeCloseTo(600, -1);
+    expect(stats.movingTime).toBe(600);
+    expect(stats.stoppedTime).toBe(0);
+    expect(stats.averageSpeed).toBeCloseTo(1, 1);
+    // A straight line needs only its ends
+    expect(stats.simplifiedPath).toHaveLength(2);
+  });
+
+  test("counts jitter while sitting as stopped time", () => {
+    const sitting: TrackPoint[] = Array.from({ length: 31 }, (_, i) => ({
+      lat: 45 + (i % 2) * 0.00002,
+      lng: -93 + (i % 3) * 0.00002,
+      timestamp: i * 10_000,
+    }));
+    const stats = processTrack([...sitting, ...walk(30, 310, 45 + STEP)]);
+    expect(stats.stoppedTime).toBeCloseTo(300, 0);
+    expect(stats.movingTime).toBeCloseTo(300, 0);
+    expect(stats.distance).toBeCloseTo(300, -1);
+  });
+
+  test("drops impossible jumps and inaccurate fixes", () => {
+    const points = walk(11);
+    const clean = processTrack(points);
+    const noisy = processTrack([
+      ...points,
+      // 1km off in one second
+      { lat: 45.009, lng: -93, timestamp: 50_500 },
+      // Reported as 200m accurate
+      { lat: 45, lng: -92.99, timestamp: 60_500, accuracy: 200 },
+    ]);
+    expect(noisy.distance).toBeCloseTo(clean.distance, 6);
+    expect(noisy.maxSpeed).toBeCloseTo(clean.maxSpeed, 6);
+  });
+
+  test("smooths elevation before counting climbs", () => {
+    const climb = walk(31).map((point, i) => ({ ...point, altitude: 200 + i }));
+    const climbStats = processTrack(climb);
+    expect(climbStats.elevationGain).toBeGreaterThan(25);
+    expect(climbStats.elevationGain).toBeLessThanOrEqual(30);
+    expect(climbStats.elevationLoss).toBe(0);
+
+    const wobble = walk(31).map((point, i) => ({
+      ...point,
+      altitude: 200 + (i % 2 === 0 ? 1 : -1),
+    }));
+    const wobbleStats = processTrack(wobble);
+    expect(wobbleStats.elevationGain).toBe(0);
+    expect(wobbleStats.elevationLoss).toBe(0);
+  });
+
+  test("handles empty and single-point tracks", () => {
+    expect(processTrack([])).toMatchObject({ distance: 0, duration: 0 });
+    expect(processTrack(walk(1)).simplifiedPath).toHaveLength(1);
+  });
+});
+
+describe("simplifyPath", () => {
+  test("keeps corners and drops points along straight runs", () => {
+    const north = walk(10);
+    const corner = north[north.length - 1];
+    const east = Array.from({ length: 10 }, (_, i) => ({
+      lat: corner.lat,
+      lng: corner.lng + (i + 1) * STEP,
+      timestamp: corner.timestamp + (i + 1) * 10_000,
+    }));
+    const simplified = simplifyPath([...north, ...east], 5);
+    expect(simplified).toEqual([north[0], corner, east[east.length - 1]]);
+  });
+});
@@ -0,0 +1,208 @@
+import { haversineMeters } from "./_geo";
+import type { TrackPoint } from "./_trackSegments";
+
+// Fixes reported with a worse horizontal accuracy than this are dropped
+export const MAX_ACCURACY_METERS = 30;
+
+// Movement inside this radius of the last accepted fix is treated as jitter
+const STATIONARY_RADIUS_METERS = 8;
+
+// Leaving the jitter radius slower than this means we drifted, not walked
+const MIN_MOVING_SPEED_MPS = 0.3;
+
+// Faster than any hunter on foot or ATV; hops above this are GPS glitches
+const MAX_PLAUSIBLE_SPEED_MPS = 40;
+
+// Douglas–Peucker tolerance for the display path, and a cap on its size
+const SIMPLIFY_TOLERANCE_METERS = 5;
+const MAX_SIMPLIFIED_POINTS = 5000;
+
+// Altitude smoothing window and the climb needed before it counts
+const ELEVATION_WINDOW = 5;
+const ELEVATION_THRESHOLD_METERS = 3;
+
+export interface TrackStats {
+  distance: number; // meters
+  duration: number; // seconds
+  movingTime: number; // seconds
+  stoppedTime: number; // seconds
+  averageSpeed: number; // m/s while moving
+  maxSpeed: number; // m/s
+  elevationGain: number; // meters
+  elevationLoss: number; // meters
+  simplifiedPath: { lat: number; lng: number }[];
+}
+
+function filterByAccuracy(points: TrackPoint[]) {
+  const accurate = points.filter(
+    (point) =>
+      point.accuracy === undefined || point.accuracy <= MAX_ACCURACY_METERS,
+  );
+  // A track recorded entirely with poor signal is still better than nothing
+  return accurate.length >= 2 ? accurate : points;
+}
+
+// Smoothed elevation gain/loss with a hysteresis threshold so small
+// barometric or GPS wobble does not accumulate into phantom climbs
+function computeElevation(points: TrackPoint[]) {
+  const altitudes = points
+    .map((point) => point.altitude)
+    .filter((altitude): altitude is number => altitude !== undefined);
+
+  let gain = 0;
+  let loss = 0;
+  if (altitudes.length < 2) return { gain, loss };
+
+  const half = Math.floor(ELEVATION_WINDOW / 2);
+  const smoothed = altitudes.map((_, i) => {
+    const window = altitudes.slice(
+      Math.max(0, i - half),
+      Math.min(altitudes.length, i + half + 1),
+    );
+    return window.reduce((sum, altitude) => sum + altitude, 0) / window.length;
+  });
+
+  let reference = smoothed[0];
+  for (const altitude of smoothed) {
+    const diff = altitude - reference;
+    if (diff >= ELEVATION_THRESHOLD_METERS) {
+      gain += diff;
+      reference = altitude;
+    } else if (diff <= -ELEVATION_THRESHOLD_METERS) {
+      loss += -diff;
+      reference = altitude;
+    }
+  }
+
+  return { gain, loss };
+}
+
+// Perpendicular distance from p to segment a-b, in meters, using a local
+// equirectangular projection (plenty accurate at track scale)
+function perpendicularDistance(p: TrackPoint, a: TrackPoint, b: TrackPoint) {
+  const metersPerDegLat = 111320;
+  const metersPerDegLng = metersPerDegLat * Math.cos((a.lat * Math.PI) / 180);
+  const px = (p.lng - a.lng) * metersPerDegLng;
+  const py = (p.lat - a.lat) * metersPerDegLat;
+  const bx = (b.lng - a.lng) * metersPerDegLng;
+  const by = (b.lat - a.lat) * metersPerDegLat;
+
+  const lengthSquared = bx * bx + by * by;
+  if (lengthSquared === 0) return Math.hypot(px, py);
+
+  const t = Math.max(0, Math.min(1, (px * bx + py * by) / lengthSquared));
+  return Math.hypot(px - t * bx, py - t * by);
+}
+
+// Iterative Douglas–Peucker (avoids deep recursion on long tracks)
+export function simplifyPath(points: TrackPoint[], tolerance: number) {
+  if (points.length <= 2) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = perpendicularDistance(
+        points[i],
+        points[start],
+        points[end],
+      );
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+    if (maxIndex !== -1 && maxDistance > tolerance) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Clean raw fixes and derive track statistics. Drops low-accuracy fixes and
+ * impossible jumps, collapses stationary jitter, splits moving from stopped
+ * time, and produces a simplified path for display.
+ */
+export function processTrack(rawPoints: TrackPoint[]): TrackStats {
+  const points = filterByAccuracy(
+    [...rawPoints].sort((a, b) => a.timestamp - b.timestamp),
+  );
+
+  const duration =
+    points.length > 1
+      ? (points[points.length - 1].timestamp - points[0].timestamp) / 1000
+      : 0;
+
+  const kept: TrackPoint[] = points.length > 0 ? [points[0]] : [];
+  let distance = 0;
+  let movingTime = 0;
+  let stoppedTime = 0;
+  let maxSpeed = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const point = points[i];
+    const anchor = kept[kept.length - 1];
+    const hop = haversineMeters(anchor.lat, anchor.lng, point.lat, point.lng);
+    if (hop < STATIONARY_RADIUS_METERS) continue;
+
+    const sinceAnchor = (point.timestamp - anchor.timestamp) / 1000;
+    const speed = sinceAnchor > 0 ? hop / sinceAnchor : Infinity;
+    if (speed > MAX_PLAUSIBLE_SPEED_MPS) {
+      // Outlier fix; skip it without moving the anchor
+      continue;
+    }
+
+    if (speed >= MIN_MOVING_SPEED_MPS) {
+      movingTime += sinceAnchor;
+    } else {
+      // Sat still, then moved off: only the last interval was movement
+      const elapsed = (point.timestamp - points[i - 1].timestamp) / 1000;
+      movingTime += elapsed;
+      stoppedTime += sinceAnchor - elapsed;
+    }
+
+    distance += hop;
+    maxSpeed = Math.max(maxSpeed, hop / Math.max(sinceAnchor, 1));
+    kept.push(point);
+  }
+
+  // Time after the last accepted movement was spent in place
+  if (kept.length > 0 && points.length > 0) {
+    stoppedTime +=
+      (points[points.length - 1].timestamp - kept[kept.length - 1].timestamp) /
+      1000;
+  }
+
+  const { gain, loss } = computeElevation(points);
+
+  let tolerance = SIMPLIFY_TOLERANCE_METERS;
+  let simplified = simplifyPath(kept, tolerance);
+  while (simplified.length > MAX_SIMPLIFIED_POINTS) {
+    tolerance *= 2;
+    simplified = simplifyPath(kept, tolerance);
+  }
+
+  return {
+    distance,
+    duration,
+    movingTime,
+    stoppedTime,
+    averageSpeed: movingTime > 0 ? distance / movingTime : 0,
+    maxSpeed,
+    elevationGain: gain,
+    elevationLoss: loss,
+    simplifiedPath: simplified.map((point) => ({
+      lat: point.lat,
+      lng: point.lng,
+    })),
+  };
+}
@@ -0,0 +1,124 @@
+import { convexTest } from "convex-test";
+import { describe, expect, test } from "vitest";
+import schema from "./schema";
+import type { Id } from "./_generated/dataModel.d.ts";
+import type { MutationCtx } from "./_generated/server.d.ts";
+import {
+  appendTrackPoints,
+  loadTrackPoints,
+  SEGMENT_SIZE,
+  type TrackPoint,
+} from "./_trackSegments";
+
+// Points a few meters apart heading north, one second apart from `start`
+function walk(count: number, start = 0): TrackPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    lat: 45 + (start + i) * 0.00005,
+    lng: -93,
+    timestamp: (start + i) * 1000,
+  }));
+}
+
+async function createTrack(
+  ctx: MutationCtx,
+  extra: { coordinates?: TrackPoint[] } = {},
+) {
+  const userId = await ctx.db.insert("users", { name: "Test Hunter" });
+  return await ctx.db.insert("tracks", {
+    userId,
+    name: "Evening sit",
+    distance: 0,
+    duration: 0,
+    startTime: 0,
+    endTime: 0,
+    isActive: true,
+    ...extra,
+  });
+}
+
+async function append(
+  ctx: MutationCtx,
+  trackId: Id<"tracks">,
+  points: TrackPoint[],
+) {
+  return await appendTrackPoints(ctx, (await ctx.db.get(trackId))!, points);
+}
+
+async function segmentsOf(ctx: MutationCtx, trackId: Id<"tracks">) {
+  return await ctx.db
+    .query("trackSegments")
+    .withIndex("by_track_index", (q) => q.eq("trackId", trackId))
+    .collect();
+}
+
+describe("appendTrackPoints", () => {
+  test("fills segments in order and totals the distance", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      const trackId = await createTrack(ctx);
+      const points = walk(SEGMENT_SIZE + 20);
+
+      expect(await append(ctx, trackId, points.slice(0, 300))).toBe(300);
+      expect(await append(ctx, trackId, points.slice(300))).toBe(220);
+
+      const segments = await segmentsOf(ctx, trackId);
+      expect(segments.map((s) => s.points.length)).toEqual([SEGMENT_SIZE, 20]);
+
+      const track = (await ctx.db.get(trackId))!;
+      expect(track.pointCount).toBe(SEGMENT_SIZE + 20);
+      expect(track.segmentCount).toBe(2);
+      expect(track.endTime).toBe(points[points.length - 1].timestamp);
+      // ~5.57m per hop
+      expect(track.distance).toBeCloseTo(
+        segments.reduce((sum, s) => sum + s.distance, 0),
+        6,
+      );
+      expect(track.distance / (SEGMENT_SIZE + 19)).toBeCloseTo(5.56, 1);
+    });
+  });
+
+  test("skips points it already has", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      const trackId = await createTrack(ctx);
+      await append(ctx, trackId, walk(10));
+
+      expect(await append(ctx, trackId, walk(12))).toBe(2);
+      expect(await append(ctx, trackId, walk(12))).toBe(0);
+      expect((await ctx.db.get(trackId))!.pointCount).toBe(12);
+    });
+  });
+
+  test("merges late points into time order", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      const trackId = await createTrack(ctx);
+      const points = walk(SEGMENT_SIZE * 2);
+      const late = points.filter((_, i) => i % 50 === 7);
+      await append(
+        ctx,
+        trackId,
+        points.filter((_, i) => i % 50 !== 7),
+      );
+      await append(ctx, trackId, late);
+
+      const track = (await ctx.db.get(trackId))!;
+      expect(await loadTrackPoints(ctx, track)).toEqual(points);
+      expect(track.pointCount).toBe(points.length);
+      const segments = await segmentsOf(ctx, trackId);
+      expect(segments.map((s) => s.index)).toEqual([0, 1]);
+    });
+  });
+
+  test("moves legacy inline coordinates into segments first", async () => {
+    const t = convexTest(schema);
+    await t.run(async (ctx) => {
+      const trackId = await createTrack(ctx, { coordinates: walk(5) });
+      expect(await append(ctx, trackId, walk(3, 5))).toBe(3);
+
+      const track = (await ctx.db.get(trackId))!;
+      expect(track.coordinates).toBeUndefined();
+      expect(await loadTrackPoints(ctx, track)).toEqual(walk(8));
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { v, type Infer } from "convex/values";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { MutationCtx, QueryCtx } from "./_generated/server.d.ts";
+import { haversineMeters } from "./_geo";
+
+// Track points live in fixed-size chunks so a long hunt never approaches the
+// document size limit and appending only touches the newest chunk.
+// Every segment except the last one of a track holds exactly this many points.
+export const SEGMENT_SIZE = 500;
+
+export const trackPointValidator = v.object({
+  lat: v.number(),
+  lng: v.number(),
+  timestamp: v.number(),
+  altitude: v.optional(v.number()),
+  accuracy: v.optional(v.number()),
+});
+
+export type TrackPoint = Infer<typeof trackPointValidator>;
+
+// Sum of hops inside `points`, plus the hop from the point that precedes them
+function pathDistance(points: TrackPoint[], previous?: TrackPoint) {
+  let distance = 0;
+  let last = previous;
+  for (const point of points) {
+    if (last) {
+      distance += haversineMeters(last.lat, last.lng, point.lat, point.lng);
+    }
+    last = point;
+  }
+  return distance;
+}
+
+async function getSegmentsFrom(
+  ctx: QueryCtx | MutationCtx,
+  trackId: Id<"tracks">,
+  fromIndex: number,
+) {
+  return await ctx.db
+    .query("trackSegments")
+    .withIndex("by_track_index", (q) =>
+      q.eq("trackId", trackId).gte("index", fromIndex),
+    )
+    .collect();
+}
+
+async function getSegment(
+  ctx: QueryCtx | MutationCtx,
+  trackId: Id<"tracks">,
+  index: number,
+) {
+  return await ctx.db
+    .query("trackSegments")
+    .withIndex("by_track_index", (q) =>
+      q.eq("trackId", trackId).eq("index", index),
+    )
+    .unique();
+}
+
+// Load every point of a track in time order. Falls back to the legacy
+// inline array for tracks that have not been migrated yet.
+export async function loadTrackPoints(
+  ctx: QueryCtx | MutationCtx,
+  track: Doc<"tracks">,
+): Promise<TrackPoint[]> {
+  const segments = await getSegmentsFrom(ctx, track._id, 0);
+  if (segments.length === 0) {
+    return track.coordinates ?? [];
+  }
+  return segments.flatMap((segment) => segment.points);
+}
+
+async function writeSegments(
+  ctx: MutationCtx,
+  track: Doc<"tracks">,
+  startIndex: number,
+  points: TrackPoint[],
+  previous: TrackPoint | undefined,
+) {
+  let index = startIndex;
+  let last = previous;
+  for (let i = 0; i < points.length; i += SEGMENT_SIZE) {
+    const chunk = points.slice(i, i + SEGMENT_SIZE);
+    await ctx.db.insert("trackSegments", {
+      trackId: track._id,
+      userId: track.userId,
+      index,
+      points: chunk,
+      startTime: chunk[0].timestamp,
+      endTime: chunk[chunk.length - 1].timestamp,
+      distance: pathDistance(chunk, last),
+    });
+    last = chunk[chunk.length - 1];
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Merge points into a track's segments. Points are deduplicated by timestamp
+ * and kept in time order; late points rewrite only the segments they land in
+ * and those after them. Returns how many points were actually stored.
+ */
+export async function appendTrackPoints(
+  ctx: MutationCtx,
+  track: Doc<"tracks">,
+  points: TrackPoint[],
+) {
+  if (points.length === 0) return 0;
+
+  if (track.coordinates !== undefined) {
+    await migrateInlineCoordinates(ctx, track);
+    const migrated = await ctx.db.get(track._id);
+    if (!migrated) return 0;
+    track = migrated;
+  }
+
+  const incoming = [...points].sort((a, b) => a.timestamp - b.timestamp);
+  const earliest = incoming[0].timestamp;
+  const segmentCount = track.segmentCount ?? 0;
+
+  // Walk back from the newest segment to the one the earliest incoming point
+  // falls into; it and everything after it get rewritten. A full segment that
+  // ends before the incoming points is left alone.
+  const affected: Doc<"trackSegments">[] = [];
+  for (let index = segmentCount - 1; index >= 0; index--) {
+    const segment = await getSegment(ctx, track._id, index);
+    if (!segment) break;
+    if (
+      segment.endTime < earliest &&
+      segment.points.length >= SEGMENT_SIZE
+    ) {
+      break;
+    }
+    affected.unshift(segment);
+    if (segment.startTime < earliest) break;
+  }
+
+  const startIndex = affected.length > 0 ? affected[0].index : segmentCount;
+  const previousSegment =
+    startIndex > 0 ? await getSegment(ctx, track._id, startIndex - 1) : null;
+  const previous = previousSegment
+    ? previousSegment.points[previousSegment.points.length - 1]
+    : undefined;
+
+  const existing = affected.flatMap((segment) => segment.points);
+  const seen = new Set(existing.map((point) => point.timestamp));
+  const added: TrackPoint[] = [];
+  for (const point of incoming) {
+    if (seen.has(point.timestamp)) continue;
+    seen.add(point.timestamp);
+    added.push(point);
+  }
+  if (added.length === 0) return 0;
+
+  const merged = [...existing, ...added].sort(
+    (a, b) => a.timestamp - b.timestamp,
+  );
+
+  let removedDistance = 0;
+  for (const segment of affected) {
+    removedDistance += segment.distance;
+    await ctx.db.delete(segment._id);
+  }
+
+  const nextIndex = await writeSegments(
+    ctx,
+    track,
+    startIndex,
+    merged,
+    previous,
+  );
+
+  await ctx.db.patch(track._id, {
+    distance:
+      track.distance - removedDistance + pathDistance(merged, previous),
+    pointCount: (track.pointCount ?? 0) + added.length,
+    segmentCount: nextIndex,
+    endTime: Math.max(track.endTime, merged[merged.length - 1].timestamp),
+  });
+
+  return added.length;
+}
+
+// Move a legacy inline `coordinates` array into segments
+export async function migrateInlineCoordinates(
+  ctx: MutationCtx,
+  track: Doc<"tracks">,
+) {
+  const coordinates = track.coordinates ?? [];
+  const existing = await getSegmentsFrom(ctx, track._id, 0);
+  for (const segment of existing) {
+    await ctx.db.delete(segment._id);
+  }
+
+  const sorted = [...coordinates].sort((a, b) => a.timestamp - b.timestamp);
+  const segmentCount = await writeSegments(ctx, track, 0, sorted, undefined);
+
+  await ctx.db.patch(track._id, {
+    coordinates: undefined,
+    pointCount: sorted.length,
+    segmentCount,
+  });
+}
+
+export async function deleteTrackSegments(
+  ctx: MutationCtx,
+  trackId: Id<"tracks">,
+) {
+  const segments = await getSegmentsFrom(ctx, trackId, 0);
+  for (const segment of segments) {
+    await ctx.db.delete(segment._id);
+  }
+}
@@ -0,0 +1,210 @@
+import { ConvexError } from "convex/values";
+
+// OpenWeather current conditions and forecasts, shared by the weather
+// actions and the conditions captured when a hunt starts and ends. Only
+// call from actions: lookups are network requests.
+
+interface WeatherResponse {
+  main: {
+    temp: number;
+    feels_like: number;
+    humidity: number;
+    pressure: number;
+  };
+  weather: Array<{
+    description: string;
+    icon: string;
+    main: string;
+  }>;
+  wind: {
+    speed: number;
+    deg: number;
+    gust?: number;
+  };
+  sys: {
+    sunrise: number;
+    sunset: number;
+    country: string;
+  };
+  name: string;
+  dt: number;
+}
+
+interface ForecastResponse {
+  list: Array<{
+    dt: number;
+    main: {
+      temp: number;
+      feels_like: number;
+      humidity: number;
+      pressure: number;
+    };
+    weather: Array<{
+      description: string;
+      icon: string;
+      main: string;
+    }>;
+    wind: {
+      speed: number;
+      deg: number;
+      gust?: number;
+    };
+    pop: number; // Probability of precipitation
+    dt_txt: string;
+  }>;
+  city: {
+    name: string;
+    country: string;
+    sunrise: number;
+    sunset: number;
+  };
+}
+
+export type Units = "metric" | "imperial";
+
+export type PressureTrend = "rising" | "falling" | "steady";
+
+// Pressure change over the next three hours, in hPa, below which the
+// barometer counts as steady
+const STEADY_PRESSURE_HPA = 1;
+
+export function toCompassDirection(degrees: number) {
+  const directions = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"];
+  return directions[Math.round((((degrees % 360) + 360) % 360) / 45) % 8];
+}
+
+function getApiKey() {
+  const apiKey = process.env.OPENWEATHER_API_KEY;
+  if (!apiKey) {
+    throw new ConvexError({
+      message:
+        "OpenWeather API key not configured. Please set OPENWEATHER_API_KEY in your Convex environment variables. Get a free API key at https://openweathermap.org/api",
+      code: "CONFIGURATION_ERROR",
+    });
+  }
+  return apiKey;
+}
+
+async function fetchOpenWeather<T>(
+  endpoint: "weather" | "forecast",
+  params: Record<string, string>,
+  label: string,
+): Promise<T> {
+  const search = new URLSearchParams({ ...params, appid: getApiKey() });
+  const response = await fetch(
+    `https://api.openweathermap.org/data/2.5/${endpoint}?${search.toString()}`,
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "Unknown error");
+
+    // Handle specific error cases
+    if (response.status === 401) {
+      throw new ConvexError({
+        message:
+          "Invalid OpenWeather API key. Please check your OPENWEATHER_API_KEY in Convex environment variables. Get a valid API key at https://openweathermap.org/api",
+        code: "CONFIGURATION_ERROR",
+      });
+    }
+
+    throw new ConvexError({
+      message: `Failed to fetch ${label}: ${response.status} ${response.statusText}. ${errorText}`,
+      code: "EXTERNAL_API_ERROR",
+    });
+  }
+
+  return await response.json();
+}
+
+export async function fetchForecast(
+  lat: number,
+  lng: number,
+  units: Units,
+  count = 40,
+) {
+  const data = await fetchOpenWeather<ForecastResponse>(
+    "forecast",
+    {
+      lat: lat.toString(),
+      lon: lng.toString(),
+      units,
+      cnt: count.toString(),
+    },
+    "forecast data",
+  );
+
+  return {
+    location: data.city.name,
+    country: data.city.country,
+    forecast: data.list.map((item) => ({
+      timestamp: item.dt,
+      dateTime: item.dt_txt,
+      temperature: Math.round(item.main.temp),
+      feelsLike: Math.round(item.main.feels_like),
+      humidity: item.main.humidity,
+      pressure: item.main.pressure,
+      description: item.weather[0].description,
+      icon: item.weather[0].icon,
+      condition: item.weather[0].main,
+      windSpeed: Math.round(item.wind.speed),
+      windDirection: item.wind.deg,
+      windGust: item.wind.gust ? Math.round(item.wind.gust) : undefined,
+      precipitationProbability: Math.round(item.pop * 100),
+    })),
+    units,
+  };
+}
+
+// Where the barometer is heading: current pressure against the first
+// forecast step, three hours out. Undefined if the forecast is unavailable.
+async function getPressureTrend(
+  lat: number,
+  lng: number,
+  pressure: number,
+): Promise<PressureTrend | undefined> {
+  try {
+    const { forecast } = await fetchForecast(lat, lng, "metric", 1);
+    const next = forecast[0]?.pressure;
+    if (next === undefined) return undefined;
+    const change = next - pressure;
+    if (Math.abs(change) < STEADY_PRESSURE_HPA) return "steady";
+    return change > 0 ? "rising" : "falling";
+  } catch (error) {
+    console.log("[getPressureTrend] Forecast unavailable", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+export async function fetchCurrentWeather(
+  lat: number,
+  lng: number,
+  units: Units,
+) {
+  const data = await fetchOpenWeather<WeatherResponse>(
+    "weather",
+    { lat: lat.toString(), lon: lng.toString(), units },
+    "weather data",
+  );
+
+  return {
+    temperature: Math.round(data.main.temp),
+    feelsLike: Math.round(data.main.feels_like),
+    humidity: data.main.humidity,
+    pressure: data.main.pressure,
+    pressureTrend: await getPressureTrend(lat, lng, data.main.pressure),
+    description: data.weather[0].description,
+    icon: data.weather[0].icon,
+    condition: data.weather[0].main,
+    windSpeed: Math.round(data.wind.speed),
+    windDirection: data.wind.deg,
+    windGust: data.wind.gust ? Math.round(data.wind.gust) : undefined,
+    sunrise: data.sys.sunrise,
+    sunset: data.sys.sunset,
+    location: data.name,
+    country: data.sys.country,
+    timestamp: data.dt,
+    units,
+  };
+}
@@ -1,8 +1,8 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import { ConvexError } from "convex/values";
 import type { Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { PERMISSIONS, requirePermission } from "./_permissions";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -102,24 +102,12 @@ export const searchAuditLogs = query({
   },
   handler: async (ctx, args) => {
     console.log("[searchAuditLogs] Starting audit log search");
-    const currentUser = await getCurrentUser(ctx);
-    if (!currentUser) {
-      console.log("[searchAuditLogs] User not found or not authenticated");
-      throw new ConvexError({
-        message: "User not logged in",
-        code: "UNAUTHENTICATED",
-      });
-    }
+    const currentUser = await requirePermission(
+      ctx,
+      PERMISSIONS.VIEW_AUDIT_LOGS,
+    );
     console.log("[searchAuditLogs] User found:", currentUser._id);
 
-    if (currentUser.role !== "owner" && currentUser.role !== "admin") {
-      console.log("[searchAuditLogs] User not authorized");
-      throw new ConvexError({
-        message: "Not authorized",
-        code: "FORBIDDEN",
-      });
-    }
-
     // Get all logs sorted by timestamp descending
     let logs = await ctx.db
       .query("auditLogs")
@@ -182,24 +170,12 @@ export const getUserAuditLogs = query({
   },
   handler: async (ctx, args) => {
     console.log("[getUserAuditLogs] Starting user audit log query");
-    const currentUser = await getCurrentUser(ctx);
-    if (!currentUser) {
-      console.log("[getUserAuditLogs] User not found or not authenticated");
-      throw new ConvexError({
-        message: "User not logged in",
-        code: "UNAUTHENTICATED",
-      });
-    }
+    const currentUser = await requirePermission(
+      ctx,
+      PERMISSIONS.VIEW_AUDIT_LOGS,
+    );
     console.log("[getUserAuditLogs] User found:", currentUser._id);
 
-    if (currentUser.role !== "owner" && currentUser.role !== "admin") {
-      console.log("[getUserAuditLogs] User not authorized");
-      throw new ConvexError({
-        message: "Not authorized",
-        code: "FORBIDDEN",
-      });
-    }
-
     const logs = await ctx.db
       .query("auditLogs")
       .withIndex("by_user_timestamp", (q) => q.eq("userId", args.userId))
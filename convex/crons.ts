@@ -0,0 +1,61 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Recovery request follow-ups ("still need help?" reminders to the owner)
+crons.interval(
+  "deer recovery follow-ups",
+  { minutes: 5 },
+  internal.deerRecovery.checkAndSendFollowUps,
+);
+crons.interval(
+  "vehicle recovery follow-ups",
+  { minutes: 5 },
+  internal.vehicleRecovery.checkAndSendFollowUps,
+);
+
+// Hunt check-in timers: reminder, then overdue alert
+crons.interval(
+  "process hunt check-ins",
+  { minutes: 1 },
+  internal.hunts.processCheckIns,
+);
+crons.interval(
+  "cleanup expired hunt photo uploads",
+  { hours: 1 },
+  internal.hunts.cleanupExpiredPhotoUploads,
+);
+
+// Notification emails held for a digest or quiet hours
+crons.interval(
+  "send notification digests",
+  { minutes: 5 },
+  internal.notifications.sendDigests,
+);
+
+// Viewer presence records that stopped heartbeating
+crons.interval(
+  "cleanup stale viewers",
+  { minutes: 5 },
+  internal.activeViewers.cleanupStaleViewers,
+);
+
+// Time-based expirations
+crons.interval(
+  "expire location shares",
+  { minutes: 1 },
+  internal.locationSharing.expireLocationShares,
+);
+crons.interval(
+  "lift expired forum bans",
+  { minutes: 15 },
+  internal.forums.liftExpiredForumBans,
+);
+crons.interval(
+  "update scouting trip statuses",
+  { minutes: 15 },
+  internal.scoutingTrips.updateTripStatuses,
+);
+
+export default crons;
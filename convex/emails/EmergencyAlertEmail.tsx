@@ -0,0 +1,96 @@
+import {
+  Button,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Section,
+  Tailwind,
+  Text,
+} from "@react-email/components";
+
+export function EmergencyAlertEmail({
+  senderName,
+  senderPhone,
+  status,
+  source,
+  message,
+  huntLocationName,
+  lat,
+  lng,
+  statusUrl,
+}: {
+  senderName: string;
+  senderPhone?: string;
+  status: "active" | "resolved" | "cancelled";
+  source: "sos" | "overdue";
+  message?: string;
+  huntLocationName?: string;
+  lat: number;
+  lng: number;
+  statusUrl: string;
+}) {
+  const isActive = status === "active";
+  const isOverdue = source === "overdue";
+  const mapsUrl = `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`;
+
+  return (
+    <Html>
+      <Tailwind>
+        <Head />
+        <Container className="container px-20 font-sans">
+          <Heading className="text-xl font-bold mb-4">
+            {!isActive
+              ? `${senderName} is safe`
+              : isOverdue
+                ? `${senderName} is overdue`
+                : `SOS: ${senderName} needs help`}
+          </Heading>
+          {isActive && isOverdue ? (
+            <Text className="text-sm">
+              {senderName} set a check-in time for their hunt
+              {huntLocationName ? ` at ${huntLocationName}` : ""} on Camo &
+              Ammo and hasn't checked in. They listed you as someone to
+              contact. Try to reach them; if you cannot, call 911 and share the
+              location below.
+            </Text>
+          ) : isActive ? (
+            <Text className="text-sm">
+              {senderName} sent an emergency alert from Camo & Ammo and listed
+              you as someone to contact. If you cannot reach them, call 911 and
+              share the location below.
+            </Text>
+          ) : (
+            <Text className="text-sm">
+              {senderName} has{" "}
+              {status === "resolved" ? "resolved" : "cancelled"} their
+              emergency alert. No further action is needed.
+            </Text>
+          )}
+          {message && (
+            <Text className="text-sm italic">&ldquo;{message}&rdquo;</Text>
+          )}
+          {isActive && (
+            <Section>
+              <Text className="text-sm">
+                Last known location: {lat.toFixed(5)}, {lng.toFixed(5)}
+              </Text>
+              {senderPhone && (
+                <Text className="text-sm">Phone: {senderPhone}</Text>
+              )}
+              <Button
+                href={statusUrl}
+                className="bg-red-600 text-white px-4 py-2 rounded font-semibold"
+              >
+                Follow live location
+              </Button>
+              <Text className="text-xs">
+                Or open the location in Google Maps: {mapsUrl}
+              </Text>
+            </Section>
+          )}
+        </Container>
+      </Tailwind>
+    </Html>
+  );
+}
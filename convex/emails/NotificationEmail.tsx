@@ -0,0 +1,65 @@
+import {
+  Button,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Section,
+  Tailwind,
+  Text,
+} from "@react-email/components";
+
+export function NotificationEmail({
+  items,
+  isDigest,
+  homeUrl,
+}: {
+  items: { title: string; message: string; url: string }[];
+  isDigest: boolean;
+  homeUrl: string;
+}) {
+  return (
+    <Html>
+      <Tailwind>
+        <Head />
+        <Container className="container px-20 font-sans">
+          <Heading className="text-xl font-bold mb-4">
+            {isDigest
+              ? `${items.length} update${items.length === 1 ? "" : "s"} from Camo & Ammo`
+              : items[0]?.title}
+          </Heading>
+          {items.map((item, index) => (
+            <Section key={index}>
+              {isDigest && (
+                <Text className="text-sm font-semibold mb-0">{item.title}</Text>
+              )}
+              <Text className="text-sm">{item.message}</Text>
+              {!isDigest && (
+                <Button
+                  href={item.url}
+                  className="bg-green-700 text-white px-4 py-2 rounded font-semibold"
+                >
+                  Open Camo & Ammo
+                </Button>
+              )}
+            </Section>
+          ))}
+          {isDigest && (
+            <Button
+              href={homeUrl}
+              className="bg-green-700 text-white px-4 py-2 rounded font-semibold"
+            >
+              Open Camo & Ammo
+            </Button>
+          )}
+          <Hr />
+          <Text className="text-xs text-gray-500">
+            You can choose which emails you get under Profile, Notifications
+            in the app.
+          </Text>
+        </Container>
+      </Tailwind>
+    </Html>
+  );
+}
@@ -0,0 +1,366 @@
+import { ConvexError, v } from "convex/values";
+import {
+  internalAction,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel.d.ts";
+import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { render } from "@react-email/render";
+import { appUrl, getEmailProvider } from "./_email";
+import {
+  MAX_ALERT_MESSAGE_LENGTH,
+  alertRecipientCount,
+  alertRecipientIds,
+  appendBreadcrumb,
+  closeEmergencyAlert,
+  createEmergencyAlert,
+  getActiveAlert,
+} from "./_emergencyAlerts";
+import { EmergencyAlertEmail } from "./emails/EmergencyAlertEmail";
+
+// Helper function to get current user with fallback lookup
+async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  // Look up by email first (preferred method)
+  if (identity.email) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", identity.email!))
+      .unique();
+
+    if (user) {
+      return user;
+    }
+  }
+
+  // Fall back to subject-based lookup if email lookup failed
+  if (identity.subject) {
+    const parts = identity.subject.split("|");
+    if (parts.length > 0) {
+      try {
+        const userId = parts[0] as Id<"users">;
+        const user = await ctx.db.get(userId);
+        if (user) {
+          return user;
+        }
+      } catch (error) {
+        // Subject is not a valid Convex ID, continue
+        console.log("[getCurrentUser] Subject is not a valid Convex ID", {
+          subject: identity.subject,
+        });
+      }
+    }
+  }
+
+  return null;
+}
+
+async function requireUser(ctx: QueryCtx | MutationCtx) {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new ConvexError({
+      message: "User not logged in",
+      code: "UNAUTHENTICATED",
+    });
+  }
+  return user;
+}
+
+// Raise an SOS. A second trigger while one is active just refreshes the
+// location, so double taps and replayed offline sends don't duplicate it.
+export const triggerAlert = mutation({
+  args: {
+    lat: v.number(),
+    lng: v.number(),
+    accuracy: v.optional(v.number()),
+    message: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    console.log("[triggerAlert] Starting SOS alert");
+    const user = await requireUser(ctx);
+    console.log("[triggerAlert] User found:", user._id);
+
+    const existing = await getActiveAlert(ctx, user._id);
+    if (existing) {
+      const now = Date.now();
+      await ctx.db.patch(existing._id, {
+        lat: args.lat,
+        lng: args.lng,
+        accuracy: args.accuracy,
+        locationUpdatedAt: now,
+        breadcrumb: appendBreadcrumb(existing.breadcrumb, {
+          lat: args.lat,
+          lng: args.lng,
+          timestamp: now,
+        }),
+        message:
+          args.message?.trim().slice(0, MAX_ALERT_MESSAGE_LENGTH) ||
+          existing.message,
+      });
+      return {
+        alertId: existing._id,
+        shareToken: existing.shareToken,
+        notifiedCount: alertRecipientCount(existing),
+      };
+    }
+
+    const alert = await createEmergencyAlert(ctx, user, {
+      source: "sos",
+      lat: args.lat,
+      lng: args.lng,
+      accuracy: args.accuracy,
+      message: args.message,
+    });
+    await ctx.scheduler.runAfter(0, internal.emergencyAlerts.sendAlertEmails, {
+      alertId: alert._id,
+    });
+
+    console.log("[triggerAlert] Alert created:", {
+      alertId: alert._id,
+      contacts: alert.notifiedContacts.length,
+      friends: alert.notifiedUserIds.length,
+    });
+    return {
+      alertId: alert._id,
+      shareToken: alert.shareToken,
+      notifiedCount: alertRecipientCount(alert),
+    };
+  },
+});
+
+// Live position while the alert is active
+export const updateAlertLocation = mutation({
+  args: {
+    alertId: v.id("emergencyAlerts"),
+    lat: v.number(),
+    lng: v.number(),
+    accuracy: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const alert = await ctx.db.get(args.alertId);
+    if (!alert) {
+      throw new ConvexError({
+        message: "Alert not found",
+        code: "NOT_FOUND",
+      });
+    }
+    if (alert.userId !== user._id) {
+      throw new ConvexError({
+        message: "You can only update your own alerts",
+        code: "FORBIDDEN",
+      });
+    }
+    if (alert.status !== "active") {
+      return { success: false };
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(args.alertId, {
+      lat: args.lat,
+      lng: args.lng,
+      accuracy: args.accuracy,
+      locationUpdatedAt: now,
+      breadcrumb: appendBreadcrumb(alert.breadcrumb, {
+        lat: args.lat,
+        lng: args.lng,
+        timestamp: now,
+      }),
+    });
+
+    return { success: true };
+  },
+});
+
+// "I'm safe" (resolved) or a false alarm (cancelled); tells everyone notified
+export const resolveAlert = mutation({
+  args: {
+    alertId: v.id("emergencyAlerts"),
+    status: v.union(v.literal("resolved"), v.literal("cancelled")),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    console.log("[resolveAlert] Starting alert resolution");
+    const user = await requireUser(ctx);
+
+    const alert = await ctx.db.get(args.alertId);
+    if (!alert) {
+      throw new ConvexError({
+        message: "Alert not found",
+        code: "NOT_FOUND",
+      });
+    }
+    if (alert.userId !== user._id) {
+      throw new ConvexError({
+        message: "You can only resolve your own alerts",
+        code: "FORBIDDEN",
+      });
+    }
+    if (alert.status !== "active") {
+      throw new ConvexError({
+        message: "This alert has already been closed",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    await closeEmergencyAlert(ctx, alert, user, args.status, args.note);
+    await ctx.scheduler.runAfter(0, internal.emergencyAlerts.sendAlertEmails, {
+      alertId: args.alertId,
+    });
+
+    console.log("[resolveAlert] Alert closed:", args.alertId, args.status);
+    return { success: true };
+  },
+});
+
+export const getMyActiveAlert = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    const alert = await ctx.db
+      .query("emergencyAlerts")
+      .withIndex("by_user_status", (q) =>
+        q.eq("userId", user._id).eq("status", "active"),
+      )
+      .first();
+    if (!alert) {
+      return null;
+    }
+
+    return {
+      _id: alert._id,
+      source: alert.source ?? "sos",
+      shareToken: alert.shareToken,
+      createdAt: alert.createdAt,
+      locationUpdatedAt: alert.locationUpdatedAt,
+      notifiedCount: alertRecipientCount(alert),
+    };
+  },
+});
+
+// Live status for responders. Public: anyone with the share link can follow.
+export const getAlertStatus = query({
+  args: { shareToken: v.string() },
+  handler: async (ctx, args) => {
+    const alert = await ctx.db
+      .query("emergencyAlerts")
+      .withIndex("by_share_token", (q) => q.eq("shareToken", args.shareToken))
+      .unique();
+    if (!alert) {
+      return null;
+    }
+
+    const sender = await ctx.db.get(alert.userId);
+
+    return {
+      status: alert.status,
+      source: alert.source ?? "sos",
+      message: alert.message,
+      huntLocation: alert.huntLocation,
+      senderName: sender?.name ?? "Member",
+      senderPhone: sender?.phoneNumber,
+      lat: alert.lat,
+      lng: alert.lng,
+      accuracy: alert.accuracy,
+      locationUpdatedAt: alert.locationUpdatedAt,
+      breadcrumb: alert.breadcrumb,
+      createdAt: alert.createdAt,
+      resolvedAt: alert.resolvedAt,
+      resolutionNote: alert.resolutionNote,
+    };
+  },
+});
+
+export const getAlertEmailData = internalQuery({
+  args: { alertId: v.id("emergencyAlerts") },
+  handler: async (ctx, args) => {
+    const alert = await ctx.db.get(args.alertId);
+    if (!alert) {
+      return null;
+    }
+    const sender = await ctx.db.get(alert.userId);
+
+    const emails = new Set<string>();
+    for (const contact of alert.notifiedContacts) {
+      if (contact.email) emails.add(contact.email.toLowerCase());
+    }
+    for (const userId of alertRecipientIds(alert)) {
+      const recipient = await ctx.db.get(userId);
+      if (recipient?.email) emails.add(recipient.email.toLowerCase());
+    }
+
+    return {
+      status: alert.status,
+      source: alert.source ?? "sos",
+      message: alert.message,
+      huntLocationName: alert.huntLocation?.name,
+      lat: alert.lat,
+      lng: alert.lng,
+      shareToken: alert.shareToken,
+      senderName: sender?.name ?? "A Camo & Ammo member",
+      senderPhone: sender?.phoneNumber,
+      recipients: [...emails],
+    };
+  },
+});
+
+// One email per recipient so addresses aren't shared between them. A failed
+// send is logged and skipped; the in-app notifications already went out.
+export const sendAlertEmails = internalAction({
+  args: { alertId: v.id("emergencyAlerts") },
+  handler: async (ctx, args) => {
+    const data = await ctx.runQuery(
+      internal.emergencyAlerts.getAlertEmailData,
+      { alertId: args.alertId },
+    );
+    if (!data || data.recipients.length === 0) {
+      return { sent: 0 };
+    }
+
+    const provider = getEmailProvider();
+    const html = await render(
+      EmergencyAlertEmail({
+        senderName: data.senderName,
+        senderPhone: data.senderPhone,
+        status: data.status,
+        source: data.source,
+        message: data.message,
+        huntLocationName: data.huntLocationName,
+        lat: data.lat,
+        lng: data.lng,
+        statusUrl: appUrl(`/sos/${data.shareToken}`),
+      }),
+    );
+    const subject =
+      data.status !== "active"
+        ? `${data.senderName} is safe`
+        : data.source === "overdue"
+          ? `${data.senderName} is overdue from a hunt`
+          : `SOS: ${data.senderName} needs help`;
+
+    let sent = 0;
+    for (const to of data.recipients) {
+      try {
+        await provider.send({ to: [to], subject, html });
+        sent++;
+      } catch (error) {
+        console.error("[sendAlertEmails] Failed to email", to, error);
+      }
+    }
+
+    console.log("[sendAlertEmails] Emails sent:", sent, "via", provider.name);
+    return { sent };
+  },
+});
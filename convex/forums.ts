@@ -1,8 +1,11 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
 import { ConvexError } from "convex/values";
 import type { Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { sendNotification } from "./_notifications";
+import { getBlockedUserIds } from "./_blocks";
+import { hasPermission, PERMISSIONS, requirePermission } from "./_permissions";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -70,7 +73,7 @@ export const getPosts = query({
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUser(ctx);
-    const isAdmin = user?.role === "owner" || user?.role === "admin";
+    const isAdmin = await hasPermission(ctx, user, PERMISSIONS.MODERATE_FORUMS);
 
     // Build query based on filters
     let postsQuery;
@@ -162,12 +165,18 @@ export const getPost = query({
 
     const author = await ctx.db.get(post.authorId);
 
-    // Get comments
-    const comments = await ctx.db
-      .query("forumComments")
-      .withIndex("by_post_created", (q) => q.eq("postId", args.postId))
-      .order("asc")
-      .collect();
+    // Get comments, leaving out members blocked either way by the viewer
+    const viewer = await getCurrentUser(ctx);
+    const blockedIds = viewer
+      ? await getBlockedUserIds(ctx, viewer._id)
+      : new Set<Id<"users">>();
+    const comments = (
+      await ctx.db
+        .query("forumComments")
+        .withIndex("by_post_created", (q) => q.eq("postId", args.postId))
+        .order("asc")
+        .collect()
+    ).filter((comment) => !blockedIds.has(comment.authorId));
 
     // Enrich comments with author info
     const enrichedComments = await Promise.all(
@@ -396,7 +405,7 @@ export const deletePost = mutation({
     }
 
     // Check if user is admin or post author
-    const isAdmin = user.role === "owner" || user.role === "admin";
+    const isAdmin = await hasPermission(ctx, user, PERMISSIONS.MODERATE_FORUMS);
     const isAuthor = post.authorId === user._id;
 
     if (!isAdmin && !isAuthor) {
@@ -424,14 +433,7 @@ export const getPendingPosts = query({
   args: {},
   handler: async (ctx) => {
     console.log("[getPendingPosts] Starting query");
-    const user = await getCurrentUser(ctx);
-    if (!user || (user.role !== "owner" && user.role !== "admin")) {
-      console.log("[getPendingPosts] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const user = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[getPendingPosts] User found:", user._id);
 
     const posts = await ctx.db
@@ -465,14 +467,7 @@ export const approvePost = mutation({
   args: { postId: v.id("forumPosts") },
   handler: async (ctx, args) => {
     console.log("[approvePost] Starting post approval");
-    const user = await getCurrentUser(ctx);
-    if (!user || (user.role !== "owner" && user.role !== "admin")) {
-      console.log("[approvePost] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const user = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[approvePost] User found:", user._id);
 
     const post = await ctx.db.get(args.postId);
@@ -490,14 +485,12 @@ export const approvePost = mutation({
     });
 
     // Send notification to post author
-    await ctx.db.insert("notifications", {
+    await sendNotification(ctx, {
       userId: post.authorId,
-      type: "post_approved",
+      kind: "post_approved",
       title: "Post Approved",
       message: `Your post "${post.title}" has been approved and is now live!`,
       relatedId: args.postId,
-      isRead: false,
-      createdAt: Date.now(),
     });
 
     return { success: true };
@@ -512,14 +505,7 @@ export const rejectPost = mutation({
   },
   handler: async (ctx, args) => {
     console.log("[rejectPost] Starting post rejection");
-    const user = await getCurrentUser(ctx);
-    if (!user || (user.role !== "owner" && user.role !== "admin")) {
-      console.log("[rejectPost] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const user = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[rejectPost] User found:", user._id);
 
     const post = await ctx.db.get(args.postId);
@@ -538,14 +524,12 @@ export const rejectPost = mutation({
     });
 
     // Send notification to post author
-    await ctx.db.insert("notifications", {
+    await sendNotification(ctx, {
       userId: post.authorId,
-      type: "post_rejected",
+      kind: "post_rejected",
       title: "Post Rejected",
       message: `Your post "${post.title}" was rejected. Reason: ${args.reason}`,
       relatedId: args.postId,
-      isRead: false,
-      createdAt: Date.now(),
     });
 
     return { success: true };
@@ -557,14 +541,7 @@ export const hidePost = mutation({
   args: { postId: v.id("forumPosts") },
   handler: async (ctx, args) => {
     console.log("[hidePost] Starting post hide");
-    const user = await getCurrentUser(ctx);
-    if (!user || (user.role !== "owner" && user.role !== "admin")) {
-      console.log("[hidePost] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const user = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[hidePost] User found:", user._id);
 
     await ctx.db.patch(args.postId, {
@@ -582,14 +559,7 @@ export const lockPost = mutation({
   args: { postId: v.id("forumPosts"), locked: v.boolean() },
   handler: async (ctx, args) => {
     console.log("[lockPost] Starting post lock");
-    const user = await getCurrentUser(ctx);
-    if (!user || (user.role !== "owner" && user.role !== "admin")) {
-      console.log("[lockPost] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const user = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[lockPost] User found:", user._id);
 
     await ctx.db.patch(args.postId, {
@@ -642,14 +612,7 @@ export const getReportedPosts = query({
   args: {},
   handler: async (ctx) => {
     console.log("[getReportedPosts] Starting query");
-    const user = await getCurrentUser(ctx);
-    if (!user || (user.role !== "owner" && user.role !== "admin")) {
-      console.log("[getReportedPosts] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const user = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[getReportedPosts] User found:", user._id);
 
     const reports = await ctx.db
@@ -697,14 +660,7 @@ export const dismissReport = mutation({
   args: { reportId: v.id("forumReports") },
   handler: async (ctx, args) => {
     console.log("[dismissReport] Starting report dismissal");
-    const user = await getCurrentUser(ctx);
-    if (!user || (user.role !== "owner" && user.role !== "admin")) {
-      console.log("[dismissReport] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const user = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[dismissReport] User found:", user._id);
 
     await ctx.db.patch(args.reportId, {
@@ -717,66 +673,12 @@ export const dismissReport = mutation({
   },
 });
 
-// Get user notifications
-export const getMyNotifications = query({
-  args: {},
-  handler: async (ctx) => {
-    console.log("[getMyNotifications] Starting query");
-    const user = await getCurrentUser(ctx);
-    if (!user) {
-      console.log(
-        "[getMyNotifications] User not found or not authenticated, returning empty array",
-      );
-      return [];
-    }
-    console.log("[getMyNotifications] User found:", user._id);
-
-    const notifications = await ctx.db
-      .query("notifications")
-      .withIndex("by_user", (q) => q.eq("userId", user._id))
-      .order("desc")
-      .take(20);
-
-    return notifications;
-  },
-});
-
-// Mark notification as read
-export const markNotificationRead = mutation({
-  args: { notificationId: v.id("notifications") },
-  handler: async (ctx, args) => {
-    console.log("[markNotificationRead] Starting notification read");
-    const user = await getCurrentUser(ctx);
-    if (!user) {
-      console.log("[markNotificationRead] User not found or not authenticated");
-      throw new ConvexError({
-        message: "User not logged in",
-        code: "UNAUTHENTICATED",
-      });
-    }
-    console.log("[markNotificationRead] User found:", user._id);
-
-    await ctx.db.patch(args.notificationId, {
-      isRead: true,
-    });
-
-    return { success: true };
-  },
-});
-
 // Get all forum posts and replies by a specific user (admin only)
 export const getUserForumActivity = query({
   args: { userId: v.id("users") },
   handler: async (ctx, args) => {
     console.log("[getUserForumActivity] Starting query");
-    const user = await getCurrentUser(ctx);
-    if (!user || (user.role !== "owner" && user.role !== "admin")) {
-      console.log("[getUserForumActivity] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const user = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[getUserForumActivity] User found:", user._id);
 
     // Get user's posts
@@ -844,14 +746,7 @@ export const warnPost = mutation({
   },
   handler: async (ctx, args) => {
     console.log("[warnPost] Starting post warning");
-    const admin = await getCurrentUser(ctx);
-    if (!admin || (admin.role !== "owner" && admin.role !== "admin")) {
-      console.log("[warnPost] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const admin = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[warnPost] Admin found:", admin._id);
 
     const post = await ctx.db.get(args.postId);
@@ -919,17 +814,15 @@ export const warnPost = mutation({
     await ctx.db.patch(author._id, updateData);
 
     // Send notification to user
-    await ctx.db.insert("notifications", {
+    await sendNotification(ctx, {
       userId: author._id,
-      type: "forum_warning",
+      kind: "forum_warning",
       title: "Forum Warning Issued",
       message:
         banDurationMs > 0
           ? `You received a warning on your post "${post.title}". ${banReason}. Further violations may result in longer bans or permanent removal.`
           : `You received a warning on your post "${post.title}". ${banReason}. Future violations will result in temporary bans.`,
       relatedId: args.postId,
-      isRead: false,
-      createdAt: Date.now(),
     });
 
     return { success: true, warningCount: newWarningCount };
@@ -943,14 +836,7 @@ export const warnComment = mutation({
   },
   handler: async (ctx, args) => {
     console.log("[warnComment] Starting comment warning");
-    const admin = await getCurrentUser(ctx);
-    if (!admin || (admin.role !== "owner" && admin.role !== "admin")) {
-      console.log("[warnComment] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const admin = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[warnComment] Admin found:", admin._id);
 
     const comment = await ctx.db.get(args.commentId);
@@ -1022,17 +908,15 @@ export const warnComment = mutation({
     const postTitle = post?.title || "a post";
 
     // Send notification to user
-    await ctx.db.insert("notifications", {
+    await sendNotification(ctx, {
       userId: author._id,
-      type: "forum_warning",
+      kind: "forum_warning",
       title: "Forum Warning Issued",
       message:
         banDurationMs > 0
           ? `You received a warning on your comment in "${postTitle}". ${banReason}. Further violations may result in longer bans or permanent removal.`
           : `You received a warning on your comment in "${postTitle}". ${banReason}. Future violations will result in temporary bans.`,
       relatedId: comment.postId,
-      isRead: false,
-      createdAt: Date.now(),
     });
 
     return { success: true, warningCount: newWarningCount };
@@ -1046,14 +930,7 @@ export const removeForumBan = mutation({
   },
   handler: async (ctx, args) => {
     console.log("[removeForumBan] Starting ban removal");
-    const admin = await getCurrentUser(ctx);
-    if (!admin || (admin.role !== "owner" && admin.role !== "admin")) {
-      console.log("[removeForumBan] User not found or not admin");
-      throw new ConvexError({
-        message: "Admin access required",
-        code: "FORBIDDEN",
-      });
-    }
+    const admin = await requirePermission(ctx, PERMISSIONS.MODERATE_FORUMS);
     console.log("[removeForumBan] Admin found:", admin._id);
 
     await ctx.db.patch(args.userId, {
@@ -1062,16 +939,48 @@ export const removeForumBan = mutation({
     });
 
     // Send notification to user
-    await ctx.db.insert("notifications", {
+    await sendNotification(ctx, {
       userId: args.userId,
-      type: "forum_ban_removed",
+      kind: "forum_ban_removed",
       title: "Forum Ban Removed",
       message:
         "Your forum posting ban has been lifted by an administrator. Please continue to follow community guidelines.",
-      isRead: false,
-      createdAt: Date.now(),
     });
 
     return { success: true };
   },
 });
+
+// Lift forum bans whose time is up (run by the cron in crons.ts)
+export const liftExpiredForumBans = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    // Users who were never banned sort before every number
+    const bannedUsers = await ctx.db
+      .query("users")
+      .withIndex("forum_ban", (q) =>
+        q.gte("forumBanExpiresAt", 0).lte("forumBanExpiresAt", now),
+      )
+      .collect();
+
+    for (const user of bannedUsers) {
+      await ctx.db.patch(user._id, {
+        forumBanExpiresAt: undefined,
+        forumBanReason: undefined,
+      });
+
+      await sendNotification(ctx, {
+        userId: user._id,
+        kind: "forum_ban_expired",
+        title: "Forum Ban Expired",
+        message:
+          "Your forum posting ban has ended. Please continue to follow community guidelines.",
+      });
+    }
+
+    console.log("[liftExpiredForumBans] Bans lifted:", bannedUsers.length);
+    return { lifted: bannedUsers.length };
+  },
+});
@@ -0,0 +1,307 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { getBlockedUserIds, isBlockedEitherWay } from "./_blocks";
+import {
+  getGroupMemberIds,
+  getUserGroups,
+  isInGroup,
+  removeMemberShares,
+} from "./_friendGroups";
+import { areFriends } from "./_mapItemShares";
+
+const MAX_GROUP_NAME_LENGTH = 50;
+const MAX_GROUP_MEMBERS = 50;
+
+// Helper function to get current user with fallback lookup
+async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  // Look up by email first (preferred method)
+  if (identity.email) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", identity.email!))
+      .unique();
+
+    if (user) {
+      return user;
+    }
+  }
+
+  // Fall back to subject-based lookup if email lookup failed
+  if (identity.subject) {
+    const parts = identity.subject.split("|");
+    if (parts.length > 0) {
+      try {
+        const userId = parts[0] as Id<"users">;
+        const user = await ctx.db.get(userId);
+        if (user) {
+          return user;
+        }
+      } catch (error) {
+        // Subject is not a valid Convex ID, continue
+        console.log("[getCurrentUser] Subject is not a valid Convex ID", {
+          subject: identity.subject,
+        });
+      }
+    }
+  }
+
+  return null;
+}
+
+async function requireUser(ctx: QueryCtx | MutationCtx) {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new ConvexError({
+      message: "User not found. Please ensure your account has been created.",
+      code: "NOT_FOUND",
+    });
+  }
+  return user;
+}
+
+async function getOwnedGroup(
+  ctx: QueryCtx | MutationCtx,
+  groupId: Id<"friendGroups">,
+  userId: Id<"users">,
+) {
+  const group = await ctx.db.get(groupId);
+  if (!group) {
+    throw new ConvexError({
+      message: "Group not found",
+      code: "NOT_FOUND",
+    });
+  }
+  if (group.ownerId !== userId) {
+    throw new ConvexError({
+      message: "Only the group owner can change the group",
+      code: "FORBIDDEN",
+    });
+  }
+  return group;
+}
+
+function validateGroupName(name: string) {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > MAX_GROUP_NAME_LENGTH) {
+    throw new ConvexError({
+      message: `Group name must be 1-${MAX_GROUP_NAME_LENGTH} characters`,
+      code: "BAD_REQUEST",
+    });
+  }
+  return trimmed;
+}
+
+// Members must be the owner's friends, and nobody blocked either way
+async function validateMemberIds(
+  ctx: QueryCtx | MutationCtx,
+  ownerId: Id<"users">,
+  memberIds: Id<"users">[],
+) {
+  const unique = [...new Set(memberIds)].filter((id) => id !== ownerId);
+  if (unique.length > MAX_GROUP_MEMBERS) {
+    throw new ConvexError({
+      message: `A group can have at most ${MAX_GROUP_MEMBERS} members`,
+      code: "BAD_REQUEST",
+    });
+  }
+  for (const memberId of unique) {
+    if (
+      !(await areFriends(ctx, ownerId, memberId)) ||
+      (await isBlockedEitherWay(ctx, ownerId, memberId))
+    ) {
+      throw new ConvexError({
+        message: "Groups can only include your friends",
+        code: "BAD_REQUEST",
+      });
+    }
+  }
+  return unique;
+}
+
+// Get the groups the user owns or belongs to, with their members
+export const getMyGroups = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const groups = await getUserGroups(ctx, user._id);
+    const blockedIds = await getBlockedUserIds(ctx, user._id);
+
+    return await Promise.all(
+      groups.map(async (group) => {
+        // The owner is always listed so the group has a name to go by
+        const memberIds = (await getGroupMemberIds(ctx, group)).filter(
+          (id) => id === group.ownerId || !blockedIds.has(id),
+        );
+        const members = await Promise.all(
+          memberIds.map(async (memberId) => {
+            const member = await ctx.db.get(memberId);
+            return {
+              _id: memberId,
+              name: member?.name || "Unknown",
+              isOwner: memberId === group.ownerId,
+            };
+          }),
+        );
+        return {
+          _id: group._id,
+          name: group.name,
+          isOwner: group.ownerId === user._id,
+          ownerName: members[0].name,
+          members,
+          updatedAt: group.updatedAt,
+        };
+      }),
+    );
+  },
+});
+
+// Create a group from some of the user's friends
+export const createGroup = mutation({
+  args: {
+    name: v.string(),
+    memberIds: v.array(v.id("users")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const name = validateGroupName(args.name);
+    const memberIds = await validateMemberIds(ctx, user._id, args.memberIds);
+
+    const now = Date.now();
+    const groupId = await ctx.db.insert("friendGroups", {
+      ownerId: user._id,
+      name,
+      createdAt: now,
+      updatedAt: now,
+    });
+    for (const memberId of memberIds) {
+      await ctx.db.insert("friendGroupMembers", {
+        groupId,
+        userId: memberId,
+        addedAt: now,
+      });
+    }
+
+    return groupId;
+  },
+});
+
+// Rename a group and set its members (owner only)
+export const updateGroup = mutation({
+  args: {
+    groupId: v.id("friendGroups"),
+    name: v.string(),
+    memberIds: v.array(v.id("users")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const group = await getOwnedGroup(ctx, args.groupId, user._id);
+    const name = validateGroupName(args.name);
+    const memberIds = new Set(
+      await validateMemberIds(ctx, user._id, args.memberIds),
+    );
+
+    const now = Date.now();
+    const memberships = await ctx.db
+      .query("friendGroupMembers")
+      .withIndex("by_group", (q) => q.eq("groupId", group._id))
+      .collect();
+    for (const membership of memberships) {
+      if (memberIds.has(membership.userId)) {
+        memberIds.delete(membership.userId);
+      } else {
+        await ctx.db.delete(membership._id);
+        await removeMemberShares(ctx, group, membership.userId);
+      }
+    }
+    for (const memberId of memberIds) {
+      await ctx.db.insert("friendGroupMembers", {
+        groupId: group._id,
+        userId: memberId,
+        addedAt: now,
+      });
+    }
+
+    await ctx.db.patch(group._id, { name, updatedAt: now });
+
+    return { success: true };
+  },
+});
+
+// Leave a group someone else owns
+export const leaveGroup = mutation({
+  args: {
+    groupId: v.id("friendGroups"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const group = await ctx.db.get(args.groupId);
+    if (!group || !(await isInGroup(ctx, group, user._id))) {
+      throw new ConvexError({
+        message: "Group not found",
+        code: "NOT_FOUND",
+      });
+    }
+    if (group.ownerId === user._id) {
+      throw new ConvexError({
+        message: "The owner can't leave a group. Delete it instead.",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const membership = await ctx.db
+      .query("friendGroupMembers")
+      .withIndex("by_group", (q) =>
+        q.eq("groupId", group._id).eq("userId", user._id),
+      )
+      .unique();
+    if (membership) {
+      await ctx.db.delete(membership._id);
+    }
+    await removeMemberShares(ctx, group, user._id);
+
+    return { success: true };
+  },
+});
+
+// Delete a group along with its memberships and shares (owner only)
+export const deleteGroup = mutation({
+  args: {
+    groupId: v.id("friendGroups"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const group = await getOwnedGroup(ctx, args.groupId, user._id);
+
+    const memberships = await ctx.db
+      .query("friendGroupMembers")
+      .withIndex("by_group", (q) => q.eq("groupId", group._id))
+      .collect();
+    for (const membership of memberships) {
+      await ctx.db.delete(membership._id);
+    }
+
+    const shares = await ctx.db
+      .query("mapItemShares")
+      .withIndex("by_group", (q) => q.eq("groupId", group._id))
+      .collect();
+    for (const share of shares) {
+      await ctx.db.delete(share._id);
+    }
+
+    await ctx.db.delete(group._id);
+
+    return { success: true };
+  },
+});
@@ -1,7 +1,10 @@
 import { ConvexError, v } from "convex/values";
 import { mutation, query } from "./_generated/server";
-import type { Id } from "./_generated/dataModel.d.ts";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { sendNotification } from "./_notifications";
+import { getBlockedUserIds, hasBlocked, isBlockedEitherWay } from "./_blocks";
+import { removeFromOwnedGroups } from "./_friendGroups";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -44,6 +47,87 @@ async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
   return null;
 }
 
+type Discoverability = {
+  searchable: boolean;
+  byEmail: boolean;
+  byPhone: boolean;
+};
+
+const DEFAULT_DISCOVERABILITY: Discoverability = {
+  searchable: true,
+  byEmail: true,
+  byPhone: true,
+};
+
+function getUserDiscoverability(user: Doc<"users">): Discoverability {
+  return user.discoverability ?? DEFAULT_DISCOVERABILITY;
+}
+
+// Outgoing friend request limits, counted over all requests sent in the
+// window regardless of how they were answered
+const FRIEND_REQUEST_LIMITS = [
+  { windowMs: 60 * 60 * 1000, max: 20, label: "hour" },
+  { windowMs: 24 * 60 * 60 * 1000, max: 50, label: "day" },
+];
+
+async function checkFriendRequestRateLimit(
+  ctx: QueryCtx,
+  fromUserId: Id<"users">,
+) {
+  const now = Date.now();
+  for (const limit of FRIEND_REQUEST_LIMITS) {
+    const recent = await ctx.db
+      .query("friendRequests")
+      .withIndex("by_from_user_created", (q) =>
+        q.eq("fromUserId", fromUserId).gte("createdAt", now - limit.windowMs),
+      )
+      .take(limit.max);
+    if (recent.length >= limit.max) {
+      console.log("[checkFriendRequestRateLimit] Limit reached", {
+        fromUserId,
+        window: limit.label,
+      });
+      throw new ConvexError({
+        message: `You've sent too many friend requests. You can send up to ${limit.max} per ${limit.label}.`,
+        code: "RATE_LIMITED",
+      });
+    }
+  }
+}
+
+// A block in either direction looks the same as the member not existing
+async function assertNotBlocked(
+  ctx: QueryCtx,
+  fromUserId: Id<"users">,
+  toUserId: Id<"users">,
+) {
+  if (await isBlockedEitherWay(ctx, fromUserId, toUserId)) {
+    throw new ConvexError({
+      message: "User not found",
+      code: "NOT_FOUND",
+    });
+  }
+}
+
+async function findFriendship(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  otherUserId: Id<"users">,
+) {
+  return (
+    (await ctx.db
+      .query("friendships")
+      .withIndex("by_user1", (q) => q.eq("user1Id", userId))
+      .filter((q) => q.eq(q.field("user2Id"), otherUserId))
+      .first()) ??
+    (await ctx.db
+      .query("friendships")
+      .withIndex("by_user1", (q) => q.eq("user1Id", otherUserId))
+      .filter((q) => q.eq(q.field("user2Id"), userId))
+      .first())
+  );
+}
+
 // Search users by username, email, or phone
 export const searchUsers = query({
   args: {
@@ -62,13 +146,20 @@ export const searchUsers = query({
 
     // Search by email, username, or phone
     const allUsers = await ctx.db.query("users").collect();
+    const blockedIds = await getBlockedUserIds(ctx, currentUser._id);
 
     const matchedUsers = allUsers.filter((user) => {
       if (user._id === currentUser._id) return false; // Don't show current user
+      if (blockedIds.has(user._id)) return false;
+
+      const discoverability = getUserDiscoverability(user);
+      if (!discoverability.searchable) return false;
 
-      const email = user.email?.toLowerCase() || "";
+      const email = discoverability.byEmail
+        ? user.email?.toLowerCase() || ""
+        : "";
       const username = user.username?.toLowerCase() || "";
-      const phone = user.phoneNumber || "";
+      const phone = discoverability.byPhone ? user.phoneNumber || "" : "";
       const name = user.name?.toLowerCase() || "";
 
       return (
@@ -79,14 +170,18 @@ export const searchUsers = query({
       );
     });
 
-    // Limit to 20 results
-    return matchedUsers.slice(0, 20).map((user) => ({
-      _id: user._id,
-      name: user.name,
-      email: user.email,
-      username: user.username,
-      phoneNumber: user.phoneNumber,
-    }));
+    // Limit to 20 results. Contact details are only returned when the
+    // member can be found by them.
+    return matchedUsers.slice(0, 20).map((user) => {
+      const discoverability = getUserDiscoverability(user);
+      return {
+        _id: user._id,
+        name: user.name,
+        email: discoverability.byEmail ? user.email : undefined,
+        username: user.username,
+        phoneNumber: discoverability.byPhone ? user.phoneNumber : undefined,
+      };
+    });
   },
 });
 
@@ -121,6 +216,8 @@ export const sendFriendRequestById = mutation({
       });
     }
 
+    await assertNotBlocked(ctx, fromUser._id, toUser._id);
+
     // Check if they're already friends
     const existingFriendship = await ctx.db
       .query("friendships")
@@ -191,6 +288,8 @@ export const sendFriendRequestById = mutation({
       };
     }
 
+    await checkFriendRequestRateLimit(ctx, fromUser._id);
+
     // Create new friend request
     const requestId = await ctx.db.insert("friendRequests", {
       fromUserId: fromUser._id,
@@ -200,6 +299,16 @@ export const sendFriendRequestById = mutation({
       createdAt: Date.now(),
     });
 
+    await sendNotification(ctx, {
+      userId: toUser._id,
+      kind: "friend_request",
+      title: "New Friend Request",
+      message: args.message
+        ? `${fromUser.name ?? "Someone"} wants to be friends: "${args.message}"`
+        : `${fromUser.name ?? "Someone"} wants to be friends.`,
+      relatedId: requestId,
+    });
+
     return { requestId, friendshipCreated: false };
   },
 });
@@ -225,7 +334,12 @@ export const sendFriendRequest = mutation({
       .filter((q) => q.eq(q.field("email"), args.toUserEmail))
       .first();
 
-    if (!toUser) {
+    // Members who opted out of email lookup can't be found this way either
+    if (
+      !toUser ||
+      !getUserDiscoverability(toUser).searchable ||
+      !getUserDiscoverability(toUser).byEmail
+    ) {
       throw new ConvexError({
         message: "User with that email not found",
         code: "NOT_FOUND",
@@ -239,6 +353,8 @@ export const sendFriendRequest = mutation({
       });
     }
 
+    await assertNotBlocked(ctx, fromUser._id, toUser._id);
+
     // Check if they're already friends
     const existingFriendship = await ctx.db
       .query("friendships")
@@ -309,6 +425,8 @@ export const sendFriendRequest = mutation({
       };
     }
 
+    await checkFriendRequestRateLimit(ctx, fromUser._id);
+
     // Create new friend request
     const requestId = await ctx.db.insert("friendRequests", {
       fromUserId: fromUser._id,
@@ -318,6 +436,16 @@ export const sendFriendRequest = mutation({
       createdAt: Date.now(),
     });
 
+    await sendNotification(ctx, {
+      userId: toUser._id,
+      kind: "friend_request",
+      title: "New Friend Request",
+      message: args.message
+        ? `${fromUser.name ?? "Someone"} wants to be friends: "${args.message}"`
+        : `${fromUser.name ?? "Someone"} wants to be friends.`,
+      relatedId: requestId,
+    });
+
     return { requestId, friendshipCreated: false };
   },
 });
@@ -540,6 +668,219 @@ export const removeFriend = mutation({
       });
     }
 
+    // Groups only hold the owner's friends
+    await removeFromOwnedGroups(ctx, user._id, args.friendId);
+    await removeFromOwnedGroups(ctx, args.friendId, user._id);
+
+    return { success: true };
+  },
+});
+
+// Block a member. Ends any friendship, pending requests and trip
+// invitations between the two, and stops location sharing with them.
+export const blockUser = mutation({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not found. Please ensure your account has been created.",
+        code: "NOT_FOUND",
+      });
+    }
+
+    if (args.userId === user._id) {
+      throw new ConvexError({
+        message: "Cannot block yourself",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const blockedUser = await ctx.db.get(args.userId);
+    if (!blockedUser) {
+      throw new ConvexError({
+        message: "User not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    if (await hasBlocked(ctx, user._id, blockedUser._id)) {
+      return { success: true };
+    }
+
+    await ctx.db.insert("userBlocks", {
+      blockerId: user._id,
+      blockedId: blockedUser._id,
+      createdAt: Date.now(),
+    });
+
+    const friendship = await findFriendship(ctx, user._id, blockedUser._id);
+    if (friendship) {
+      await ctx.db.delete(friendship._id);
+    }
+    await removeFromOwnedGroups(ctx, user._id, blockedUser._id);
+    await removeFromOwnedGroups(ctx, blockedUser._id, user._id);
+
+    for (const [fromUserId, toUserId] of [
+      [user._id, blockedUser._id],
+      [blockedUser._id, user._id],
+    ]) {
+      const pendingRequests = await ctx.db
+        .query("friendRequests")
+        .withIndex("by_to_user_status", (q) =>
+          q.eq("toUserId", toUserId).eq("status", "pending"),
+        )
+        .filter((q) => q.eq(q.field("fromUserId"), fromUserId))
+        .collect();
+      for (const request of pendingRequests) {
+        await ctx.db.patch(request._id, {
+          status: "rejected",
+          respondedAt: Date.now(),
+        });
+      }
+
+      // Drop each from the other's selected-friends location list
+      const locationShare = await ctx.db
+        .query("locationShares")
+        .withIndex("by_user", (q) => q.eq("userId", fromUserId))
+        .first();
+      if (locationShare?.selectedFriends?.includes(toUserId)) {
+        await ctx.db.patch(locationShare._id, {
+          selectedFriends: locationShare.selectedFriends.filter(
+            (id) => id !== toUserId,
+          ),
+        });
+      }
+
+      // Decline open invitations to trips the other one organizes
+      const invitations = await ctx.db
+        .query("scoutingTripParticipants")
+        .withIndex("by_user_status", (q) =>
+          q.eq("userId", toUserId).eq("status", "invited"),
+        )
+        .collect();
+      for (const invitation of invitations) {
+        const trip = await ctx.db.get(invitation.tripId);
+        if (trip?.creatorId === fromUserId) {
+          await ctx.db.patch(invitation._id, { status: "declined" });
+        }
+      }
+    }
+
+    console.log("[blockUser] User blocked", {
+      blockerId: user._id,
+      blockedId: blockedUser._id,
+    });
+
+    return { success: true };
+  },
+});
+
+// Lift a block. Friendships and requests ended by the block stay ended.
+export const unblockUser = mutation({
+  args: {
+    userId: v.id("users"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not found. Please ensure your account has been created.",
+        code: "NOT_FOUND",
+      });
+    }
+
+    const block = await ctx.db
+      .query("userBlocks")
+      .withIndex("by_blocker", (q) =>
+        q.eq("blockerId", user._id).eq("blockedId", args.userId),
+      )
+      .unique();
+    if (!block) {
+      throw new ConvexError({
+        message: "User is not blocked",
+        code: "NOT_FOUND",
+      });
+    }
+
+    await ctx.db.delete(block._id);
+
+    return { success: true };
+  },
+});
+
+// Members the current user has blocked
+export const getBlockedUsers = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not found. Please ensure your account has been created.",
+        code: "NOT_FOUND",
+      });
+    }
+
+    const blocks = await ctx.db
+      .query("userBlocks")
+      .withIndex("by_blocker", (q) => q.eq("blockerId", user._id))
+      .collect();
+
+    const blockedUsers = await Promise.all(
+      blocks.map(async (block) => {
+        const blockedUser = await ctx.db.get(block.blockedId);
+        return blockedUser
+          ? {
+              _id: blockedUser._id,
+              name: blockedUser.name,
+              username: blockedUser.username,
+              blockedAt: block.createdAt,
+            }
+          : null;
+      }),
+    );
+
+    return blockedUsers.filter((u) => u !== null);
+  },
+});
+
+// Get who can find the current user in friend search
+export const getDiscoverability = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    return {
+      ...getUserDiscoverability(user),
+      hasEmail: !!user.email,
+      hasPhoneNumber: !!user.phoneNumber,
+    };
+  },
+});
+
+// Update who can find the current user in friend search
+export const updateDiscoverability = mutation({
+  args: {
+    searchable: v.boolean(),
+    byEmail: v.boolean(),
+    byPhone: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not found. Please ensure your account has been created.",
+        code: "NOT_FOUND",
+      });
+    }
+
+    await ctx.db.patch(user._id, { discoverability: args });
+
     return { success: true };
   },
 });
@@ -0,0 +1,368 @@
+import { v, ConvexError } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel.d.ts";
+import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import {
+  detectGpsFileFormat,
+  fillMissingTimestamps,
+  GPS_FILE_MIME_TYPES,
+  parseGpx,
+  parseKml,
+  toGpx,
+  toKml,
+  type GpsFileContents,
+  type GpsFileFormat,
+} from "./_gpsFormats";
+import { appendTrackPoints, loadTrackPoints } from "./_trackSegments";
+import { processTrack } from "./_trackProcessing";
+
+// Keep a single import within one mutation's write budget. Track points are
+// stored in fixed-size segments and processTrack caps simplifiedPath, so no
+// single array comes near Convex's 8192-element limit.
+const MAX_POINTS_PER_TRACK = 10000;
+const MAX_POINTS_PER_IMPORT = 20000;
+const MAX_TRACKS_PER_IMPORT = 100;
+const MAX_WAYPOINTS_PER_IMPORT = 2000;
+
+const KNOWN_WAYPOINT_TYPES = [
+  "stand",
+  "blind",
+  "camera",
+  "marker",
+  "parking",
+  "camp",
+];
+
+// Helper function to get current user with fallback lookup
+async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  // Look up by email first (preferred method)
+  if (identity.email) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", identity.email!))
+      .unique();
+
+    if (user) {
+      return user;
+    }
+  }
+
+  // Fall back to subject-based lookup if email lookup failed
+  if (identity.subject) {
+    const parts = identity.subject.split("|");
+    if (parts.length > 0) {
+      try {
+        const userId = parts[0] as Id<"users">;
+        const user = await ctx.db.get(userId);
+        if (user) {
+          return user;
+        }
+      } catch (error) {
+        // Subject is not a valid Convex ID, continue
+        console.log("[getCurrentUser] Subject is not a valid Convex ID", {
+          subject: identity.subject,
+        });
+      }
+    }
+  }
+
+  return null;
+}
+
+const formatValidator = v.union(v.literal("gpx"), v.literal("kml"));
+
+function serialize(
+  format: GpsFileFormat,
+  contents: GpsFileContents,
+  name: string,
+) {
+  return format === "gpx" ? toGpx(contents, name) : toKml(contents, name);
+}
+
+function toFileName(name: string, format: GpsFileFormat) {
+  const safeName = name
+    .trim()
+    .replace(/[^a-z0-9-_ ]/gi, "")
+    .replace(/\s+/g, "_");
+  return `${safeName || "export"}.${format}`;
+}
+
+// Map GPX <type>/<sym> or KML type values onto our waypoint types
+function normalizeWaypointType(type: string | undefined): string {
+  if (!type) return "marker";
+  const lower = type.toLowerCase();
+  if (KNOWN_WAYPOINT_TYPES.includes(lower)) return lower;
+  if (lower.includes("stand") || lower.includes("tree")) return "stand";
+  if (lower.includes("blind")) return "blind";
+  if (lower.includes("camera") || lower.includes("cam")) return "camera";
+  if (lower.includes("park") || lower.includes("car")) return "parking";
+  if (lower.includes("camp") || lower.includes("tent")) return "camp";
+  return "marker";
+}
+
+// Export a single track (with its waypoints) as GPX or KML
+export const exportTrack = query({
+  args: {
+    trackId: v.id("tracks"),
+    format: formatValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      throw new ConvexError({
+        message: "Track not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    if (track.userId !== user._id) {
+      throw new ConvexError({
+        message: "Not authorized to export this track",
+        code: "FORBIDDEN",
+      });
+    }
+
+    const trackWaypoints = await ctx.db
+      .query("waypoints")
+      .withIndex("by_track", (q) => q.eq("trackId", args.trackId))
+      .collect();
+
+    const points = await loadTrackPoints(ctx, track);
+
+    const contents: GpsFileContents = {
+      tracks: [
+        {
+          name: track.name,
+          description: track.description,
+          points: points.map((point) => ({
+            lat: point.lat,
+            lng: point.lng,
+            altitude: point.altitude,
+            timestamp: point.timestamp,
+          })),
+        },
+      ],
+      waypoints: trackWaypoints
+        .filter((wpt) => wpt.userId === user._id)
+        .map((wpt) => ({
+          name: wpt.name,
+          description: wpt.description,
+          lat: wpt.lat,
+          lng: wpt.lng,
+          altitude: wpt.altitude,
+          type: wpt.type,
+          timestamp: wpt.createdAt,
+        })),
+    };
+
+    return {
+      fileName: toFileName(track.name, args.format),
+      mimeType: GPS_FILE_MIME_TYPES[args.format],
+      content: serialize(args.format, contents, track.name),
+    };
+  },
+});
+
+// Export the current user's waypoints as GPX or KML
+export const exportWaypoints = query({
+  args: {
+    format: formatValidator,
+    waypointIds: v.optional(v.array(v.id("waypoints"))),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    let waypoints = await ctx.db
+      .query("waypoints")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    if (args.waypointIds) {
+      const selected = new Set<string>(args.waypointIds);
+      waypoints = waypoints.filter((wpt) => selected.has(wpt._id));
+    }
+
+    const name = "Waypoints";
+    const contents: GpsFileContents = {
+      tracks: [],
+      waypoints: waypoints.map((wpt) => ({
+        name: wpt.name,
+        description: wpt.description,
+        lat: wpt.lat,
+        lng: wpt.lng,
+        altitude: wpt.altitude,
+        type: wpt.type,
+        timestamp: wpt.createdAt,
+      })),
+    };
+
+    return {
+      fileName: toFileName(name, args.format),
+      mimeType: GPS_FILE_MIME_TYPES[args.format],
+      content: serialize(args.format, contents, name),
+      count: waypoints.length,
+    };
+  },
+});
+
+// Import tracks and waypoints from a GPX or KML file
+export const importGpsFile = mutation({
+  args: {
+    fileName: v.string(),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const format = detectGpsFileFormat(args.fileName, args.content);
+    if (!format) {
+      throw new ConvexError({
+        message: "Unsupported file. Please upload a .gpx or .kml file.",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const parsed =
+      format === "gpx" ? parseGpx(args.content) : parseKml(args.content);
+
+    if (parsed.tracks.length === 0 && parsed.waypoints.length === 0) {
+      throw new ConvexError({
+        message: "No tracks or waypoints found in file",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    if (parsed.waypoints.length > MAX_WAYPOINTS_PER_IMPORT) {
+      throw new ConvexError({
+        message: `Too many waypoints in file (max ${MAX_WAYPOINTS_PER_IMPORT})`,
+        code: "BAD_REQUEST",
+      });
+    }
+
+    if (parsed.tracks.length > MAX_TRACKS_PER_IMPORT) {
+      throw new ConvexError({
+        message: `Too many tracks in file (max ${MAX_TRACKS_PER_IMPORT})`,
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const totalPoints = parsed.tracks.reduce(
+      (sum, track) => sum + track.points.length,
+      0,
+    );
+    if (totalPoints > MAX_POINTS_PER_IMPORT) {
+      throw new ConvexError({
+        message: `Too many track points in file (max ${MAX_POINTS_PER_IMPORT})`,
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const oversized = parsed.tracks.find(
+      (track) => track.points.length > MAX_POINTS_PER_TRACK,
+    );
+    if (oversized) {
+      throw new ConvexError({
+        message: `Track "${oversized.name}" has too many points (max ${MAX_POINTS_PER_TRACK})`,
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const now = Date.now();
+    const trackIds: Id<"tracks">[] = [];
+
+    for (const track of parsed.tracks) {
+      const coordinates = fillMissingTimestamps(track.points, now);
+
+      const stats = processTrack(coordinates);
+      const startTime = coordinates[0].timestamp;
+      const endTime = coordinates[coordinates.length - 1].timestamp;
+
+      const trackId = await ctx.db.insert("tracks", {
+        userId: user._id,
+        name: track.name,
+        description: track.description,
+        distance: 0,
+        duration: stats.duration,
+        pointCount: 0,
+        segmentCount: 0,
+        startTime,
+        endTime,
+        isActive: false,
+      });
+
+      const inserted = await ctx.db.get(trackId);
+      if (inserted) {
+        await appendTrackPoints(ctx, inserted, coordinates);
+      }
+
+      // Same cleaned statistics a recorded track gets in stopTrack
+      await ctx.db.patch(trackId, {
+        distance: stats.distance,
+        movingTime: stats.movingTime,
+        stoppedTime: stats.stoppedTime,
+        averageSpeed: stats.averageSpeed > 0 ? stats.averageSpeed : undefined,
+        maxSpeed: stats.maxSpeed > 0 ? stats.maxSpeed : undefined,
+        elevationGain: stats.elevationGain > 0 ? stats.elevationGain : undefined,
+        elevationLoss: stats.elevationLoss > 0 ? stats.elevationLoss : undefined,
+        simplifiedPath: stats.simplifiedPath,
+      });
+      trackIds.push(trackId);
+    }
+
+    const waypointIds: Id<"waypoints">[] = [];
+    for (const wpt of parsed.waypoints) {
+      const waypointId = await ctx.db.insert("waypoints", {
+        userId: user._id,
+        name: wpt.name,
+        description: wpt.description,
+        lat: wpt.lat,
+        lng: wpt.lng,
+        altitude: wpt.altitude,
+        type: normalizeWaypointType(wpt.type),
+        createdAt: wpt.timestamp ?? now,
+      });
+      waypointIds.push(waypointId);
+    }
+
+    await ctx.db.insert("auditLogs", {
+      userId: user._id,
+      action: `Imported ${trackIds.length} tracks and ${waypointIds.length} waypoints from ${format.toUpperCase()}`,
+      entityType: "track",
+      changes: `file: ${args.fileName}`,
+      timestamp: now,
+    });
+
+    return {
+      format,
+      tracksImported: trackIds.length,
+      waypointsImported: waypointIds.length,
+      trackIds,
+      waypointIds,
+    };
+  },
+});
@@ -1,7 +1,21 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel.d.ts";
+import type { MutationCtx } from "./_generated/server.d.ts";
+import { findInGeoIndex, indexBoundaries } from "./_geoIndex";
 import { ConvexError } from "convex/values";
 
+// Cap on polygons returned for one viewport
+const MAX_RESULTS_IN_BOUNDS = 300;
+
+async function indexHuntingUnit(ctx: MutationCtx, unitId: Id<"huntingUnits">) {
+  const doc = await ctx.db.get(unitId);
+  if (doc) {
+    await indexBoundaries(ctx, "huntingUnit", doc._id, doc.boundaries);
+  }
+}
+
 export const getHuntingUnitsInBounds = query({
   args: {
     minLat: v.number(),
@@ -10,15 +24,22 @@ export const getHuntingUnitsInBounds = query({
     maxLng: v.number(),
   },
   handler: async (ctx, args) => {
-    const allUnits = await ctx.db.query("huntingUnits").collect();
-    
-    return allUnits.filter(
-      (unit) =>
-        unit.centerLat >= args.minLat &&
-        unit.centerLat <= args.maxLat &&
-        unit.centerLng >= args.minLng &&
-        unit.centerLng <= args.maxLng
+    // Polygons are matched on their full extent, not just the center point
+    const ids = await findInGeoIndex(
+      ctx,
+      "huntingUnit",
+      args,
+      MAX_RESULTS_IN_BOUNDS,
     );
+
+    const units = [];
+    for (const id of ids) {
+      const doc = await ctx.db.get(id as Id<"huntingUnits">);
+      if (doc) {
+        units.push(doc);
+      }
+    }
+    return units;
   },
 });
 
@@ -68,7 +89,7 @@ export const addSampleWMA = mutation({
   args: {},
   handler: async (ctx) => {
     // Sample WMA in Missouri
-    await ctx.db.insert("huntingUnits", {
+    const wmaId = await ctx.db.insert("huntingUnits", {
       unitId: "MO-WMA-001",
       name: "Eagle Bluffs Conservation Area",
       type: "WMA",
@@ -95,7 +116,7 @@ export const addSampleWMA = mutation({
     });
 
     // Sample National Forest
-    await ctx.db.insert("huntingUnits", {
+    const forestId = await ctx.db.insert("huntingUnits", {
       unitId: "MO-NF-001",
       name: "Mark Twain National Forest - Rolla District",
       type: "National Forest",
@@ -122,7 +143,7 @@ export const addSampleWMA = mutation({
     });
 
     // Sample State Park (limited hunting)
-    await ctx.db.insert("huntingUnits", {
+    const parkId = await ctx.db.insert("huntingUnits", {
       unitId: "MO-SP-001",
       name: "Knob Noster State Park",
       type: "State Park",
@@ -148,6 +169,38 @@ export const addSampleWMA = mutation({
       permitRequired: true,
     });
 
+
+    for (const id of [wmaId, forestId, parkId]) {
+      await indexHuntingUnit(ctx, id);
+    }
     return { success: true };
   },
 });
+
+// One-off migration: add existing hunting units to the geohash index.
+// Run with: npx convex run huntingUnits:backfillHuntingUnitGeoIndex
+export const backfillHuntingUnitGeoIndex = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("huntingUnits")
+      .paginate({ cursor: args.cursor ?? null, numItems: 50 });
+
+    for (const doc of page) {
+      await indexBoundaries(ctx, "huntingUnit", doc._id, doc.boundaries);
+    }
+
+    console.log("[backfillHuntingUnitGeoIndex] Indexed batch", {
+      count: page.length,
+      isDone,
+    });
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.huntingUnits.backfillHuntingUnitGeoIndex, {
+        cursor: continueCursor,
+      });
+    }
+  },
+});
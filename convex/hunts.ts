@@ -1,7 +1,26 @@
 import { v, ConvexError } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import type { Id } from "./_generated/dataModel.d.ts";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import {
+  closeEmergencyAlert,
+  createEmergencyAlert,
+  getActiveAlert,
+} from "./_emergencyAlerts";
+import { sendNotification } from "./_notifications";
+import { getHistoricalWeatherProvider } from "./_historicalWeather";
+import {
+  captureHuntConditions,
+  huntConditionsValidator,
+} from "./_huntConditions";
+import { toCompassDirection } from "./_weather";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -44,6 +63,260 @@ async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
   return null;
 }
 
+// How long after the expected return time contacts are alerted
+const CHECK_IN_GRACE_MS = 30 * 60 * 1000;
+const MAX_CHECK_IN_HOURS = 72;
+// A shared location older than this says little about where they are now
+const MAX_SHARED_LOCATION_AGE_MS = 12 * 60 * 60 * 1000;
+// Current conditions only describe a start or end this recent; a hunt that
+// synced later from an offline device goes without
+const MAX_CONDITIONS_DELAY_MS = 60 * 60 * 1000;
+
+function validateExpectedReturn(
+  expectedReturnAt: number,
+  now: number,
+  { allowPast = false } = {},
+) {
+  if (expectedReturnAt <= now && !allowPast) {
+    throw new ConvexError({
+      message: "Check-in time must be in the future",
+      code: "BAD_REQUEST",
+    });
+  }
+  if (expectedReturnAt > now + MAX_CHECK_IN_HOURS * 60 * 60 * 1000) {
+    throw new ConvexError({
+      message: `Check-in time must be within ${MAX_CHECK_IN_HOURS} hours`,
+      code: "BAD_REQUEST",
+    });
+  }
+}
+
+// Stop the check-in timer and stand down any overdue alert it raised
+async function settleCheckIn(
+  ctx: MutationCtx,
+  hunt: Doc<"hunts">,
+  user: Doc<"users">,
+) {
+  if (!hunt.checkInStatus || hunt.checkInStatus === "checked_in") {
+    return;
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(hunt._id, {
+    checkInStatus: "checked_in",
+    checkedInAt: now,
+    nextCheckInActionAt: undefined,
+    updatedAt: now,
+  });
+
+  if (hunt.overdueAlertId) {
+    const alert = await ctx.db.get(hunt.overdueAlertId);
+    if (alert?.status === "active" && alert.source === "overdue") {
+      await closeEmergencyAlert(ctx, alert, user, "resolved", "Checked in safe");
+      await ctx.scheduler.runAfter(
+        0,
+        internal.emergencyAlerts.sendAlertEmails,
+        { alertId: alert._id },
+      );
+    }
+  }
+}
+
+const MAX_PHOTOS_PER_HUNT = 20;
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+const MAX_CAPTION_LENGTH = 200;
+const MAX_HARVEST_ENTRIES = 20;
+// How long an issued photo upload URL can be claimed for
+const PHOTO_UPLOAD_TTL_MS = 60 * 60 * 1000;
+
+const huntPhotoValidator = v.object({
+  storageId: v.id("_storage"),
+  caption: v.optional(v.string()),
+  uploadedAt: v.number(),
+});
+
+type HuntPhoto = NonNullable<Doc<"hunts">["photos"]>[number];
+type HarvestEntry = NonNullable<Doc<"hunts">["harvestDetails"]>[number];
+
+// Every photo on the hunt, its own and those on harvest entries
+function getAllPhotos(hunt: Doc<"hunts">): HuntPhoto[] {
+  return [
+    ...(hunt.photos ?? []),
+    ...(hunt.harvestDetails ?? []).flatMap((entry) => entry.photos ?? []),
+  ];
+}
+
+// Delete the files behind photos taken off a hunt. Only uploads the user
+// claimed through addHuntPhoto are deleted; any other storage ID may belong
+// to someone else's file, so those photos are just detached.
+async function deleteUploadedPhotos(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  photos: HuntPhoto[],
+) {
+  let deleted = 0;
+  for (const { storageId } of photos) {
+    const upload = await ctx.db
+      .query("huntPhotoUploads")
+      .withIndex("by_storage", (q) => q.eq("storageId", storageId))
+      .first();
+    if (!upload || upload.userId !== userId) continue;
+    await ctx.db.delete(upload._id);
+    await ctx.storage.delete(storageId);
+    deleted++;
+  }
+  return deleted;
+}
+
+function normalizeCaption(caption: string | undefined) {
+  const trimmed = caption?.trim();
+  if (trimmed && trimmed.length > MAX_CAPTION_LENGTH) {
+    throw new ConvexError({
+      message: `Captions can be at most ${MAX_CAPTION_LENGTH} characters`,
+      code: "BAD_REQUEST",
+    });
+  }
+  return trimmed || undefined;
+}
+
+// Trimmed required text, rejecting blank or overlong values
+function requireText(value: string, field: string, maxLength: number) {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    throw new ConvexError({
+      message: `${field} is required`,
+      code: "BAD_REQUEST",
+    });
+  }
+  if (trimmed.length > maxLength) {
+    throw new ConvexError({
+      message: `${field} can be at most ${maxLength} characters`,
+      code: "BAD_REQUEST",
+    });
+  }
+  return trimmed;
+}
+
+// Trimmed optional text; an empty string clears the field
+function optionalText(
+  value: string | undefined,
+  current: string | undefined,
+  field: string,
+  maxLength: number,
+) {
+  if (value === undefined) return current;
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new ConvexError({
+      message: `${field} can be at most ${maxLength} characters`,
+      code: "BAD_REQUEST",
+    });
+  }
+  return trimmed || undefined;
+}
+
+function requireNonNegative(value: number | undefined, field: string) {
+  if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+    throw new ConvexError({
+      message: `${field} must be zero or more`,
+      code: "BAD_REQUEST",
+    });
+  }
+}
+
+function validateCoordinates(lat?: number, lng?: number) {
+  if (lat !== undefined && !(lat >= -90 && lat <= 90)) {
+    throw new ConvexError({
+      message: "Latitude must be between -90 and 90",
+      code: "BAD_REQUEST",
+    });
+  }
+  if (lng !== undefined && !(lng >= -180 && lng <= 180)) {
+    throw new ConvexError({
+      message: "Longitude must be between -180 and 180",
+      code: "BAD_REQUEST",
+    });
+  }
+}
+
+function validateHarvestedCount(harvested?: number) {
+  if (
+    harvested !== undefined &&
+    (!Number.isInteger(harvested) || harvested < 0)
+  ) {
+    throw new ConvexError({
+      message: "Harvested must be a whole number of zero or more",
+      code: "BAD_REQUEST",
+    });
+  }
+}
+
+const harvestEntryFields = {
+  species: v.string(),
+  sex: v.optional(v.string()),
+  age: v.optional(v.string()),
+  weight: v.optional(v.number()),
+  points: v.optional(v.number()),
+  time: v.number(),
+  notes: v.optional(v.string()),
+};
+
+// Validate and tidy one harvest entry, which must fall within the hunt.
+// Photos are left to the caller.
+function normalizeHarvestEntry(
+  entry: Omit<HarvestEntry, "photos">,
+  startTime: number,
+  endTime: number,
+): Omit<HarvestEntry, "photos"> {
+  requireNonNegative(entry.weight, "Weight");
+  if (
+    entry.points !== undefined &&
+    (!Number.isInteger(entry.points) || entry.points < 0)
+  ) {
+    throw new ConvexError({
+      message: "Points must be a whole number of zero or more",
+      code: "BAD_REQUEST",
+    });
+  }
+  if (entry.time < startTime || entry.time > endTime) {
+    throw new ConvexError({
+      message: "Harvest times must fall within the hunt",
+      code: "BAD_REQUEST",
+    });
+  }
+
+  return {
+    species: requireText(entry.species, "Harvest species", 50),
+    sex: optionalText(entry.sex, undefined, "Sex", 20),
+    age: optionalText(entry.age, undefined, "Age", 20),
+    weight: entry.weight,
+    points: entry.points,
+    time: entry.time,
+    notes: optionalText(entry.notes, undefined, "Harvest notes", 1000),
+  };
+}
+
+async function getOwnHunt(
+  ctx: MutationCtx,
+  huntId: Id<"hunts">,
+  user: Doc<"users">,
+) {
+  const hunt = await ctx.db.get(huntId);
+  if (!hunt) {
+    throw new ConvexError({
+      message: "Hunt not found",
+      code: "NOT_FOUND",
+    });
+  }
+  if (hunt.userId !== user._id) {
+    throw new ConvexError({
+      message: "Not authorized",
+      code: "FORBIDDEN",
+    });
+  }
+  return hunt;
+}
+
 // Get user's hunts
 export const getMyHunts = query({
   args: {},
@@ -56,9 +329,10 @@ export const getMyHunts = query({
       });
     }
 
+    // By hunt date, so hunts logged after the fact sort where they happened
     const hunts = await ctx.db
       .query("hunts")
-      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .withIndex("by_user_date", (q) => q.eq("userId", user._id))
       .order("desc")
       .collect();
 
@@ -148,6 +422,10 @@ export const startHunt = mutation({
     species: v.string(),
     method: v.optional(v.string()),
     notes: v.optional(v.string()),
+    // When the hunt was started on a device that was offline at the time
+    startTime: v.optional(v.number()),
+    // Optional check-in deadline for the safety timer
+    expectedReturnAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUser(ctx);
@@ -159,11 +437,18 @@ export const startHunt = mutation({
     }
 
     const now = Date.now();
+    const startTime = Math.min(args.startTime ?? now, now);
+    // A hunt started offline may sync after its check-in time; keep the
+    // timer and let the next cron run send the reminder straight away
+    if (args.expectedReturnAt !== undefined) {
+      validateExpectedReturn(args.expectedReturnAt, now, { allowPast: true });
+    }
+
     const huntId = await ctx.db.insert("hunts", {
       userId: user._id,
       title: args.title,
-      date: now,
-      startTime: now,
+      date: startTime,
+      startTime,
       locationName: args.locationName,
       lat: args.lat,
       lng: args.lng,
@@ -173,10 +458,20 @@ export const startHunt = mutation({
       status: "active",
       successful: false,
       notes: args.notes,
+      expectedReturnAt: args.expectedReturnAt,
+      checkInStatus: args.expectedReturnAt ? "pending" : undefined,
+      nextCheckInActionAt: args.expectedReturnAt,
       createdAt: now,
       updatedAt: now,
     });
 
+    if (now - startTime <= MAX_CONDITIONS_DELAY_MS) {
+      await ctx.scheduler.runAfter(0, internal.hunts.recordHuntConditions, {
+        huntId,
+        phase: "start",
+      });
+    }
+
     return huntId;
   },
 });
@@ -187,20 +482,10 @@ export const endHunt = mutation({
     huntId: v.id("hunts"),
     successful: v.boolean(),
     harvested: v.optional(v.number()),
-    harvestDetails: v.optional(
-      v.array(
-        v.object({
-          species: v.string(),
-          sex: v.optional(v.string()),
-          age: v.optional(v.string()),
-          weight: v.optional(v.number()),
-          points: v.optional(v.number()),
-          time: v.number(),
-          notes: v.optional(v.string()),
-        }),
-      ),
-    ),
+    harvestDetails: v.optional(v.array(v.object(harvestEntryFields))),
     notes: v.optional(v.string()),
+    // When the hunt was ended on a device that was offline at the time
+    endTime: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const hunt = await ctx.db.get(args.huntId);
@@ -219,16 +504,123 @@ export const endHunt = mutation({
       });
     }
 
+    if (hunt.status !== "active") {
+      throw new ConvexError({
+        message: "This hunt has already ended",
+        code: "BAD_REQUEST",
+      });
+    }
+
     const now = Date.now();
+    const endTime = Math.max(
+      hunt.startTime,
+      Math.min(args.endTime ?? now, now),
+    );
+
+    // New entries replace any already on the hunt, photos included
+    let harvestDetails = hunt.harvestDetails;
+    let removedPhotos: HuntPhoto[] = [];
+    if (args.harvestDetails !== undefined) {
+      if (args.harvestDetails.length > MAX_HARVEST_ENTRIES) {
+        throw new ConvexError({
+          message: `A hunt can have at most ${MAX_HARVEST_ENTRIES} harvest entries`,
+          code: "BAD_REQUEST",
+        });
+      }
+      harvestDetails = args.harvestDetails.map((entry) =>
+        normalizeHarvestEntry(entry, hunt.startTime, endTime),
+      );
+      removedPhotos = (hunt.harvestDetails ?? []).flatMap(
+        (entry) => entry.photos ?? [],
+      );
+    }
+
+    validateHarvestedCount(args.harvested);
+    const harvested =
+      (harvestDetails?.length ?? 0) > (args.harvested ?? 0)
+        ? harvestDetails?.length
+        : args.harvested;
+
     await ctx.db.patch(args.huntId, {
       status: "completed",
-      endTime: now,
+      endTime,
       successful: args.successful,
-      harvested: args.harvested,
-      harvestDetails: args.harvestDetails,
+      harvested,
+      harvestDetails,
       notes: args.notes || hunt.notes,
       updatedAt: now,
     });
+    await deleteUploadedPhotos(ctx, user._id, removedPhotos);
+
+    await settleCheckIn(ctx, hunt, user);
+
+    if (now - endTime <= MAX_CONDITIONS_DELAY_MS) {
+      await ctx.scheduler.runAfter(0, internal.hunts.recordHuntConditions, {
+        huntId: args.huntId,
+        phase: "end",
+      });
+    }
+  },
+});
+
+// "I'm safe": stop the check-in timer without ending the hunt
+export const checkIn = mutation({
+  args: {
+    huntId: v.id("hunts"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const hunt = await getOwnHunt(ctx, args.huntId, user);
+    await settleCheckIn(ctx, hunt, user);
+    return { success: true };
+  },
+});
+
+// Set or push back the check-in time. Also stands down an overdue alert,
+// since the hunter is evidently able to respond.
+export const extendCheckIn = mutation({
+  args: {
+    huntId: v.id("hunts"),
+    expectedReturnAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const hunt = await getOwnHunt(ctx, args.huntId, user);
+    if (hunt.status !== "active") {
+      throw new ConvexError({
+        message: "Only active hunts have a check-in timer",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const now = Date.now();
+    validateExpectedReturn(args.expectedReturnAt, now);
+
+    await settleCheckIn(ctx, hunt, user);
+    await ctx.db.patch(args.huntId, {
+      expectedReturnAt: args.expectedReturnAt,
+      checkInStatus: "pending",
+      nextCheckInActionAt: args.expectedReturnAt,
+      checkedInAt: undefined,
+      overdueAlertId: undefined,
+      updatedAt: now,
+    });
+
+    return { success: true };
   },
 });
 
@@ -270,6 +662,745 @@ export const updateHuntNotes = mutation({
   },
 });
 
+// Edit a hunt after the fact. Omitted fields are left alone and an empty
+// string clears an optional text field. Harvest entries replace the
+// existing list; their photos must already be on this hunt, and photos
+// dropped along with an entry are deleted.
+export const updateHunt = mutation({
+  args: {
+    huntId: v.id("hunts"),
+    title: v.optional(v.string()),
+    locationName: v.optional(v.string()),
+    lat: v.optional(v.number()),
+    lng: v.optional(v.number()),
+    state: v.optional(v.string()),
+    species: v.optional(v.string()),
+    method: v.optional(v.string()),
+    weather: v.optional(v.string()),
+    temperature: v.optional(v.number()),
+    windSpeed: v.optional(v.number()),
+    windDirection: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    wildlifeSeen: v.optional(v.array(v.string())),
+    startTime: v.optional(v.number()),
+    endTime: v.optional(v.number()),
+    successful: v.optional(v.boolean()),
+    harvested: v.optional(v.number()),
+    harvestDetails: v.optional(
+      v.array(
+        v.object({
+          ...harvestEntryFields,
+          photos: v.optional(v.array(huntPhotoValidator)),
+        }),
+      ),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const hunt = await getOwnHunt(ctx, args.huntId, user);
+    const isActive = hunt.status === "active";
+    const now = Date.now();
+
+    validateCoordinates(args.lat, args.lng);
+    if (args.temperature !== undefined && !Number.isFinite(args.temperature)) {
+      throw new ConvexError({
+        message: "Temperature must be a number",
+        code: "BAD_REQUEST",
+      });
+    }
+    requireNonNegative(args.windSpeed, "Wind speed");
+
+    // Results only make sense once the hunt is over
+    if (
+      isActive &&
+      (args.endTime !== undefined ||
+        args.successful !== undefined ||
+        args.harvested !== undefined ||
+        args.harvestDetails !== undefined)
+    ) {
+      throw new ConvexError({
+        message: "End the hunt before recording its results",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const startTime = args.startTime ?? hunt.startTime;
+    const endTime = args.endTime ?? hunt.endTime;
+    if (startTime > now || (endTime !== undefined && endTime > now)) {
+      throw new ConvexError({
+        message: "Hunt times can't be in the future",
+        code: "BAD_REQUEST",
+      });
+    }
+    if (endTime !== undefined && endTime < startTime) {
+      throw new ConvexError({
+        message: "A hunt can't end before it starts",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    let harvestDetails = hunt.harvestDetails;
+    let removedPhotos: HuntPhoto[] = [];
+    if (args.harvestDetails !== undefined) {
+      if (args.harvestDetails.length > MAX_HARVEST_ENTRIES) {
+        throw new ConvexError({
+          message: `A hunt can have at most ${MAX_HARVEST_ENTRIES} harvest entries`,
+          code: "BAD_REQUEST",
+        });
+      }
+
+      const available = new Map(
+        (hunt.harvestDetails ?? [])
+          .flatMap((entry) => entry.photos ?? [])
+          .map((photo) => [photo.storageId, photo]),
+      );
+      const kept = new Set<string>();
+
+      harvestDetails = args.harvestDetails.map(({ photos, ...entry }) => {
+        // Photos are uploaded and captioned separately; entries may only
+        // carry over ones already on the hunt
+        const keptPhotos = (photos ?? []).map((photo) => {
+          const existing = available.get(photo.storageId);
+          if (!existing || kept.has(photo.storageId)) {
+            throw new ConvexError({
+              message: "Harvest photos must be uploaded to this hunt first",
+              code: "BAD_REQUEST",
+            });
+          }
+          kept.add(photo.storageId);
+          return existing;
+        });
+
+        return {
+          ...normalizeHarvestEntry(entry, startTime, endTime ?? now),
+          photos: keptPhotos.length > 0 ? keptPhotos : undefined,
+        };
+      });
+
+      removedPhotos = [...available.values()].filter(
+        (photo) => !kept.has(photo.storageId),
+      );
+    }
+
+    // The count can exceed the logged entries, but never fall below them
+    validateHarvestedCount(args.harvested);
+    let harvested = args.harvested ?? hunt.harvested;
+    const loggedHarvests = harvestDetails?.length ?? 0;
+    if (loggedHarvests > (harvested ?? 0)) {
+      harvested = loggedHarvests;
+    }
+    const successful =
+      (harvested ?? 0) > 0 ? true : (args.successful ?? hunt.successful);
+
+    let wildlifeSeen = hunt.wildlifeSeen;
+    if (args.wildlifeSeen !== undefined) {
+      wildlifeSeen = args.wildlifeSeen
+        .map((animal) => animal.trim())
+        .filter((animal) => animal.length > 0);
+      if (wildlifeSeen.length > 50) {
+        throw new ConvexError({
+          message: "List at most 50 animals seen",
+          code: "BAD_REQUEST",
+        });
+      }
+    }
+
+    await ctx.db.patch(args.huntId, {
+      title:
+        args.title !== undefined
+          ? requireText(args.title, "Title", 100)
+          : hunt.title,
+      locationName:
+        args.locationName !== undefined
+          ? requireText(args.locationName, "Location", 200)
+          : hunt.locationName,
+      lat: args.lat ?? hunt.lat,
+      lng: args.lng ?? hunt.lng,
+      state: optionalText(args.state, hunt.state, "State", 50),
+      species:
+        args.species !== undefined
+          ? requireText(args.species, "Species", 50)
+          : hunt.species,
+      method: optionalText(args.method, hunt.method, "Method", 50),
+      weather: optionalText(args.weather, hunt.weather, "Weather", 100),
+      temperature: args.temperature ?? hunt.temperature,
+      windSpeed: args.windSpeed ?? hunt.windSpeed,
+      windDirection: optionalText(
+        args.windDirection,
+        hunt.windDirection,
+        "Wind direction",
+        20,
+      ),
+      notes: optionalText(args.notes, hunt.notes, "Notes", 2000),
+      wildlifeSeen,
+      date: startTime,
+      startTime,
+      endTime,
+      successful,
+      harvested,
+      harvestDetails,
+      updatedAt: now,
+    });
+
+    const deletedPhotos = await deleteUploadedPhotos(
+      ctx,
+      user._id,
+      removedPhotos,
+    );
+
+    console.log("[updateHunt] Updated hunt", {
+      huntId: args.huntId,
+      removedPhotos: removedPhotos.length,
+      deletedPhotos,
+    });
+  },
+});
+
+// Record a hunt that already happened, such as last season's or one that
+// was never started in the app. Weather left blank is looked up for the
+// hunt's start time in the background.
+export const logPastHunt = mutation({
+  args: {
+    title: v.string(),
+    locationName: v.string(),
+    lat: v.number(),
+    lng: v.number(),
+    state: v.optional(v.string()),
+    species: v.string(),
+    method: v.optional(v.string()),
+    startTime: v.number(),
+    endTime: v.number(),
+    weather: v.optional(v.string()),
+    temperature: v.optional(v.number()),
+    windSpeed: v.optional(v.number()),
+    windDirection: v.optional(v.string()),
+    notes: v.optional(v.string()),
+    successful: v.optional(v.boolean()),
+    harvested: v.optional(v.number()),
+    harvestDetails: v.optional(v.array(v.object(harvestEntryFields))),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const now = Date.now();
+    validateCoordinates(args.lat, args.lng);
+    if (args.temperature !== undefined && !Number.isFinite(args.temperature)) {
+      throw new ConvexError({
+        message: "Temperature must be a number",
+        code: "BAD_REQUEST",
+      });
+    }
+    requireNonNegative(args.windSpeed, "Wind speed");
+    if (args.endTime > now) {
+      throw new ConvexError({
+        message: "Only hunts that have already ended can be logged",
+        code: "BAD_REQUEST",
+      });
+    }
+    if (args.endTime < args.startTime) {
+      throw new ConvexError({
+        message: "A hunt can't end before it starts",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const harvestDetails = args.harvestDetails ?? [];
+    if (harvestDetails.length > MAX_HARVEST_ENTRIES) {
+      throw new ConvexError({
+        message: `A hunt can have at most ${MAX_HARVEST_ENTRIES} harvest entries`,
+        code: "BAD_REQUEST",
+      });
+    }
+    const entries = harvestDetails.map((entry) =>
+      normalizeHarvestEntry(entry, args.startTime, args.endTime),
+    );
+    validateHarvestedCount(args.harvested);
+    const harvested = Math.max(args.harvested ?? 0, entries.length);
+
+    const huntId = await ctx.db.insert("hunts", {
+      userId: user._id,
+      title: requireText(args.title, "Title", 100),
+      date: args.startTime,
+      startTime: args.startTime,
+      endTime: args.endTime,
+      locationName: requireText(args.locationName, "Location", 200),
+      lat: args.lat,
+      lng: args.lng,
+      state: optionalText(args.state, undefined, "State", 50),
+      species: requireText(args.species, "Species", 50),
+      method: optionalText(args.method, undefined, "Method", 50),
+      weather: optionalText(args.weather, undefined, "Weather", 100),
+      temperature: args.temperature,
+      windSpeed: args.windSpeed,
+      windDirection: optionalText(
+        args.windDirection,
+        undefined,
+        "Wind direction",
+        20,
+      ),
+      status: "completed",
+      successful: harvested > 0 || (args.successful ?? false),
+      harvested: harvested > 0 ? harvested : undefined,
+      harvestDetails: entries.length > 0 ? entries : undefined,
+      notes: optionalText(args.notes, undefined, "Notes", 2000),
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    if (
+      !args.weather?.trim() ||
+      args.temperature === undefined ||
+      args.windSpeed === undefined ||
+      !args.windDirection?.trim()
+    ) {
+      await ctx.scheduler.runAfter(0, internal.hunts.fillHistoricalWeather, {
+        huntId,
+      });
+    }
+
+    console.log("[logPastHunt] Logged hunt", { huntId, userId: user._id });
+    return huntId;
+  },
+});
+
+export const getHuntForWeather = internalQuery({
+  args: { huntId: v.id("hunts") },
+  handler: async (ctx, args) => {
+    const hunt = await ctx.db.get(args.huntId);
+    if (!hunt) {
+      return null;
+    }
+    return { lat: hunt.lat, lng: hunt.lng, startTime: hunt.startTime };
+  },
+});
+
+// Fill in only the weather fields that are still empty, so anything the
+// hunter entered or edited since takes precedence
+export const applyHistoricalWeather = internalMutation({
+  args: {
+    huntId: v.id("hunts"),
+    weather: v.string(),
+    temperature: v.number(),
+    windSpeed: v.number(),
+    windDirection: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const hunt = await ctx.db.get(args.huntId);
+    if (!hunt) {
+      return;
+    }
+
+    await ctx.db.patch(args.huntId, {
+      weather: hunt.weather ?? args.weather,
+      temperature: hunt.temperature ?? args.temperature,
+      windSpeed: hunt.windSpeed ?? args.windSpeed,
+      windDirection: hunt.windDirection ?? args.windDirection,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Look up the weather for a logged hunt's start time. A failed lookup is
+// logged and skipped; the hunter can still fill the weather in by hand.
+export const fillHistoricalWeather = internalAction({
+  args: { huntId: v.id("hunts") },
+  handler: async (ctx, args) => {
+    const hunt = await ctx.runQuery(internal.hunts.getHuntForWeather, {
+      huntId: args.huntId,
+    });
+    if (!hunt) {
+      return;
+    }
+
+    const provider = getHistoricalWeatherProvider();
+    try {
+      const weather = await provider.getWeatherAt(
+        hunt.lat,
+        hunt.lng,
+        hunt.startTime,
+      );
+      if (!weather) {
+        console.log("[fillHistoricalWeather] No weather found", {
+          huntId: args.huntId,
+          provider: provider.name,
+        });
+        return;
+      }
+
+      await ctx.runMutation(internal.hunts.applyHistoricalWeather, {
+        huntId: args.huntId,
+        weather: weather.description,
+        temperature: weather.temperature,
+        windSpeed: weather.windSpeed,
+        windDirection: weather.windDirection,
+      });
+    } catch (error) {
+      console.log("[fillHistoricalWeather] Lookup failed", {
+        huntId: args.huntId,
+        provider: provider.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+});
+
+// Store a conditions snapshot. The start snapshot also fills in the hunt's
+// weather fields, unless the hunter has already set them.
+export const saveHuntConditions = internalMutation({
+  args: {
+    huntId: v.id("hunts"),
+    phase: v.union(v.literal("start"), v.literal("end")),
+    conditions: huntConditionsValidator,
+  },
+  handler: async (ctx, args) => {
+    const hunt = await ctx.db.get(args.huntId);
+    if (!hunt) {
+      return;
+    }
+
+    const { conditions } = args;
+    if (args.phase === "end") {
+      await ctx.db.patch(args.huntId, { endConditions: conditions });
+      return;
+    }
+
+    const description = conditions.description
+      ? conditions.description.charAt(0).toUpperCase() +
+        conditions.description.slice(1)
+      : undefined;
+    await ctx.db.patch(args.huntId, {
+      startConditions: conditions,
+      weather: hunt.weather ?? description,
+      temperature: hunt.temperature ?? conditions.temperature,
+      windSpeed: hunt.windSpeed ?? conditions.windSpeed,
+      windDirection:
+        hunt.windDirection ??
+        (conditions.windDirection !== undefined
+          ? toCompassDirection(conditions.windDirection)
+          : undefined),
+    });
+  },
+});
+
+// Capture the weather, pressure trend, moon phase and solunar periods at
+// the hunt's location as it starts or ends
+export const recordHuntConditions = internalAction({
+  args: {
+    huntId: v.id("hunts"),
+    phase: v.union(v.literal("start"), v.literal("end")),
+  },
+  handler: async (ctx, args) => {
+    const hunt = await ctx.runQuery(internal.hunts.getHuntForWeather, {
+      huntId: args.huntId,
+    });
+    if (!hunt) {
+      return;
+    }
+
+    const conditions = await captureHuntConditions(hunt.lat, hunt.lng);
+    await ctx.runMutation(internal.hunts.saveHuntConditions, {
+      huntId: args.huntId,
+      phase: args.phase,
+      conditions,
+    });
+  },
+});
+
+// Generate an upload URL for a hunt or harvest photo. The returned uploadId
+// is passed to addHuntPhoto with the new storage ID to prove who uploaded it.
+export const generateHuntPhotoUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+    const uploadId = await ctx.db.insert("huntPhotoUploads", {
+      userId: user._id,
+      createdAt: Date.now(),
+    });
+    const uploadUrl = await ctx.storage.generateUploadUrl();
+    return { uploadUrl, uploadId };
+  },
+});
+
+// Attach an uploaded photo to a hunt, or to one of its harvest entries when
+// harvestIndex is given. The file must have been uploaded through the given
+// upload URL after it was issued; uploads that aren't images or are too
+// large are deleted rather than attached.
+export const addHuntPhoto = mutation({
+  args: {
+    huntId: v.id("hunts"),
+    uploadId: v.id("huntPhotoUploads"),
+    storageId: v.id("_storage"),
+    harvestIndex: v.optional(v.number()),
+    caption: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const hunt = await getOwnHunt(ctx, args.huntId, user);
+    const photos = getAllPhotos(hunt);
+    if (photos.some((photo) => photo.storageId === args.storageId)) {
+      throw new ConvexError({
+        message: "This photo is already on the hunt",
+        code: "CONFLICT",
+      });
+    }
+    if (photos.length >= MAX_PHOTOS_PER_HUNT) {
+      throw new ConvexError({
+        message: `A hunt can have at most ${MAX_PHOTOS_PER_HUNT} photos`,
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const harvestDetails = hunt.harvestDetails ?? [];
+    if (args.harvestIndex !== undefined && !harvestDetails[args.harvestIndex]) {
+      throw new ConvexError({
+        message: "Harvest entry not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    // The upload must be this user's, unclaimed and recent, and the file
+    // must not already be claimed or predate the upload URL
+    const now = Date.now();
+    const upload = await ctx.db.get(args.uploadId);
+    const file = await ctx.db.system.get(args.storageId);
+    const claimed = await ctx.db
+      .query("huntPhotoUploads")
+      .withIndex("by_storage", (q) => q.eq("storageId", args.storageId))
+      .first();
+    if (
+      !upload ||
+      upload.userId !== user._id ||
+      upload.storageId !== undefined ||
+      now - upload.createdAt > PHOTO_UPLOAD_TTL_MS ||
+      !file ||
+      file._creationTime < upload.createdAt ||
+      claimed
+    ) {
+      throw new ConvexError({
+        message: "Upload not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    if (
+      !file.contentType?.startsWith("image/") ||
+      file.size > MAX_PHOTO_BYTES
+    ) {
+      // Returned rather than thrown so the deletes aren't rolled back
+      await ctx.db.delete(args.uploadId);
+      await ctx.storage.delete(args.storageId);
+      return {
+        success: false,
+        message: "Photos must be images of 5MB or less",
+      };
+    }
+
+    await ctx.db.patch(args.uploadId, { storageId: args.storageId });
+
+    const photo: HuntPhoto = {
+      storageId: args.storageId,
+      caption: normalizeCaption(args.caption),
+      uploadedAt: now,
+    };
+
+    if (args.harvestIndex === undefined) {
+      await ctx.db.patch(args.huntId, {
+        photos: [...(hunt.photos ?? []), photo],
+        updatedAt: photo.uploadedAt,
+      });
+    } else {
+      await ctx.db.patch(args.huntId, {
+        harvestDetails: harvestDetails.map((entry, index) =>
+          index === args.harvestIndex
+            ? { ...entry, photos: [...(entry.photos ?? []), photo] }
+            : entry,
+        ),
+        updatedAt: photo.uploadedAt,
+      });
+    }
+    return { success: true };
+  },
+});
+
+// Upload URLs that were never claimed; the file, if any, can't be traced
+// back to its uploader and is left for storage cleanup
+export const cleanupExpiredPhotoUploads = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("huntPhotoUploads")
+      .withIndex("by_storage", (q) =>
+        q
+          .eq("storageId", undefined)
+          .lt("createdAt", Date.now() - PHOTO_UPLOAD_TTL_MS),
+      )
+      .take(500);
+    for (const upload of expired) {
+      await ctx.db.delete(upload._id);
+    }
+  },
+});
+
+// Apply `update` to the photo with this storage ID wherever it sits on the
+// hunt; null removes it
+function mapHuntPhoto(
+  hunt: Doc<"hunts">,
+  storageId: Id<"_storage">,
+  update: (photo: HuntPhoto) => HuntPhoto | null,
+) {
+  let found = false;
+  const apply = (photos: HuntPhoto[] | undefined) => {
+    if (!photos) return photos;
+    const next = photos.flatMap((photo) => {
+      if (photo.storageId !== storageId) return [photo];
+      found = true;
+      const updated = update(photo);
+      return updated ? [updated] : [];
+    });
+    return next.length > 0 ? next : undefined;
+  };
+
+  const photos = apply(hunt.photos);
+  const harvestDetails = hunt.harvestDetails?.map((entry) => ({
+    ...entry,
+    photos: apply(entry.photos),
+  }));
+
+  if (!found) {
+    throw new ConvexError({
+      message: "Photo not found",
+      code: "NOT_FOUND",
+    });
+  }
+  return { photos, harvestDetails };
+}
+
+export const updateHuntPhotoCaption = mutation({
+  args: {
+    huntId: v.id("hunts"),
+    storageId: v.id("_storage"),
+    caption: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const hunt = await getOwnHunt(ctx, args.huntId, user);
+    const caption = normalizeCaption(args.caption);
+    await ctx.db.patch(args.huntId, {
+      ...mapHuntPhoto(hunt, args.storageId, (photo) => ({
+        ...photo,
+        caption,
+      })),
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const deleteHuntPhoto = mutation({
+  args: {
+    huntId: v.id("hunts"),
+    storageId: v.id("_storage"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const hunt = await getOwnHunt(ctx, args.huntId, user);
+    await ctx.db.patch(args.huntId, {
+      ...mapHuntPhoto(hunt, args.storageId, () => null),
+      updatedAt: Date.now(),
+    });
+    await deleteUploadedPhotos(
+      ctx,
+      user._id,
+      getAllPhotos(hunt).filter((photo) => photo.storageId === args.storageId),
+    );
+  },
+});
+
+// Every photo across the user's hunts, newest first, with where it came
+// from: the hunt itself, or one of its harvest entries
+export const getHarvestGallery = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const hunts = await ctx.db
+      .query("hunts")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const items = hunts.flatMap((hunt) => [
+      ...(hunt.photos ?? []).map((photo) => ({
+        ...photo,
+        huntId: hunt._id,
+        huntTitle: hunt.title,
+        huntDate: hunt.date,
+        harvestIndex: undefined as number | undefined,
+        harvestSpecies: undefined as string | undefined,
+      })),
+      ...(hunt.harvestDetails ?? []).flatMap((entry, harvestIndex) =>
+        (entry.photos ?? []).map((photo) => ({
+          ...photo,
+          huntId: hunt._id,
+          huntTitle: hunt.title,
+          huntDate: hunt.date,
+          harvestIndex: harvestIndex as number | undefined,
+          harvestSpecies: entry.species as string | undefined,
+        })),
+      ),
+    ]);
+    items.sort((a, b) => b.uploadedAt - a.uploadedAt);
+
+    return await Promise.all(
+      items.map(async (item) => ({
+        ...item,
+        url: await ctx.storage.getUrl(item.storageId),
+      })),
+    );
+  },
+});
+
 // Delete a hunt
 export const deleteHunt = mutation({
   args: {
@@ -300,6 +1431,125 @@ export const deleteHunt = mutation({
       });
     }
 
+    // Deleting the hunt settles its check-in, so an overdue alert for it
+    // doesn't stay open with nothing left to check in to
+    await settleCheckIn(ctx, hunt, user);
     await ctx.db.delete(args.huntId);
+    await deleteUploadedPhotos(ctx, user._id, getAllPhotos(hunt));
+  },
+});
+
+// Best guess at where an overdue hunter is: their shared location if it is
+// recent, otherwise where the hunt was started
+async function getLastKnownPosition(ctx: MutationCtx, hunt: Doc<"hunts">) {
+  const share = await ctx.db
+    .query("locationShares")
+    .withIndex("by_user", (q) => q.eq("userId", hunt.userId))
+    .first();
+
+  if (
+    share &&
+    share.lastUpdated >= hunt.startTime &&
+    share.lastUpdated > Date.now() - MAX_SHARED_LOCATION_AGE_MS
+  ) {
+    return {
+      lat: share.lat,
+      lng: share.lng,
+      accuracy: share.accuracy,
+      locationUpdatedAt: share.lastUpdated,
+    };
+  }
+  return { lat: hunt.lat, lng: hunt.lng, locationUpdatedAt: hunt.startTime };
+}
+
+// Upper bound per run; anything left over is picked up by the next run
+const CHECK_IN_BATCH_SIZE = 50;
+
+// Advance overdue check-in timers (run by the cron in crons.ts): a reminder
+// at the expected return time, then an overdue alert to contacts and friends
+// once the grace period is up. Each step moves nextCheckInActionAt in the
+// same transaction, so no step runs twice.
+export const processCheckIns = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    // Hunts without a timer sort before every number
+    const dueHunts = await ctx.db
+      .query("hunts")
+      .withIndex("by_next_check_in", (q) =>
+        q.gte("nextCheckInActionAt", 0).lte("nextCheckInActionAt", now),
+      )
+      .take(CHECK_IN_BATCH_SIZE);
+
+    let reminded = 0;
+    let escalated = 0;
+
+    for (const hunt of dueHunts) {
+      if (hunt.status !== "active" || !hunt.expectedReturnAt) {
+        await ctx.db.patch(hunt._id, { nextCheckInActionAt: undefined });
+        continue;
+      }
+
+      if (hunt.checkInStatus === "pending") {
+        await sendNotification(ctx, {
+          userId: hunt.userId,
+          kind: "check_in_reminder",
+          title: "Time to Check In",
+          message: `You planned to be back from ${hunt.locationName} by now. Check in or extend your time, or your emergency contacts will be alerted in ${CHECK_IN_GRACE_MS / 60000} minutes.`,
+          relatedId: hunt._id,
+        });
+        await ctx.db.patch(hunt._id, {
+          checkInStatus: "reminded",
+          nextCheckInActionAt: hunt.expectedReturnAt + CHECK_IN_GRACE_MS,
+        });
+        reminded++;
+        continue;
+      }
+
+      if (hunt.checkInStatus === "reminded") {
+        const user = await ctx.db.get(hunt.userId);
+        if (!user) {
+          await ctx.db.patch(hunt._id, { nextCheckInActionAt: undefined });
+          continue;
+        }
+
+        // An SOS already in progress covers this; don't raise a second
+        // alert, and don't tie the SOS to the hunt, so checking in later
+        // leaves it open
+        let overdueAlertId: Id<"emergencyAlerts"> | undefined;
+        if (!(await getActiveAlert(ctx, user._id))) {
+          const alert = await createEmergencyAlert(ctx, user, {
+            source: "overdue",
+            ...(await getLastKnownPosition(ctx, hunt)),
+            huntId: hunt._id,
+            huntLocation: {
+              name: hunt.locationName,
+              lat: hunt.lat,
+              lng: hunt.lng,
+            },
+          });
+          await ctx.scheduler.runAfter(
+            0,
+            internal.emergencyAlerts.sendAlertEmails,
+            { alertId: alert._id },
+          );
+          overdueAlertId = alert._id;
+        }
+
+        await ctx.db.patch(hunt._id, {
+          checkInStatus: "escalated",
+          nextCheckInActionAt: undefined,
+          overdueAlertId,
+        });
+        escalated++;
+        continue;
+      }
+
+      await ctx.db.patch(hunt._id, { nextCheckInActionAt: undefined });
+    }
+
+    console.log("[processCheckIns] Reminded:", reminded, "Escalated:", escalated);
+    return { reminded, escalated };
   },
 });
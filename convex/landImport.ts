@@ -0,0 +1,166 @@
+import { v, ConvexError } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel.d.ts";
+import { indexBoundaries } from "./_geoIndex";
+import {
+  LAND_IMPORT_FIELDS,
+  mapHuntingUnitFeature,
+  mapPropertyFeature,
+  resolveFieldMapping,
+} from "./_landImport";
+import { PERMISSIONS, requirePermission } from "./_permissions";
+
+// Features per call; the client splits large FeatureCollections into batches
+const MAX_FEATURES_PER_BATCH = 100;
+
+const kindValidator = v.union(v.literal("property"), v.literal("huntingUnit"));
+
+// Best-effort identifier for a feature in error reports
+function getFeatureId(feature: unknown, idField: string | undefined) {
+  if (!feature || typeof feature !== "object") return undefined;
+  const { id, properties } = feature as {
+    id?: unknown;
+    properties?: Record<string, unknown> | null;
+  };
+  const value = (idField && properties?.[idField]) ?? id;
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+// Schema fields for a dataset kind, with the source attribute each one
+// would be read from given the dataset's attribute names
+export const previewLandImport = query({
+  args: {
+    kind: kindValidator,
+    sourceKeys: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, PERMISSIONS.IMPORT_LAND_DATA);
+
+    const mapping = resolveFieldMapping(args.kind, args.sourceKeys);
+    return LAND_IMPORT_FIELDS[args.kind].map((spec) => ({
+      field: spec.field,
+      required: spec.required,
+      kind: spec.kind,
+      source: mapping[spec.field] ?? null,
+    }));
+  },
+});
+
+// Upsert a batch of GeoJSON features into properties (by parcelId) or
+// huntingUnits (by unitId). Invalid features are skipped and reported.
+export const importLandFeatures = mutation({
+  args: {
+    kind: kindValidator,
+    features: v.array(v.any()),
+    fieldMapping: v.optional(v.record(v.string(), v.string())),
+    defaults: v.optional(v.record(v.string(), v.string())),
+    // Position of the first feature in the source file, for error reporting
+    startIndex: v.optional(v.number()),
+    fileName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requirePermission(ctx, PERMISSIONS.IMPORT_LAND_DATA);
+
+    if (args.features.length > MAX_FEATURES_PER_BATCH) {
+      throw new ConvexError({
+        message: `Too many features in one batch (max ${MAX_FEATURES_PER_BATCH})`,
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const sourceKeys = new Set<string>();
+    for (const feature of args.features) {
+      if (feature && typeof feature.properties === "object" && feature.properties) {
+        Object.keys(feature.properties).forEach((key) => sourceKeys.add(key));
+      }
+    }
+    const mapping = resolveFieldMapping(
+      args.kind,
+      [...sourceKeys],
+      args.fieldMapping,
+    );
+    const defaults = args.defaults ?? {};
+    const idField = mapping[args.kind === "property" ? "parcelId" : "unitId"];
+    const startIndex = args.startIndex ?? 0;
+    const now = Date.now();
+
+    let created = 0;
+    let updated = 0;
+    const errors: { index: number; featureId?: string; message: string }[] = [];
+
+    for (const [offset, feature] of args.features.entries()) {
+      const index = startIndex + offset;
+
+      if (args.kind === "property") {
+        const result = mapPropertyFeature(feature, mapping, defaults);
+        if (!result.ok) {
+          errors.push({
+            index,
+            featureId: getFeatureId(feature, idField),
+            message: result.message,
+          });
+          continue;
+        }
+        const parcel = result.value;
+
+        const existing = await ctx.db
+          .query("properties")
+          .withIndex("by_parcel", (q) => q.eq("parcelId", parcel.parcelId))
+          .first();
+
+        let propertyId: Id<"properties">;
+        if (existing) {
+          await ctx.db.patch(existing._id, { ...parcel, lastUpdated: now });
+          propertyId = existing._id;
+          updated++;
+        } else {
+          // Imported from official county data, so treat as verified
+          propertyId = await ctx.db.insert("properties", {
+            ...parcel,
+            verified: true,
+            lastUpdated: now,
+          });
+          created++;
+        }
+        await indexBoundaries(ctx, "property", propertyId, parcel.boundaries);
+      } else {
+        const result = mapHuntingUnitFeature(feature, mapping, defaults);
+        if (!result.ok) {
+          errors.push({
+            index,
+            featureId: getFeatureId(feature, idField),
+            message: result.message,
+          });
+          continue;
+        }
+        const unit = result.value;
+
+        const existing = await ctx.db
+          .query("huntingUnits")
+          .withIndex("by_unit", (q) => q.eq("unitId", unit.unitId))
+          .first();
+
+        let unitId: Id<"huntingUnits">;
+        if (existing) {
+          await ctx.db.patch(existing._id, unit);
+          unitId = existing._id;
+          updated++;
+        } else {
+          unitId = await ctx.db.insert("huntingUnits", unit);
+          created++;
+        }
+        await indexBoundaries(ctx, "huntingUnit", unitId, unit.boundaries);
+      }
+    }
+
+    await ctx.db.insert("auditLogs", {
+      userId: user._id,
+      action: `Imported ${args.kind === "property" ? "parcels" : "hunting units"}: ${created} created, ${updated} updated, ${errors.length} failed`,
+      entityType: "land",
+      changes: `${args.fileName ?? "GeoJSON"} features ${startIndex}-${startIndex + args.features.length - 1}`,
+      timestamp: now,
+    });
+
+    return { created, updated, failed: errors.length, errors };
+  },
+});
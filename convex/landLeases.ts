@@ -2,6 +2,8 @@ import { ConvexError, v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 import type { Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { sendNotification } from "./_notifications";
+import { hasPermission, PERMISSIONS, requirePermission } from "./_permissions";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -522,6 +524,15 @@ export const respondToInquiry = mutation({
       status: args.status,
       respondedAt: Date.now(),
     });
+
+    const lease = await ctx.db.get(inquiry.leaseId);
+    await sendNotification(ctx, {
+      userId: inquiry.fromUserId,
+      kind: "lease_inquiry_reply",
+      title: "Lease Inquiry Answered",
+      message: `${user.name ?? "The landowner"} replied to your inquiry about "${lease?.title ?? "a lease"}": ${args.response}`,
+      relatedId: args.inquiryId,
+    });
   },
 });
 
@@ -695,16 +706,12 @@ export const addSampleLeases = mutation({
   },
 });
 
-// Check if current user has admin permission
+// Check if current user can review lease listings
 export const hasLandReviewPermission = query({
   args: {},
   handler: async (ctx) => {
     const user = await getCurrentUser(ctx);
-    if (!user) {
-      return false;
-    }
-
-    return user.isAdmin && user.adminPermissions?.includes("land_review");
+    return await hasPermission(ctx, user, PERMISSIONS.MODERATE_MARKETPLACE);
   },
 });
 
@@ -713,24 +720,9 @@ export const getPendingLeases = query({
   args: {},
   handler: async (ctx) => {
     console.log("[getPendingLeases] Starting query");
-    const user = await getCurrentUser(ctx);
-    if (!user) {
-      console.log("[getPendingLeases] User not found or not authenticated");
-      throw new ConvexError({
-        message: "User not logged in",
-        code: "UNAUTHENTICATED",
-      });
-    }
+    const user = await requirePermission(ctx, PERMISSIONS.MODERATE_MARKETPLACE);
     console.log("[getPendingLeases] User found:", user._id);
 
-    // Check if user has land review permission
-    if (!user.isAdmin || !user.adminPermissions?.includes("land_review")) {
-      throw new ConvexError({
-        message: "Not authorized to review land leases",
-        code: "FORBIDDEN",
-      });
-    }
-
     const leases = await ctx.db
       .query("landLeases")
       .withIndex("by_status", (q) => q.eq("status", "pending"))
@@ -761,24 +753,9 @@ export const reviewLease = mutation({
   },
   handler: async (ctx, args) => {
     console.log("[reviewLease] Starting lease review");
-    const user = await getCurrentUser(ctx);
-    if (!user) {
-      console.log("[reviewLease] User not found or not authenticated");
-      throw new ConvexError({
-        message: "User not logged in",
-        code: "UNAUTHENTICATED",
-      });
-    }
+    const user = await requirePermission(ctx, PERMISSIONS.MODERATE_MARKETPLACE);
     console.log("[reviewLease] User found:", user._id);
 
-    // Check if user has land review permission
-    if (!user.isAdmin || !user.adminPermissions?.includes("land_review")) {
-      throw new ConvexError({
-        message: "Not authorized to review land leases",
-        code: "FORBIDDEN",
-      });
-    }
-
     const lease = await ctx.db.get(args.leaseId);
     if (!lease) {
       throw new ConvexError({
@@ -805,28 +782,6 @@ export const reviewLease = mutation({
   },
 });
 
-// Grant admin permissions to user (for testing purposes)
-export const grantAdminPermission = mutation({
-  args: {},
-  handler: async (ctx) => {
-    console.log("[grantAdminPermission] Starting permission grant");
-    const user = await getCurrentUser(ctx);
-    if (!user) {
-      console.log("[grantAdminPermission] User not found or not authenticated");
-      throw new ConvexError({
-        message: "User not logged in",
-        code: "UNAUTHENTICATED",
-      });
-    }
-    console.log("[grantAdminPermission] User found:", user._id);
-
-    await ctx.db.patch(user._id, {
-      isAdmin: true,
-      adminPermissions: ["land_review"],
-    });
-  },
-});
-
 // Create a new property listing
 export const createListing = mutation({
   args: {
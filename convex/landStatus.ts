@@ -0,0 +1,103 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel.d.ts";
+import {
+  boundaryPolygons,
+  pointInBoundaries,
+  polygonBoundingBox,
+  type Boundaries,
+} from "./_geo";
+import { findInGeoIndex } from "./_geoIndex";
+
+// Candidates whose extent covers the point; polygons are checked exactly after
+const MAX_CANDIDATES = 50;
+
+// ~1m box around the point for the index lookup
+const POINT_PADDING_DEGREES = 0.00001;
+
+function boundingBoxArea(boundaries: Boundaries) {
+  const bbox = polygonBoundingBox(boundaryPolygons(boundaries));
+  return (bbox.maxLat - bbox.minLat) * (bbox.maxLng - bbox.minLng);
+}
+
+// Which parcel and hunting unit contain a location, if any
+export const getLandAtLocation = query({
+  args: {
+    lat: v.number(),
+    lng: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const bbox = {
+      minLat: args.lat - POINT_PADDING_DEGREES,
+      maxLat: args.lat + POINT_PADDING_DEGREES,
+      minLng: args.lng - POINT_PADDING_DEGREES,
+      maxLng: args.lng + POINT_PADDING_DEGREES,
+    };
+
+    const propertyIds = await findInGeoIndex(
+      ctx,
+      "property",
+      bbox,
+      MAX_CANDIDATES,
+    );
+    const unitIds = await findInGeoIndex(
+      ctx,
+      "huntingUnit",
+      bbox,
+      MAX_CANDIDATES,
+    );
+
+    const properties = [];
+    for (const id of propertyIds) {
+      const property = await ctx.db.get(id as Id<"properties">);
+      if (property && pointInBoundaries(args.lat, args.lng, property.boundaries)) {
+        properties.push(property);
+      }
+    }
+
+    const units = [];
+    for (const id of unitIds) {
+      const unit = await ctx.db.get(id as Id<"huntingUnits">);
+      if (unit && pointInBoundaries(args.lat, args.lng, unit.boundaries)) {
+        units.push(unit);
+      }
+    }
+
+    // Where shapes overlap, the smallest one is the most specific answer
+    properties.sort(
+      (a, b) => boundingBoxArea(a.boundaries) - boundingBoxArea(b.boundaries),
+    );
+    units.sort(
+      (a, b) => boundingBoxArea(a.boundaries) - boundingBoxArea(b.boundaries),
+    );
+
+    const property = properties[0];
+    const unit = units[0];
+
+    return {
+      property: property
+        ? {
+            _id: property._id,
+            parcelId: property.parcelId,
+            ownerName: property.ownerName,
+            propertyType: property.propertyType,
+            acreage: property.acreage,
+            county: property.county,
+            state: property.state,
+          }
+        : null,
+      huntingUnit: unit
+        ? {
+            _id: unit._id,
+            unitId: unit.unitId,
+            name: unit.name,
+            type: unit.type,
+            allowsHunting: unit.allowsHunting,
+            permitRequired: unit.permitRequired,
+            seasonDates: unit.seasonDates,
+            regulations: unit.regulations,
+          }
+        : null,
+    };
+  },
+});
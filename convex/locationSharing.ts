@@ -1,7 +1,15 @@
 import { ConvexError, v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-import type { Id } from "./_generated/dataModel.d.ts";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { getBlockedUserIds } from "./_blocks";
+import {
+  getGroupMemberIds,
+  getGroupsForSharing,
+  getUserGroups,
+  isInGroup,
+} from "./_friendGroups";
+import { areFriends } from "./_mapItemShares";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -104,8 +112,9 @@ export const updateMyLocation = mutation({
 export const toggleLocationSharing = mutation({
   args: {
     isActive: v.boolean(),
-    shareWith: v.optional(v.string()), // "all_friends", "selected_friends", "none"
+    shareWith: v.optional(v.string()), // "all_friends", "selected_friends", "groups", "none"
     selectedFriends: v.optional(v.array(v.id("users"))),
+    selectedGroups: v.optional(v.array(v.id("friendGroups"))),
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUser(ctx);
@@ -132,6 +141,7 @@ export const toggleLocationSharing = mutation({
       isActive: boolean;
       shareWith?: string;
       selectedFriends?: Id<"users">[];
+      selectedGroups?: Id<"friendGroups">[];
       lastUpdated: number;
     } = {
       isActive: args.isActive,
@@ -146,6 +156,15 @@ export const toggleLocationSharing = mutation({
       updateData.selectedFriends = args.selectedFriends;
     }
 
+    if (args.selectedGroups !== undefined) {
+      const groups = await getGroupsForSharing(
+        ctx,
+        args.selectedGroups,
+        user._id,
+      );
+      updateData.selectedGroups = groups.map((group) => group._id);
+    }
+
     await ctx.db.patch(existingShare._id, updateData);
 
     return { success: true };
@@ -181,12 +200,70 @@ export const getMyLocationStatus = query({
       isActive: locationShare.isActive,
       shareWith: locationShare.shareWith,
       selectedFriends: locationShare.selectedFriends,
+      selectedGroups: locationShare.selectedGroups,
       hasLocation: true,
       lastUpdated: locationShare.lastUpdated,
     };
   },
 });
 
+// Whether a share is currently visible to the viewer. Friend targets need
+// an existing friendship; group targets need both people still in the group.
+async function isShareVisibleTo(
+  ctx: QueryCtx,
+  locationShare: Doc<"locationShares">,
+  viewerId: Id<"users">,
+  isFriend: boolean,
+) {
+  if (!locationShare.isActive) return false;
+
+  // Past its expiry but not yet switched off by the cron
+  if (locationShare.expiresAt && locationShare.expiresAt <= Date.now()) {
+    return false;
+  }
+
+  switch (locationShare.shareWith) {
+    case "all_friends":
+      return isFriend;
+    case "selected_friends":
+      return (
+        isFriend && (locationShare.selectedFriends ?? []).includes(viewerId)
+      );
+    case "groups":
+      for (const groupId of locationShare.selectedGroups ?? []) {
+        const group = await ctx.db.get(groupId);
+        if (
+          group &&
+          (await isInGroup(ctx, group, viewerId)) &&
+          (await isInGroup(ctx, group, locationShare.userId))
+        ) {
+          return true;
+        }
+      }
+      return false;
+    default:
+      return false;
+  }
+}
+
+function toFriendLocation(
+  friend: Doc<"users">,
+  locationShare: Doc<"locationShares">,
+) {
+  return {
+    userId: friend._id,
+    name: friend.name || "Unknown",
+    email: friend.email,
+    lat: locationShare.lat,
+    lng: locationShare.lng,
+    accuracy: locationShare.accuracy,
+    heading: locationShare.heading,
+    speed: locationShare.speed,
+    altitude: locationShare.altitude,
+    lastUpdated: locationShare.lastUpdated,
+  };
+}
+
 // Get friends' locations (only those sharing with me)
 export const getFriendsLocations = query({
   args: {},
@@ -226,38 +303,157 @@ export const getFriendsLocations = query({
           .withIndex("by_user", (q) => q.eq("userId", friendId))
           .first();
 
-        if (!locationShare || !locationShare.isActive) {
+        if (
+          !locationShare ||
+          !(await isShareVisibleTo(ctx, locationShare, user._id, true))
+        ) {
           return null;
         }
 
-        // Check sharing permissions
-        if (locationShare.shareWith === "none") {
-          return null;
-        }
+        // They're sharing with all friends, or we're in their selected
+        // friends or one of their selected groups
+        return toFriendLocation(friend, locationShare);
+      }),
+    );
 
-        if (locationShare.shareWith === "selected_friends") {
-          const selectedFriends = locationShare.selectedFriends || [];
-          if (!selectedFriends.includes(user._id)) {
-            return null;
-          }
-        }
+    return friendsWithLocations.filter((f) => f !== null);
+  },
+});
+
+// Locations of a group's members that are visible to me, for the group map
+export const getGroupLocations = query({
+  args: {
+    groupId: v.id("friendGroups"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not found. Please ensure your account has been created.",
+        code: "NOT_FOUND",
+      });
+    }
+
+    const group = await ctx.db.get(args.groupId);
+    if (!group || !(await isInGroup(ctx, group, user._id))) {
+      throw new ConvexError({
+        message: "Group not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    const blockedIds = await getBlockedUserIds(ctx, user._id);
+    const memberIds = (await getGroupMemberIds(ctx, group)).filter(
+      (id) => id !== user._id && !blockedIds.has(id),
+    );
 
-        // They're sharing with all friends or we're in their selected list
-        return {
-          userId: friendId,
-          name: friend.name || "Unknown",
-          email: friend.email,
-          lat: locationShare.lat,
-          lng: locationShare.lng,
-          accuracy: locationShare.accuracy,
-          heading: locationShare.heading,
-          speed: locationShare.speed,
-          altitude: locationShare.altitude,
-          lastUpdated: locationShare.lastUpdated,
-        };
+    const locations = await Promise.all(
+      memberIds.map(async (memberId) => {
+        const member = await ctx.db.get(memberId);
+        if (!member) return null;
+
+        const locationShare = await ctx.db
+          .query("locationShares")
+          .withIndex("by_user", (q) => q.eq("userId", memberId))
+          .first();
+        if (!locationShare) return null;
+
+        const isFriend = await areFriends(ctx, user._id, memberId);
+        return (await isShareVisibleTo(ctx, locationShare, user._id, isFriend))
+          ? toFriendLocation(member, locationShare)
+          : null;
       }),
     );
 
-    return friendsWithLocations.filter((f) => f !== null);
+    return locations.filter((location) => location !== null);
+  },
+});
+
+// Everyone whose location I can see, friends and fellow group members, for
+// the main map's friends layer
+export const getMapLocations = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const [friendships1, friendships2, groups, blockedIds] = await Promise.all([
+      ctx.db
+        .query("friendships")
+        .withIndex("by_user1", (q) => q.eq("user1Id", user._id))
+        .collect(),
+      ctx.db
+        .query("friendships")
+        .withIndex("by_user2", (q) => q.eq("user2Id", user._id))
+        .collect(),
+      getUserGroups(ctx, user._id),
+      getBlockedUserIds(ctx, user._id),
+    ]);
+    const friendIds = new Set<Id<"users">>([
+      ...friendships1.map((f) => f.user2Id),
+      ...friendships2.map((f) => f.user1Id),
+    ]);
+    const userIds = new Set(friendIds);
+    for (const group of groups) {
+      for (const memberId of await getGroupMemberIds(ctx, group)) {
+        userIds.add(memberId);
+      }
+    }
+    userIds.delete(user._id);
+
+    const locations = await Promise.all(
+      [...userIds]
+        .filter((id) => !blockedIds.has(id))
+        .map(async (userId) => {
+          const other = await ctx.db.get(userId);
+          if (!other) return null;
+
+          const locationShare = await ctx.db
+            .query("locationShares")
+            .withIndex("by_user", (q) => q.eq("userId", userId))
+            .first();
+          if (!locationShare) return null;
+
+          return (await isShareVisibleTo(
+            ctx,
+            locationShare,
+            user._id,
+            friendIds.has(userId),
+          ))
+            ? toFriendLocation(other, locationShare)
+            : null;
+        }),
+    );
+
+    return locations.filter((location) => location !== null);
+  },
+});
+
+// Stop sharing locations whose expiresAt has passed (run by the cron in crons.ts)
+export const expireLocationShares = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    // Shares without an expiry sort before every number
+    const expiredShares = await ctx.db
+      .query("locationShares")
+      .withIndex("by_expires", (q) =>
+        q.gte("expiresAt", 0).lte("expiresAt", now),
+      )
+      .collect();
+
+    for (const share of expiredShares) {
+      await ctx.db.patch(share._id, {
+        isActive: false,
+        expiresAt: undefined,
+        lastUpdated: now,
+      });
+    }
+
+    console.log("[expireLocationShares] Shares expired:", expiredShares.length);
+    return { expired: expiredShares.length };
   },
 });
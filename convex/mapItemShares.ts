@@ -0,0 +1,466 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { getBlockedUserIds, isBlockedEitherWay } from "./_blocks";
+import {
+  getGroupMemberIds,
+  getGroupsForSharing,
+  getUserGroups,
+  isInGroup,
+} from "./_friendGroups";
+import {
+  areFriends,
+  generateLinkToken,
+  getSharedPermission,
+  mapItemIdValidator,
+  sharePermissionValidator,
+  type MapItemId,
+  type SharePermission,
+} from "./_mapItemShares";
+
+// Helper function to get current user with fallback lookup
+async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  // Look up by email first (preferred method)
+  if (identity.email) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", identity.email!))
+      .unique();
+
+    if (user) {
+      return user;
+    }
+  }
+
+  // Fall back to subject-based lookup if email lookup failed
+  if (identity.subject) {
+    const parts = identity.subject.split("|");
+    if (parts.length > 0) {
+      try {
+        const userId = parts[0] as Id<"users">;
+        const user = await ctx.db.get(userId);
+        if (user) {
+          return user;
+        }
+      } catch (error) {
+        // Subject is not a valid Convex ID, continue
+        console.log("[getCurrentUser] Subject is not a valid Convex ID", {
+          subject: identity.subject,
+        });
+      }
+    }
+  }
+
+  return null;
+}
+
+async function requireUser(ctx: QueryCtx | MutationCtx) {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new ConvexError({
+      message: "User not found. Please ensure your account has been created.",
+      code: "NOT_FOUND",
+    });
+  }
+  return user;
+}
+
+async function getFriendIds(
+  ctx: QueryCtx | MutationCtx,
+  userId: Id<"users">,
+): Promise<Id<"users">[]> {
+  const friendships1 = await ctx.db
+    .query("friendships")
+    .withIndex("by_user1", (q) => q.eq("user1Id", userId))
+    .collect();
+  const friendships2 = await ctx.db
+    .query("friendships")
+    .withIndex("by_user2", (q) => q.eq("user2Id", userId))
+    .collect();
+  return [
+    ...friendships1.map((f) => f.user2Id),
+    ...friendships2.map((f) => f.user1Id),
+  ];
+}
+
+async function getOwnedItem(
+  ctx: QueryCtx | MutationCtx,
+  itemId: MapItemId,
+  userId: Id<"users">,
+): Promise<
+  | { itemType: "track"; item: Doc<"tracks"> }
+  | { itemType: "waypoint"; item: Doc<"waypoints"> }
+> {
+  const trackId = ctx.db.normalizeId("tracks", itemId);
+  if (trackId) {
+    const track = await ctx.db.get(trackId);
+    if (track?.userId === userId) return { itemType: "track", item: track };
+  } else {
+    const waypointId = ctx.db.normalizeId("waypoints", itemId);
+    const waypoint = waypointId ? await ctx.db.get(waypointId) : null;
+    if (waypoint?.userId === userId) {
+      return { itemType: "waypoint", item: waypoint };
+    }
+  }
+
+  throw new ConvexError({
+    message: "Item not found",
+    code: "NOT_FOUND",
+  });
+}
+
+// Who one of the user's tracks or waypoints is shared with
+export const getItemShares = query({
+  args: {
+    itemId: mapItemIdValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await getOwnedItem(ctx, args.itemId, user._id);
+
+    const shares = await ctx.db
+      .query("mapItemShares")
+      .withIndex("by_item", (q) => q.eq("itemId", args.itemId))
+      .collect();
+
+    const groupIds: Id<"friendGroups">[] = [];
+    const userIds: Id<"users">[] = [];
+    let allFriends = false;
+    let linkToken: string | undefined;
+    let permission: SharePermission = "read";
+    for (const share of shares) {
+      if (share.groupId) groupIds.push(share.groupId);
+      if (share.userId) userIds.push(share.userId);
+      if (share.allFriends) allFriends = true;
+      if (share.linkToken) linkToken = share.linkToken;
+      if (!share.linkToken && share.permission === "edit") permission = "edit";
+    }
+
+    return { groupIds, userIds, allFriends, permission, linkToken };
+  },
+});
+
+// Set who one of the user's tracks or waypoints is shared with, and
+// whether they can edit it. Anyone left out loses access right away.
+// The share link is managed separately.
+export const setItemShares = mutation({
+  args: {
+    itemId: mapItemIdValidator,
+    groupIds: v.array(v.id("friendGroups")),
+    userIds: v.array(v.id("users")),
+    allFriends: v.boolean(),
+    permission: sharePermissionValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const { itemType } = await getOwnedItem(ctx, args.itemId, user._id);
+    const groups = await getGroupsForSharing(ctx, args.groupIds, user._id);
+
+    const userIds = [...new Set(args.userIds)];
+    for (const userId of userIds) {
+      if (
+        userId === user._id ||
+        !(await areFriends(ctx, user._id, userId)) ||
+        (await isBlockedEitherWay(ctx, user._id, userId))
+      ) {
+        throw new ConvexError({
+          message: "You can only share with your friends",
+          code: "BAD_REQUEST",
+        });
+      }
+    }
+
+    const shares = await ctx.db
+      .query("mapItemShares")
+      .withIndex("by_item", (q) => q.eq("itemId", args.itemId))
+      .collect();
+    for (const share of shares) {
+      if (!share.linkToken) {
+        await ctx.db.delete(share._id);
+      }
+    }
+
+    const base = {
+      ownerId: user._id,
+      itemType,
+      itemId: args.itemId,
+      permission: args.permission,
+      createdAt: Date.now(),
+    };
+    for (const group of groups) {
+      await ctx.db.insert("mapItemShares", { ...base, groupId: group._id });
+    }
+    for (const userId of userIds) {
+      await ctx.db.insert("mapItemShares", { ...base, userId });
+    }
+    if (args.allFriends) {
+      await ctx.db.insert("mapItemShares", { ...base, allFriends: true });
+    }
+
+    return { success: true };
+  },
+});
+
+// Create a read-only link to one of the user's tracks or waypoints, or
+// return the existing one
+export const createShareLink = mutation({
+  args: {
+    itemId: mapItemIdValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const { itemType } = await getOwnedItem(ctx, args.itemId, user._id);
+
+    const shares = await ctx.db
+      .query("mapItemShares")
+      .withIndex("by_item", (q) => q.eq("itemId", args.itemId))
+      .collect();
+    const existing = shares.find((share) => share.linkToken);
+    if (existing?.linkToken) {
+      return existing.linkToken;
+    }
+
+    const linkToken = generateLinkToken();
+    await ctx.db.insert("mapItemShares", {
+      ownerId: user._id,
+      itemType,
+      itemId: args.itemId,
+      linkToken,
+      permission: "read",
+      createdAt: Date.now(),
+    });
+    return linkToken;
+  },
+});
+
+// Turn off the share link so it stops working
+export const revokeShareLink = mutation({
+  args: {
+    itemId: mapItemIdValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await getOwnedItem(ctx, args.itemId, user._id);
+
+    const shares = await ctx.db
+      .query("mapItemShares")
+      .withIndex("by_item", (q) => q.eq("itemId", args.itemId))
+      .collect();
+    for (const share of shares) {
+      if (share.linkToken) {
+        await ctx.db.delete(share._id);
+      }
+    }
+
+    return { success: true };
+  },
+});
+
+// Tracks and waypoints other members have shared with the user, for the
+// map layers
+export const getSharedWithMe = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return { waypoints: [], tracks: [] };
+    }
+
+    // Every share that could reach the user; access is checked per item
+    const candidates: Doc<"mapItemShares">[] = await ctx.db
+      .query("mapItemShares")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    for (const group of await getUserGroups(ctx, user._id)) {
+      candidates.push(
+        ...(await ctx.db
+          .query("mapItemShares")
+          .withIndex("by_group", (q) => q.eq("groupId", group._id))
+          .collect()),
+      );
+    }
+    for (const friendId of await getFriendIds(ctx, user._id)) {
+      candidates.push(
+        ...(await ctx.db
+          .query("mapItemShares")
+          .withIndex("by_owner_all_friends", (q) =>
+            q.eq("ownerId", friendId).eq("allFriends", true),
+          )
+          .collect()),
+      );
+    }
+
+    const ownerNames = new Map<Id<"users">, string>();
+    const seen = new Set<string>();
+    const waypoints = [];
+    const tracks = [];
+    for (const share of candidates) {
+      if (share.ownerId === user._id || seen.has(share.itemId)) continue;
+      seen.add(share.itemId);
+
+      const permission = await getSharedPermission(
+        ctx,
+        share.itemId,
+        share.ownerId,
+        user._id,
+      );
+      if (!permission) continue;
+
+      if (!ownerNames.has(share.ownerId)) {
+        const owner = await ctx.db.get(share.ownerId);
+        ownerNames.set(share.ownerId, owner?.name || "Unknown");
+      }
+      const ownerName = ownerNames.get(share.ownerId)!;
+
+      const waypointId = ctx.db.normalizeId("waypoints", share.itemId);
+      if (waypointId) {
+        const waypoint = await ctx.db.get(waypointId);
+        if (waypoint) waypoints.push({ ...waypoint, ownerName, permission });
+        continue;
+      }
+      const trackId = ctx.db.normalizeId("tracks", share.itemId);
+      const track = trackId ? await ctx.db.get(trackId) : null;
+      if (track && !track.isActive) {
+        tracks.push({
+          _id: track._id,
+          name: track.name,
+          description: track.description,
+          distance: track.distance,
+          duration: track.duration,
+          startTime: track.startTime,
+          ownerName,
+          permission,
+        });
+      }
+    }
+
+    return { waypoints, tracks };
+  },
+});
+
+// A track or waypoint opened from a share link. Public: the link itself is
+// the key, and it stops working as soon as the owner revokes it.
+export const getSharedItemByToken = query({
+  args: { linkToken: v.string() },
+  handler: async (ctx, args) => {
+    const share = await ctx.db
+      .query("mapItemShares")
+      .withIndex("by_link_token", (q) => q.eq("linkToken", args.linkToken))
+      .unique();
+    if (!share) {
+      return null;
+    }
+
+    const owner = await ctx.db.get(share.ownerId);
+    const ownerName = owner?.name ?? "Member";
+
+    const waypointId = ctx.db.normalizeId("waypoints", share.itemId);
+    if (waypointId) {
+      const waypoint = await ctx.db.get(waypointId);
+      return waypoint
+        ? {
+            itemType: "waypoint" as const,
+            ownerName,
+            waypoint: {
+              name: waypoint.name,
+              description: waypoint.description,
+              type: waypoint.type,
+              color: waypoint.color,
+              lat: waypoint.lat,
+              lng: waypoint.lng,
+              altitude: waypoint.altitude,
+              createdAt: waypoint.createdAt,
+            },
+          }
+        : null;
+    }
+
+    const trackId = ctx.db.normalizeId("tracks", share.itemId);
+    const track = trackId ? await ctx.db.get(trackId) : null;
+    return track
+      ? {
+          itemType: "track" as const,
+          ownerName,
+          track: {
+            _id: track._id,
+            name: track.name,
+            description: track.description,
+            distance: track.distance,
+            duration: track.duration,
+            elevationGain: track.elevationGain,
+            startTime: track.startTime,
+          },
+        }
+      : null;
+  },
+});
+
+// Tracks and waypoints shared with a group, for the group map
+export const getGroupSharedItems = query({
+  args: {
+    groupId: v.id("friendGroups"),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const group = await ctx.db.get(args.groupId);
+    if (!group || !(await isInGroup(ctx, group, user._id))) {
+      throw new ConvexError({
+        message: "Group not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    // Shares from anyone no longer in the group, or blocked, are hidden
+    const blockedIds = await getBlockedUserIds(ctx, user._id);
+    const memberIds = new Set(await getGroupMemberIds(ctx, group));
+    const shares = (
+      await ctx.db
+        .query("mapItemShares")
+        .withIndex("by_group", (q) => q.eq("groupId", group._id))
+        .collect()
+    ).filter(
+      (share) => !blockedIds.has(share.ownerId) && memberIds.has(share.ownerId),
+    );
+
+    const ownerNames = new Map<Id<"users">, string>();
+    const getOwnerName = async (ownerId: Id<"users">) => {
+      if (!ownerNames.has(ownerId)) {
+        const owner = await ctx.db.get(ownerId);
+        ownerNames.set(ownerId, owner?.name || "Unknown");
+      }
+      return ownerNames.get(ownerId)!;
+    };
+
+    const waypoints = [];
+    const tracks = [];
+    for (const share of shares) {
+      const ownerName = await getOwnerName(share.ownerId);
+      const waypointId = ctx.db.normalizeId("waypoints", share.itemId);
+      if (waypointId) {
+        const waypoint = await ctx.db.get(waypointId);
+        if (waypoint) waypoints.push({ ...waypoint, ownerName });
+        continue;
+      }
+      const trackId = ctx.db.normalizeId("tracks", share.itemId);
+      const track = trackId ? await ctx.db.get(trackId) : null;
+      if (track) {
+        tracks.push({
+          _id: track._id,
+          name: track.name,
+          distance: track.distance,
+          startTime: track.startTime,
+          ownerName,
+        });
+      }
+    }
+
+    return { waypoints, tracks };
+  },
+});
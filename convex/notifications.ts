@@ -0,0 +1,503 @@
+import { ConvexError, v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import {
+  internalAction,
+  internalMutation,
+  mutation,
+  query,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { render } from "@react-email/render";
+import { appUrl, getEmailProvider } from "./_email";
+import {
+  computeNextDigestAt,
+  getPreferences as loadPreferences,
+  notificationUrl,
+  resolveChannels,
+} from "./_notifications";
+import {
+  NOTIFICATION_KIND_LIST,
+  getKindInfo,
+  isNotificationKind,
+  notificationKindValidator,
+} from "./_notificationKinds";
+import { NotificationEmail } from "./emails/NotificationEmail";
+import { MAX_RECOVERY_ALERT_RADIUS_MILES } from "./_recoveryAlerts";
+import { pointGeohash } from "./_geoPoints";
+
+// Cap on unread notifications counted for the bell badge
+const MAX_UNREAD_COUNT = 100;
+const MARK_ALL_READ_BATCH_SIZE = 500;
+const DIGEST_BATCH_SIZE = 50;
+const MAX_DIGEST_ITEMS = 50;
+const MAX_UTC_OFFSET_MINUTES = 14 * 60;
+
+// Helper function to get current user with fallback lookup
+async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  // Look up by email first (preferred method)
+  if (identity.email) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", identity.email!))
+      .unique();
+
+    if (user) {
+      return user;
+    }
+  }
+
+  // Fall back to subject-based lookup if email lookup failed
+  if (identity.subject) {
+    const parts = identity.subject.split("|");
+    if (parts.length > 0) {
+      try {
+        const userId = parts[0] as Id<"users">;
+        const user = await ctx.db.get(userId);
+        if (user) {
+          return user;
+        }
+      } catch (error) {
+        // Subject is not a valid Convex ID, continue
+        console.log("[getCurrentUser] Subject is not a valid Convex ID", {
+          subject: identity.subject,
+        });
+      }
+    }
+  }
+
+  return null;
+}
+
+async function requireUser(ctx: QueryCtx | MutationCtx) {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new ConvexError({
+      message: "User not logged in",
+      code: "UNAUTHENTICATED",
+    });
+  }
+  return user;
+}
+
+async function getOwnNotification(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  notificationId: Id<"notifications">,
+) {
+  const notification = await ctx.db.get(notificationId);
+  if (!notification || notification.userId !== user._id) {
+    throw new ConvexError({
+      message: "Notification not found",
+      code: "NOT_FOUND",
+    });
+  }
+  return notification;
+}
+
+// Newest first, one page at a time
+export const list = query({
+  args: { paginationOpts: paginationOptsValidator },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    return await ctx.db
+      .query("notifications")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+export const getUnreadCount = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return 0;
+    }
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", (q) =>
+        q.eq("userId", user._id).eq("isRead", false),
+      )
+      .take(MAX_UNREAD_COUNT);
+    return unread.length;
+  },
+});
+
+export const markRead = mutation({
+  args: { notificationId: v.id("notifications") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const notification = await getOwnNotification(
+      ctx,
+      user,
+      args.notificationId,
+    );
+
+    if (!notification.isRead) {
+      await ctx.db.patch(notification._id, { isRead: true });
+    }
+    return { success: true };
+  },
+});
+
+// Marks up to one batch; hasMore tells the client to call again
+export const markAllRead = mutation({
+  args: {},
+  handler: async (ctx) => {
+    console.log("[markAllRead] Starting");
+    const user = await requireUser(ctx);
+
+    const unread = await ctx.db
+      .query("notifications")
+      .withIndex("by_user_read", (q) =>
+        q.eq("userId", user._id).eq("isRead", false),
+      )
+      .take(MARK_ALL_READ_BATCH_SIZE);
+    for (const notification of unread) {
+      await ctx.db.patch(notification._id, { isRead: true });
+    }
+
+    console.log("[markAllRead] Marked read:", unread.length);
+    return {
+      marked: unread.length,
+      hasMore: unread.length === MARK_ALL_READ_BATCH_SIZE,
+    };
+  },
+});
+
+export const remove = mutation({
+  args: { notificationId: v.id("notifications") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const notification = await getOwnNotification(
+      ctx,
+      user,
+      args.notificationId,
+    );
+
+    await ctx.db.delete(notification._id);
+    return { success: true };
+  },
+});
+
+// Every kind with the user's effective channels, for the settings screen
+export const getPreferences = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    const preferences = await loadPreferences(ctx, user._id);
+    return {
+      kinds: NOTIFICATION_KIND_LIST.map((kind) => {
+        const info = getKindInfo(kind);
+        return {
+          kind,
+          category: info.category,
+          label: info.label,
+          description: info.description,
+          urgent: info.urgent ?? false,
+          channels: resolveChannels(kind, preferences),
+        };
+      }),
+      quietHours: preferences?.quietHours ?? null,
+      digest: preferences?.digest ?? "off",
+      recoveryAlertRadiusMiles: preferences?.recoveryAlertRadiusMiles ?? null,
+      lastLocationAt: preferences?.lastLocation?.updatedAt ?? null,
+    };
+  },
+});
+
+export const updatePreferences = mutation({
+  args: {
+    channels: v.optional(
+      v.array(
+        v.object({
+          kind: notificationKindValidator,
+          inApp: v.boolean(),
+          email: v.boolean(),
+          push: v.boolean(),
+        }),
+      ),
+    ),
+    quietHours: v.optional(
+      v.union(
+        v.null(),
+        v.object({ startMinute: v.number(), endMinute: v.number() }),
+      ),
+    ),
+    digest: v.optional(
+      v.union(v.literal("off"), v.literal("hourly"), v.literal("daily")),
+    ),
+    recoveryAlertRadiusMiles: v.optional(v.union(v.null(), v.number())),
+    utcOffsetMinutes: v.number(),
+  },
+  handler: async (ctx, args) => {
+    console.log("[updatePreferences] Starting");
+    const user = await requireUser(ctx);
+
+    if (args.quietHours) {
+      for (const minute of [
+        args.quietHours.startMinute,
+        args.quietHours.endMinute,
+      ]) {
+        if (!Number.isInteger(minute) || minute < 0 || minute >= 24 * 60) {
+          throw new ConvexError({
+            message: "Quiet hours must be times of day",
+            code: "BAD_REQUEST",
+          });
+        }
+      }
+    }
+    if (
+      !Number.isInteger(args.utcOffsetMinutes) ||
+      Math.abs(args.utcOffsetMinutes) > MAX_UTC_OFFSET_MINUTES
+    ) {
+      throw new ConvexError({
+        message: "Invalid time zone offset",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const radius = args.recoveryAlertRadiusMiles;
+    if (
+      radius !== undefined &&
+      radius !== null &&
+      (radius <= 0 || radius > MAX_RECOVERY_ALERT_RADIUS_MILES)
+    ) {
+      throw new ConvexError({
+        message: `Alert radius must be between 1 and ${MAX_RECOVERY_ALERT_RADIUS_MILES} miles`,
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const existing = await loadPreferences(ctx, user._id);
+
+    // Only keep overrides that differ from the catalog default
+    const overrides = new Map(
+      (existing?.channels ?? [])
+        .filter((override) => isNotificationKind(override.kind))
+        .map((override) => [override.kind, override]),
+    );
+    for (const { kind, ...channels } of args.channels ?? []) {
+      const defaults = getKindInfo(kind).defaultChannels;
+      if (
+        channels.inApp === defaults.inApp &&
+        channels.email === defaults.email &&
+        channels.push === defaults.push
+      ) {
+        overrides.delete(kind);
+      } else {
+        overrides.set(kind, { kind, ...channels });
+      }
+    }
+
+    const now = Date.now();
+    const updated = {
+      userId: user._id,
+      channels: [...overrides.values()],
+      quietHours:
+        args.quietHours === undefined
+          ? existing?.quietHours
+          : (args.quietHours ?? undefined),
+      utcOffsetMinutes: args.utcOffsetMinutes,
+      digest: args.digest ?? existing?.digest ?? "off",
+      nextDigestAt: existing?.nextDigestAt,
+      recoveryAlertRadiusMiles:
+        radius === undefined
+          ? existing?.recoveryAlertRadiusMiles
+          : (radius ?? undefined),
+      // Turning alerts off forgets the location too
+      lastLocation: radius === null ? undefined : existing?.lastLocation,
+      lastLocationGeohash:
+        radius === null ? undefined : existing?.lastLocationGeohash,
+      updatedAt: now,
+    };
+
+    if (existing) {
+      // Held emails follow the new schedule
+      if (existing.nextDigestAt !== undefined) {
+        updated.nextDigestAt = computeNextDigestAt(
+          { ...existing, ...updated },
+          now,
+        );
+      }
+      await ctx.db.replace(existing._id, updated);
+    } else {
+      await ctx.db.insert("notificationPreferences", updated);
+    }
+
+    console.log("[updatePreferences] Saved for user:", user._id);
+    return { success: true };
+  },
+});
+
+// Where the member was last seen, for nearby recovery request alerts. Only
+// kept for members who chose an alert radius.
+export const updateLastLocation = mutation({
+  args: { lat: v.number(), lng: v.number() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const preferences = await loadPreferences(ctx, user._id);
+    if (!preferences?.recoveryAlertRadiusMiles) {
+      return { success: false };
+    }
+
+    await ctx.db.patch(preferences._id, {
+      lastLocation: { lat: args.lat, lng: args.lng, updatedAt: Date.now() },
+      lastLocationGeohash: pointGeohash(args.lat, args.lng),
+    });
+    return { success: true };
+  },
+});
+
+// Send held emails whose digest time has come (run by the cron in crons.ts)
+export const sendDigests = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    // Preferences with nothing held sort before every number
+    const due = await ctx.db
+      .query("notificationPreferences")
+      .withIndex("by_next_digest", (q) =>
+        q.gte("nextDigestAt", 0).lte("nextDigestAt", now),
+      )
+      .take(DIGEST_BATCH_SIZE);
+
+    let sent = 0;
+    for (const preferences of due) {
+      const held = await ctx.db
+        .query("heldNotificationEmails")
+        .withIndex("by_user", (q) => q.eq("userId", preferences.userId))
+        .take(MAX_DIGEST_ITEMS + 1);
+      const batch = held.slice(0, MAX_DIGEST_ITEMS);
+
+      for (const item of batch) {
+        await ctx.db.delete(item._id);
+      }
+      // Anything past the batch goes out on the next run
+      await ctx.db.patch(preferences._id, {
+        nextDigestAt: held.length > MAX_DIGEST_ITEMS ? now : undefined,
+      });
+
+      const user = await ctx.db.get(preferences.userId);
+      if (!user?.email || batch.length === 0) {
+        continue;
+      }
+
+      await ctx.scheduler.runAfter(
+        0,
+        internal.notifications.sendNotificationEmail,
+        {
+          to: user.email,
+          isDigest: true,
+          items: batch.map((item) => ({
+            title: item.title,
+            message: item.message,
+            path: isNotificationKind(item.kind)
+              ? notificationUrl(item.kind, item.relatedId)
+              : "/",
+          })),
+        },
+      );
+      sent++;
+    }
+
+    console.log("[sendDigests] Digests sent:", sent);
+    return { sent };
+  },
+});
+
+export const sendNotificationEmail = internalAction({
+  args: {
+    to: v.string(),
+    isDigest: v.boolean(),
+    items: v.array(
+      v.object({ title: v.string(), message: v.string(), path: v.string() }),
+    ),
+  },
+  handler: async (_ctx, args) => {
+    if (args.items.length === 0) {
+      return { sent: false };
+    }
+
+    const provider = getEmailProvider();
+    const html = await render(
+      NotificationEmail({
+        isDigest: args.isDigest,
+        homeUrl: appUrl("/"),
+        items: args.items.map((item) => ({
+          title: item.title,
+          message: item.message,
+          url: appUrl(item.path),
+        })),
+      }),
+    );
+    const subject = args.isDigest
+      ? `Your Camo & Ammo updates (${args.items.length})`
+      : args.items[0].title;
+
+    try {
+      await provider.send({ to: [args.to], subject, html });
+    } catch (error) {
+      console.error("[sendNotificationEmail] Failed to email", args.to, error);
+      return { sent: false };
+    }
+    return { sent: true };
+  },
+});
+
+// One-off migration: index saved last locations by geohash so volunteers
+// are matched to nearby recovery requests.
+// Run with: npx convex run notifications:backfillLastLocationGeohashes
+export const backfillLastLocationGeohashes = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("notificationPreferences")
+      .paginate({ cursor: args.cursor ?? null, numItems: 100 });
+
+    for (const doc of page) {
+      if (doc.lastLocation) {
+        await ctx.db.patch(doc._id, {
+          lastLocationGeohash: pointGeohash(
+            doc.lastLocation.lat,
+            doc.lastLocation.lng,
+          ),
+        });
+      }
+    }
+
+    console.log("[backfillLastLocationGeohashes] Indexed batch", {
+      count: page.length,
+      isDone,
+    });
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(
+        0,
+        internal.notifications.backfillLastLocationGeohashes,
+        { cursor: continueCursor },
+      );
+    }
+  },
+});
@@ -0,0 +1,143 @@
+import { v, ConvexError } from "convex/values";
+import { query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel.d.ts";
+import type { QueryCtx } from "./_generated/server.d.ts";
+import { findInGeoIndex } from "./_geoIndex";
+
+// Caps keep one region's snapshot well under the function response limit;
+// the client limits region size through its tile budget
+const MAX_PROPERTIES_PER_REGION = 1000;
+const MAX_HUNTING_UNITS_PER_REGION = 200;
+
+// Helper function to get current user with fallback lookup
+async function getCurrentUser(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  // Look up by email first (preferred method)
+  if (identity.email) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", identity.email!))
+      .unique();
+
+    if (user) {
+      return user;
+    }
+  }
+
+  // Fall back to subject-based lookup if email lookup failed
+  if (identity.subject) {
+    const parts = identity.subject.split("|");
+    if (parts.length > 0) {
+      try {
+        const userId = parts[0] as Id<"users">;
+        const user = await ctx.db.get(userId);
+        if (user) {
+          return user;
+        }
+      } catch (error) {
+        // Subject is not a valid Convex ID, continue
+        console.log("[getCurrentUser] Subject is not a valid Convex ID", {
+          subject: identity.subject,
+        });
+      }
+    }
+  }
+
+  return null;
+}
+
+// Snapshot of the map data inside a region, stored on the device so the
+// map layers still work without a connection
+export const getRegionData = query({
+  args: {
+    minLat: v.number(),
+    maxLat: v.number(),
+    minLng: v.number(),
+    maxLng: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const inRegion = (lat: number, lng: number) =>
+      lat >= args.minLat &&
+      lat <= args.maxLat &&
+      lng >= args.minLng &&
+      lng <= args.maxLng;
+
+    const propertyIds = await findInGeoIndex(
+      ctx,
+      "property",
+      args,
+      MAX_PROPERTIES_PER_REGION,
+    );
+    const properties = [];
+    for (const id of propertyIds) {
+      const doc = await ctx.db.get(id as Id<"properties">);
+      if (doc) {
+        properties.push(doc);
+      }
+    }
+
+    const unitIds = await findInGeoIndex(
+      ctx,
+      "huntingUnit",
+      args,
+      MAX_HUNTING_UNITS_PER_REGION,
+    );
+    const huntingUnits = [];
+    for (const id of unitIds) {
+      const doc = await ctx.db.get(id as Id<"huntingUnits">);
+      if (doc) {
+        huntingUnits.push(doc);
+      }
+    }
+
+    const waypoints = (
+      await ctx.db
+        .query("waypoints")
+        .withIndex("by_user", (q) => q.eq("userId", user._id))
+        .collect()
+    ).filter((waypoint) => inRegion(waypoint.lat, waypoint.lng));
+
+    // Saved tracks only; the simplified path is enough for display
+    const tracks = (
+      await ctx.db
+        .query("tracks")
+        .withIndex("by_user_active", (q) =>
+          q.eq("userId", user._id).eq("isActive", false),
+        )
+        .collect()
+    )
+      .filter((track) =>
+        (track.simplifiedPath ?? []).some((point) =>
+          inRegion(point.lat, point.lng),
+        ),
+      )
+      .map((track) => ({
+        _id: track._id,
+        name: track.name,
+        startTime: track.startTime,
+        distance: track.distance,
+        duration: track.duration,
+        path: track.simplifiedPath ?? [],
+      }));
+
+    return {
+      properties,
+      huntingUnits,
+      waypoints,
+      tracks,
+      fetchedAt: Date.now(),
+    };
+  },
+});
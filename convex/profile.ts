@@ -6,30 +6,6 @@ import { mutation, query } from "./_generated/server";
 const SUPER_ADMIN_EMAIL =
   process.env.SUPER_ADMIN_EMAIL ?? "rex@diazcorporations.com";
 
-// Default permissions for each role
-const DEFAULT_PERMISSIONS = {
-  owner: [
-    "view_users",
-    "edit_users",
-    "delete_users",
-    "ban_users",
-    "manage_roles",
-    "moderate_forums",
-    "moderate_marketplace",
-    "manage_subscriptions",
-    "view_analytics",
-  ],
-  admin: [
-    "view_users",
-    "edit_users",
-    "ban_users",
-    "moderate_forums",
-    "moderate_marketplace",
-    "view_analytics",
-  ],
-  member: [],
-};
-
 export const getMyProfile = query({
   args: {},
   handler: async (ctx) => {
@@ -120,6 +96,7 @@ export const updateProfile = mutation({
         name: v.string(),
         phone: v.string(),
         relationship: v.string(),
+        email: v.optional(v.string()),
       })
     ),
     emergencyContact2: v.optional(
@@ -127,6 +104,7 @@ export const updateProfile = mutation({
         name: v.string(),
         phone: v.string(),
         relationship: v.string(),
+        email: v.optional(v.string()),
       })
     ),
     emergencyContact3: v.optional(
@@ -134,6 +112,7 @@ export const updateProfile = mutation({
         name: v.string(),
         phone: v.string(),
         relationship: v.string(),
+        email: v.optional(v.string()),
       })
     ),
     huntingPreferences: v.optional(v.array(v.string())),
@@ -218,14 +197,11 @@ export const updateProfile = mutation({
     if (args.profileCompleted !== undefined)
       updates.profileCompleted = args.profileCompleted;
 
-    // Determine and set role based on email
-    // If user email matches SUPER_ADMIN_EMAIL, set role to admin, otherwise member
+    // The super admin is always an owner. Everyone else keeps the role an
+    // admin assigned them.
     const userEmail = identity.email || user.email;
-    if (userEmail) {
-      const role = userEmail === SUPER_ADMIN_EMAIL ? "owner" : "member";
-      const permissions = DEFAULT_PERMISSIONS[role];
-      updates.role = role;
-      updates.permissions = permissions;
+    if (userEmail === SUPER_ADMIN_EMAIL) {
+      updates.role = "owner";
     }
 
     await ctx.db.patch(user._id, updates);
@@ -1,5 +1,19 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
+import { query, mutation, internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel.d.ts";
+import type { MutationCtx } from "./_generated/server.d.ts";
+import { findInGeoIndex, indexBoundaries } from "./_geoIndex";
+
+// Cap on polygons returned for one viewport
+const MAX_RESULTS_IN_BOUNDS = 300;
+
+async function indexProperty(ctx: MutationCtx, propertyId: Id<"properties">) {
+  const doc = await ctx.db.get(propertyId);
+  if (doc) {
+    await indexBoundaries(ctx, "property", doc._id, doc.boundaries);
+  }
+}
 
 export const getPropertiesInBounds = query({
   args: {
@@ -9,17 +23,22 @@ export const getPropertiesInBounds = query({
     maxLng: v.number(),
   },
   handler: async (ctx, args) => {
-    // Get all properties (in production, you'd use spatial indexing)
-    const allProperties = await ctx.db.query("properties").collect();
-    
-    // Filter by bounds
-    return allProperties.filter(
-      (prop) =>
-        prop.centerLat >= args.minLat &&
-        prop.centerLat <= args.maxLat &&
-        prop.centerLng >= args.minLng &&
-        prop.centerLng <= args.maxLng
+    // Polygons are matched on their full extent, not just the center point
+    const ids = await findInGeoIndex(
+      ctx,
+      "property",
+      args,
+      MAX_RESULTS_IN_BOUNDS,
     );
+
+    const properties = [];
+    for (const id of ids) {
+      const doc = await ctx.db.get(id as Id<"properties">);
+      if (doc) {
+        properties.push(doc);
+      }
+    }
+    return properties;
   },
 });
 
@@ -54,7 +73,7 @@ export const addSampleProperty = mutation({
   args: {},
   handler: async (ctx) => {
     // Sample property in central US for demo
-    await ctx.db.insert("properties", {
+    const demoPropertyId = await ctx.db.insert("properties", {
       parcelId: "DEMO-001",
       address: "Rural Route 1, Example County",
       county: "Example County",
@@ -85,7 +104,7 @@ export const addSampleProperty = mutation({
     });
 
     // Sample public land
-    await ctx.db.insert("properties", {
+    const publicPropertyId = await ctx.db.insert("properties", {
       parcelId: "PUBLIC-001",
       address: "State Forest",
       county: "Example County",
@@ -113,6 +132,38 @@ export const addSampleProperty = mutation({
       lastUpdated: Date.now(),
     });
 
+
+    for (const id of [demoPropertyId, publicPropertyId]) {
+      await indexProperty(ctx, id);
+    }
     return { success: true };
   },
 });
+
+// One-off migration: add existing properties to the geohash index.
+// Run with: npx convex run properties:backfillPropertyGeoIndex
+export const backfillPropertyGeoIndex = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("properties")
+      .paginate({ cursor: args.cursor ?? null, numItems: 50 });
+
+    for (const doc of page) {
+      await indexBoundaries(ctx, "property", doc._id, doc.boundaries);
+    }
+
+    console.log("[backfillPropertyGeoIndex] Indexed batch", {
+      count: page.length,
+      isDone,
+    });
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.properties.backfillPropertyGeoIndex, {
+        cursor: continueCursor,
+      });
+    }
+  },
+});
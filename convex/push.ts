@@ -0,0 +1,162 @@
+import { ConvexError, v } from "convex/values";
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from "./_generated/server";
+import type { Id } from "./_generated/dataModel.d.ts";
+import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+
+// Web Push subscriptions. Delivery happens in pushDelivery.ts (Node runtime);
+// what gets pushed is decided by sendNotification in _notifications.ts.
+
+// Helper function to get current user with fallback lookup
+async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  // Look up by email first (preferred method)
+  if (identity.email) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", identity.email!))
+      .unique();
+
+    if (user) {
+      return user;
+    }
+  }
+
+  // Fall back to subject-based lookup if email lookup failed
+  if (identity.subject) {
+    const parts = identity.subject.split("|");
+    if (parts.length > 0) {
+      try {
+        const userId = parts[0] as Id<"users">;
+        const user = await ctx.db.get(userId);
+        if (user) {
+          return user;
+        }
+      } catch (error) {
+        // Subject is not a valid Convex ID, continue
+        console.log("[getCurrentUser] Subject is not a valid Convex ID", {
+          subject: identity.subject,
+        });
+      }
+    }
+  }
+
+  return null;
+}
+
+// The VAPID public key browsers need to subscribe; null when push isn't
+// configured on this deployment
+export const getPublicKey = query({
+  args: {},
+  handler: async () => {
+    return process.env.VAPID_PUBLIC_KEY ?? null;
+  },
+});
+
+// Save this device's subscription. The same browser re-subscribing (or a
+// different member signing in on it) takes over the existing record.
+export const subscribe = mutation({
+  args: {
+    endpoint: v.string(),
+    p256dh: v.string(),
+    auth: v.string(),
+    userAgent: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    console.log("[subscribe] Saving push subscription");
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    if (!args.endpoint.startsWith("https://")) {
+      throw new ConvexError({
+        message: "Invalid push subscription",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const existing = await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_endpoint", (q) => q.eq("endpoint", args.endpoint))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        userId: user._id,
+        p256dh: args.p256dh,
+        auth: args.auth,
+        userAgent: args.userAgent,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("pushSubscriptions", {
+      userId: user._id,
+      endpoint: args.endpoint,
+      p256dh: args.p256dh,
+      auth: args.auth,
+      userAgent: args.userAgent,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const unsubscribe = mutation({
+  args: { endpoint: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const existing = await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_endpoint", (q) => q.eq("endpoint", args.endpoint))
+      .first();
+    if (existing && existing.userId === user._id) {
+      await ctx.db.delete(existing._id);
+    }
+    return { success: true };
+  },
+});
+
+export const getSubscriptions = internalQuery({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("pushSubscriptions")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+  },
+});
+
+// Subscriptions the push service reported as gone (unsubscribed or expired)
+export const removeSubscriptions = internalMutation({
+  args: { subscriptionIds: v.array(v.id("pushSubscriptions")) },
+  handler: async (ctx, args) => {
+    for (const subscriptionId of args.subscriptionIds) {
+      if (await ctx.db.get(subscriptionId)) {
+        await ctx.db.delete(subscriptionId);
+      }
+    }
+    console.log(
+      "[removeSubscriptions] Removed expired subscriptions:",
+      args.subscriptionIds.length,
+    );
+  },
+});
@@ -0,0 +1,113 @@
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import schema from "./schema";
+import { api, internal } from "./_generated/api";
+
+const message = {
+  title: "Check-in overdue",
+  body: "Sam missed their check-in",
+  url: "/hunts",
+  tag: "overdue",
+  urgent: true,
+};
+
+describe("sendPush", () => {
+  beforeEach(() => {
+    vi.stubEnv("PUSH_DELIVERY", "console");
+  });
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  test("pushes to every device the member subscribed", async () => {
+    const t = convexTest(schema);
+    const userId = await t.run(async (ctx) => {
+      const userId = await ctx.db.insert("users", { name: "Sam" });
+      const otherId = await ctx.db.insert("users", { name: "Alex" });
+      for (const [owner, endpoint] of [
+        [userId, "https://push.example.com/phone"],
+        [userId, "https://push.example.com/laptop"],
+        [otherId, "https://push.example.com/other"],
+      ] as const) {
+        await ctx.db.insert("pushSubscriptions", {
+          userId: owner,
+          endpoint,
+          p256dh: "key",
+          auth: "secret",
+          createdAt: 0,
+        });
+      }
+      return userId;
+    });
+
+    expect(
+      await t.action(internal.pushDelivery.sendPush, { userId, ...message }),
+    ).toEqual({ sent: 2 });
+  });
+
+  test("sends nothing without subscriptions", async () => {
+    const t = convexTest(schema);
+    const userId = await t.run((ctx) =>
+      ctx.db.insert("users", { name: "Sam" }),
+    );
+    expect(
+      await t.action(internal.pushDelivery.sendPush, { userId, ...message }),
+    ).toEqual({ sent: 0 });
+  });
+});
+
+describe("subscribe", () => {
+  test("moves a browser's subscription to whoever signs in on it", async () => {
+    const t = convexTest(schema);
+    const alexId = await t.run(async (ctx) => {
+      await ctx.db.insert("users", { name: "Sam", email: "sam@example.com" });
+      return await ctx.db.insert("users", {
+        name: "Alex",
+        email: "alex@example.com",
+      });
+    });
+    const subscription = {
+      endpoint: "https://push.example.com/shared",
+      p256dh: "key",
+      auth: "secret",
+    };
+
+    const sam = t.withIdentity({ email: "sam@example.com" });
+    const alex = t.withIdentity({ email: "alex@example.com" });
+    const firstId = await sam.mutation(api.push.subscribe, subscription);
+    const secondId = await alex.mutation(api.push.subscribe, subscription);
+    expect(secondId).toBe(firstId);
+
+    // Sam no longer owns it, so can't remove it
+    await sam.mutation(api.push.unsubscribe, {
+      endpoint: subscription.endpoint,
+    });
+    const rows = await t.run((ctx) =>
+      ctx.db.query("pushSubscriptions").collect(),
+    );
+    expect(rows.map((row) => row.userId)).toEqual([alexId]);
+
+    await alex.mutation(api.push.unsubscribe, {
+      endpoint: subscription.endpoint,
+    });
+    expect(
+      await t.run((ctx) => ctx.db.query("pushSubscriptions").collect()),
+    ).toEqual([]);
+  });
+
+  test("rejects endpoints that aren't https", async () => {
+    const t = convexTest(schema);
+    await t.run((ctx) =>
+      ctx.db.insert("users", { name: "Sam", email: "sam@example.com" }),
+    );
+    await expect(
+      t
+        .withIdentity({ email: "sam@example.com" })
+        .mutation(api.push.subscribe, {
+          endpoint: "http://push.example.com/insecure",
+          p256dh: "key",
+          auth: "secret",
+        }),
+    ).rejects.toThrow("Invalid push subscription");
+  });
+});
@@ -0,0 +1,137 @@
+"use node";
+
+import { v } from "convex/values";
+import webpush, { WebPushError } from "web-push";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+// Delivers Web Push messages. Set PUSH_DELIVERY=console to log pushes
+// instead of sending them (local development and tests); the same happens
+// when the VAPID keys aren't configured.
+
+interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+interface PushMessage {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+  urgent: boolean;
+}
+
+// "gone" means the subscription no longer exists and should be removed
+type PushResult = "sent" | "gone" | "failed";
+
+interface PushProvider {
+  name: string;
+  send(target: PushTarget, message: PushMessage): Promise<PushResult>;
+}
+
+// How long the push service keeps trying an offline device
+const PUSH_TTL_SECONDS = 60 * 60;
+
+function webPushProvider(vapid: {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}): PushProvider {
+  return {
+    name: "web-push",
+    async send(target, message) {
+      try {
+        await webpush.sendNotification(
+          {
+            endpoint: target.endpoint,
+            keys: { p256dh: target.p256dh, auth: target.auth },
+          },
+          JSON.stringify(message),
+          {
+            vapidDetails: vapid,
+            TTL: PUSH_TTL_SECONDS,
+            urgency: message.urgent ? "high" : "normal",
+          },
+        );
+        return "sent";
+      } catch (error) {
+        if (
+          error instanceof WebPushError &&
+          (error.statusCode === 404 || error.statusCode === 410)
+        ) {
+          return "gone";
+        }
+        console.error("[webPushProvider] Push failed:", error);
+        return "failed";
+      }
+    },
+  };
+}
+
+const consoleProvider: PushProvider = {
+  name: "console",
+  async send(target, message) {
+    console.log("[push] Not sending, push delivery is mocked:", {
+      endpoint: target.endpoint.slice(0, 60),
+      title: message.title,
+      url: message.url,
+    });
+    return "sent";
+  },
+};
+
+function getPushProvider(): PushProvider {
+  const publicKey = process.env.VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (process.env.PUSH_DELIVERY === "console" || !publicKey || !privateKey) {
+    return consoleProvider;
+  }
+  return webPushProvider({
+    subject: process.env.VAPID_SUBJECT ?? "mailto:no-reply@sbinfotech.us",
+    publicKey,
+    privateKey,
+  });
+}
+
+// Push to every device the user has subscribed, dropping dead subscriptions
+export const sendPush = internalAction({
+  args: {
+    userId: v.id("users"),
+    title: v.string(),
+    body: v.string(),
+    url: v.string(),
+    tag: v.string(),
+    urgent: v.boolean(),
+  },
+  handler: async (ctx, args): Promise<{ sent: number }> => {
+    const subscriptions = await ctx.runQuery(internal.push.getSubscriptions, {
+      userId: args.userId,
+    });
+    if (subscriptions.length === 0) {
+      return { sent: 0 };
+    }
+
+    const provider = getPushProvider();
+    const { userId: _userId, ...message } = args;
+    const results = await Promise.all(
+      subscriptions.map((subscription) =>
+        provider.send(subscription, message),
+      ),
+    );
+
+    const gone = subscriptions
+      .filter((_, index) => results[index] === "gone")
+      .map((subscription) => subscription._id);
+    if (gone.length > 0) {
+      await ctx.runMutation(internal.push.removeSubscriptions, {
+        subscriptionIds: gone,
+      });
+    }
+
+    const sent = results.filter((result) => result === "sent").length;
+    console.log("[sendPush] Pushes sent:", sent, "via", provider.name);
+    return { sent };
+  },
+});
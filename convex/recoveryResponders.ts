@@ -0,0 +1,608 @@
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { sendNotification } from "./_notifications";
+import {
+  clearLiveLocations,
+  getRecoveryRequest,
+  LIVE_LOCATION_TTL_MS,
+  recordRecoveryEvent,
+  recoveryRequestIdValidator,
+  type RecoveryRequestId,
+} from "./_recoveryResponders";
+
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_ETA_MINUTES = 12 * 60;
+// Completed jobs read per responder for their track record
+const MAX_HISTORY_FOR_STATS = 100;
+
+// Helper function to get current user with fallback lookup
+async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  // Look up by email first (preferred method)
+  if (identity.email) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", identity.email!))
+      .unique();
+
+    if (user) {
+      return user;
+    }
+  }
+
+  // Fall back to subject-based lookup if email lookup failed
+  if (identity.subject) {
+    const parts = identity.subject.split("|");
+    if (parts.length > 0) {
+      try {
+        const userId = parts[0] as Id<"users">;
+        const user = await ctx.db.get(userId);
+        if (user) {
+          return user;
+        }
+      } catch (error) {
+        // Subject is not a valid Convex ID, continue
+        console.log("[getCurrentUser] Subject is not a valid Convex ID", {
+          subject: identity.subject,
+        });
+      }
+    }
+  }
+
+  return null;
+}
+
+async function requireUser(ctx: QueryCtx | MutationCtx) {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new ConvexError({
+      message: "User not logged in",
+      code: "UNAUTHENTICATED",
+    });
+  }
+  return user;
+}
+
+function firstName(name: string | undefined) {
+  return name?.split(" ")[0] || "Someone";
+}
+
+function requestNoun(type: "deer" | "vehicle") {
+  return type === "deer" ? "deer recovery" : "vehicle recovery";
+}
+
+async function getOwnedRequest(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  requestId: RecoveryRequestId,
+) {
+  const found = await getRecoveryRequest(ctx, requestId);
+  if (found.request.userId !== user._id) {
+    throw new ConvexError({
+      message: "Only the requester can do this",
+      code: "FORBIDDEN",
+    });
+  }
+  return found;
+}
+
+async function getOpenRequest(ctx: QueryCtx, requestId: RecoveryRequestId) {
+  const found = await getRecoveryRequest(ctx, requestId);
+  if (found.request.status !== "active") {
+    throw new ConvexError({
+      message: "This request is no longer open",
+      code: "BAD_REQUEST",
+    });
+  }
+  return found;
+}
+
+async function getMyResponse(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  requestId: RecoveryRequestId,
+) {
+  return await ctx.db
+    .query("recoveryResponders")
+    .withIndex("by_request_user", (q) =>
+      q.eq("requestId", requestId).eq("userId", userId),
+    )
+    .unique();
+}
+
+function validateEta(etaMinutes: number | undefined) {
+  if (
+    etaMinutes !== undefined &&
+    (!Number.isInteger(etaMinutes) ||
+      etaMinutes < 0 ||
+      etaMinutes > MAX_ETA_MINUTES)
+  ) {
+    throw new ConvexError({
+      message: `ETA must be between 0 and ${MAX_ETA_MINUTES} minutes`,
+      code: "BAD_REQUEST",
+    });
+  }
+}
+
+function freshLocation(
+  location: { lat: number; lng: number; updatedAt: number } | undefined,
+  now: number,
+) {
+  return location && now - location.updatedAt <= LIVE_LOCATION_TTL_MS
+    ? location
+    : null;
+}
+
+// Offers and accepted responders on a request. Everyone sees who is
+// helping; the requester also sees pending offers and each responder's
+// track record. Live locations go only to the requester and accepted
+// responders while the request is open.
+export const getResponders = query({
+  args: { requestId: recoveryRequestIdValidator },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    const { request } = await getRecoveryRequest(ctx, args.requestId);
+    const now = Date.now();
+
+    const rows = await ctx.db
+      .query("recoveryResponders")
+      .withIndex("by_request", (q) => q.eq("requestId", args.requestId))
+      .collect();
+
+    const isOwner = user?._id === request.userId;
+    const myResponse = user ? rows.find((r) => r.userId === user._id) : null;
+    const canSeeLocations =
+      request.status === "active" &&
+      (isOwner || myResponse?.status === "accepted");
+
+    const visible = rows.filter(
+      (row) =>
+        isOwner ||
+        row.userId === user?._id ||
+        row.status === "accepted" ||
+        row.status === "completed",
+    );
+
+    const responders = await Promise.all(
+      visible.map(async (row) => {
+        const responder = await ctx.db.get(row.userId);
+
+        let stats = null;
+        if (isOwner) {
+          const completed = await ctx.db
+            .query("recoveryResponders")
+            .withIndex("by_user_status", (q) =>
+              q.eq("userId", row.userId).eq("status", "completed"),
+            )
+            .take(MAX_HISTORY_FOR_STATS);
+          const ratings = completed
+            .map((r) => r.rating)
+            .filter((r) => r !== undefined);
+          stats = {
+            completedCount: completed.length,
+            averageRating:
+              ratings.length > 0
+                ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length
+                : null,
+          };
+        }
+
+        return {
+          _id: row._id,
+          userId: row.userId,
+          name: firstName(responder?.name),
+          status: row.status,
+          message: row.message,
+          etaAt: row.etaAt,
+          offeredAt: row.offeredAt,
+          acceptedAt: row.acceptedAt,
+          rating: row.rating,
+          thankYouNote:
+            isOwner || row.userId === user?._id ? row.thankYouNote : undefined,
+          liveLocation:
+            canSeeLocations && row.status === "accepted"
+              ? freshLocation(row.liveLocation, now)
+              : null,
+          stats,
+        };
+      }),
+    );
+
+    return {
+      isOwner,
+      myStatus: myResponse?.status ?? null,
+      ownerLiveLocation: canSeeLocations
+        ? freshLocation(request.ownerLiveLocation, now)
+        : null,
+      responders,
+    };
+  },
+});
+
+// Offer to help with a request
+export const offerHelp = mutation({
+  args: {
+    requestId: recoveryRequestIdValidator,
+    message: v.optional(v.string()),
+    etaMinutes: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const { type, request } = await getOpenRequest(ctx, args.requestId);
+
+    if (request.userId === user._id) {
+      throw new ConvexError({
+        message: "You can't offer help on your own request",
+        code: "BAD_REQUEST",
+      });
+    }
+    const message = args.message?.trim() || undefined;
+    if (message && message.length > MAX_MESSAGE_LENGTH) {
+      throw new ConvexError({
+        message: `Message must be at most ${MAX_MESSAGE_LENGTH} characters`,
+        code: "BAD_REQUEST",
+      });
+    }
+    validateEta(args.etaMinutes);
+
+    const now = Date.now();
+    const etaAt =
+      args.etaMinutes === undefined ? undefined : now + args.etaMinutes * 60_000;
+
+    const existing = await getMyResponse(ctx, user._id, args.requestId);
+    if (existing?.status === "offered" || existing?.status === "accepted") {
+      throw new ConvexError({
+        message: "You're already helping with this request",
+        code: "CONFLICT",
+      });
+    }
+    if (existing?.status === "declined") {
+      throw new ConvexError({
+        message: "The requester declined your offer",
+        code: "FORBIDDEN",
+      });
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        status: "offered",
+        message,
+        etaAt,
+        offeredAt: now,
+      });
+    } else {
+      await ctx.db.insert("recoveryResponders", {
+        requestId: args.requestId,
+        userId: user._id,
+        status: "offered",
+        message,
+        etaAt,
+        offeredAt: now,
+      });
+    }
+
+    const name = firstName(user.name);
+    await recordRecoveryEvent(
+      ctx,
+      args.requestId,
+      user._id,
+      "offered",
+      message ? `${name} offered to help: "${message}"` : `${name} offered to help`,
+    );
+    await sendNotification(ctx, {
+      userId: request.userId,
+      kind: "recovery_help_offered",
+      title: "Someone Offered to Help",
+      message: `${name} offered to help with your ${requestNoun(type)} request.`,
+      relatedId: args.requestId,
+    });
+
+    console.log("[offerHelp] Offer recorded", {
+      requestId: args.requestId,
+      userId: user._id,
+    });
+    return { success: true };
+  },
+});
+
+// Take back an offer, or step away after being accepted
+export const withdrawOffer = mutation({
+  args: { requestId: recoveryRequestIdValidator },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const response = await getMyResponse(ctx, user._id, args.requestId);
+    if (
+      !response ||
+      (response.status !== "offered" && response.status !== "accepted")
+    ) {
+      throw new ConvexError({
+        message: "You haven't offered to help with this request",
+        code: "NOT_FOUND",
+      });
+    }
+
+    await ctx.db.patch(response._id, {
+      status: "withdrawn",
+      liveLocation: undefined,
+    });
+    await recordRecoveryEvent(
+      ctx,
+      args.requestId,
+      user._id,
+      "withdrawn",
+      `${firstName(user.name)} is no longer able to help`,
+    );
+
+    return { success: true };
+  },
+});
+
+// Requester accepts or declines an offer
+export const respondToOffer = mutation({
+  args: {
+    responderId: v.id("recoveryResponders"),
+    accept: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const response = await ctx.db.get(args.responderId);
+    if (!response) {
+      throw new ConvexError({
+        message: "Offer not found",
+        code: "NOT_FOUND",
+      });
+    }
+    const { type, request } = await getOwnedRequest(
+      ctx,
+      user,
+      response.requestId,
+    );
+    if (request.status !== "active") {
+      throw new ConvexError({
+        message: "This request is no longer open",
+        code: "BAD_REQUEST",
+      });
+    }
+    if (response.status !== "offered") {
+      throw new ConvexError({
+        message: "This offer has already been answered",
+        code: "CONFLICT",
+      });
+    }
+
+    const responder = await ctx.db.get(response.userId);
+    const name = firstName(responder?.name);
+
+    if (!args.accept) {
+      await ctx.db.patch(response._id, { status: "declined" });
+      await recordRecoveryEvent(
+        ctx,
+        response.requestId,
+        user._id,
+        "declined",
+        `${firstName(user.name)} declined ${name}'s offer`,
+      );
+      return { success: true };
+    }
+
+    await ctx.db.patch(response._id, {
+      status: "accepted",
+      acceptedAt: Date.now(),
+    });
+    if (request.requestStatus !== "in_progress") {
+      await ctx.db.patch(response.requestId, { requestStatus: "in_progress" });
+    }
+    await recordRecoveryEvent(
+      ctx,
+      response.requestId,
+      user._id,
+      "accepted",
+      `${firstName(user.name)} accepted help from ${name}`,
+    );
+    await sendNotification(ctx, {
+      userId: response.userId,
+      kind: "recovery_offer_accepted",
+      title: "Your Offer Was Accepted",
+      message: `${firstName(user.name)} accepted your offer to help with their ${requestNoun(type)}${request.locationName ? ` near ${request.locationName}` : ""}.`,
+      relatedId: response.requestId,
+    });
+
+    return { success: true };
+  },
+});
+
+// Accepted responder updates how far out they are
+export const updateEta = mutation({
+  args: {
+    requestId: recoveryRequestIdValidator,
+    etaMinutes: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await getOpenRequest(ctx, args.requestId);
+    validateEta(args.etaMinutes);
+
+    const response = await getMyResponse(ctx, user._id, args.requestId);
+    if (!response || response.status !== "accepted") {
+      throw new ConvexError({
+        message: "Only accepted responders can set an ETA",
+        code: "FORBIDDEN",
+      });
+    }
+
+    await ctx.db.patch(response._id, {
+      etaAt: Date.now() + args.etaMinutes * 60_000,
+    });
+    await recordRecoveryEvent(
+      ctx,
+      args.requestId,
+      user._id,
+      "eta_updated",
+      args.etaMinutes === 0
+        ? `${firstName(user.name)} has arrived`
+        : `${firstName(user.name)} expects to arrive in about ${args.etaMinutes} min`,
+    );
+
+    return { success: true };
+  },
+});
+
+// Share the caller's live location with the others on an open request.
+// Only the requester and accepted responders can share.
+export const updateLiveLocation = mutation({
+  args: {
+    requestId: recoveryRequestIdValidator,
+    lat: v.number(),
+    lng: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const { request } = await getOpenRequest(ctx, args.requestId);
+    const liveLocation = { lat: args.lat, lng: args.lng, updatedAt: Date.now() };
+
+    if (request.userId === user._id) {
+      await ctx.db.patch(args.requestId, { ownerLiveLocation: liveLocation });
+      return { success: true };
+    }
+
+    const response = await getMyResponse(ctx, user._id, args.requestId);
+    if (!response || response.status !== "accepted") {
+      throw new ConvexError({
+        message: "Only accepted responders can share their location",
+        code: "FORBIDDEN",
+      });
+    }
+    await ctx.db.patch(response._id, { liveLocation });
+    return { success: true };
+  },
+});
+
+export const stopSharingLiveLocation = mutation({
+  args: { requestId: recoveryRequestIdValidator },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const { request } = await getRecoveryRequest(ctx, args.requestId);
+
+    if (request.userId === user._id) {
+      await ctx.db.patch(args.requestId, { ownerLiveLocation: undefined });
+    } else {
+      const response = await getMyResponse(ctx, user._id, args.requestId);
+      if (response?.liveLocation) {
+        await ctx.db.patch(response._id, { liveLocation: undefined });
+      }
+    }
+    return { success: true };
+  },
+});
+
+// Requester confirms the recovery is done, thanking and rating the
+// accepted responders. Resolves the request like closing it does.
+export const confirmCompletion = mutation({
+  args: {
+    requestId: recoveryRequestIdValidator,
+    feedback: v.array(
+      v.object({
+        responderId: v.id("recoveryResponders"),
+        rating: v.optional(v.number()),
+        thankYouNote: v.optional(v.string()),
+      }),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const { type, request } = await getOwnedRequest(ctx, user, args.requestId);
+    if (request.status !== "active") {
+      throw new ConvexError({
+        message: "This request is no longer open",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    const now = Date.now();
+    const responders = await ctx.db
+      .query("recoveryResponders")
+      .withIndex("by_request", (q) => q.eq("requestId", args.requestId))
+      .collect();
+
+    for (const entry of args.feedback) {
+      const responder = responders.find((r) => r._id === entry.responderId);
+      if (!responder || responder.status !== "accepted") {
+        throw new ConvexError({
+          message: "You can only rate responders you accepted",
+          code: "BAD_REQUEST",
+        });
+      }
+      if (
+        entry.rating !== undefined &&
+        (!Number.isInteger(entry.rating) || entry.rating < 1 || entry.rating > 5)
+      ) {
+        throw new ConvexError({
+          message: "Ratings must be from 1 to 5",
+          code: "BAD_REQUEST",
+        });
+      }
+      if ((entry.thankYouNote?.length ?? 0) > MAX_MESSAGE_LENGTH) {
+        throw new ConvexError({
+          message: `Thank-you notes must be at most ${MAX_MESSAGE_LENGTH} characters`,
+          code: "BAD_REQUEST",
+        });
+      }
+    }
+
+    for (const responder of responders) {
+      if (responder.status === "offered") {
+        await ctx.db.patch(responder._id, { status: "withdrawn" });
+        continue;
+      }
+      if (responder.status !== "accepted") continue;
+
+      const feedback = args.feedback.find(
+        (entry) => entry.responderId === responder._id,
+      );
+      const thankYouNote = feedback?.thankYouNote?.trim() || undefined;
+      await ctx.db.patch(responder._id, {
+        status: "completed",
+        completedAt: now,
+        rating: feedback?.rating,
+        thankYouNote,
+      });
+      await sendNotification(ctx, {
+        userId: responder.userId,
+        kind: "recovery_thank_you",
+        title: "Thanks for Helping",
+        message: thankYouNote
+          ? `${firstName(user.name)} says: "${thankYouNote}"`
+          : `${firstName(user.name)} marked their ${requestNoun(type)} complete. Thanks for helping!`,
+        relatedId: args.requestId,
+      });
+    }
+
+    await ctx.db.patch(args.requestId, {
+      status: "resolved",
+      closedAt: now,
+      closedBy: user._id,
+      nextFollowUpAt: undefined,
+    });
+    await clearLiveLocations(ctx, args.requestId);
+    await recordRecoveryEvent(
+      ctx,
+      args.requestId,
+      user._id,
+      "completed",
+      `${firstName(user.name)} confirmed the recovery is complete`,
+    );
+
+    console.log("[confirmCompletion] Request completed", {
+      requestId: args.requestId,
+    });
+    return { success: true };
+  },
+});
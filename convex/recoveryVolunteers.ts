@@ -0,0 +1,142 @@
+import { ConvexError, v } from "convex/values";
+import { query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel.d.ts";
+import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { getBlockedUserIds } from "./_blocks";
+import { findVolunteersInRange } from "./_recoveryAlerts";
+
+// Volunteer responders for deer and vehicle recovery (see
+// convex/_recoveryAlerts.ts). A request's owner sees the first name and
+// whole-mile distance of each volunteer who was told about it. Anyone else
+// only sees how many volunteers are around, in coarse distance bands, since
+// exact distances from points of their choosing would give away where a
+// volunteer is.
+
+// Upper bounds in miles of the bands nearby volunteers are counted in
+const NEARBY_BANDS_MILES = [5, 25] as const;
+
+// Helper function to get current user with fallback lookup
+async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    return null;
+  }
+
+  // Look up by email first (preferred method)
+  if (identity.email) {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", identity.email!))
+      .unique();
+
+    if (user) {
+      return user;
+    }
+  }
+
+  // Fall back to subject-based lookup if email lookup failed
+  if (identity.subject) {
+    const parts = identity.subject.split("|");
+    if (parts.length > 0) {
+      try {
+        const userId = parts[0] as Id<"users">;
+        const user = await ctx.db.get(userId);
+        if (user) {
+          return user;
+        }
+      } catch (error) {
+        // Subject is not a valid Convex ID, continue
+        console.log("[getCurrentUser] Subject is not a valid Convex ID", {
+          subject: identity.subject,
+        });
+      }
+    }
+  }
+
+  return null;
+}
+
+async function requireUser(ctx: QueryCtx | MutationCtx) {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new ConvexError({
+      message: "User not logged in",
+      code: "UNAUTHENTICATED",
+    });
+  }
+  return user;
+}
+
+function firstName(name: string | undefined) {
+  return name?.split(" ")[0] || "Volunteer";
+}
+
+// How many volunteers would be alerted about a request posted here
+export const getNearby = query({
+  args: { lat: v.number(), lng: v.number() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const blockedIds = await getBlockedUserIds(ctx, user._id);
+
+    const matches = (
+      await findVolunteersInRange(ctx, args.lat, args.lng)
+    ).filter(
+      ({ preferences }) =>
+        preferences.userId !== user._id && !blockedIds.has(preferences.userId),
+    );
+
+    return {
+      total: matches.length,
+      bands: NEARBY_BANDS_MILES.map((maxMiles) => ({
+        maxMiles,
+        count: matches.filter(({ miles }) => miles <= maxMiles).length,
+      })),
+    };
+  },
+});
+
+// Which volunteers were told about a request, for its owner
+export const getNotified = query({
+  args: {
+    requestId: v.union(
+      v.id("deerRecoveryRequests"),
+      v.id("vehicleRecoveryRequests"),
+    ),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const request = await ctx.db.get(args.requestId);
+    if (!request) {
+      throw new ConvexError({
+        message: "Request not found",
+        code: "NOT_FOUND",
+      });
+    }
+    if (request.userId !== user._id) {
+      throw new ConvexError({
+        message: "Only the request owner can see who was notified",
+        code: "FORBIDDEN",
+      });
+    }
+
+    const alerts = await ctx.db
+      .query("recoveryVolunteerAlerts")
+      .withIndex("by_request", (q) => q.eq("requestId", args.requestId))
+      .collect();
+
+    const volunteers = await Promise.all(
+      alerts.map(async (alert) => {
+        const volunteer = await ctx.db.get(alert.userId);
+        return {
+          userId: alert.userId,
+          name: firstName(volunteer?.name),
+          distanceMiles: Math.round(alert.distanceMiles),
+          notifiedAt: alert.notifiedAt,
+        };
+      }),
+    );
+
+    return volunteers.sort((a, b) => a.distanceMiles - b.distanceMiles);
+  },
+});
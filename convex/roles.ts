@@ -1,8 +1,24 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { ConvexError } from "convex/values";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
-import type { Id } from "./_generated/dataModel.d.ts";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
+import {
+  ALL_PERMISSIONS,
+  BUILT_IN_ROLES,
+  builtInRoleValidator,
+  DEFAULT_PERMISSIONS,
+  ensureBuiltInRole,
+  getUserPermissions,
+  isBuiltInRole,
+  isPermission,
+  outranks,
+  PERMISSIONS,
+  requireGrantable,
+  requirePermission,
+  type BuiltInRole,
+} from "./_permissions";
 
 // Super admin email
 const SUPER_ADMIN_EMAIL =
@@ -50,78 +66,6 @@ async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
   return null;
 }
 
-// Helper function to require authentication
-async function requireAuth(ctx: QueryCtx | MutationCtx) {
-  const user = await getCurrentUser(ctx);
-  if (!user) {
-    throw new ConvexError({
-      message: "User not logged in",
-      code: "UNAUTHENTICATED",
-    });
-  }
-  return user;
-}
-
-// Helper function to require admin or owner role
-async function requireAdminOrOwner(ctx: QueryCtx | MutationCtx) {
-  const user = await requireAuth(ctx);
-  if (user.role !== "owner" && user.role !== "admin") {
-    throw new ConvexError({
-      message: "Not authorized",
-      code: "FORBIDDEN",
-    });
-  }
-  return user;
-}
-
-// Helper function to require owner role
-async function requireOwner(ctx: QueryCtx | MutationCtx) {
-  const user = await requireAuth(ctx);
-  if (user.role !== "owner") {
-    throw new ConvexError({
-      message: "Only owners can perform this action",
-      code: "FORBIDDEN",
-    });
-  }
-  return user;
-}
-
-// Permission constants
-export const PERMISSIONS = {
-  // User management
-  VIEW_USERS: "view_users",
-  EDIT_USERS: "edit_users",
-  DELETE_USERS: "delete_users",
-  BAN_USERS: "ban_users",
-
-  // Role management
-  MANAGE_ROLES: "manage_roles",
-
-  // Content moderation
-  MODERATE_FORUMS: "moderate_forums",
-  MODERATE_MARKETPLACE: "moderate_marketplace",
-
-  // Subscriptions
-  MANAGE_SUBSCRIPTIONS: "manage_subscriptions",
-
-  // System
-  VIEW_ANALYTICS: "view_analytics",
-} as const;
-
-// Default permissions for each role
-const DEFAULT_PERMISSIONS = {
-  owner: Object.values(PERMISSIONS),
-  admin: [
-    PERMISSIONS.VIEW_USERS,
-    PERMISSIONS.EDIT_USERS,
-    PERMISSIONS.BAN_USERS,
-    PERMISSIONS.MODERATE_FORUMS,
-    PERMISSIONS.MODERATE_MARKETPLACE,
-    PERMISSIONS.VIEW_ANALYTICS,
-  ],
-  member: [],
-};
-
 // Check if user is owner
 export const isOwner = query({
   args: {},
@@ -149,13 +93,37 @@ export const getMyRole = query({
   },
 });
 
+// Get the permissions the current user holds, for showing admin features
+export const getMyPermissions = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    return user ? await getUserPermissions(ctx, user) : [];
+  },
+});
+
+// Display name of each user's role, built-in or custom
+async function getRoleNames(ctx: QueryCtx, users: Doc<"users">[]) {
+  const roles = await ctx.db.query("roles").collect();
+  const customNames = new Map(roles.map((role) => [role._id, role.name]));
+  return users.map((user) => ({
+    ...user,
+    roleName:
+      (user.role !== "owner" && user.roleId && customNames.get(user.roleId)) ||
+      BUILT_IN_ROLES[user.role ?? "member"].name,
+  }));
+}
+
 // List all users (admin only) - excludes archived users
 export const listUsers = query({
   args: {},
   handler: async (ctx) => {
-    await requireAdminOrOwner(ctx);
+    await requirePermission(ctx, PERMISSIONS.VIEW_USERS);
     const users = await ctx.db.query("users").collect();
-    return users.filter((user) => !user.archived);
+    return await getRoleNames(
+      ctx,
+      users.filter((user) => !user.archived),
+    );
   },
 });
 
@@ -163,90 +131,412 @@ export const listUsers = query({
 export const listArchivedUsers = query({
   args: {},
   handler: async (ctx) => {
-    await requireAdminOrOwner(ctx);
+    await requirePermission(ctx, PERMISSIONS.VIEW_USERS);
     const users = await ctx.db.query("users").collect();
     return users.filter((user) => user.archived);
   },
 });
 
-// Change user role (owner only)
+// A built-in role by key, or a custom role by id
+const roleRefValidator = v.union(builtInRoleValidator, v.id("roles"));
+
+async function getRoleByRef(
+  ctx: MutationCtx,
+  ref: BuiltInRole | Id<"roles">,
+): Promise<Doc<"roles">> {
+  if (isBuiltInRole(ref)) {
+    return await ensureBuiltInRole(ctx, ref);
+  }
+  const role = await ctx.db.get(ref);
+  if (!role) {
+    throw new ConvexError({
+      message: "Role not found",
+      code: "NOT_FOUND",
+    });
+  }
+  return role;
+}
+
+// The account an admin action targets. Admins can't act on their own
+// account, on an owner's, or on anyone with access they don't hold.
+async function getManageableUser(
+  ctx: QueryCtx,
+  currentUser: Doc<"users">,
+  userId: Id<"users">,
+) {
+  if (userId === currentUser._id) {
+    throw new ConvexError({
+      message: "You can't do this to your own account",
+      code: "FORBIDDEN",
+    });
+  }
+  const user = await ctx.db.get(userId);
+  if (!user) {
+    throw new ConvexError({
+      message: "User not found",
+      code: "NOT_FOUND",
+    });
+  }
+  if (user.role === "owner" || (await outranks(ctx, user, currentUser))) {
+    throw new ConvexError({
+      message: "You can't do this to an account with more access than yours",
+      code: "FORBIDDEN",
+    });
+  }
+  return user;
+}
+
+// Permissions a role grants; the owner role always grants every one
+function rolePermissions(role: Doc<"roles">) {
+  return role.key === "owner" ? ALL_PERMISSIONS : role.permissions;
+}
+
+// Trimmed role name, checked for length and clashes with other roles
+async function validateRoleName(
+  ctx: QueryCtx,
+  name: string,
+  exceptRoleId?: Id<"roles">,
+) {
+  const trimmed = name.trim();
+  if (trimmed.length === 0 || trimmed.length > 50) {
+    throw new ConvexError({
+      message: "Role name must be 1-50 characters",
+      code: "BAD_REQUEST",
+    });
+  }
+
+  const builtInNames = Object.values(BUILT_IN_ROLES).map((role) => role.name);
+  const roles = await ctx.db.query("roles").collect();
+  const taken = [
+    ...builtInNames,
+    ...roles.filter((role) => role._id !== exceptRoleId).map((r) => r.name),
+  ];
+  if (taken.some((n) => n.toLowerCase() === trimmed.toLowerCase())) {
+    throw new ConvexError({
+      message: "A role with that name already exists",
+      code: "CONFLICT",
+    });
+  }
+  return trimmed;
+}
+
+function validatePermissions(permissions: string[]) {
+  const unknown = permissions.filter((p) => !isPermission(p));
+  if (unknown.length > 0) {
+    throw new ConvexError({
+      message: `Unknown permission: ${unknown.join(", ")}`,
+      code: "BAD_REQUEST",
+    });
+  }
+  return [...new Set(permissions)];
+}
+
+// "+a, -b" summary of a permission change for the audit log
+function describePermissionChange(before: string[], after: string[]) {
+  const added = after.filter((p) => !before.includes(p)).map((p) => `+${p}`);
+  const removed = before.filter((p) => !after.includes(p)).map((p) => `-${p}`);
+  return [...added, ...removed].join(", ") || "no change";
+}
+
+// Change user role to a built-in or custom role. A custom role replaces the
+// member's built-in role.
 export const changeUserRole = mutation({
   args: {
     userId: v.id("users"),
-    newRole: v.union(
-      v.literal("owner"),
-      v.literal("admin"),
-      v.literal("member"),
-    ),
+    newRole: roleRefValidator,
   },
   handler: async (ctx, args) => {
-    const currentUser = await requireOwner(ctx);
+    const currentUser = await requirePermission(ctx, PERMISSIONS.MANAGE_ROLES);
 
-    // Get target user's old role
+    if (args.userId === currentUser._id) {
+      throw new ConvexError({
+        message: "You can't change your own role",
+        code: "FORBIDDEN",
+      });
+    }
     const targetUser = await ctx.db.get(args.userId);
-    const oldRole = targetUser?.role || "member";
-
-    // Get default permissions for the new role
-    const permissions = DEFAULT_PERMISSIONS[args.newRole];
+    if (!targetUser) {
+      throw new ConvexError({
+        message: "User not found",
+        code: "NOT_FOUND",
+      });
+    }
+    if (await outranks(ctx, targetUser, currentUser)) {
+      throw new ConvexError({
+        message: "You can't change the role of someone with more access",
+        code: "FORBIDDEN",
+      });
+    }
+    const oldRole = targetUser.role || "member";
+    const [{ roleName: oldRoleName }] = await getRoleNames(ctx, [targetUser]);
+
+    const role = await getRoleByRef(ctx, args.newRole);
+    const newRole = role.key ?? "member";
+    await requireGrantable(ctx, currentUser, rolePermissions(role));
+
+    // Only owners can make or unmake owners
+    if (
+      currentUser.role !== "owner" &&
+      (newRole === "owner" || oldRole === "owner")
+    ) {
+      throw new ConvexError({
+        message: "Only owners can change the owner role",
+        code: "FORBIDDEN",
+      });
+    }
 
     await ctx.db.patch(args.userId, {
-      role: args.newRole,
-      permissions,
+      role: newRole,
+      roleId: role.key ? undefined : role._id,
     });
 
     // Log the role change
     await ctx.db.insert("auditLogs", {
       userId: currentUser._id,
-      action: `Changed user role from ${oldRole} to ${args.newRole}`,
+      action: `Changed user role from ${oldRoleName} to ${role.name}`,
       entityType: "user",
       entityId: args.userId,
-      changes: `role: ${oldRole} → ${args.newRole}`,
+      changes: `role: ${oldRoleName} → ${role.name}`,
       timestamp: Date.now(),
     });
   },
 });
 
-// Get all role permissions
-export const getAllRolePermissions = query({
+// List every role with its permissions and how many members hold it.
+// Built-in roles come first and show their defaults until first edited.
+export const listRoles = query({
   args: {},
   handler: async (ctx) => {
-    await requireOwner(ctx);
-    return DEFAULT_PERMISSIONS;
+    await requirePermission(ctx, PERMISSIONS.MANAGE_ROLES);
+
+    const [roles, users] = await Promise.all([
+      ctx.db.query("roles").collect(),
+      ctx.db.query("users").collect(),
+    ]);
+    const activeUsers = users.filter((user) => !user.archived);
+    const customRoleIds = new Set(
+      roles.filter((role) => !role.key).map((role) => role._id),
+    );
+    const holdsCustomRole = (user: Doc<"users">) =>
+      user.role !== "owner" && !!user.roleId && customRoleIds.has(user.roleId);
+
+    const builtIn = (Object.keys(BUILT_IN_ROLES) as BuiltInRole[]).map(
+      (key) => {
+        const row = roles.find((role) => role.key === key);
+        return {
+          _id: row?._id ?? null,
+          key,
+          name: BUILT_IN_ROLES[key].name,
+          description: BUILT_IN_ROLES[key].description,
+          permissions:
+            key === "owner"
+              ? ALL_PERMISSIONS
+              : (row?.permissions ?? DEFAULT_PERMISSIONS[key]),
+          memberCount: activeUsers.filter(
+            (user) => (user.role ?? "member") === key && !holdsCustomRole(user),
+          ).length,
+        };
+      },
+    );
+
+    const custom = roles
+      .filter((role) => !role.key)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map((role) => ({
+        _id: role._id,
+        key: null,
+        name: role.name,
+        description: role.description ?? "",
+        permissions: role.permissions,
+        memberCount: activeUsers.filter(
+          (user) => holdsCustomRole(user) && user.roleId === role._id,
+        ).length,
+      }));
+
+    return [...builtIn, ...custom];
   },
 });
 
-// Update role permissions (owner only)
-export const updateRolePermissions = mutation({
+// Create a custom role
+export const createRole = mutation({
   args: {
-    role: v.union(v.literal("owner"), v.literal("admin"), v.literal("member")),
+    name: v.string(),
+    description: v.optional(v.string()),
     permissions: v.array(v.string()),
   },
   handler: async (ctx, args) => {
-    await requireOwner(ctx);
+    const currentUser = await requirePermission(ctx, PERMISSIONS.MANAGE_ROLES);
+    const name = await validateRoleName(ctx, args.name);
+    const permissions = validatePermissions(args.permissions);
+    await requireGrantable(ctx, currentUser, permissions);
+
+    const now = Date.now();
+    const roleId = await ctx.db.insert("roles", {
+      name,
+      description: args.description?.trim() || undefined,
+      permissions,
+      createdBy: currentUser._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.insert("auditLogs", {
+      userId: currentUser._id,
+      action: `Created role ${name}`,
+      entityType: "role",
+      entityId: roleId,
+      changes: `permissions: ${permissions.join(", ") || "none"}`,
+      timestamp: now,
+    });
+
+    return roleId;
+  },
+});
+
+// Copy any role's permissions into a new custom role
+export const cloneRole = mutation({
+  args: {
+    sourceRole: roleRefValidator,
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const currentUser = await requirePermission(ctx, PERMISSIONS.MANAGE_ROLES);
+    const source = await getRoleByRef(ctx, args.sourceRole);
+    const name = await validateRoleName(ctx, args.name);
+    const permissions = rolePermissions(source);
+    await requireGrantable(ctx, currentUser, permissions);
+
+    const now = Date.now();
+    const roleId = await ctx.db.insert("roles", {
+      name,
+      description: source.description,
+      permissions,
+      createdBy: currentUser._id,
+      createdAt: now,
+      updatedAt: now,
+    });
 
-    // Cannot modify owner permissions
-    if (args.role === "owner") {
+    await ctx.db.insert("auditLogs", {
+      userId: currentUser._id,
+      action: `Cloned role ${source.name} as ${name}`,
+      entityType: "role",
+      entityId: roleId,
+      changes: `permissions: ${permissions.join(", ") || "none"}`,
+      timestamp: now,
+    });
+
+    return roleId;
+  },
+});
+
+// Rename, describe or change the permissions of a role. Built-in roles keep
+// their names, and the owner role always has every permission.
+export const updateRole = mutation({
+  args: {
+    role: roleRefValidator,
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    permissions: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const currentUser = await requirePermission(ctx, PERMISSIONS.MANAGE_ROLES);
+    const role = await getRoleByRef(ctx, args.role);
+
+    if (role.key === "owner") {
       throw new ConvexError({
         message: "Cannot modify owner permissions",
         code: "FORBIDDEN",
       });
     }
+    // Roles above the caller's own are out of reach, whatever the change
+    await requireGrantable(ctx, currentUser, role.permissions);
+    if (
+      role.key &&
+      (args.name !== undefined || args.description !== undefined)
+    ) {
+      throw new ConvexError({
+        message: "Built-in roles can't be renamed",
+        code: "BAD_REQUEST",
+      });
+    }
 
-    // Update all users with this role to have the new permissions
-    const usersWithRole = await ctx.db.query("users").collect();
-
-    for (const user of usersWithRole) {
-      if (user.role === args.role) {
-        await ctx.db.patch(user._id, {
-          permissions: args.permissions,
-        });
+    const updates: Partial<Doc<"roles">> = {};
+    const changes: string[] = [];
+    if (args.name !== undefined) {
+      const name = await validateRoleName(ctx, args.name, role._id);
+      if (name !== role.name) {
+        updates.name = name;
+        changes.push(`name: ${role.name} → ${name}`);
       }
     }
+    if (args.description !== undefined) {
+      const description = args.description.trim() || undefined;
+      if (description !== role.description) {
+        updates.description = description;
+        changes.push("description updated");
+      }
+    }
+    if (args.permissions !== undefined) {
+      const permissions = validatePermissions(args.permissions);
+      await requireGrantable(ctx, currentUser, permissions);
+      updates.permissions = permissions;
+      changes.push(
+        `permissions: ${describePermissionChange(role.permissions, permissions)}`,
+      );
+    }
 
-    return {
-      success: true,
-      updated: usersWithRole.filter((u) => u.role === args.role).length,
-    };
+    if (changes.length === 0) return;
+
+    await ctx.db.patch(role._id, { ...updates, updatedAt: Date.now() });
+
+    await ctx.db.insert("auditLogs", {
+      userId: currentUser._id,
+      action: `Updated role ${role.name}`,
+      entityType: "role",
+      entityId: role._id,
+      changes: changes.join("; "),
+      timestamp: Date.now(),
+    });
+  },
+});
+
+// Delete a custom role. Its members fall back to their built-in role.
+export const deleteRole = mutation({
+  args: { roleId: v.id("roles") },
+  handler: async (ctx, args) => {
+    const currentUser = await requirePermission(ctx, PERMISSIONS.MANAGE_ROLES);
+    const role = await ctx.db.get(args.roleId);
+    if (!role) {
+      throw new ConvexError({
+        message: "Role not found",
+        code: "NOT_FOUND",
+      });
+    }
+    if (role.key) {
+      throw new ConvexError({
+        message: "Built-in roles can't be deleted",
+        code: "BAD_REQUEST",
+      });
+    }
+    await requireGrantable(ctx, currentUser, role.permissions);
+
+    const members = await ctx.db
+      .query("users")
+      .withIndex("by_role_id", (q) => q.eq("roleId", args.roleId))
+      .collect();
+    for (const member of members) {
+      await ctx.db.patch(member._id, { roleId: undefined });
+    }
+    await ctx.db.delete(args.roleId);
+
+    await ctx.db.insert("auditLogs", {
+      userId: currentUser._id,
+      action: `Deleted role ${role.name}`,
+      entityType: "role",
+      entityId: args.roleId,
+      changes: `members moved to their built-in role: ${members.length}`,
+      timestamp: Date.now(),
+    });
   },
 });
 
@@ -263,7 +553,7 @@ export const ensureSuperAdmin = mutation({
     if (superAdminUser && superAdminUser.role !== "owner") {
       await ctx.db.patch(superAdminUser._id, {
         role: "owner",
-        permissions: DEFAULT_PERMISSIONS.owner,
+        roleId: undefined,
       });
       return { updated: true, userId: superAdminUser._id };
     }
@@ -275,11 +565,75 @@ export const ensureSuperAdmin = mutation({
   },
 });
 
+// One-off migration: drop the legacy isAdmin/adminPermissions fields and the
+// permission arrays that used to be copied onto each account. Nothing is
+// granted in their place: the legacy flags could be self-granted, so an
+// owner re-grants anyone who should keep access. Each account that loses a
+// legacy admin flag gets an audit entry recording what it had.
+// Run with: npx convex run roles:migrateLegacyAdminFields
+export const migrateLegacyAdminFields = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("users")
+      .paginate({ cursor: args.cursor ?? null, numItems: 100 });
+
+    let migrated = 0;
+    const flagged: Id<"users">[] = [];
+    for (const user of page) {
+      if (
+        user.isAdmin === undefined &&
+        user.adminPermissions === undefined &&
+        user.permissions === undefined
+      ) {
+        continue;
+      }
+
+      await ctx.db.patch(user._id, {
+        isAdmin: undefined,
+        adminPermissions: undefined,
+        permissions: undefined,
+      });
+      migrated++;
+
+      if (user.isAdmin || (user.adminPermissions?.length ?? 0) > 0) {
+        flagged.push(user._id);
+        await ctx.db.insert("auditLogs", {
+          userId: user._id,
+          action: "Cleared legacy admin access",
+          entityType: "user",
+          entityId: user._id,
+          changes: JSON.stringify({
+            isAdmin: user.isAdmin ?? false,
+            adminPermissions: user.adminPermissions ?? [],
+            note: "Not migrated to a role; re-grant explicitly if still needed",
+          }),
+          timestamp: Date.now(),
+        });
+      }
+    }
+
+    console.log("[migrateLegacyAdminFields] Migrated batch", {
+      migrated,
+      clearedLegacyAdmins: flagged,
+      isDone,
+    });
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.roles.migrateLegacyAdminFields, {
+        cursor: continueCursor,
+      });
+    }
+  },
+});
+
 // Get user by ID (admin only)
 export const getUserById = query({
   args: { userId: v.id("users") },
   handler: async (ctx, args) => {
-    await requireAdminOrOwner(ctx);
+    await requirePermission(ctx, PERMISSIONS.VIEW_USERS);
 
     const user = await ctx.db.get(args.userId);
     if (!user) {
@@ -289,7 +643,8 @@ export const getUserById = query({
       });
     }
 
-    return user;
+    const [withRoleName] = await getRoleNames(ctx, [user]);
+    return withRoleName;
   },
 });
 
@@ -304,7 +659,8 @@ export const updateAccountStatus = mutation({
     ),
   },
   handler: async (ctx, args) => {
-    const currentUser = await requireAdminOrOwner(ctx);
+    const currentUser = await requirePermission(ctx, PERMISSIONS.BAN_USERS);
+    await getManageableUser(ctx, currentUser, args.userId);
 
     await ctx.db.patch(args.userId, {
       accountStatus: args.status,
@@ -329,7 +685,8 @@ export const restrictAccountAccess = mutation({
     restricted: v.boolean(),
   },
   handler: async (ctx, args) => {
-    const currentUser = await requireAdminOrOwner(ctx);
+    const currentUser = await requirePermission(ctx, PERMISSIONS.BAN_USERS);
+    await getManageableUser(ctx, currentUser, args.userId);
 
     await ctx.db.patch(args.userId, {
       accountAccessRestricted: args.restricted,
@@ -353,7 +710,7 @@ export const restrictAccountAccess = mutation({
 export const getAdminNotes = query({
   args: { userId: v.id("users") },
   handler: async (ctx, args) => {
-    await requireAdminOrOwner(ctx);
+    await requirePermission(ctx, PERMISSIONS.VIEW_USERS);
 
     const notes = await ctx.db
       .query("adminNotes")
@@ -383,7 +740,7 @@ export const addAdminNote = mutation({
     content: v.string(),
   },
   handler: async (ctx, args) => {
-    const currentUser = await requireAdminOrOwner(ctx);
+    const currentUser = await requirePermission(ctx, PERMISSIONS.EDIT_USERS);
 
     const noteId = await ctx.db.insert("adminNotes", {
       userId: args.userId,
@@ -400,7 +757,7 @@ export const addAdminNote = mutation({
 export const deleteAdminNote = mutation({
   args: { noteId: v.id("adminNotes") },
   handler: async (ctx, args) => {
-    await requireOwner(ctx);
+    await requirePermission(ctx, PERMISSIONS.DELETE_USERS);
     await ctx.db.delete(args.noteId);
   },
 });
@@ -409,7 +766,8 @@ export const deleteAdminNote = mutation({
 export const archiveUser = mutation({
   args: { userId: v.id("users") },
   handler: async (ctx, args) => {
-    const currentUser = await requireAdminOrOwner(ctx);
+    const currentUser = await requirePermission(ctx, PERMISSIONS.EDIT_USERS);
+    await getManageableUser(ctx, currentUser, args.userId);
 
     await ctx.db.patch(args.userId, {
       archived: true,
@@ -432,7 +790,8 @@ export const archiveUser = mutation({
 export const unarchiveUser = mutation({
   args: { userId: v.id("users") },
   handler: async (ctx, args) => {
-    const currentUser = await requireAdminOrOwner(ctx);
+    const currentUser = await requirePermission(ctx, PERMISSIONS.EDIT_USERS);
+    await getManageableUser(ctx, currentUser, args.userId);
 
     await ctx.db.patch(args.userId, {
       archived: false,
@@ -455,7 +814,7 @@ export const unarchiveUser = mutation({
 export const getCallLogs = query({
   args: { userId: v.id("users") },
   handler: async (ctx, args) => {
-    await requireAdminOrOwner(ctx);
+    await requirePermission(ctx, PERMISSIONS.VIEW_USERS);
 
     const logs = await ctx.db
       .query("callLogs")
@@ -489,7 +848,7 @@ export const addCallLog = mutation({
     callDate: v.number(),
   },
   handler: async (ctx, args) => {
-    const currentUser = await requireAdminOrOwner(ctx);
+    const currentUser = await requirePermission(ctx, PERMISSIONS.EDIT_USERS);
 
     const logId = await ctx.db.insert("callLogs", {
       userId: args.userId,
@@ -510,7 +869,7 @@ export const addCallLog = mutation({
 export const getMemberFiles = query({
   args: { userId: v.id("users") },
   handler: async (ctx, args) => {
-    await requireAdminOrOwner(ctx);
+    await requirePermission(ctx, PERMISSIONS.VIEW_USERS);
 
     const files = await ctx.db
       .query("memberFiles")
@@ -537,7 +896,7 @@ export const getMemberFiles = query({
 export const generateMemberFileUploadUrl = mutation({
   args: {},
   handler: async (ctx) => {
-    await requireAdminOrOwner(ctx);
+    await requirePermission(ctx, PERMISSIONS.EDIT_USERS);
     return await ctx.storage.generateUploadUrl();
   },
 });
@@ -553,7 +912,7 @@ export const addMemberFile = mutation({
     description: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const currentUser = await requireAdminOrOwner(ctx);
+    const currentUser = await requirePermission(ctx, PERMISSIONS.EDIT_USERS);
 
     const fileId = await ctx.db.insert("memberFiles", {
       userId: args.userId,
@@ -574,7 +933,7 @@ export const addMemberFile = mutation({
 export const deleteMemberFile = mutation({
   args: { fileId: v.id("memberFiles") },
   handler: async (ctx, args) => {
-    await requireAdminOrOwner(ctx);
+    await requirePermission(ctx, PERMISSIONS.EDIT_USERS);
 
     const file = await ctx.db.get(args.fileId);
     if (file) {
@@ -589,7 +948,7 @@ export const deleteMemberFile = mutation({
 export const getMemberFileUrl = query({
   args: { storageId: v.id("_storage") },
   handler: async (ctx, args) => {
-    await requireAdminOrOwner(ctx);
+    await requirePermission(ctx, PERMISSIONS.VIEW_USERS);
     return await ctx.storage.getUrl(args.storageId);
   },
 });
@@ -2,6 +2,50 @@ import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 import { authTables } from "@convex-dev/auth/server";
 
+// GeoJSON geometry for parcel and hunting unit boundaries
+const boundaryGeometry = v.union(
+  v.object({
+    type: v.literal("Polygon"),
+    coordinates: v.array(v.array(v.array(v.number()))),
+  }),
+  v.object({
+    type: v.literal("MultiPolygon"),
+    coordinates: v.array(v.array(v.array(v.array(v.number())))),
+  }),
+);
+
+// A photo on a hunt or on one of its harvest entries
+const huntPhoto = v.object({
+  storageId: v.id("_storage"),
+  caption: v.optional(v.string()),
+  uploadedAt: v.number(),
+});
+
+// Weather, moon and solunar conditions captured when a hunt starts or
+// ends. Each part is optional: a lookup that fails is left out.
+const huntConditions = v.object({
+  capturedAt: v.number(),
+  description: v.optional(v.string()),
+  temperature: v.optional(v.number()), // °F
+  humidity: v.optional(v.number()),
+  pressure: v.optional(v.number()), // hPa
+  pressureTrend: v.optional(
+    v.union(v.literal("rising"), v.literal("falling"), v.literal("steady")),
+  ),
+  windSpeed: v.optional(v.number()), // mph
+  windDirection: v.optional(v.number()), // degrees
+  windGust: v.optional(v.number()),
+  moonPhase: v.optional(v.string()),
+  moonIllumination: v.optional(v.number()),
+  solunarDayRating: v.optional(v.number()),
+  majorPeriods: v.optional(
+    v.array(v.object({ start: v.number(), end: v.number() })),
+  ),
+  minorPeriods: v.optional(
+    v.array(v.object({ start: v.number(), end: v.number() })),
+  ),
+});
+
 export default defineSchema({
   ...authTables,
   users: defineTable({
@@ -29,6 +73,7 @@ export default defineSchema({
         name: v.string(),
         phone: v.string(),
         relationship: v.string(),
+        email: v.optional(v.string()), // Used for SOS alert emails
       }),
     ),
     emergencyContact2: v.optional(
@@ -36,6 +81,7 @@ export default defineSchema({
         name: v.string(),
         phone: v.string(),
         relationship: v.string(),
+        email: v.optional(v.string()), // Used for SOS alert emails
       }),
     ),
     emergencyContact3: v.optional(
@@ -43,6 +89,7 @@ export default defineSchema({
         name: v.string(),
         phone: v.string(),
         relationship: v.string(),
+        email: v.optional(v.string()), // Used for SOS alert emails
       }),
     ),
 
@@ -65,11 +112,23 @@ export default defineSchema({
     // Member identification
     memberNumber: v.optional(v.string()), // Unique member number (e.g., "M-00001")
 
-    // Roles and permissions
+    // Roles and permissions. A custom role, when set, decides the member's
+    // permissions instead of their built-in role.
     role: v.optional(
       v.union(v.literal("owner"), v.literal("admin"), v.literal("member")),
     ),
-    permissions: v.optional(v.array(v.string())),
+    roleId: v.optional(v.id("roles")),
+    permissions: v.optional(v.array(v.string())), // Deprecated: permissions come from the role
+
+    // Who can find this member in friend search. Unset means findable by
+    // name, username, email and phone.
+    discoverability: v.optional(
+      v.object({
+        searchable: v.boolean(), // false hides the member from search entirely
+        byEmail: v.boolean(),
+        byPhone: v.boolean(),
+      }),
+    ),
 
     // Account status
     accountStatus: v.optional(
@@ -89,14 +148,34 @@ export default defineSchema({
     forumBanExpiresAt: v.optional(v.number()), // When current ban expires (null = not banned)
     forumBanReason: v.optional(v.string()), // Reason for current ban
 
-    // Legacy admin fields (deprecated, use role/permissions instead)
+    // Legacy admin fields (deprecated, use role/permissions instead). Cleared
+    // by roles:migrateLegacyAdminFields.
     isAdmin: v.optional(v.boolean()),
     adminPermissions: v.optional(v.array(v.string())),
   })
     .index("admin", ["isAdmin"])
     .index("username", ["username"])
     .index("phone", ["phoneNumber"])
-    .index("email", ["email"]),
+    .index("email", ["email"])
+    .index("forum_ban", ["forumBanExpiresAt"])
+    .index("by_role_id", ["roleId"]),
+
+  // Permission sets. The built-in owner, admin and member roles carry a key;
+  // the rest are custom roles such as "Support agent". Built-in rows are
+  // created the first time roles are edited, until then the defaults apply.
+  roles: defineTable({
+    key: v.optional(
+      v.union(v.literal("owner"), v.literal("admin"), v.literal("member")),
+    ),
+    name: v.string(),
+    description: v.optional(v.string()),
+    permissions: v.array(v.string()),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_key", ["key"])
+    .index("by_name", ["name"]),
 
   adminNotes: defineTable({
     userId: v.id("users"), // The user the note is about
@@ -169,11 +248,8 @@ export default defineSchema({
     propertyType: v.string(), // "public", "private", "state", "federal"
     landUse: v.optional(v.string()),
 
-    // Boundary data (GeoJSON polygon coordinates)
-    boundaries: v.object({
-      type: v.literal("Polygon"),
-      coordinates: v.array(v.array(v.array(v.number()))),
-    }),
+    // Boundary data (GeoJSON Polygon or MultiPolygon coordinates)
+    boundaries: boundaryGeometry,
 
     // Center point for quick map queries
     centerLat: v.number(),
@@ -197,10 +273,7 @@ export default defineSchema({
     regulations: v.optional(v.string()),
 
     // Boundary data
-    boundaries: v.object({
-      type: v.literal("Polygon"),
-      coordinates: v.array(v.array(v.array(v.number()))),
-    }),
+    boundaries: boundaryGeometry,
 
     centerLat: v.number(),
     centerLng: v.number(),
@@ -214,6 +287,20 @@ export default defineSchema({
     .index("by_state", ["state"])
     .index("by_type", ["type"]),
 
+  // Geohash cell index over polygon layers (see convex/_geoIndex.ts)
+  geoIndex: defineTable({
+    entityType: v.string(), // "property", "huntingUnit"
+    entityId: v.string(),
+    cell: v.string(),
+    // Bounding box of the whole entity, for exact viewport checks
+    minLat: v.number(),
+    maxLat: v.number(),
+    minLng: v.number(),
+    maxLng: v.number(),
+  })
+    .index("by_type_cell", ["entityType", "cell"])
+    .index("by_entity", ["entityType", "entityId"]),
+
   tracks: defineTable({
     userId: v.id("users"),
     name: v.string(),
@@ -226,18 +313,29 @@ export default defineSchema({
     elevationLoss: v.optional(v.number()),
     averageSpeed: v.optional(v.number()),
     maxSpeed: v.optional(v.number()),
+    movingTime: v.optional(v.number()), // in seconds
+    stoppedTime: v.optional(v.number()), // in seconds
 
-    // Track data (array of coordinates)
-    coordinates: v.array(
-      v.object({
-        lat: v.number(),
-        lng: v.number(),
-        timestamp: v.number(),
-        altitude: v.optional(v.number()),
-        accuracy: v.optional(v.number()),
-      }),
+    // Douglas–Peucker simplified path for display, set when a track is saved
+    simplifiedPath: v.optional(
+      v.array(v.object({ lat: v.number(), lng: v.number() })),
     ),
 
+    // Legacy inline track data; points now live in trackSegments
+    coordinates: v.optional(
+      v.array(
+        v.object({
+          lat: v.number(),
+          lng: v.number(),
+          timestamp: v.number(),
+          altitude: v.optional(v.number()),
+          accuracy: v.optional(v.number()),
+        }),
+      ),
+    ),
+    pointCount: v.optional(v.number()),
+    segmentCount: v.optional(v.number()),
+
     // Timestamps
     startTime: v.number(),
     endTime: v.number(),
@@ -249,6 +347,26 @@ export default defineSchema({
     .index("by_user_active", ["userId", "isActive"])
     .index("by_start_time", ["startTime"]),
 
+  // Fixed-size chunks of track points, ordered by index within a track
+  trackSegments: defineTable({
+    trackId: v.id("tracks"),
+    userId: v.id("users"),
+    index: v.number(),
+    points: v.array(
+      v.object({
+        lat: v.number(),
+        lng: v.number(),
+        timestamp: v.number(),
+        altitude: v.optional(v.number()),
+        accuracy: v.optional(v.number()),
+      }),
+    ),
+    startTime: v.number(),
+    endTime: v.number(),
+    // Path length of this chunk, including the hop from the previous chunk
+    distance: v.number(),
+  }).index("by_track_index", ["trackId", "index"]),
+
   waypoints: defineTable({
     userId: v.id("users"),
     name: v.string(),
@@ -284,10 +402,58 @@ export default defineSchema({
     respondedAt: v.optional(v.number()),
   })
     .index("by_from_user", ["fromUserId"])
+    .index("by_from_user_created", ["fromUserId", "createdAt"])
     .index("by_to_user", ["toUserId"])
     .index("by_status", ["status"])
     .index("by_to_user_status", ["toUserId", "status"]),
 
+  // Named groups of friends ("Deer camp crew"). The owner manages the
+  // group; members can see it and share with it.
+  friendGroups: defineTable({
+    ownerId: v.id("users"),
+    name: v.string(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_owner", ["ownerId"]),
+
+  friendGroupMembers: defineTable({
+    groupId: v.id("friendGroups"),
+    userId: v.id("users"),
+    addedAt: v.number(),
+  })
+    .index("by_group", ["groupId", "userId"])
+    .index("by_user", ["userId"]),
+
+  // Tracks and waypoints shared by their owner. Each row grants access to
+  // one target: a friend group, a single friend, all of the owner's
+  // friends, or anyone holding the link token.
+  mapItemShares: defineTable({
+    ownerId: v.id("users"),
+    itemType: v.union(v.literal("track"), v.literal("waypoint")),
+    itemId: v.union(v.id("tracks"), v.id("waypoints")),
+    groupId: v.optional(v.id("friendGroups")),
+    userId: v.optional(v.id("users")),
+    allFriends: v.optional(v.boolean()),
+    linkToken: v.optional(v.string()),
+    // Unset means read-only; link shares are always read-only
+    permission: v.optional(v.union(v.literal("read"), v.literal("edit"))),
+    createdAt: v.number(),
+  })
+    .index("by_item", ["itemId"])
+    .index("by_group", ["groupId"])
+    .index("by_user", ["userId"])
+    .index("by_owner_all_friends", ["ownerId", "allFriends"])
+    .index("by_link_token", ["linkToken"]),
+
+  // Members one user has blocked (see convex/_blocks.ts)
+  userBlocks: defineTable({
+    blockerId: v.id("users"),
+    blockedId: v.id("users"),
+    createdAt: v.number(),
+  })
+    .index("by_blocker", ["blockerId", "blockedId"])
+    .index("by_blocked", ["blockedId", "blockerId"]),
+
   friendships: defineTable({
     user1Id: v.id("users"),
     user2Id: v.id("users"),
@@ -307,15 +473,17 @@ export default defineSchema({
 
     // Sharing settings
     isActive: v.boolean(),
-    shareWith: v.string(), // "all_friends", "selected_friends", "none"
+    shareWith: v.string(), // "all_friends", "selected_friends", "groups", "none"
     selectedFriends: v.optional(v.array(v.id("users"))),
+    selectedGroups: v.optional(v.array(v.id("friendGroups"))),
 
     // Timestamps
     lastUpdated: v.number(),
     expiresAt: v.optional(v.number()), // optional auto-expire time
   })
     .index("by_user", ["userId"])
-    .index("by_active", ["isActive"]),
+    .index("by_active", ["isActive"])
+    .index("by_expires", ["expiresAt"]),
 
   scoutingTrips: defineTable({
     creatorId: v.id("users"),
@@ -347,6 +515,8 @@ export default defineSchema({
     .index("by_creator", ["creatorId"])
     .index("by_status", ["status"])
     .index("by_start_date", ["startDate"])
+    .index("by_status_start_date", ["status", "startDate"])
+    .index("by_status_end_date", ["status", "endDate"])
     .index("by_activity", ["activityType"])
     .index("by_privacy", ["privacy"]),
 
@@ -477,6 +647,7 @@ export default defineSchema({
   })
     .index("by_lease", ["leaseId"])
     .index("by_from_user", ["fromUserId"])
+    .index("by_from_user_created", ["fromUserId", "createdAt"])
     .index("by_to_user", ["toUserId"])
     .index("by_status", ["status"])
     .index("by_to_user_status", ["toUserId", "status"]),
@@ -504,6 +675,10 @@ export default defineSchema({
     windSpeed: v.optional(v.number()),
     windDirection: v.optional(v.string()),
 
+    // Captured by the server when the hunt starts and ends
+    startConditions: v.optional(huntConditions),
+    endConditions: v.optional(huntConditions),
+
     // Hunt results
     status: v.string(), // "active", "completed", "unsuccessful"
     successful: v.boolean(),
@@ -520,12 +695,13 @@ export default defineSchema({
           points: v.optional(v.number()), // for antlered game
           time: v.number(),
           notes: v.optional(v.string()),
+          photos: v.optional(v.array(huntPhoto)),
         }),
       ),
     ),
 
-    // Photos
-    photos: v.optional(v.array(v.string())),
+    // Photos of the hunt itself; harvest photos live on their entry
+    photos: v.optional(v.array(huntPhoto)),
 
     // Notes and observations
     notes: v.optional(v.string()),
@@ -535,17 +711,43 @@ export default defineSchema({
     trackId: v.optional(v.id("tracks")),
     propertyId: v.optional(v.id("properties")),
 
+    // Check-in safety timer: if the hunter hasn't ended the hunt or checked
+    // in by expectedReturnAt they get a reminder, then contacts are alerted
+    expectedReturnAt: v.optional(v.number()),
+    checkInStatus: v.optional(
+      v.union(
+        v.literal("pending"),
+        v.literal("reminded"),
+        v.literal("escalated"),
+        v.literal("checked_in"),
+      ),
+    ),
+    nextCheckInActionAt: v.optional(v.number()), // When the cron acts next; unset once settled
+    checkedInAt: v.optional(v.number()),
+    overdueAlertId: v.optional(v.id("emergencyAlerts")),
+
     // Metadata
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_user", ["userId"])
+    .index("by_next_check_in", ["nextCheckInActionAt"])
     .index("by_date", ["date"])
     .index("by_user_date", ["userId", "date"])
     .index("by_species", ["species"])
     .index("by_status", ["status"])
     .index("by_user_status", ["userId", "status"]),
 
+  // One row per hunt photo upload URL issued, so a storage ID is only ever
+  // attached, or deleted, by the user who uploaded it. storageId is set
+  // once the upload is claimed by addHuntPhoto.
+  huntPhotoUploads: defineTable({
+    userId: v.id("users"),
+    storageId: v.optional(v.id("_storage")),
+    createdAt: v.number(),
+  })
+    .index("by_storage", ["storageId", "createdAt"]),
+
   forumPosts: defineTable({
     authorId: v.id("users"),
     title: v.string(),
@@ -646,6 +848,7 @@ export default defineSchema({
     lat: v.number(),
     lng: v.number(),
     locationName: v.optional(v.string()),
+    geohash: v.optional(v.string()), // Point geohash (see convex/_geoPoints.ts)
 
     // Images
     photos: v.optional(v.array(v.string())),
@@ -661,6 +864,11 @@ export default defineSchema({
     lastFollowUpAt: v.optional(v.number()), // When last follow-up was sent
     nextFollowUpAt: v.optional(v.number()), // When next follow-up should be sent
 
+    // Requester's live location, shown to accepted responders
+    ownerLiveLocation: v.optional(
+      v.object({ lat: v.number(), lng: v.number(), updatedAt: v.number() }),
+    ),
+
     // Close tracking
     closedAt: v.optional(v.number()),
     closedBy: v.optional(v.id("users")),
@@ -674,13 +882,15 @@ export default defineSchema({
     .index("by_user", ["userId"])
     .index("by_status", ["status"])
     .index("by_created", ["createdAt"])
-    .index("by_location", ["lat", "lng"])
+    .index("by_status_geohash", ["status", "geohash"])
     .index("by_next_followup", ["nextFollowUpAt"]),
 
   vehicleRecoveryComments: defineTable({
     requestId: v.id("vehicleRecoveryRequests"),
     userId: v.id("users"),
     content: v.string(),
+    // Set on responder workflow entries (see convex/_recoveryResponders.ts)
+    event: v.optional(v.string()),
     createdAt: v.number(),
   })
     .index("by_request", ["requestId"])
@@ -698,6 +908,7 @@ export default defineSchema({
     lat: v.number(),
     lng: v.number(),
     locationName: v.optional(v.string()),
+    geohash: v.optional(v.string()), // Point geohash (see convex/_geoPoints.ts)
 
     // Deer details
     shotPlacement: v.optional(v.string()), // "quartered_away", "quartering_to", "broadside"
@@ -717,6 +928,11 @@ export default defineSchema({
     lastFollowUpAt: v.optional(v.number()), // When last follow-up was sent
     nextFollowUpAt: v.optional(v.number()), // When next follow-up should be sent
 
+    // Requester's live location, shown to accepted responders
+    ownerLiveLocation: v.optional(
+      v.object({ lat: v.number(), lng: v.number(), updatedAt: v.number() }),
+    ),
+
     // Close tracking
     closedAt: v.optional(v.number()),
     closedBy: v.optional(v.id("users")),
@@ -730,13 +946,15 @@ export default defineSchema({
     .index("by_user", ["userId"])
     .index("by_status", ["status"])
     .index("by_created", ["createdAt"])
-    .index("by_location", ["lat", "lng"])
+    .index("by_status_geohash", ["status", "geohash"])
     .index("by_next_followup", ["nextFollowUpAt"]),
 
   deerRecoveryComments: defineTable({
     requestId: v.id("deerRecoveryRequests"),
     userId: v.id("users"),
     content: v.string(),
+    // Set on responder workflow entries (see convex/_recoveryResponders.ts)
+    event: v.optional(v.string()),
     createdAt: v.number(),
   })
     .index("by_request", ["requestId"])
@@ -768,7 +986,7 @@ export default defineSchema({
 
   notifications: defineTable({
     userId: v.id("users"),
-    type: v.string(), // "post_approved", "post_rejected", etc.
+    type: v.string(), // A kind from NOTIFICATION_KINDS in _notificationKinds.ts
     title: v.string(),
     message: v.string(),
     relatedId: v.optional(v.string()), // ID of related entity (post, etc.)
@@ -779,6 +997,104 @@ export default defineSchema({
     .index("by_user_read", ["userId", "isRead"])
     .index("by_created", ["createdAt"]),
 
+  // Per-user notification settings. Channel overrides are only stored for
+  // kinds the user changed; the rest use the catalog in _notifications.ts.
+  notificationPreferences: defineTable({
+    userId: v.id("users"),
+    channels: v.optional(
+      v.array(
+        v.object({
+          kind: v.string(),
+          inApp: v.boolean(),
+          email: v.boolean(),
+          push: v.boolean(),
+        }),
+      ),
+    ),
+    quietHours: v.optional(
+      v.object({
+        startMinute: v.number(), // Local minutes after midnight
+        endMinute: v.number(),
+      }),
+    ),
+    utcOffsetMinutes: v.number(), // Local time minus UTC, from the browser
+    digest: v.union(v.literal("off"), v.literal("hourly"), v.literal("daily")),
+    nextDigestAt: v.optional(v.number()), // Set while emails are held
+    // Alerts for new recovery requests near the user's last location
+    recoveryAlertRadiusMiles: v.optional(v.number()),
+    lastLocation: v.optional(
+      v.object({ lat: v.number(), lng: v.number(), updatedAt: v.number() }),
+    ),
+    // Point geohash of lastLocation (see convex/_geoPoints.ts)
+    lastLocationGeohash: v.optional(v.string()),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_next_digest", ["nextDigestAt"])
+    .index("by_last_location_geohash", ["lastLocationGeohash"]),
+
+  // Members helping with a deer or vehicle recovery request
+  recoveryResponders: defineTable({
+    requestId: v.union(
+      v.id("deerRecoveryRequests"),
+      v.id("vehicleRecoveryRequests"),
+    ),
+    userId: v.id("users"),
+    status: v.union(
+      v.literal("offered"),
+      v.literal("accepted"),
+      v.literal("declined"),
+      v.literal("withdrawn"),
+      v.literal("completed"),
+    ),
+    message: v.optional(v.string()),
+    etaAt: v.optional(v.number()),
+    // Shared with the requester and other accepted responders
+    liveLocation: v.optional(
+      v.object({ lat: v.number(), lng: v.number(), updatedAt: v.number() }),
+    ),
+    // Left by the requester on completion
+    rating: v.optional(v.number()), // 1-5
+    thankYouNote: v.optional(v.string()),
+    offeredAt: v.number(),
+    acceptedAt: v.optional(v.number()),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_request", ["requestId"])
+    .index("by_request_user", ["requestId", "userId"])
+    .index("by_user_status", ["userId", "status"]),
+
+  // Volunteers told about a recovery request, for the request owner
+  recoveryVolunteerAlerts: defineTable({
+    requestType: v.union(v.literal("deer"), v.literal("vehicle")),
+    requestId: v.string(),
+    userId: v.id("users"),
+    distanceMiles: v.number(),
+    notifiedAt: v.number(),
+  }).index("by_request", ["requestId"]),
+
+  // Web Push subscriptions, one per browser or device
+  pushSubscriptions: defineTable({
+    userId: v.id("users"),
+    endpoint: v.string(),
+    p256dh: v.string(),
+    auth: v.string(),
+    userAgent: v.optional(v.string()),
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_endpoint", ["endpoint"]),
+
+  // Emails waiting for the recipient's digest or the end of quiet hours
+  heldNotificationEmails: defineTable({
+    userId: v.id("users"),
+    kind: v.string(),
+    title: v.string(),
+    message: v.string(),
+    relatedId: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_user", ["userId"]),
+
   supportTickets: defineTable({
     userId: v.id("users"),
     subject: v.string(),
@@ -826,6 +1142,58 @@ export default defineSchema({
     .index("by_user", ["userId"])
     .index("by_ticket_created", ["ticketId", "createdAt"]),
 
+  // SOS alerts raised by a member. Responders follow the alert through its
+  // shareToken link, which works without an account.
+  emergencyAlerts: defineTable({
+    userId: v.id("users"),
+    status: v.union(
+      v.literal("active"),
+      v.literal("resolved"),
+      v.literal("cancelled"),
+    ),
+    // "sos" when raised by the member, "overdue" from a missed hunt check-in
+    source: v.optional(v.union(v.literal("sos"), v.literal("overdue"))),
+    message: v.optional(v.string()),
+    shareToken: v.string(),
+
+    // Hunt the member didn't check in from (overdue alerts)
+    huntId: v.optional(v.id("hunts")),
+    huntLocation: v.optional(
+      v.object({ name: v.string(), lat: v.number(), lng: v.number() }),
+    ),
+
+    // Last known position, kept current while the alert is active
+    lat: v.number(),
+    lng: v.number(),
+    accuracy: v.optional(v.number()),
+    locationUpdatedAt: v.number(),
+
+    // Recent movement: the tail of the active track, then live updates
+    trackId: v.optional(v.id("tracks")),
+    breadcrumb: v.array(
+      v.object({ lat: v.number(), lng: v.number(), timestamp: v.number() }),
+    ),
+
+    // Who was told about the alert
+    notifiedContacts: v.array(
+      v.object({
+        name: v.string(),
+        phone: v.string(),
+        relationship: v.string(),
+        email: v.optional(v.string()),
+        userId: v.optional(v.id("users")), // Contact who is also a member
+      }),
+    ),
+    notifiedUserIds: v.array(v.id("users")),
+
+    createdAt: v.number(),
+    resolvedAt: v.optional(v.number()),
+    resolutionNote: v.optional(v.string()),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_status", ["userId", "status"])
+    .index("by_share_token", ["shareToken"]),
+
   // Track active viewers/editors for real-time collaboration
   activeViewers: defineTable({
     entityType: v.string(), // "supportTicket", "forumPost", etc.
@@ -1,7 +1,11 @@
 import { ConvexError, v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
 import type { Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { sendNotification } from "./_notifications";
+import { getBlockedUserIds, isBlockedEitherWay } from "./_blocks";
+import { getGroupMemberIds, getGroupsForSharing } from "./_friendGroups";
+import { areFriends } from "./_mapItemShares";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -44,6 +48,20 @@ async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
   return null;
 }
 
+async function getInvitation(
+  ctx: QueryCtx | MutationCtx,
+  tripId: Id<"scoutingTrips">,
+  userId: Id<"users">,
+) {
+  return await ctx.db
+    .query("scoutingTripParticipants")
+    .withIndex("by_trip_status", (q) =>
+      q.eq("tripId", tripId).eq("status", "invited"),
+    )
+    .filter((q) => q.eq(q.field("userId"), userId))
+    .first();
+}
+
 // Create a new scouting trip
 export const createTrip = mutation({
   args: {
@@ -69,6 +87,13 @@ export const createTrip = mutation({
       });
     }
 
+    if (args.endDate < args.startDate) {
+      throw new ConvexError({
+        message: "End date must be after start date",
+        code: "BAD_REQUEST",
+      });
+    }
+
     // Create the trip
     const tripId = await ctx.db.insert("scoutingTrips", {
       creatorId: user._id,
@@ -218,6 +243,7 @@ export const getAvailableTrips = query({
       ...friendships1.map((f) => f.user2Id),
       ...friendships2.map((f) => f.user1Id),
     ];
+    const blockedIds = await getBlockedUserIds(ctx, user._id);
 
     // Get all upcoming trips
     let allTrips = await ctx.db
@@ -238,8 +264,9 @@ export const getAvailableTrips = query({
     // Filter trips based on privacy and get details
     const availableTrips = await Promise.all(
       allTrips.map(async (trip) => {
-        // Skip trips created by the user
+        // Skip trips created by the user or by someone blocked either way
         if (trip.creatorId === user._id) return null;
+        if (blockedIds.has(trip.creatorId)) return null;
 
         // Check privacy settings
         if (trip.privacy === "private") return null;
@@ -340,6 +367,13 @@ export const getTripDetails = query({
     // Check if current user is a participant
     const userParticipation = participations.find((p) => p.userId === user._id);
 
+    const invitations = await ctx.db
+      .query("scoutingTripParticipants")
+      .withIndex("by_trip_status", (q) =>
+        q.eq("tripId", args.tripId).eq("status", "invited"),
+      )
+      .collect();
+
     return {
       ...trip,
       creatorName: creator?.name || "Unknown",
@@ -347,6 +381,10 @@ export const getTripDetails = query({
       participants,
       isParticipant: !!userParticipation,
       userRole: userParticipation?.role,
+      isInvited: invitations.some((p) => p.userId === user._id),
+      // Only the organizer sees who else was invited
+      invitedUserIds:
+        trip.creatorId === user._id ? invitations.map((p) => p.userId) : [],
     };
   },
 });
@@ -380,6 +418,14 @@ export const joinTrip = mutation({
       });
     }
 
+    // Trips by a blocked organizer look the same as missing ones
+    if (await isBlockedEitherWay(ctx, user._id, trip.creatorId)) {
+      throw new ConvexError({
+        message: "Trip not found",
+        code: "NOT_FOUND",
+      });
+    }
+
     // Check if already joined
     const existingParticipation = await ctx.db
       .query("scoutingTripParticipants")
@@ -411,6 +457,16 @@ export const joinTrip = mutation({
       });
     }
 
+    // Joining an invited trip accepts the invitation
+    const invitation = await getInvitation(ctx, args.tripId, user._id);
+    if (invitation) {
+      await ctx.db.patch(invitation._id, {
+        status: "joined",
+        joinedAt: Date.now(),
+      });
+      return { success: true };
+    }
+
     // Add participant
     await ctx.db.insert("scoutingTripParticipants", {
       tripId: args.tripId,
@@ -476,6 +532,178 @@ export const leaveTrip = mutation({
   },
 });
 
+// Invite friends to a trip (creator only), individually or by friend group.
+// People already on the trip or already invited are skipped.
+export const inviteFriends = mutation({
+  args: {
+    tripId: v.id("scoutingTrips"),
+    userIds: v.array(v.id("users")),
+    groupIds: v.optional(v.array(v.id("friendGroups"))),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not found. Please ensure your account has been created.",
+        code: "NOT_FOUND",
+      });
+    }
+
+    const trip = await ctx.db.get(args.tripId);
+    if (!trip) {
+      throw new ConvexError({
+        message: "Trip not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    if (trip.creatorId !== user._id) {
+      throw new ConvexError({
+        message: "Only the trip creator can invite people",
+        code: "FORBIDDEN",
+      });
+    }
+
+    if (trip.status !== "upcoming") {
+      throw new ConvexError({
+        message: "Cannot invite people to a trip that is not upcoming",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    // Fellow group members can be invited without being friends
+    const groupMemberIds = new Set<Id<"users">>();
+    const groups = await getGroupsForSharing(
+      ctx,
+      args.groupIds ?? [],
+      user._id,
+    );
+    for (const group of groups) {
+      for (const memberId of await getGroupMemberIds(ctx, group)) {
+        groupMemberIds.add(memberId);
+      }
+    }
+    const blockedIds = await getBlockedUserIds(ctx, user._id);
+
+    let invited = 0;
+    for (const userId of new Set([...args.userIds, ...groupMemberIds])) {
+      if (userId === user._id || blockedIds.has(userId)) continue;
+      if (
+        !groupMemberIds.has(userId) &&
+        !(await areFriends(ctx, user._id, userId))
+      ) {
+        continue;
+      }
+
+      const existing = await ctx.db
+        .query("scoutingTripParticipants")
+        .withIndex("by_trip", (q) => q.eq("tripId", args.tripId))
+        .filter((q) =>
+          q.and(
+            q.eq(q.field("userId"), userId),
+            q.or(
+              q.eq(q.field("status"), "joined"),
+              q.eq(q.field("status"), "invited"),
+            ),
+          ),
+        )
+        .first();
+      if (existing) continue;
+
+      await ctx.db.insert("scoutingTripParticipants", {
+        tripId: args.tripId,
+        userId,
+        status: "invited",
+        role: "participant",
+        joinedAt: Date.now(),
+      });
+      await sendNotification(ctx, {
+        userId,
+        kind: "trip_invite",
+        title: "Trip Invite",
+        message: `${user.name ?? "A friend"} invited you to "${trip.title}" at ${trip.locationName}.`,
+        relatedId: args.tripId,
+      });
+      invited++;
+    }
+
+    return { invited };
+  },
+});
+
+// Decline an invitation to a trip
+export const declineInvite = mutation({
+  args: {
+    tripId: v.id("scoutingTrips"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not found. Please ensure your account has been created.",
+        code: "NOT_FOUND",
+      });
+    }
+
+    const invitation = await getInvitation(ctx, args.tripId, user._id);
+    if (!invitation) {
+      throw new ConvexError({
+        message: "No invitation to this trip",
+        code: "NOT_FOUND",
+      });
+    }
+
+    await ctx.db.patch(invitation._id, { status: "declined" });
+
+    return { success: true };
+  },
+});
+
+// Get upcoming trips the user has been invited to
+export const getMyTripInvites = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not found. Please ensure your account has been created.",
+        code: "NOT_FOUND",
+      });
+    }
+
+    const invitations = await ctx.db
+      .query("scoutingTripParticipants")
+      .withIndex("by_user_status", (q) =>
+        q.eq("userId", user._id).eq("status", "invited"),
+      )
+      .collect();
+
+    const trips = await Promise.all(
+      invitations.map(async (invitation) => {
+        const trip = await ctx.db.get(invitation.tripId);
+        if (!trip || trip.status !== "upcoming") return null;
+
+        const participants = await ctx.db
+          .query("scoutingTripParticipants")
+          .withIndex("by_trip_status", (q) =>
+            q.eq("tripId", trip._id).eq("status", "joined"),
+          )
+          .collect();
+
+        const creator = await ctx.db.get(trip.creatorId);
+
+        return {
+          ...trip,
+          participantCount: participants.length,
+          creatorName: creator?.name || "Unknown",
+        };
+      }),
+    );
+
+    return trips.filter((t) => t !== null);
+  },
+});
+
 // Cancel a trip (creator only)
 export const cancelTrip = mutation({
   args: {
@@ -512,3 +740,50 @@ export const cancelTrip = mutation({
     return { success: true };
   },
 });
+
+// Move trips along upcoming -> in_progress -> completed by their dates
+// (run by the cron in crons.ts). Cancelled trips are left alone. startDate is
+// the start of the first day and endDate the end of the last, both in the
+// creator's timezone, so a trip stays in progress through its last day.
+export const updateTripStatuses = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+
+    const finishedTrips = await ctx.db
+      .query("scoutingTrips")
+      .withIndex("by_status_end_date", (q) =>
+        q.eq("status", "in_progress").lt("endDate", now),
+      )
+      .collect();
+
+    let started = 0;
+    let completed = 0;
+
+    for (const trip of finishedTrips) {
+      await ctx.db.patch(trip._id, { status: "completed" });
+      completed++;
+    }
+
+    const startedTrips = await ctx.db
+      .query("scoutingTrips")
+      .withIndex("by_status_start_date", (q) =>
+        q.eq("status", "upcoming").lte("startDate", now),
+      )
+      .collect();
+
+    // A trip that started and ended between runs goes straight to completed
+    for (const trip of startedTrips) {
+      if (trip.endDate < now) {
+        await ctx.db.patch(trip._id, { status: "completed" });
+        completed++;
+      } else {
+        await ctx.db.patch(trip._id, { status: "in_progress" });
+        started++;
+      }
+    }
+
+    console.log("[updateTripStatuses] Started:", started, "Completed:", completed);
+    return { started, completed };
+  },
+});
@@ -3,6 +3,7 @@ import { mutation, query } from "./_generated/server";
 import { ConvexError } from "convex/values";
 import type { Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { hasPermission, PERMISSIONS, requirePermission } from "./_permissions";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -110,16 +111,7 @@ export const getAllTickets = query({
     ),
   },
   handler: async (ctx, args) => {
-    const currentUser = await getCurrentUser(ctx);
-    if (
-      !currentUser ||
-      (currentUser.role !== "owner" && currentUser.role !== "admin")
-    ) {
-      throw new ConvexError({
-        message: "Not authorized",
-        code: "FORBIDDEN",
-      });
-    }
+    await requirePermission(ctx, PERMISSIONS.MANAGE_SUPPORT);
 
     let tickets;
     if (args.status) {
@@ -157,16 +149,7 @@ export const getAllTickets = query({
 export const getUserTickets = query({
   args: { userId: v.id("users") },
   handler: async (ctx, args) => {
-    const currentUser = await getCurrentUser(ctx);
-    if (
-      !currentUser ||
-      (currentUser.role !== "owner" && currentUser.role !== "admin")
-    ) {
-      throw new ConvexError({
-        message: "Not authorized",
-        code: "FORBIDDEN",
-      });
-    }
+    await requirePermission(ctx, PERMISSIONS.MANAGE_SUPPORT);
 
     const tickets = await ctx.db
       .query("supportTickets")
@@ -191,16 +174,10 @@ export const updateTicketStatus = mutation({
     response: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const currentUser = await getCurrentUser(ctx);
-    if (
-      !currentUser ||
-      (currentUser.role !== "owner" && currentUser.role !== "admin")
-    ) {
-      throw new ConvexError({
-        message: "Not authorized",
-        code: "FORBIDDEN",
-      });
-    }
+    const currentUser = await requirePermission(
+      ctx,
+      PERMISSIONS.MANAGE_SUPPORT,
+    );
 
     const updates: Record<string, unknown> = {
       status: args.status,
@@ -221,14 +198,32 @@ export const updateTicketStatus = mutation({
 export const getTicketReplies = query({
   args: { ticketId: v.id("supportTickets") },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
+    const currentUser = await getCurrentUser(ctx);
+    if (!currentUser) {
       throw new ConvexError({
         message: "User not logged in",
         code: "UNAUTHENTICATED",
       });
     }
 
+    // Only the ticket owner and support staff can read the thread
+    const ticket = await ctx.db.get(args.ticketId);
+    if (!ticket) {
+      throw new ConvexError({
+        message: "Ticket not found",
+        code: "NOT_FOUND",
+      });
+    }
+    if (
+      ticket.userId !== currentUser._id &&
+      !(await hasPermission(ctx, currentUser, PERMISSIONS.MANAGE_SUPPORT))
+    ) {
+      throw new ConvexError({
+        message: "Not authorized",
+        code: "FORBIDDEN",
+      });
+    }
+
     const replies = await ctx.db
       .query("ticketReplies")
       .withIndex("by_ticket_created", (q) => q.eq("ticketId", args.ticketId))
@@ -284,8 +279,11 @@ export const addTicketReply = mutation({
       });
     }
 
-    const isAdmin =
-      currentUser.role === "owner" || currentUser.role === "admin";
+    const isAdmin = await hasPermission(
+      ctx,
+      currentUser,
+      PERMISSIONS.MANAGE_SUPPORT,
+    );
     const isTicketOwner = ticket.userId === currentUser._id;
 
     if (!isAdmin && !isTicketOwner) {
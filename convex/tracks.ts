@@ -1,9 +1,24 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
+import { mutation, query, internalMutation } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { ConvexError } from "convex/values";
 import type { Doc } from "./_generated/dataModel.d.ts";
 import type { Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import {
+  appendTrackPoints,
+  deleteTrackSegments,
+  loadTrackPoints,
+  migrateInlineCoordinates,
+  trackPointValidator,
+} from "./_trackSegments";
+import { processTrack, simplifyPath } from "./_trackProcessing";
+import {
+  deleteItemShares,
+  getSharedPermission,
+  isValidLinkToken,
+} from "./_mapItemShares";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -62,6 +77,19 @@ async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
   return null;
 }
 
+const MAX_POINTS_PER_BATCH = 500;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+const DISPLAY_SIMPLIFY_TOLERANCE_METERS = 5;
+
+// Tracks are returned without their points; use getTrackSegments for those
+function toTrackSummary(track: Doc<"tracks">) {
+  const { coordinates, simplifiedPath, ...summary } = track;
+  return {
+    ...summary,
+    pointCount: track.pointCount ?? coordinates?.length ?? 0,
+  };
+}
+
 export const startTrack = mutation({
   args: {
     name: v.string(),
@@ -85,7 +113,8 @@ export const startTrack = mutation({
       description: args.description,
       distance: 0,
       duration: 0,
-      coordinates: [],
+      pointCount: 0,
+      segmentCount: 0,
       startTime: Date.now(),
       endTime: Date.now(),
       isActive: true,
@@ -139,35 +168,80 @@ export const addTrackPoint = mutation({
       });
     }
 
-    const newPoint = {
-      lat: args.lat,
-      lng: args.lng,
-      timestamp: Date.now(),
-      altitude: args.altitude,
-      accuracy: args.accuracy,
-    };
+    await appendTrackPoints(ctx, track, [
+      {
+        lat: args.lat,
+        lng: args.lng,
+        timestamp: Date.now(),
+        altitude: args.altitude,
+        accuracy: args.accuracy,
+      },
+    ]);
 
-    const coordinates = [...track.coordinates, newPoint];
-
-    // Calculate distance if we have previous point
-    let distance = track.distance;
-    if (track.coordinates.length > 0) {
-      const lastPoint = track.coordinates[track.coordinates.length - 1];
-      distance += calculateDistance(
-        lastPoint.lat,
-        lastPoint.lng,
-        args.lat,
-        args.lng,
-      );
+    return { success: true };
+  },
+});
+
+// Accept a batch of client-timestamped fixes (e.g. flushed from the offline
+// queue). Points are deduplicated by timestamp and merged in time order.
+export const addTrackPoints = mutation({
+  args: {
+    trackId: v.id("tracks"),
+    points: v.array(trackPointValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
     }
 
-    await ctx.db.patch(args.trackId, {
-      coordinates,
-      distance,
-      endTime: Date.now(),
-    });
+    if (args.points.length > MAX_POINTS_PER_BATCH) {
+      throw new ConvexError({
+        message: `Too many points in one batch (max ${MAX_POINTS_PER_BATCH})`,
+        code: "BAD_REQUEST",
+      });
+    }
 
-    return { success: true };
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      throw new ConvexError({
+        message: "Track not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    // Verify user owns the track
+    if (track.userId !== user._id) {
+      throw new ConvexError({
+        message: "Not authorized to add points to this track",
+        code: "FORBIDDEN",
+      });
+    }
+
+    if (!track.isActive) {
+      throw new ConvexError({
+        message: "Cannot add points to inactive track",
+        code: "BAD_REQUEST",
+      });
+    }
+
+    // Ignore fixes stamped by a badly skewed device clock
+    const latestAllowed = Date.now() + MAX_CLOCK_SKEW_MS;
+    const points = args.points.filter(
+      (point) => point.timestamp <= latestAllowed,
+    );
+
+    const added = await appendTrackPoints(ctx, track, points);
+
+    // Skewed fixes are reported apart from duplicates: they weren't stored
+    return {
+      added,
+      duplicates: points.length - added,
+      rejected: args.points.length - points.length,
+    };
   },
 });
 
@@ -204,34 +278,22 @@ export const stopTrack = mutation({
       });
     }
 
-    // Calculate final statistics
+    // Recompute statistics from cleaned fixes rather than the raw stream
+    const coordinates = await loadTrackPoints(ctx, track);
+    const stats = processTrack(coordinates);
     const duration = (track.endTime - track.startTime) / 1000; // seconds
-    const averageSpeed = duration > 0 ? track.distance / duration : 0;
-
-    // Calculate elevation changes
-    let elevationGain = 0;
-    let elevationLoss = 0;
-
-    for (let i = 1; i < track.coordinates.length; i++) {
-      const prev = track.coordinates[i - 1];
-      const curr = track.coordinates[i];
-
-      if (prev.altitude && curr.altitude) {
-        const diff = curr.altitude - prev.altitude;
-        if (diff > 0) {
-          elevationGain += diff;
-        } else {
-          elevationLoss += Math.abs(diff);
-        }
-      }
-    }
 
     await ctx.db.patch(args.trackId, {
       isActive: false,
+      distance: stats.distance,
       duration,
-      averageSpeed,
-      elevationGain: elevationGain > 0 ? elevationGain : undefined,
-      elevationLoss: elevationLoss > 0 ? elevationLoss : undefined,
+      movingTime: stats.movingTime,
+      stoppedTime: stats.stoppedTime,
+      averageSpeed: stats.averageSpeed,
+      maxSpeed: stats.maxSpeed > 0 ? stats.maxSpeed : undefined,
+      elevationGain: stats.elevationGain > 0 ? stats.elevationGain : undefined,
+      elevationLoss: stats.elevationLoss > 0 ? stats.elevationLoss : undefined,
+      simplifiedPath: stats.simplifiedPath,
     });
 
     return { success: true };
@@ -251,11 +313,13 @@ export const getMyTracks = query({
     }
     console.log("[getMyTracks] User found:", user._id);
 
-    return await ctx.db
+    const tracks = await ctx.db
       .query("tracks")
       .withIndex("by_user", (q) => q.eq("userId", user._id))
       .order("desc")
       .collect();
+
+    return tracks.map(toTrackSummary);
   },
 });
 
@@ -272,12 +336,14 @@ export const getActiveTrack = query({
     }
     console.log("[getActiveTrack] User found:", user._id);
 
-    return await ctx.db
+    const track = await ctx.db
       .query("tracks")
       .withIndex("by_user_active", (q) =>
         q.eq("userId", user._id).eq("isActive", true),
       )
       .first();
+
+    return track ? toTrackSummary(track) : null;
   },
 });
 
@@ -312,28 +378,204 @@ export const deleteTrack = mutation({
       });
     }
 
+    await deleteTrackSegments(ctx, args.trackId);
+    await deleteItemShares(ctx, args.trackId);
     await ctx.db.delete(args.trackId);
     return { success: true };
   },
 });
 
-// Helper function to calculate distance between two coordinates (Haversine formula)
-function calculateDistance(
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number,
-): number {
-  const R = 6371e3; // Earth's radius in meters
-  const φ1 = (lat1 * Math.PI) / 180;
-  const φ2 = (lat2 * Math.PI) / 180;
-  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-  const Δλ = ((lng2 - lng1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
-}
+// Rename a track or change its description. Members it is shared with
+// for editing can do this too.
+export const updateTrack = mutation({
+  args: {
+    trackId: v.id("tracks"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      throw new ConvexError({
+        message: "Track not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    if (
+      track.userId !== user._id &&
+      (await getSharedPermission(ctx, track._id, track.userId, user._id)) !==
+        "edit"
+    ) {
+      throw new ConvexError({
+        message: "Not authorized to update this track",
+        code: "FORBIDDEN",
+      });
+    }
+
+    const updates: Partial<Doc<"tracks">> = {};
+    if (args.name !== undefined) {
+      const name = args.name.trim();
+      if (!name) {
+        throw new ConvexError({
+          message: "Track name is required",
+          code: "BAD_REQUEST",
+        });
+      }
+      updates.name = name;
+    }
+    if (args.description !== undefined) {
+      updates.description = args.description.trim() || undefined;
+    }
+
+    await ctx.db.patch(args.trackId, updates);
+    return { success: true };
+  },
+});
+
+// Get a single track summary (points are paged via getTrackSegments)
+export const getTrack = query({
+  args: { trackId: v.id("tracks") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    const track = await ctx.db.get(args.trackId);
+    if (!track || track.userId !== user._id) {
+      return null;
+    }
+
+    return toTrackSummary(track);
+  },
+});
+
+// Lat/lng path for drawing a track on the map. Saved tracks use the
+// simplified path from stopTrack; the active track is drawn from raw fixes.
+// Tracks shared with the user, or opened with a share link, can be drawn too.
+export const getTrackPath = query({
+  args: { trackId: v.id("tracks"), linkToken: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      return null;
+    }
+
+    if (args.linkToken) {
+      if (!(await isValidLinkToken(ctx, track._id, args.linkToken))) {
+        return null;
+      }
+    } else {
+      const user = await getCurrentUser(ctx);
+      if (
+        !user ||
+        (track.userId !== user._id &&
+          !(await getSharedPermission(ctx, track._id, track.userId, user._id)))
+      ) {
+        return null;
+      }
+    }
+
+    if (!track.isActive && track.simplifiedPath) {
+      return { trackId: track._id, path: track.simplifiedPath };
+    }
+
+    const points = await loadTrackPoints(ctx, track);
+    const path = track.isActive
+      ? points
+      : simplifyPath(points, DISPLAY_SIMPLIFY_TOLERANCE_METERS);
+
+    return {
+      trackId: track._id,
+      path: path.map((point) => ({ lat: point.lat, lng: point.lng })),
+    };
+  },
+});
+
+// Page through a track's points one segment at a time, in time order
+export const getTrackSegments = query({
+  args: {
+    trackId: v.id("tracks"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new ConvexError({
+        message: "User not logged in",
+        code: "UNAUTHENTICATED",
+      });
+    }
+
+    const track = await ctx.db.get(args.trackId);
+    if (!track) {
+      throw new ConvexError({
+        message: "Track not found",
+        code: "NOT_FOUND",
+      });
+    }
+
+    if (track.userId !== user._id) {
+      throw new ConvexError({
+        message: "Not authorized to view this track",
+        code: "FORBIDDEN",
+      });
+    }
+
+    const result = await ctx.db
+      .query("trackSegments")
+      .withIndex("by_track_index", (q) => q.eq("trackId", args.trackId))
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map((segment) => ({
+        index: segment.index,
+        startTime: segment.startTime,
+        endTime: segment.endTime,
+        points: segment.points,
+      })),
+    };
+  },
+});
+
+// One-off migration: move legacy inline `coordinates` arrays into
+// trackSegments. Processes a page of tracks and reschedules itself.
+// Run with: npx convex run tracks:migrateTrackCoordinates
+export const migrateTrackCoordinates = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("tracks")
+      .paginate({ cursor: args.cursor ?? null, numItems: 20 });
+
+    let migrated = 0;
+    for (const track of page) {
+      if (track.coordinates === undefined) continue;
+      await migrateInlineCoordinates(ctx, track);
+      migrated++;
+    }
+
+    console.log("[migrateTrackCoordinates] Migrated batch", {
+      migrated,
+      isDone,
+    });
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.tracks.migrateTrackCoordinates, {
+        cursor: continueCursor,
+      });
+    }
+  },
+});
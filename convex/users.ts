@@ -27,30 +27,6 @@ async function generateMemberNumber(
   return memberNumber;
 }
 
-// Default permissions for each role
-const DEFAULT_PERMISSIONS = {
-  owner: [
-    "view_users",
-    "edit_users",
-    "delete_users",
-    "ban_users",
-    "manage_roles",
-    "moderate_forums",
-    "moderate_marketplace",
-    "manage_subscriptions",
-    "view_analytics",
-  ],
-  admin: [
-    "view_users",
-    "edit_users",
-    "ban_users",
-    "moderate_forums",
-    "moderate_marketplace",
-    "view_analytics",
-  ],
-  member: [],
-};
-
 export const updateCurrentUser = mutation({
   args: {},
   handler: async (ctx) => {
@@ -119,7 +95,6 @@ export const updateCurrentUser = mutation({
 
     // Determine role: owner if super admin email, otherwise member
     const role = email === SUPER_ADMIN_EMAIL ? "owner" : "member";
-    const permissions = DEFAULT_PERMISSIONS[role];
 
     // Generate unique member number
     const memberNumber = await generateMemberNumber(ctx);
@@ -130,7 +105,6 @@ export const updateCurrentUser = mutation({
       email: email,
       avatar: identity.pictureUrl || undefined,
       role,
-      permissions,
       memberNumber,
       profileCompleted: false, // New users must complete their profile
     });
@@ -1,8 +1,25 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { paginationOptsValidator } from "convex/server";
+import { internalMutation, mutation, query } from "./_generated/server";
 import { ConvexError } from "convex/values";
-import type { Id } from "./_generated/dataModel.d.ts";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { sendNotification } from "./_notifications";
+import { hasPermission, PERMISSIONS } from "./_permissions";
+import {
+  MAX_RECOVERY_ALERT_RADIUS_MILES,
+  notifyNearbyVolunteers,
+} from "./_recoveryAlerts";
+import {
+  clearLiveLocations,
+  recordRecoveryEvent,
+} from "./_recoveryResponders";
+import {
+  GEOHASH_PREFIX_END,
+  paginateByDistance,
+  pointGeohash,
+} from "./_geoPoints";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -61,83 +78,71 @@ async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
   return null;
 }
 
-// Helper function to calculate distance between two points (in miles)
-function calculateDistance(
-  lat1: number,
-  lng1: number,
-  lat2: number,
-  lng2: number,
-): number {
-  const R = 3959; // Earth's radius in miles
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLng = ((lng2 - lng1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLng / 2) *
-      Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-// Get all active requests
+// Active requests, nearest first within `maxDistance` when the viewer's
+// location is known, else newest first
 export const getRequests = query({
   args: {
     userLat: v.optional(v.number()),
     userLng: v.optional(v.number()),
     maxDistance: v.optional(v.number()), // in miles, default 50
+    paginationOpts: paginationOptsValidator,
   },
   handler: async (ctx, args) => {
-    const requests = await ctx.db
-      .query("vehicleRecoveryRequests")
-      .withIndex("by_status", (q) => q.eq("status", "active"))
-      .order("desc")
-      .take(100);
+    const enrich = async (request: Doc<"vehicleRecoveryRequests">) => {
+      const user = await ctx.db.get(request.userId);
+      return {
+        ...request,
+        user: user
+          ? {
+              _id: user._id,
+              name: user.name || "Unknown",
+            }
+          : null,
+      };
+    };
 
-    // Enrich with user info
-    const enrichedRequests = await Promise.all(
-      requests.map(async (request) => {
-        const user = await ctx.db.get(request.userId);
-
-        // Calculate distance if user location provided
-        let distance = undefined;
-        if (args.userLat !== undefined && args.userLng !== undefined) {
-          distance = calculateDistance(
-            args.userLat,
-            args.userLng,
-            request.lat,
-            request.lng,
-          );
-        }
+    if (args.userLat === undefined || args.userLng === undefined) {
+      const results = await ctx.db
+        .query("vehicleRecoveryRequests")
+        .withIndex("by_status", (q) => q.eq("status", "active"))
+        .order("desc")
+        .paginate(args.paginationOpts);
+      const page = await Promise.all(results.page.map(enrich));
+      return {
+        ...results,
+        page: page.map((request) => ({ ...request, distance: undefined })),
+      };
+    }
 
-        return {
-          ...request,
-          user: user
-            ? {
-                _id: user._id,
-                name: user.name || "Unknown",
-              }
-            : null,
-          distance,
-        };
-      }),
+    const results = await paginateByDistance(
+      (prefix, limit) =>
+        ctx.db
+          .query("vehicleRecoveryRequests")
+          .withIndex("by_status_geohash", (q) =>
+            q
+              .eq("status", "active")
+              .gte("geohash", prefix)
+              .lt("geohash", prefix + GEOHASH_PREFIX_END),
+          )
+          .take(limit),
+      {
+        lat: args.userLat,
+        lng: args.userLng,
+        radiusMiles: Math.min(
+          args.maxDistance || 50,
+          MAX_RECOVERY_ALERT_RADIUS_MILES,
+        ),
+      },
+      args.paginationOpts,
     );
 
-    // Filter by distance if provided
-    const maxDistance = args.maxDistance || 50;
-    const filtered = enrichedRequests.filter((req) => {
-      if (req.distance === undefined) return true;
-      return req.distance <= maxDistance;
-    });
-
-    // Sort by distance if available
-    return filtered.sort((a, b) => {
-      if (a.distance !== undefined && b.distance !== undefined) {
-        return a.distance - b.distance;
-      }
-      return 0;
-    });
+    const page = await Promise.all(
+      results.page.map(async (request) => ({
+        ...(await enrich(request)),
+        distance: request.distance,
+      })),
+    );
+    return { ...results, page };
   },
 });
 
@@ -225,6 +230,7 @@ export const createRequest = mutation({
       lat: args.lat,
       lng: args.lng,
       locationName: args.locationName,
+      geohash: pointGeohash(args.lat, args.lng),
       photos: args.photos,
       status: "active",
       commentCount: 0,
@@ -232,8 +238,16 @@ export const createRequest = mutation({
       nextFollowUpAt: now + oneHour, // Schedule first follow-up in 1 hour
     });
 
-    // TODO: In a production app, this would trigger push notifications
-    // to users within 50 miles of the request location
+    const notified = await notifyNearbyVolunteers(ctx, {
+      type: "vehicle",
+      requestId,
+      ownerId: user._id,
+      ownerName: user.name,
+      lat: args.lat,
+      lng: args.lng,
+      locationName: args.locationName,
+    });
+    console.log("[createRequest] Nearby members notified:", notified);
 
     return requestId;
   },
@@ -365,6 +379,14 @@ export const closeRequest = mutation({
       closedBy: user._id,
       nextFollowUpAt: undefined, // Stop follow-ups
     });
+    await clearLiveLocations(ctx, args.requestId);
+    await recordRecoveryEvent(
+      ctx,
+      args.requestId,
+      user._id,
+      "closed",
+      "Request closed",
+    );
 
     return { success: true };
   },
@@ -387,11 +409,11 @@ export const reopenRequest = mutation({
     }
     console.log("[reopenRequest] User found:", user._id);
 
-    // Check if user is admin or owner
-    const isAdmin = user.role === "admin" || user.role === "owner";
+    // Check if user handles recovery requests
+    const isAdmin = await hasPermission(ctx, user, PERMISSIONS.MANAGE_SUPPORT);
     if (!isAdmin) {
       throw new ConvexError({
-        message: "Only admins and owners can reopen requests",
+        message: "Not authorized to reopen requests",
         code: "FORBIDDEN",
       });
     }
@@ -413,6 +435,13 @@ export const reopenRequest = mutation({
       reopenedBy: user._id,
       nextFollowUpAt: now + oneHour, // Resume follow-ups
     });
+    await recordRecoveryEvent(
+      ctx,
+      args.requestId,
+      user._id,
+      "reopened",
+      "Request reopened",
+    );
 
     return { success: true };
   },
@@ -460,6 +489,9 @@ export const updateStatus = mutation({
       status: args.status,
       resolvedAt: args.status === "resolved" ? Date.now() : request.resolvedAt,
     });
+    if (args.status !== "active") {
+      await clearLiveLocations(ctx, args.requestId);
+    }
 
     return { success: true };
   },
@@ -527,7 +559,7 @@ export const getRequestHistory = query({
     }
     console.log("[getRequestHistory] User found:", user._id);
 
-    const isAdmin = user.role === "admin" || user.role === "owner";
+    const isAdmin = await hasPermission(ctx, user, PERMISSIONS.MANAGE_SUPPORT);
     const now = Date.now();
     const tenMinutes = 10 * 60 * 1000;
 
@@ -569,11 +601,11 @@ export const getAllRequestHistory = query({
     }
     console.log("[getAllRequestHistory] User found:", user._id);
 
-    // Check if user is admin or owner
-    const isAdmin = user.role === "admin" || user.role === "owner";
+    // Check if user handles recovery requests
+    const isAdmin = await hasPermission(ctx, user, PERMISSIONS.MANAGE_SUPPORT);
     if (!isAdmin) {
       throw new ConvexError({
-        message: "Only admins and owners can view all request history",
+        message: "Not authorized to view all request history",
         code: "FORBIDDEN",
       });
     }
@@ -604,35 +636,77 @@ export const getAllRequestHistory = query({
   },
 });
 
-// Check and send follow-ups (called by scheduled function)
-export const checkAndSendFollowUps = mutation({
+// Upper bound per run; anything left over is picked up by the next run
+const FOLLOW_UP_BATCH_SIZE = 100;
+
+// Check and send follow-ups (run by the cron in crons.ts). Each due request
+// has its next follow-up pushed out in the same transaction, so overlapping
+// or retried runs never send the same follow-up twice.
+export const checkAndSendFollowUps = internalMutation({
   args: {},
   handler: async (ctx) => {
     const now = Date.now();
+    const oneHour = 60 * 60 * 1000;
 
-    // Find all requests that need follow-up
-    const allRequests = await ctx.db
+    // Requests without a follow-up scheduled sort before every number
+    const dueRequests = await ctx.db
       .query("vehicleRecoveryRequests")
-      .withIndex("by_status", (q) => q.eq("status", "active"))
-      .collect();
-
-    const requestsNeedingFollowUp = allRequests.filter((req) => {
-      return req.nextFollowUpAt !== undefined && req.nextFollowUpAt <= now;
-    });
+      .withIndex("by_next_followup", (q) =>
+        q.gte("nextFollowUpAt", 0).lte("nextFollowUpAt", now),
+      )
+      .take(FOLLOW_UP_BATCH_SIZE);
+
+    let sent = 0;
+    for (const request of dueRequests) {
+      if (request.status !== "active") {
+        await ctx.db.patch(request._id, { nextFollowUpAt: undefined });
+        continue;
+      }
 
-    // Send notifications for each request
-    for (const request of requestsNeedingFollowUp) {
-      await ctx.db.insert("notifications", {
+      await sendNotification(ctx, {
         userId: request.userId,
-        type: "vehicle_recovery_followup",
+        kind: "vehicle_recovery_followup",
         title: "Vehicle Recovery Update Needed",
         message: "Please update your vehicle recovery request status",
         relatedId: request._id,
-        isRead: false,
-        createdAt: now,
       });
+      await ctx.db.patch(request._id, {
+        lastFollowUpAt: now,
+        nextFollowUpAt: now + oneHour,
+      });
+      sent++;
+    }
+
+    console.log("[checkAndSendFollowUps] Follow-ups sent:", sent);
+    return { sent };
+  },
+});
+
+// One-off migration: add the point geohash to existing requests so they show
+// up in nearby feeds.
+// Run with: npx convex run vehicleRecovery:backfillVehicleRequestGeohashes
+export const backfillVehicleRequestGeohashes = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("vehicleRecoveryRequests")
+      .paginate({ cursor: args.cursor ?? null, numItems: 100 });
+
+    for (const doc of page) {
+      await ctx.db.patch(doc._id, { geohash: pointGeohash(doc.lat, doc.lng) });
     }
 
-    return { sent: requestsNeedingFollowUp.length };
+    console.log("[backfillVehicleRequestGeohashes] Indexed batch", {
+      count: page.length,
+      isDone,
+    });
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.vehicleRecovery.backfillVehicleRequestGeohashes, {
+        cursor: continueCursor,
+      });
+    }
   },
 });
@@ -3,6 +3,7 @@ import { mutation, query } from "./_generated/server";
 import { ConvexError } from "convex/values";
 import type { Id } from "./_generated/dataModel.d.ts";
 import type { QueryCtx, MutationCtx } from "./_generated/server.d.ts";
+import { deleteItemShares, getSharedPermission } from "./_mapItemShares";
 
 // Helper function to get current user with fallback lookup
 async function getCurrentUser(ctx: QueryCtx | MutationCtx) {
@@ -56,6 +57,8 @@ export const createWaypoint = mutation({
     icon: v.optional(v.string()),
     color: v.optional(v.string()),
     trackId: v.optional(v.id("tracks")),
+    // When the waypoint was marked on a device that was offline at the time
+    createdAt: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     const user = await getCurrentUser(ctx);
@@ -77,7 +80,7 @@ export const createWaypoint = mutation({
       icon: args.icon,
       color: args.color,
       trackId: args.trackId,
-      createdAt: Date.now(),
+      createdAt: Math.min(args.createdAt ?? Date.now(), Date.now()),
     });
 
     return waypointId;
@@ -126,6 +129,7 @@ export const deleteWaypoint = mutation({
       });
     }
 
+    await deleteItemShares(ctx, args.waypointId);
     await ctx.db.delete(args.waypointId);
     return { success: true };
   },
@@ -157,8 +161,16 @@ export const updateWaypoint = mutation({
       });
     }
 
-    // Verify ownership
-    if (waypoint.userId !== user._id) {
+    // Owners, and members it is shared with for editing
+    if (
+      waypoint.userId !== user._id &&
+      (await getSharedPermission(
+        ctx,
+        waypoint._id,
+        waypoint.userId,
+        user._id,
+      )) !== "edit"
+    ) {
       throw new ConvexError({
         message: "Not authorized to update this waypoint",
         code: "FORBIDDEN",
@@ -0,0 +1,234 @@
+// Service worker: offline app shell, offline map regions and Web Push. Tiles
+// for a downloaded region are fetched here on request from the page and
+// served cache-first afterwards.
+
+const SHELL_CACHE = "app-shell-v1";
+const ASSET_CACHE = "app-assets-v1";
+const TILE_CACHE = "offline-tiles-v1";
+const KNOWN_CACHES = [SHELL_CACHE, ASSET_CACHE, TILE_CACHE];
+
+const SHELL_URLS = [
+  "/",
+  "/manifest.webmanifest",
+  "/favicon.ico",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+// Google Maps JS API loader and its modules, so the map can start offline
+const MAPS_SCRIPT_HOSTS = ["maps.googleapis.com", "maps.gstatic.com"];
+const TILE_HOSTS = ["basemap.nationalmap.gov"];
+const PRECACHE_CONCURRENCY = 4;
+const PROGRESS_INTERVAL = 25;
+
+const cancelledRegions = new Set();
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => !KNOWN_CACHES.includes(name))
+            .map((name) => caches.delete(name)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+function isTileRequest(url) {
+  return TILE_HOSTS.includes(url.hostname);
+}
+
+// Hashed build output and static files from public/
+function isStaticAsset(url) {
+  return (
+    url.origin === self.location.origin &&
+    (url.pathname.startsWith("/assets/") || url.pathname.startsWith("/icons/"))
+  );
+}
+
+function isMapsScript(url) {
+  return (
+    MAPS_SCRIPT_HOSTS.includes(url.hostname) &&
+    (url.pathname.startsWith("/maps/api/js") ||
+      url.pathname.startsWith("/maps-api-v3/"))
+  );
+}
+
+// Fresh copy when online, last cached copy when not
+async function networkFirst(request, cacheName, cacheKey) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    // Cross-origin <script> loads are opaque: status 0 even when they succeed
+    if (response.ok || response.type === "opaque") {
+      await cache.put(cacheKey ?? request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey ?? request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Cached copy right away, refreshed in the background
+async function staleWhileRevalidate(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(async (response) => {
+      if (response.ok) {
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })
+    .catch(() => undefined);
+  return cached ?? (await network) ?? Response.error();
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate" && url.origin === self.location.origin) {
+    // Single-page app: every route is served by the cached index page
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/"));
+  } else if (isTileRequest(url)) {
+    event.respondWith(
+      caches
+        .open(TILE_CACHE)
+        .then((cache) => cache.match(request.url))
+        .then((cached) => cached ?? fetch(request)),
+    );
+  } else if (isStaticAsset(url)) {
+    event.respondWith(staleWhileRevalidate(request, ASSET_CACHE));
+  } else if (isMapsScript(url)) {
+    event.respondWith(networkFirst(request, ASSET_CACHE));
+  }
+});
+
+async function broadcast(message) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  for (const client of clients) {
+    client.postMessage(message);
+  }
+}
+
+async function precacheTiles(regionId, urls) {
+  const cache = await caches.open(TILE_CACHE);
+  let next = 0;
+  let done = 0;
+  let failed = 0;
+  let bytes = 0;
+
+  async function worker() {
+    while (next < urls.length && !cancelledRegions.has(regionId)) {
+      const url = urls[next++];
+      try {
+        // Tiles shared with another region are already on the device
+        let response = await cache.match(url);
+        if (!response) {
+          response = await fetch(url, { mode: "cors" });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          await cache.put(url, response.clone());
+        }
+        bytes += (await response.blob()).size;
+      } catch {
+        failed++;
+      }
+      done++;
+      if (done % PROGRESS_INTERVAL === 0) {
+        await broadcast({
+          type: "PRECACHE_PROGRESS",
+          regionId,
+          done,
+          total: urls.length,
+          bytes,
+          failed,
+        });
+      }
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: PRECACHE_CONCURRENCY }, () => worker()),
+  );
+
+  const cancelled = cancelledRegions.delete(regionId);
+  await broadcast({
+    type: "PRECACHE_DONE",
+    regionId,
+    done,
+    total: urls.length,
+    bytes,
+    failed,
+    cancelled,
+  });
+}
+
+self.addEventListener("message", (event) => {
+  const message = event.data;
+  if (!message || typeof message !== "object") return;
+
+  if (message.type === "PRECACHE_TILES") {
+    cancelledRegions.delete(message.regionId);
+    event.waitUntil(precacheTiles(message.regionId, message.urls));
+  } else if (message.type === "CANCEL_PRECACHE") {
+    cancelledRegions.add(message.regionId);
+  }
+});
+
+// Payload sent by convex/pushDelivery.ts: { title, body, url, tag, urgent }
+self.addEventListener("push", (event) => {
+  let message;
+  try {
+    message = event.data ? event.data.json() : null;
+  } catch {
+    message = null;
+  }
+  if (!message) return;
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      icon: "/icons/icon-192.png",
+      badge: "/icons/icon-192.png",
+      tag: message.tag,
+      requireInteraction: !!message.urgent,
+      data: { url: message.url || "/" },
+    }),
+  );
+});
+
+// Focus an open tab on the target page if there is one, else open it
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(
+    event.notification.data?.url || "/",
+    self.location.origin,
+  ).href;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        const existing = clients.find((client) => client.url === url);
+        if (existing) return existing.focus();
+        return self.clients.openWindow(url);
+      }),
+  );
+});
@@ -2,6 +2,8 @@ import { BrowserRouter, Route, Routes } from "react-router-dom";
 import { DefaultProviders } from "./components/providers/default.tsx";
 import Index from "./pages/Index.tsx";
 import NotFound from "./pages/NotFound.tsx";
+import SosStatus from "./pages/SosStatus.tsx";
+import SharedMapItem from "./pages/SharedMapItem.tsx";
 
 export default function App() {
   return (
@@ -9,6 +11,8 @@ export default function App() {
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/sos/:token" element={<SosStatus />} />
+          <Route path="/shared/:token" element={<SharedMapItem />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
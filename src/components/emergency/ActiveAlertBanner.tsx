@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import { Textarea } from "@/components/ui/textarea.tsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import { ExternalLink, Siren } from "lucide-react";
+import { toast } from "sonner";
+
+// Responders see the position refresh at most this often
+const LOCATION_UPDATE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Shown while the member has an active SOS: keeps sending their position
+ * and lets them mark themselves safe
+ */
+export default function ActiveAlertBanner() {
+  const alert = useQuery(api.emergencyAlerts.getMyActiveAlert);
+  const updateLocation = useMutation(api.emergencyAlerts.updateAlertLocation);
+  const resolveAlert = useMutation(api.emergencyAlerts.resolveAlert);
+  const [showResolveDialog, setShowResolveDialog] = useState(false);
+  const [note, setNote] = useState("");
+  const [isResolving, setIsResolving] = useState(false);
+  const lastSentAt = useRef(0);
+
+  const alertId = alert?._id;
+
+  useEffect(() => {
+    if (!alertId || !("geolocation" in navigator)) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const now = Date.now();
+        if (now - lastSentAt.current < LOCATION_UPDATE_INTERVAL_MS) return;
+        lastSentAt.current = now;
+
+        updateLocation({
+          alertId,
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        }).catch((error) =>
+          console.error("Failed to update SOS location:", error),
+        );
+      },
+      (error) => console.error("Geolocation error during SOS:", error),
+      { enableHighAccuracy: true },
+    );
+
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [alertId, updateLocation]);
+
+  if (!alert) return null;
+
+  const handleResolve = async (status: "resolved" | "cancelled") => {
+    setIsResolving(true);
+    try {
+      await resolveAlert({
+        alertId: alert._id,
+        status,
+        note: note.trim() || undefined,
+      });
+      toast.success(
+        status === "resolved"
+          ? "Glad you're safe. Everyone notified has been told."
+          : "SOS cancelled. Everyone notified has been told.",
+      );
+      setShowResolveDialog(false);
+      setNote("");
+    } catch (error) {
+      console.error("Error resolving SOS:", error);
+      toast.error("Failed to update SOS");
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex-none flex items-center gap-2 bg-red-600 px-4 py-2 text-sm text-white">
+        <Siren className="h-4 w-4 shrink-0 animate-pulse" />
+        <span className="flex-1 min-w-0 truncate">
+          {alert.source === "overdue" ? "Overdue alert sent" : "SOS active"} ·{" "}
+          {alert.notifiedCount}{" "}
+          {alert.notifiedCount === 1 ? "person" : "people"} notified
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-white hover:bg-red-700 hover:text-white"
+          asChild
+        >
+          <a href={`/sos/${alert.shareToken}`} target="_blank" rel="noreferrer">
+            <ExternalLink className="h-3 w-3 mr-1" />
+            Status
+          </a>
+        </Button>
+        <Button
+          size="sm"
+          variant="secondary"
+          className="h-7"
+          onClick={() => setShowResolveDialog(true)}
+        >
+          I'm Safe
+        </Button>
+      </div>
+
+      <Dialog open={showResolveDialog} onOpenChange={setShowResolveDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>End SOS Alert</DialogTitle>
+            <DialogDescription>
+              Everyone who was notified will be told the alert is over.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Add a note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={2}
+            maxLength={500}
+          />
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              onClick={() => handleResolve("cancelled")}
+              disabled={isResolving}
+            >
+              False Alarm
+            </Button>
+            <Button
+              onClick={() => handleResolve("resolved")}
+              disabled={isResolving}
+            >
+              I'm Safe
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
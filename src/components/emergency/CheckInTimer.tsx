@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { api } from "@/convex/_generated/api.js";
+import type { Doc } from "@/convex/_generated/dataModel.d.ts";
+import { Button } from "@/components/ui/button.tsx";
+import { ShieldCheck, Timer } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { useOfflineMutation } from "@/hooks/use-offline-mutation.ts";
+
+interface CheckInTimerProps {
+  hunt: Doc<"hunts">;
+}
+
+const EXTEND_BY_MS = 60 * 60 * 1000;
+
+/**
+ * Check-in deadline for an active hunt, with "I'm safe" and extend actions
+ */
+export default function CheckInTimer({ hunt }: CheckInTimerProps) {
+  const checkIn = useOfflineMutation(api.hunts.checkIn, "Check in");
+  const extendCheckIn = useOfflineMutation(
+    api.hunts.extendCheckIn,
+    "Extend check-in",
+  );
+  const [now, setNow] = useState(Date.now());
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Keep "due in ..." current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!hunt.expectedReturnAt) return null;
+
+  if (hunt.checkInStatus === "checked_in") {
+    return (
+      <p className="mb-3 flex items-center gap-1 text-xs text-green-600">
+        <ShieldCheck className="h-3 w-3" />
+        Checked in
+        {hunt.checkedInAt && ` at ${format(hunt.checkedInAt, "h:mm a")}`}
+      </p>
+    );
+  }
+
+  const isOverdue = now >= hunt.expectedReturnAt;
+
+  const handleCheckIn = async () => {
+    setIsSaving(true);
+    try {
+      const { queued } = await checkIn({ huntId: hunt._id });
+      toast.success(
+        queued
+          ? "Check-in saved offline. It will be sent when you're back online."
+          : "Checked in. Glad you're safe!",
+      );
+    } catch (error) {
+      console.error("Error checking in:", error);
+      toast.error("Failed to check in");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExtend = async () => {
+    setIsSaving(true);
+    try {
+      // From now if already overdue, so the new time is always ahead
+      const base = Math.max(hunt.expectedReturnAt!, Date.now());
+      const { queued } = await extendCheckIn({
+        huntId: hunt._id,
+        expectedReturnAt: base + EXTEND_BY_MS,
+      });
+      toast.success(
+        queued
+          ? "New check-in time saved offline. It will be sent when you're back online."
+          : `Check in by ${format(base + EXTEND_BY_MS, "h:mm a")}`,
+      );
+    } catch (error) {
+      console.error("Error extending check-in:", error);
+      toast.error("Failed to extend check-in time");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className={`mb-3 rounded-md border p-2 text-xs ${
+        isOverdue
+          ? "border-red-500/50 bg-red-500/10 text-red-600"
+          : "border-muted text-muted-foreground"
+      }`}
+    >
+      <p className="mb-2 flex items-center gap-1">
+        <Timer className="h-3 w-3" />
+        {hunt.checkInStatus === "escalated"
+          ? "Overdue: your emergency contacts have been alerted"
+          : isOverdue
+            ? `Overdue since ${format(hunt.expectedReturnAt, "h:mm a")}. Check in now.`
+            : `Check in by ${format(hunt.expectedReturnAt, "h:mm a")} (${formatDistanceToNow(hunt.expectedReturnAt, { addSuffix: true })})`}
+      </p>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="h-7 flex-1 text-xs"
+          onClick={handleCheckIn}
+          disabled={isSaving}
+        >
+          I'm Safe
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-7 flex-1 text-xs"
+          onClick={handleExtend}
+          disabled={isSaving}
+        >
+          +1 Hour
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import { Textarea } from "@/components/ui/textarea.tsx";
+import { Loader2, Siren } from "lucide-react";
+import { toast } from "sonner";
+import { useOfflineMutation } from "@/hooks/use-offline-mutation.ts";
+
+interface SendSosButtonProps {
+  // Last position the app already knows, used if a fresh fix takes too long
+  fallbackLocation?: { lat: number; lng: number } | null;
+  onSent?: () => void;
+}
+
+function getCurrentPosition() {
+  return new Promise<GeolocationPosition>((resolve, reject) => {
+    if (!("geolocation" in navigator)) {
+      reject(new Error("Geolocation is not supported"));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(resolve, reject, {
+      enableHighAccuracy: true,
+      timeout: 10000,
+      maximumAge: 60000,
+    });
+  });
+}
+
+/**
+ * Sends an SOS to the member's emergency contacts and to friends who are
+ * sharing their location. Without signal it is queued and sent on reconnect.
+ */
+export default function SendSosButton({
+  fallbackLocation,
+  onSent,
+}: SendSosButtonProps) {
+  const triggerAlert = useOfflineMutation(
+    api.emergencyAlerts.triggerAlert,
+    "SOS alert",
+  );
+  const [message, setMessage] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSend = async () => {
+    setIsSending(true);
+    try {
+      let location: { lat: number; lng: number; accuracy?: number };
+      try {
+        const position = await getCurrentPosition();
+        location = {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+        };
+      } catch (error) {
+        console.error("Failed to get location for SOS:", error);
+        if (!fallbackLocation) {
+          toast.error(
+            "Couldn't get your location. Turn on location services and try again, or call 911.",
+          );
+          return;
+        }
+        location = fallbackLocation;
+      }
+
+      const result = await triggerAlert({
+        ...location,
+        message: message.trim() || undefined,
+      });
+      if (result.queued) {
+        toast.warning(
+          "No signal. Your SOS will be sent as soon as you're back online. Call 911 if you can.",
+        );
+      } else {
+        toast.success(
+          `SOS sent to ${result.result.notifiedCount} ${
+            result.result.notifiedCount === 1 ? "person" : "people"
+          }`,
+        );
+      }
+      setMessage("");
+      onSent?.();
+    } catch (error) {
+      console.error("Error sending SOS:", error);
+      toast.error("Failed to send SOS. Call 911 if you can.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        placeholder="What's happening? (optional)"
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        rows={2}
+        maxLength={500}
+        disabled={isSending}
+      />
+      <Button
+        variant="destructive"
+        className="w-full justify-start text-lg"
+        size="lg"
+        onClick={handleSend}
+        disabled={isSending}
+      >
+        {isSending ? (
+          <Loader2 className="mr-3 h-5 w-5 animate-spin" />
+        ) : (
+          <Siren className="mr-3 h-5 w-5" />
+        )}
+        Send SOS Alert
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Shares your live location with your emergency contacts and friends who
+        are sharing their location.
+      </p>
+    </div>
+  );
+}
@@ -249,6 +249,14 @@ function ImportTab({ onClose }: { onClose: () => void }) {
             successCount++;
           } catch (error) {
             console.error(`Failed to send request to ${user.contact}`);
+            // Stop at the friend request limit instead of failing the rest
+            if (error instanceof ConvexError) {
+              const { code, message } = error.data as { code: string; message: string };
+              if (code === "RATE_LIMITED") {
+                toast.error(message);
+                break;
+              }
+            }
           }
         }
         
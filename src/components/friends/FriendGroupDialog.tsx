@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import { Checkbox } from "@/components/ui/checkbox.tsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { ScrollArea } from "@/components/ui/scroll-area.tsx";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+interface FriendGroupDialogProps {
+  // Omit to create a new group
+  group?: {
+    _id: Id<"friendGroups">;
+    name: string;
+    members: { _id: Id<"users">; isOwner: boolean }[];
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function showError(error: unknown, fallback: string) {
+  if (error instanceof ConvexError) {
+    const { message } = error.data as { code: string; message: string };
+    toast.error(message);
+  } else {
+    toast.error(fallback);
+  }
+}
+
+/**
+ * Create a friend group, or rename one and pick its members
+ */
+export default function FriendGroupDialog({
+  group,
+  open,
+  onOpenChange,
+}: FriendGroupDialogProps) {
+  const friends = useQuery(api.friends.getFriends, open ? {} : "skip");
+  const createGroup = useMutation(api.friendGroups.createGroup);
+  const updateGroup = useMutation(api.friendGroups.updateGroup);
+  const deleteGroup = useMutation(api.friendGroups.deleteGroup);
+  const [name, setName] = useState("");
+  const [memberIds, setMemberIds] = useState<Id<"users">[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(group?.name ?? "");
+      setMemberIds(
+        group?.members.filter((m) => !m.isOwner).map((m) => m._id) ?? [],
+      );
+    }
+  }, [open, group]);
+
+  const toggleMember = (userId: Id<"users">, checked: boolean) => {
+    setMemberIds((ids) =>
+      checked ? [...ids, userId] : ids.filter((id) => id !== userId),
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (group) {
+        await updateGroup({ groupId: group._id, name, memberIds });
+        toast.success("Group updated");
+      } else {
+        await createGroup({ name, memberIds });
+        toast.success("Group created");
+      }
+      onOpenChange(false);
+    } catch (error) {
+      showError(error, "Failed to save group");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!group || !confirm(`Delete "${group.name}"?`)) return;
+    try {
+      await deleteGroup({ groupId: group._id });
+      toast.success("Group deleted");
+      onOpenChange(false);
+    } catch (error) {
+      showError(error, "Failed to delete group");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{group ? "Edit Group" : "New Group"}</DialogTitle>
+          <DialogDescription>
+            Members can see the group, share their location, tracks and
+            waypoints with it, and open its map
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Name</Label>
+            <Input
+              id="group-name"
+              placeholder="Deer camp crew"
+              value={name}
+              maxLength={50}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Members</Label>
+            {!friends ? (
+              <p className="text-sm text-muted-foreground">
+                Loading friends...
+              </p>
+            ) : friends.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Add friends to put them in a group
+              </p>
+            ) : (
+              <ScrollArea className="max-h-60">
+                <div className="space-y-2">
+                  {friends.map((friend) => (
+                    <div key={friend._id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`group-member-${friend._id}`}
+                        checked={memberIds.includes(friend._id)}
+                        onCheckedChange={(checked) =>
+                          toggleMember(friend._id, checked === true)
+                        }
+                      />
+                      <Label
+                        htmlFor={`group-member-${friend._id}`}
+                        className="font-normal"
+                      >
+                        {friend.name || friend.email}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {group && (
+            <Button
+              variant="ghost"
+              className="text-destructive sm:mr-auto"
+              onClick={handleDelete}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api.js";
+import type { FunctionReturnType } from "convex/server";
+import { Button } from "@/components/ui/button.tsx";
+import { Card } from "@/components/ui/card.tsx";
+import { LogOut, Map as MapIcon, Pencil, Plus } from "lucide-react";
+import { toast } from "sonner";
+import FriendGroupDialog from "./FriendGroupDialog.tsx";
+import GroupMapDialog from "./GroupMapDialog.tsx";
+
+type FriendGroup = FunctionReturnType<
+  typeof api.friendGroups.getMyGroups
+>[number];
+
+/**
+ * The friend groups the user owns or belongs to
+ */
+export default function FriendGroupsList() {
+  const groups = useQuery(api.friendGroups.getMyGroups);
+  const leaveGroup = useMutation(api.friendGroups.leaveGroup);
+  const [editing, setEditing] = useState<FriendGroup | undefined>();
+  const [showDialog, setShowDialog] = useState(false);
+  const [mapGroup, setMapGroup] = useState<FriendGroup | null>(null);
+
+  const openEditor = (group?: FriendGroup) => {
+    setEditing(group);
+    setShowDialog(true);
+  };
+
+  const handleLeave = async (group: FriendGroup) => {
+    if (!confirm(`Leave "${group.name}"?`)) return;
+    try {
+      await leaveGroup({ groupId: group._id });
+      toast.success(`Left ${group.name}`);
+    } catch (error) {
+      if (error instanceof ConvexError) {
+        const { message } = error.data as { code: string; message: string };
+        toast.error(message);
+      } else {
+        toast.error("Failed to leave group");
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Button
+        size="sm"
+        variant="outline"
+        className="w-full"
+        onClick={() => openEditor()}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        New Group
+      </Button>
+
+      {!groups ? (
+        <div className="text-sm text-muted-foreground text-center py-8">
+          Loading groups...
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="text-sm text-muted-foreground text-center py-8">
+          <p>No groups yet</p>
+          <p className="text-xs mt-2">
+            Group the friends you hunt with to share locations, tracks and trips
+            with the whole crew
+          </p>
+        </div>
+      ) : (
+        groups.map((group) => (
+          <Card key={group._id} className="p-3">
+            <div className="flex items-start justify-between gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{group.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {group.isOwner ? "You" : group.ownerName} ·{" "}
+                  {group.members.length}{" "}
+                  {group.members.length === 1 ? "person" : "people"}
+                </div>
+                <div className="text-xs text-muted-foreground truncate mt-1">
+                  {group.members.map((member) => member.name).join(", ")}
+                </div>
+              </div>
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Group map"
+                  onClick={() => setMapGroup(group)}
+                >
+                  <MapIcon className="h-4 w-4" />
+                </Button>
+                {group.isOwner ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Edit group"
+                    onClick={() => openEditor(group)}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Leave group"
+                    onClick={() => handleLeave(group)}
+                  >
+                    <LogOut className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          </Card>
+        ))
+      )}
+
+      <FriendGroupDialog
+        group={editing}
+        open={showDialog}
+        onOpenChange={setShowDialog}
+      />
+      <GroupMapDialog
+        group={mapGroup}
+        onOpenChange={(open) => !open && setMapGroup(null)}
+      />
+    </div>
+  );
+}
@@ -1,10 +1,71 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { InfoWindow, Marker } from "@react-google-maps/api";
+import { formatDistanceToNow } from "date-fns";
+import { api } from "@/convex/_generated/api.js";
+
 interface FriendLocationLayerProps {
   visible: boolean;
-  map: google.maps.Map | null;
 }
 
-export default function FriendLocationLayer({ visible, map }: FriendLocationLayerProps) {
-  // TODO: Implement friend location markers using Google Maps Marker API
-  if (!visible) return null;
-  return null;
+const FRIEND_COLOR = "#2563eb";
+
+/**
+ * Friends and fellow group members who are sharing their location with you
+ */
+export default function FriendLocationLayer({
+  visible,
+}: FriendLocationLayerProps) {
+  const locations = useQuery(
+    api.locationSharing.getMapLocations,
+    visible ? {} : "skip",
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  if (!visible || !locations) return null;
+
+  // Looked up by id so it follows the person as they move
+  const selected = locations.find((location) => location.userId === selectedId);
+
+  return (
+    <>
+      {locations.map((location) => (
+        <Marker
+          key={location.userId}
+          position={{ lat: location.lat, lng: location.lng }}
+          title={location.name}
+          icon={{
+            path: google.maps.SymbolPath.CIRCLE,
+            scale: 12,
+            fillColor: FRIEND_COLOR,
+            fillOpacity: 1,
+            strokeColor: "#ffffff",
+            strokeWeight: 3,
+          }}
+          label={{
+            text: location.name.charAt(0).toUpperCase(),
+            color: "#ffffff",
+            fontSize: "12px",
+            fontWeight: "bold",
+          }}
+          onClick={() => setSelectedId(location.userId)}
+        />
+      ))}
+
+      {selected && (
+        <InfoWindow
+          position={{ lat: selected.lat, lng: selected.lng }}
+          onCloseClick={() => setSelectedId(null)}
+        >
+          <div className="space-y-1 text-sm text-gray-900">
+            <p className="font-semibold">{selected.name}</p>
+            <p className="text-xs text-gray-600">
+              Updated{" "}
+              {formatDistanceToNow(selected.lastUpdated, { addSuffix: true })}
+            </p>
+          </div>
+        </InfoWindow>
+      )}
+    </>
+  );
 }
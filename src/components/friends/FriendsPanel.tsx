@@ -12,6 +12,7 @@ import {
   Check,
   UserMinus,
   MapPin,
+  Ban,
 } from "lucide-react";
 import { toast } from "sonner";
 import { ConvexError } from "convex/values";
@@ -22,6 +23,7 @@ import {
   TabsTrigger,
 } from "@/components/ui/tabs.tsx";
 import AddFriendDialog from "./AddFriendDialog.tsx";
+import FriendGroupsList from "./FriendGroupsList.tsx";
 import type { Id } from "@/convex/_generated/dataModel.d.ts";
 
 interface FriendsPanelProps {
@@ -39,6 +41,7 @@ export default function FriendsPanel({ onViewProfile }: FriendsPanelProps) {
   const acceptRequest = useMutation(api.friends.acceptFriendRequest);
   const rejectRequest = useMutation(api.friends.rejectFriendRequest);
   const removeFriend = useMutation(api.friends.removeFriend);
+  const blockUser = useMutation(api.friends.blockUser);
 
   const handleAccept = async (requestId: string) => {
     try {
@@ -91,6 +94,30 @@ export default function FriendsPanel({ onViewProfile }: FriendsPanelProps) {
     }
   };
 
+  const handleBlock = async (userId: string, name: string) => {
+    if (
+      !confirm(
+        `Block ${name}? They'll be removed from your friends and won't be able to find you or see your location.`,
+      )
+    ) {
+      return;
+    }
+    try {
+      await blockUser({ userId: userId as never });
+      toast.success(`Blocked ${name}`);
+    } catch (error) {
+      if (error instanceof ConvexError) {
+        const { message: errorMessage } = error.data as {
+          code: string;
+          message: string;
+        };
+        toast.error(errorMessage);
+      } else {
+        toast.error("Failed to block user");
+      }
+    }
+  };
+
   const getFriendLocation = (friendId: string) => {
     return friendsLocations?.find((loc) => loc.userId === friendId);
   };
@@ -120,6 +147,9 @@ export default function FriendsPanel({ onViewProfile }: FriendsPanelProps) {
               </Badge>
             )}
           </TabsTrigger>
+          <TabsTrigger value="groups" className="flex-1">
+            Groups
+          </TabsTrigger>
           <TabsTrigger value="requests" className="flex-1">
             Requests
             {pendingRequests && pendingRequests.length > 0 && (
@@ -166,13 +196,25 @@ export default function FriendsPanel({ onViewProfile }: FriendsPanelProps) {
                           </div>
                         )}
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handleRemoveFriend(friend._id)}
-                      >
-                        <UserMinus className="h-4 w-4" />
-                      </Button>
+                      <div className="flex">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveFriend(friend._id)}
+                        >
+                          <UserMinus className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          aria-label="Block"
+                          onClick={() =>
+                            handleBlock(friend._id, friend.name || "this friend")
+                          }
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
                   </Card>
                 );
@@ -180,6 +222,10 @@ export default function FriendsPanel({ onViewProfile }: FriendsPanelProps) {
             )}
           </TabsContent>
 
+          <TabsContent value="groups" className="p-4 pb-6">
+            <FriendGroupsList />
+          </TabsContent>
+
           <TabsContent value="requests" className="p-4 pb-6 space-y-3">
             {!pendingRequests ? (
               <div className="text-sm text-muted-foreground text-center py-8">
@@ -227,6 +273,22 @@ export default function FriendsPanel({ onViewProfile }: FriendsPanelProps) {
                         <X className="h-4 w-4 mr-1" />
                         Decline
                       </Button>
+                      {request.fromUser && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          aria-label="Block"
+                          onClick={() =>
+                            request.fromUser &&
+                            handleBlock(
+                              request.fromUser._id,
+                              request.fromUser.name || "this member",
+                            )
+                          }
+                        >
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </Card>
@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import {
+  GoogleMap,
+  InfoWindow,
+  Marker,
+  Polyline,
+  useLoadScript,
+} from "@react-google-maps/api";
+import { formatDistanceToNow } from "date-fns";
+import { api } from "@/convex/_generated/api.js";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import { Skeleton } from "@/components/ui/skeleton.tsx";
+import {
+  DEFAULT_MAP_OPTIONS,
+  GOOGLE_MAPS_API_KEY,
+  GOOGLE_MAPS_LIBRARIES,
+} from "@/lib/google-maps.ts";
+import { getWaypointType } from "@/lib/waypoint-types.ts";
+import { formatDistance } from "@/lib/track-format.ts";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+interface GroupMapDialogProps {
+  group: { _id: Id<"friendGroups">; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MEMBER_COLOR = "#2563eb";
+const SHARED_TRACK_COLOR = "#a855f7";
+
+function SharedTrackPolyline({ trackId }: { trackId: Id<"tracks"> }) {
+  const trackPath = useQuery(api.tracks.getTrackPath, { trackId });
+  if (!trackPath || trackPath.path.length < 2) return null;
+
+  return (
+    <Polyline
+      path={trackPath.path}
+      options={{
+        strokeColor: SHARED_TRACK_COLOR,
+        strokeOpacity: 0.9,
+        strokeWeight: 4,
+      }}
+    />
+  );
+}
+
+type Selected =
+  | { kind: "member"; id: string }
+  | { kind: "waypoint"; id: string }
+  | null;
+
+/**
+ * Where everyone in a friend group is, plus the tracks and waypoints
+ * shared with the group
+ */
+export default function GroupMapDialog({
+  group,
+  onOpenChange,
+}: GroupMapDialogProps) {
+  const groupId = group?._id;
+  const locations = useQuery(
+    api.locationSharing.getGroupLocations,
+    groupId ? { groupId } : "skip",
+  );
+  const sharedItems = useQuery(
+    api.mapItemShares.getGroupSharedItems,
+    groupId ? { groupId } : "skip",
+  );
+  const [selected, setSelected] = useState<Selected>(null);
+
+  const { isLoaded } = useLoadScript({
+    googleMapsApiKey: GOOGLE_MAPS_API_KEY,
+    libraries: GOOGLE_MAPS_LIBRARIES as never,
+  });
+
+  const points = [...(locations ?? []), ...(sharedItems?.waypoints ?? [])].map(
+    (point) => ({ lat: point.lat, lng: point.lng }),
+  );
+
+  const fitToPoints = (map: google.maps.Map) => {
+    if (points.length === 0) return;
+    const bounds = new google.maps.LatLngBounds();
+    points.forEach((point) => bounds.extend(point));
+    map.fitBounds(bounds, 48);
+    if (points.length === 1) map.setZoom(15);
+  };
+
+  const selectedMember =
+    selected?.kind === "member"
+      ? locations?.find((location) => location.userId === selected.id)
+      : undefined;
+  const selectedWaypoint =
+    selected?.kind === "waypoint"
+      ? sharedItems?.waypoints.find((waypoint) => waypoint._id === selected.id)
+      : undefined;
+
+  return (
+    <Dialog open={group !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{group?.name}</DialogTitle>
+          <DialogDescription>
+            {locations === undefined
+              ? "Loading the group map..."
+              : locations.length === 0
+                ? "Nobody in this group is sharing their location with you right now"
+                : `${locations.length} ${locations.length === 1 ? "member" : "members"} sharing their location`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isLoaded || locations === undefined || sharedItems === undefined ? (
+          <Skeleton className="h-96" />
+        ) : (
+          <div className="h-96 overflow-hidden rounded-md">
+            <GoogleMap
+              mapContainerStyle={{ width: "100%", height: "100%" }}
+              center={points[0] ?? { lat: 39.5, lng: -98.35 }}
+              zoom={points.length > 0 ? 13 : 4}
+              options={DEFAULT_MAP_OPTIONS}
+              onLoad={fitToPoints}
+            >
+              {sharedItems.tracks.map((track) => (
+                <SharedTrackPolyline key={track._id} trackId={track._id} />
+              ))}
+
+              {sharedItems.waypoints.map((waypoint) => {
+                const type = getWaypointType(waypoint.type);
+                return (
+                  <Marker
+                    key={waypoint._id}
+                    position={{ lat: waypoint.lat, lng: waypoint.lng }}
+                    title={`${waypoint.name} · ${waypoint.ownerName}`}
+                    icon={{
+                      path: google.maps.SymbolPath.CIRCLE,
+                      scale: 10,
+                      fillColor: waypoint.color ?? type.color,
+                      fillOpacity: 1,
+                      strokeColor: "#ffffff",
+                      strokeWeight: 2,
+                    }}
+                    label={{
+                      text: type.glyph,
+                      color: "#ffffff",
+                      fontSize: "11px",
+                      fontWeight: "bold",
+                    }}
+                    onClick={() =>
+                      setSelected({ kind: "waypoint", id: waypoint._id })
+                    }
+                  />
+                );
+              })}
+
+              {locations.map((location) => (
+                <Marker
+                  key={location.userId}
+                  position={{ lat: location.lat, lng: location.lng }}
+                  title={location.name}
+                  icon={{
+                    path: google.maps.SymbolPath.CIRCLE,
+                    scale: 12,
+                    fillColor: MEMBER_COLOR,
+                    fillOpacity: 1,
+                    strokeColor: "#ffffff",
+                    strokeWeight: 3,
+                  }}
+                  label={{
+                    text: location.name.charAt(0).toUpperCase(),
+                    color: "#ffffff",
+                    fontSize: "12px",
+                    fontWeight: "bold",
+                  }}
+                  onClick={() =>
+                    setSelected({ kind: "member", id: location.userId })
+                  }
+                />
+              ))}
+
+              {selectedMember && (
+                <InfoWindow
+                  position={{
+                    lat: selectedMember.lat,
+                    lng: selectedMember.lng,
+                  }}
+                  onCloseClick={() => setSelected(null)}
+                >
+                  <div className="space-y-1 text-sm text-gray-900">
+                    <p className="font-semibold">{selectedMember.name}</p>
+                    <p className="text-xs text-gray-600">
+                      Updated{" "}
+                      {formatDistanceToNow(selectedMember.lastUpdated, {
+                        addSuffix: true,
+                      })}
+                    </p>
+                  </div>
+                </InfoWindow>
+              )}
+
+              {selectedWaypoint && (
+                <InfoWindow
+                  position={{
+                    lat: selectedWaypoint.lat,
+                    lng: selectedWaypoint.lng,
+                  }}
+                  onCloseClick={() => setSelected(null)}
+                >
+                  <div className="space-y-1 text-sm text-gray-900 max-w-56">
+                    <p className="font-semibold">{selectedWaypoint.name}</p>
+                    <p className="text-xs text-gray-600">
+                      {getWaypointType(selectedWaypoint.type).label} · Shared by{" "}
+                      {selectedWaypoint.ownerName}
+                    </p>
+                    {selectedWaypoint.description && (
+                      <p className="text-xs">{selectedWaypoint.description}</p>
+                    )}
+                  </div>
+                </InfoWindow>
+              )}
+            </GoogleMap>
+          </div>
+        )}
+
+        {sharedItems && sharedItems.tracks.length > 0 && (
+          <div className="space-y-1 text-sm">
+            <p className="font-medium">Shared Tracks</p>
+            {sharedItems.tracks.map((track) => (
+              <p key={track._id} className="text-muted-foreground">
+                {track.name} · {formatDistance(track.distance)} · by{" "}
+                {track.ownerName}
+              </p>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -25,6 +25,8 @@ import { MapPin, Settings, Users, Eye, EyeOff } from "lucide-react";
 import { toast } from "sonner";
 import { ConvexError } from "convex/values";
 import { Separator } from "@/components/ui/separator.tsx";
+import { Checkbox } from "@/components/ui/checkbox.tsx";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
 
 interface LocationSharingControlProps {
   userLocation: { lat: number; lng: number } | null;
@@ -36,10 +38,23 @@ export default function LocationSharingControl({
   const [isOpen, setIsOpen] = useState(false);
   const [shareWith, setShareWith] = useState<string>("all_friends");
 
+  const [selectedGroupIds, setSelectedGroupIds] = useState<
+    Id<"friendGroups">[]
+  >([]);
+
   const locationStatus = useQuery(api.locationSharing.getMyLocationStatus);
+  const groups = useQuery(api.friendGroups.getMyGroups);
   const updateLocation = useMutation(api.locationSharing.updateMyLocation);
   const toggleSharing = useMutation(api.locationSharing.toggleLocationSharing);
 
+  // Start from the saved group selection
+  const savedGroupIds = locationStatus?.selectedGroups;
+  useEffect(() => {
+    if (savedGroupIds) {
+      setSelectedGroupIds(savedGroupIds);
+    }
+  }, [savedGroupIds]);
+
   // Update location in backend when it changes
   useEffect(() => {
     if (userLocation && locationStatus?.isActive) {
@@ -70,6 +85,7 @@ export default function LocationSharingControl({
       await toggleSharing({
         isActive: checked,
         shareWith: shareWith,
+        selectedGroups: shareWith === "groups" ? selectedGroupIds : undefined,
       });
 
       toast.success(
@@ -88,7 +104,10 @@ export default function LocationSharingControl({
     }
   };
 
-  const handleShareWithChange = async (value: string) => {
+  const handleShareWithChange = async (
+    value: string,
+    groupIds: Id<"friendGroups">[] = selectedGroupIds,
+  ) => {
     setShareWith(value);
 
     if (locationStatus?.isActive) {
@@ -96,6 +115,7 @@ export default function LocationSharingControl({
         await toggleSharing({
           isActive: true,
           shareWith: value,
+          selectedGroups: value === "groups" ? groupIds : undefined,
         });
         toast.success("Privacy settings updated");
       } catch (error) {
@@ -112,6 +132,14 @@ export default function LocationSharingControl({
     }
   };
 
+  const handleGroupToggle = (groupId: Id<"friendGroups">, checked: boolean) => {
+    const groupIds = checked
+      ? [...selectedGroupIds, groupId]
+      : selectedGroupIds.filter((id) => id !== groupId);
+    setSelectedGroupIds(groupIds);
+    handleShareWithChange("groups", groupIds);
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
@@ -178,7 +206,7 @@ export default function LocationSharingControl({
 
                 <RadioGroup
                   value={shareWith}
-                  onValueChange={handleShareWithChange}
+                  onValueChange={(value) => handleShareWithChange(value)}
                   className="space-y-3"
                 >
                   <div className="flex items-start space-x-3">
@@ -209,6 +237,48 @@ export default function LocationSharingControl({
                     </div>
                   </div>
 
+                  <div className="flex items-start space-x-3">
+                    <RadioGroupItem
+                      value="groups"
+                      id="groups"
+                      disabled={!groups?.length}
+                    />
+                    <div className="space-y-1 leading-none">
+                      <Label htmlFor="groups" className="cursor-pointer">
+                        Groups
+                      </Label>
+                      <p className="text-sm text-muted-foreground">
+                        {groups?.length
+                          ? "Share with everyone in the groups you pick"
+                          : "Create a group from the Friends panel first"}
+                      </p>
+                      {shareWith === "groups" && (
+                        <div className="space-y-2 pt-2">
+                          {groups?.map((group) => (
+                            <div
+                              key={group._id}
+                              className="flex items-center gap-2"
+                            >
+                              <Checkbox
+                                id={`share-group-${group._id}`}
+                                checked={selectedGroupIds.includes(group._id)}
+                                onCheckedChange={(checked) =>
+                                  handleGroupToggle(group._id, checked === true)
+                                }
+                              />
+                              <Label
+                                htmlFor={`share-group-${group._id}`}
+                                className="font-normal"
+                              >
+                                {group.name}
+                              </Label>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
                   <div className="flex items-start space-x-3">
                     <RadioGroupItem value="none" id="none" />
                     <div className="space-y-1 leading-none">
@@ -236,7 +306,10 @@ export default function LocationSharingControl({
               </p>
               <p className="flex items-start gap-2">
                 <span className="text-primary">•</span>
-                <span>Only friends you've accepted can see your location</span>
+                <span>
+                  Only friends you've accepted, or people in groups you pick,
+                  can see your location
+                </span>
               </p>
               <p className="flex items-start gap-2">
                 <span className="text-primary">•</span>
@@ -0,0 +1,173 @@
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { Skeleton } from "@/components/ui/skeleton.tsx";
+import { Switch } from "@/components/ui/switch.tsx";
+import { Ban, Mail, Phone, Search, Shield } from "lucide-react";
+import { toast } from "sonner";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+/**
+ * Who can find you in friend search, and the members you've blocked
+ */
+export default function PrivacySettingsCard() {
+  const discoverability = useQuery(api.friends.getDiscoverability);
+  const blockedUsers = useQuery(api.friends.getBlockedUsers);
+  const updateDiscoverability = useMutation(api.friends.updateDiscoverability);
+  const unblockUser = useMutation(api.friends.unblockUser);
+
+  if (discoverability === undefined) {
+    return <Skeleton className="h-64" />;
+  }
+  if (discoverability === null) {
+    return null;
+  }
+
+  const save = async (
+    changes: Partial<{
+      searchable: boolean;
+      byEmail: boolean;
+      byPhone: boolean;
+    }>,
+  ) => {
+    try {
+      await updateDiscoverability({
+        searchable: discoverability.searchable,
+        byEmail: discoverability.byEmail,
+        byPhone: discoverability.byPhone,
+        ...changes,
+      });
+    } catch (error) {
+      console.error("Error saving privacy settings:", error);
+      toast.error("Failed to save privacy settings");
+    }
+  };
+
+  const handleUnblock = async (userId: Id<"users">, name: string) => {
+    try {
+      await unblockUser({ userId });
+      toast.success(`Unblocked ${name}`);
+    } catch (error) {
+      console.error("Error unblocking user:", error);
+      toast.error("Failed to unblock user");
+    }
+  };
+
+  const options = [
+    {
+      key: "searchable" as const,
+      icon: Search,
+      label: "Show Me in Friend Search",
+      description: "Let other members find you by name or username",
+      disabled: false,
+    },
+    {
+      key: "byEmail" as const,
+      icon: Mail,
+      label: "Find Me by Email",
+      description: discoverability.hasEmail
+        ? "Members who know your email address can find you with it"
+        : "Add an email address to your account to use this",
+      disabled: !discoverability.searchable || !discoverability.hasEmail,
+    },
+    {
+      key: "byPhone" as const,
+      icon: Phone,
+      label: "Find Me by Phone",
+      description: discoverability.hasPhoneNumber
+        ? "Members who know your phone number can find you with it"
+        : "Add a phone number to your profile to use this",
+      disabled: !discoverability.searchable || !discoverability.hasPhoneNumber,
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          <CardTitle>Privacy</CardTitle>
+        </div>
+        <CardDescription>
+          Control how other members can find you
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {options.map(({ key, icon: Icon, label, description, disabled }) => (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <div className="flex items-center gap-2">
+                <Icon className="h-4 w-4 text-muted-foreground" />
+                <Label className="text-base">{label}</Label>
+              </div>
+              <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+            <Switch
+              checked={discoverability[key] && !disabled}
+              disabled={disabled}
+              onCheckedChange={(checked) => save({ [key]: checked })}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="space-y-0.5">
+            <div className="flex items-center gap-2">
+              <Ban className="h-4 w-4 text-muted-foreground" />
+              <Label className="text-base">Blocked Members</Label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Blocked members can't find you, send you friend requests, see your
+              forum comments or trips, or see your location
+            </p>
+          </div>
+          {blockedUsers === undefined ? (
+            <Skeleton className="h-10" />
+          ) : blockedUsers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You haven't blocked anyone
+            </p>
+          ) : (
+            blockedUsers.map((blockedUser) => (
+              <div
+                key={blockedUser._id}
+                className="flex items-center justify-between gap-2"
+              >
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">
+                    {blockedUser.name || "Unknown"}
+                  </p>
+                  {blockedUser.username && (
+                    <p className="truncate text-xs text-muted-foreground">
+                      @{blockedUser.username}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    handleUnblock(
+                      blockedUser._id,
+                      blockedUser.name || "this member",
+                    )
+                  }
+                >
+                  Unblock
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
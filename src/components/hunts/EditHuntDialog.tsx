@@ -0,0 +1,421 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { Switch } from "@/components/ui/switch.tsx";
+import { Textarea } from "@/components/ui/textarea.tsx";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select.tsx";
+import { toast } from "sonner";
+import type { Doc } from "@/convex/_generated/dataModel.d.ts";
+import {
+  METHOD_OPTIONS,
+  SPECIES_OPTIONS,
+  fromDateTimeInput,
+  fromHarvestDraft,
+  toDateTimeInput,
+  toHarvestDraft,
+  toOptionalNumber,
+  withCurrentOption,
+  type HarvestDraft,
+} from "@/lib/hunt-options.ts";
+import HarvestEntriesEditor from "./HarvestEntriesEditor.tsx";
+
+interface EditHuntDialogProps {
+  hunt: Doc<"hunts"> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Correct a hunt's details after the fact, and its results once it's over
+ */
+export default function EditHuntDialog({
+  hunt,
+  onOpenChange,
+}: EditHuntDialogProps) {
+  const updateHunt = useMutation(api.hunts.updateHunt);
+  const [form, setForm] = useState({
+    title: "",
+    species: "",
+    method: "",
+    locationName: "",
+    state: "",
+    lat: "",
+    lng: "",
+    startTime: "",
+    endTime: "",
+    weather: "",
+    temperature: "",
+    windSpeed: "",
+    windDirection: "",
+    wildlifeSeen: "",
+    notes: "",
+    successful: false,
+    harvested: "",
+  });
+  const [harvests, setHarvests] = useState<HarvestDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!hunt) return;
+    setForm({
+      title: hunt.title,
+      species: hunt.species,
+      method: hunt.method ?? "",
+      locationName: hunt.locationName,
+      state: hunt.state ?? "",
+      lat: hunt.lat.toString(),
+      lng: hunt.lng.toString(),
+      startTime: toDateTimeInput(hunt.startTime),
+      endTime: hunt.endTime ? toDateTimeInput(hunt.endTime) : "",
+      weather: hunt.weather ?? "",
+      temperature: hunt.temperature?.toString() ?? "",
+      windSpeed: hunt.windSpeed?.toString() ?? "",
+      windDirection: hunt.windDirection ?? "",
+      wildlifeSeen: hunt.wildlifeSeen?.join(", ") ?? "",
+      notes: hunt.notes ?? "",
+      successful: hunt.successful,
+      harvested: hunt.harvested?.toString() ?? "",
+    });
+    setHarvests((hunt.harvestDetails ?? []).map(toHarvestDraft));
+  }, [hunt]);
+
+  const isActive = hunt?.status === "active";
+
+  const handleSave = async () => {
+    if (!hunt) return;
+    const lat = Number(form.lat);
+    const lng = Number(form.lng);
+    if (
+      form.lat.trim() === "" ||
+      form.lng.trim() === "" ||
+      isNaN(lat) ||
+      isNaN(lng)
+    ) {
+      toast.error("Enter a valid latitude and longitude");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateHunt({
+        huntId: hunt._id,
+        title: form.title,
+        species: form.species,
+        method: form.method,
+        locationName: form.locationName,
+        state: form.state,
+        lat,
+        lng,
+        startTime: fromDateTimeInput(form.startTime),
+        weather: form.weather,
+        temperature: toOptionalNumber(form.temperature),
+        windSpeed: toOptionalNumber(form.windSpeed),
+        windDirection: form.windDirection,
+        wildlifeSeen: form.wildlifeSeen.split(","),
+        notes: form.notes,
+        ...(isActive
+          ? {}
+          : {
+              endTime: form.endTime
+                ? fromDateTimeInput(form.endTime)
+                : undefined,
+              successful: form.successful,
+              harvested: toOptionalNumber(form.harvested),
+              harvestDetails: harvests.map((entry) => ({
+                ...fromHarvestDraft(entry),
+                photos: entry.photos,
+              })),
+            }),
+      });
+      toast.success("Hunt updated");
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof ConvexError) {
+        const { message } = error.data as { code: string; message: string };
+        toast.error(message);
+      } else {
+        toast.error("Failed to update hunt");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={hunt !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Hunt</DialogTitle>
+          <DialogDescription>
+            {isActive
+              ? "Results can be recorded once the hunt has ended."
+              : "Fix any details that were recorded wrong."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-hunt-title">Title</Label>
+            <Input
+              id="edit-hunt-title"
+              value={form.title}
+              maxLength={100}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Species</Label>
+              <Select
+                value={form.species}
+                onValueChange={(value) => setForm({ ...form, species: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Species" />
+                </SelectTrigger>
+                <SelectContent>
+                  {withCurrentOption(SPECIES_OPTIONS, hunt?.species).map(
+                    (species) => (
+                      <SelectItem key={species} value={species}>
+                        {species}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select
+                value={form.method}
+                onValueChange={(value) => setForm({ ...form, method: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {withCurrentOption(METHOD_OPTIONS, hunt?.method).map(
+                    (method) => (
+                      <SelectItem key={method} value={method}>
+                        {method}
+                      </SelectItem>
+                    ),
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="edit-hunt-location">Location</Label>
+              <Input
+                id="edit-hunt-location"
+                value={form.locationName}
+                maxLength={200}
+                onChange={(e) =>
+                  setForm({ ...form, locationName: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-hunt-state">State</Label>
+              <Input
+                id="edit-hunt-state"
+                value={form.state}
+                maxLength={50}
+                onChange={(e) => setForm({ ...form, state: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="edit-hunt-lat">Latitude</Label>
+              <Input
+                id="edit-hunt-lat"
+                type="number"
+                step="any"
+                value={form.lat}
+                onChange={(e) => setForm({ ...form, lat: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-hunt-lng">Longitude</Label>
+              <Input
+                id="edit-hunt-lng"
+                type="number"
+                step="any"
+                value={form.lng}
+                onChange={(e) => setForm({ ...form, lng: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="edit-hunt-start">Started</Label>
+              <Input
+                id="edit-hunt-start"
+                type="datetime-local"
+                value={form.startTime}
+                onChange={(e) =>
+                  setForm({ ...form, startTime: e.target.value })
+                }
+              />
+            </div>
+            {!isActive && (
+              <div className="space-y-2">
+                <Label htmlFor="edit-hunt-end">Ended</Label>
+                <Input
+                  id="edit-hunt-end"
+                  type="datetime-local"
+                  value={form.endTime}
+                  onChange={(e) =>
+                    setForm({ ...form, endTime: e.target.value })
+                  }
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="edit-hunt-weather">Weather</Label>
+              <Input
+                id="edit-hunt-weather"
+                value={form.weather}
+                maxLength={100}
+                placeholder="e.g. Clear"
+                onChange={(e) => setForm({ ...form, weather: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-hunt-temperature">Temperature (°F)</Label>
+              <Input
+                id="edit-hunt-temperature"
+                type="number"
+                value={form.temperature}
+                onChange={(e) =>
+                  setForm({ ...form, temperature: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-hunt-wind-speed">Wind (mph)</Label>
+              <Input
+                id="edit-hunt-wind-speed"
+                type="number"
+                min={0}
+                value={form.windSpeed}
+                onChange={(e) =>
+                  setForm({ ...form, windSpeed: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-hunt-wind-direction">Wind Direction</Label>
+              <Input
+                id="edit-hunt-wind-direction"
+                value={form.windDirection}
+                maxLength={20}
+                placeholder="e.g. NW"
+                onChange={(e) =>
+                  setForm({ ...form, windDirection: e.target.value })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-hunt-wildlife">Wildlife Seen</Label>
+            <Input
+              id="edit-hunt-wildlife"
+              value={form.wildlifeSeen}
+              placeholder="Separate with commas"
+              onChange={(e) =>
+                setForm({ ...form, wildlifeSeen: e.target.value })
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-hunt-notes">Notes</Label>
+            <Textarea
+              id="edit-hunt-notes"
+              value={form.notes}
+              maxLength={2000}
+              rows={3}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+          </div>
+
+          {!isActive && (
+            <>
+              <div className="grid grid-cols-2 items-end gap-3">
+                <div className="flex items-center gap-2 pb-2">
+                  <Switch
+                    id="edit-hunt-successful"
+                    checked={form.successful}
+                    onCheckedChange={(checked) =>
+                      setForm({ ...form, successful: checked })
+                    }
+                  />
+                  <Label htmlFor="edit-hunt-successful">Successful</Label>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-hunt-harvested">Animals Harvested</Label>
+                  <Input
+                    id="edit-hunt-harvested"
+                    type="number"
+                    min={0}
+                    value={form.harvested}
+                    onChange={(e) =>
+                      setForm({ ...form, harvested: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              <HarvestEntriesEditor
+                entries={harvests}
+                onChange={setHarvests}
+                defaultSpecies={form.species}
+                defaultTime={
+                  form.endTime || toDateTimeInput(hunt?.endTime ?? Date.now())
+                }
+              />
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !form.title.trim()}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
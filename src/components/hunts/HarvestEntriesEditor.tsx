@@ -0,0 +1,182 @@
+import { Button } from "@/components/ui/button.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { Textarea } from "@/components/ui/textarea.tsx";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select.tsx";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  AGE_OPTIONS,
+  SEX_OPTIONS,
+  SPECIES_OPTIONS,
+  withCurrentOption,
+  type HarvestDraft,
+} from "@/lib/hunt-options.ts";
+
+interface HarvestEntriesEditorProps {
+  entries: HarvestDraft[];
+  onChange: (entries: HarvestDraft[]) => void;
+  // Starting values for a newly added entry
+  defaultSpecies: string;
+  defaultTime: string;
+}
+
+/**
+ * Add, edit and remove the individual animals taken on a hunt
+ */
+export default function HarvestEntriesEditor({
+  entries,
+  onChange,
+  defaultSpecies,
+  defaultTime,
+}: HarvestEntriesEditorProps) {
+  const updateEntry = (index: number, changes: Partial<HarvestDraft>) => {
+    onChange(
+      entries.map((entry, i) =>
+        i === index ? { ...entry, ...changes } : entry,
+      ),
+    );
+  };
+
+  const handleAdd = () => {
+    onChange([
+      ...entries,
+      {
+        species: defaultSpecies,
+        sex: "",
+        age: "",
+        weight: "",
+        points: "",
+        time: defaultTime,
+        notes: "",
+      },
+    ]);
+  };
+
+  const handleRemove = (index: number) => {
+    const photoCount = entries[index].photos?.length ?? 0;
+    if (
+      photoCount > 0 &&
+      !confirm(
+        `Remove this harvest? Its ${photoCount} ${photoCount === 1 ? "photo" : "photos"} will be deleted when you save.`,
+      )
+    ) {
+      return;
+    }
+    onChange(entries.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Harvests</Label>
+        <Button variant="outline" size="sm" onClick={handleAdd}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add Harvest
+        </Button>
+      </div>
+      {entries.map((entry, index) => (
+        <div key={index} className="space-y-3 rounded-lg border p-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">
+              Harvest {index + 1}
+              {entry.photos?.length
+                ? ` · ${entry.photos.length} ${entry.photos.length === 1 ? "photo" : "photos"}`
+                : ""}
+            </p>
+            <Button
+              variant="ghost"
+              size="sm"
+              aria-label={`Remove harvest ${index + 1}`}
+              onClick={() => handleRemove(index)}
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <Select
+              value={entry.species}
+              onValueChange={(value) => updateEntry(index, { species: value })}
+            >
+              <SelectTrigger aria-label="Species">
+                <SelectValue placeholder="Species" />
+              </SelectTrigger>
+              <SelectContent>
+                {withCurrentOption(SPECIES_OPTIONS, entry.species).map(
+                  (species) => (
+                    <SelectItem key={species} value={species}>
+                      {species}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+            <Input
+              type="datetime-local"
+              aria-label="Time"
+              value={entry.time}
+              onChange={(e) => updateEntry(index, { time: e.target.value })}
+            />
+            <Select
+              value={entry.sex}
+              onValueChange={(value) => updateEntry(index, { sex: value })}
+            >
+              <SelectTrigger aria-label="Sex">
+                <SelectValue placeholder="Sex" />
+              </SelectTrigger>
+              <SelectContent>
+                {withCurrentOption(SEX_OPTIONS, entry.sex).map((sex) => (
+                  <SelectItem key={sex} value={sex}>
+                    {sex}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={entry.age}
+              onValueChange={(value) => updateEntry(index, { age: value })}
+            >
+              <SelectTrigger aria-label="Age">
+                <SelectValue placeholder="Age" />
+              </SelectTrigger>
+              <SelectContent>
+                {withCurrentOption(AGE_OPTIONS, entry.age).map((age) => (
+                  <SelectItem key={age} value={age}>
+                    {age}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              placeholder="Weight (lbs)"
+              value={entry.weight}
+              onChange={(e) => updateEntry(index, { weight: e.target.value })}
+            />
+            <Input
+              type="number"
+              min={0}
+              placeholder="Points"
+              value={entry.points}
+              onChange={(e) => updateEntry(index, { points: e.target.value })}
+            />
+          </div>
+          <Textarea
+            placeholder="Notes"
+            value={entry.notes}
+            maxLength={1000}
+            rows={2}
+            onChange={(e) => updateEntry(index, { notes: e.target.value })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
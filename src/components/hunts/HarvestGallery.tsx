@@ -0,0 +1,54 @@
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card.tsx";
+import { Skeleton } from "@/components/ui/skeleton.tsx";
+import { format } from "date-fns";
+import HuntPhotoTile from "./HuntPhotoTile.tsx";
+
+/**
+ * Every hunt and harvest photo, newest first, each labelled with where it
+ * came from and captioned in place
+ */
+export default function HarvestGallery() {
+  const photos = useQuery(api.hunts.getHarvestGallery);
+
+  // Nothing to show until the first photo is added from a hunt
+  if (photos !== undefined && photos.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Harvest Gallery</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {photos === undefined ? (
+          <div className="grid grid-cols-2 gap-3">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-40" />
+            ))}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {photos.map((photo) => (
+              <HuntPhotoTile
+                key={photo.storageId}
+                huntId={photo.huntId}
+                storageId={photo.storageId}
+                url={photo.url}
+                caption={photo.caption}
+                label={`${photo.harvestSpecies ?? photo.huntTitle} · ${format(photo.huntDate, "MMM d, yyyy")}`}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api.js";
+import { Input } from "@/components/ui/input.tsx";
+import { ImageIcon, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+interface HuntPhotoTileProps {
+  huntId: Id<"hunts">;
+  storageId: Id<"_storage">;
+  url: string | null;
+  caption?: string;
+  label?: string;
+}
+
+function getErrorMessage(error: unknown, fallback: string) {
+  if (error instanceof ConvexError) {
+    return (error.data as { message: string }).message;
+  }
+  return fallback;
+}
+
+/**
+ * A hunt photo with an editable caption, saved when the field loses focus
+ */
+export default function HuntPhotoTile({
+  huntId,
+  storageId,
+  url,
+  caption,
+  label,
+}: HuntPhotoTileProps) {
+  const updateCaption = useMutation(api.hunts.updateHuntPhotoCaption);
+  const deletePhoto = useMutation(api.hunts.deleteHuntPhoto);
+  const [draft, setDraft] = useState(caption ?? "");
+
+  useEffect(() => {
+    setDraft(caption ?? "");
+  }, [caption]);
+
+  const handleSaveCaption = async () => {
+    if (draft.trim() === (caption ?? "")) return;
+    try {
+      await updateCaption({ huntId, storageId, caption: draft });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save caption"));
+      setDraft(caption ?? "");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm("Delete this photo?")) return;
+    try {
+      await deletePhoto({ huntId, storageId });
+      toast.success("Photo deleted");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to delete photo"));
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="group relative">
+        {url ? (
+          <a href={url} target="_blank" rel="noopener noreferrer">
+            <img
+              src={url}
+              alt={caption ?? label ?? "Hunt photo"}
+              className="h-32 w-full rounded-md object-cover"
+            />
+          </a>
+        ) : (
+          <div className="flex h-32 items-center justify-center rounded-md bg-muted">
+            <ImageIcon className="h-8 w-8 text-muted-foreground" />
+          </div>
+        )}
+        <button
+          type="button"
+          aria-label="Delete photo"
+          onClick={handleDelete}
+          className="absolute right-1 top-1 rounded-full bg-destructive p-1 opacity-0 transition-opacity group-hover:opacity-100"
+        >
+          <Trash2 className="h-3 w-3 text-destructive-foreground" />
+        </button>
+      </div>
+      {label && (
+        <p className="truncate text-xs text-muted-foreground">{label}</p>
+      )}
+      <Input
+        value={draft}
+        maxLength={200}
+        placeholder="Add a caption"
+        className="h-8 text-xs"
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={handleSaveCaption}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import type { Doc, Id } from "@/convex/_generated/dataModel.d.ts";
+import HuntPhotoTile from "./HuntPhotoTile.tsx";
+
+const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+
+interface HuntPhotosDialogProps {
+  hunt: Doc<"hunts"> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Upload, caption and delete photos for a hunt and each of its harvests
+ */
+export default function HuntPhotosDialog({
+  hunt,
+  onOpenChange,
+}: HuntPhotosDialogProps) {
+  const gallery = useQuery(api.hunts.getHarvestGallery, hunt ? {} : "skip");
+  const generateUploadUrl = useMutation(api.hunts.generateHuntPhotoUploadUrl);
+  const addHuntPhoto = useMutation(api.hunts.addHuntPhoto);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Which section the file picker is uploading to: the hunt itself
+  // (undefined) or a harvest entry's index
+  const [uploadTarget, setUploadTarget] = useState<number | undefined>();
+  const [uploading, setUploading] = useState(false);
+
+  const photos = gallery?.filter((photo) => photo.huntId === hunt?._id) ?? [];
+
+  const pickFiles = (harvestIndex: number | undefined) => {
+    setUploadTarget(harvestIndex);
+    fileInputRef.current?.click();
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!hunt || !e.target.files) return;
+    const files = Array.from(e.target.files).filter((file) => {
+      if (!file.type.startsWith("image/")) {
+        toast.error(`${file.name} is not an image file`);
+        return false;
+      }
+      if (file.size > MAX_PHOTO_BYTES) {
+        toast.error(`${file.name} is larger than 5MB`);
+        return false;
+      }
+      return true;
+    });
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setUploading(true);
+    try {
+      for (const file of files) {
+        const { uploadUrl, uploadId } = await generateUploadUrl();
+        const result = await fetch(uploadUrl, {
+          method: "POST",
+          headers: { "Content-Type": file.type },
+          body: file,
+        });
+        const { storageId } = (await result.json()) as {
+          storageId: Id<"_storage">;
+        };
+        const added = await addHuntPhoto({
+          huntId: hunt._id,
+          uploadId,
+          storageId,
+          harvestIndex: uploadTarget,
+        });
+        if (!added.success) {
+          toast.error(added.message);
+          return;
+        }
+      }
+      toast.success(files.length === 1 ? "Photo added" : "Photos added");
+    } catch (error) {
+      if (error instanceof ConvexError) {
+        const { message } = error.data as { code: string; message: string };
+        toast.error(message);
+      } else {
+        toast.error("Failed to upload photo");
+      }
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const renderSection = (title: string, harvestIndex: number | undefined) => {
+    const sectionPhotos = photos.filter(
+      (photo) => photo.harvestIndex === harvestIndex,
+    );
+    return (
+      <div key={harvestIndex ?? "hunt"} className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <Label>{title}</Label>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={uploading}
+            onClick={() => pickFiles(harvestIndex)}
+          >
+            <Upload className="mr-1 h-4 w-4" />
+            Add
+          </Button>
+        </div>
+        {sectionPhotos.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No photos yet</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {sectionPhotos.map((photo) => (
+              <HuntPhotoTile
+                key={photo.storageId}
+                huntId={photo.huntId}
+                storageId={photo.storageId}
+                url={photo.url}
+                caption={photo.caption}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={hunt !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Photos</DialogTitle>
+          <DialogDescription>
+            {hunt?.title}. Up to 20 photos per hunt, 5MB each.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          onChange={handleFiles}
+          className="hidden"
+        />
+
+        <div className="space-y-6">
+          {renderSection("Hunt", undefined)}
+          {hunt?.harvestDetails?.map((entry, index) =>
+            renderSection(
+              `Harvest ${index + 1}: ${entry.species}, ${format(entry.time, "h:mm a")}`,
+              index,
+            ),
+          )}
+          {uploading && (
+            <p className="text-xs text-muted-foreground">Uploading...</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,393 @@
+import { useEffect, useState } from "react";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { Switch } from "@/components/ui/switch.tsx";
+import { Textarea } from "@/components/ui/textarea.tsx";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select.tsx";
+import { toast } from "sonner";
+import { useOfflineMutation } from "@/hooks/use-offline-mutation.ts";
+import {
+  METHOD_OPTIONS,
+  SPECIES_OPTIONS,
+  fromDateTimeInput,
+  fromHarvestDraft,
+  toOptionalNumber,
+  type HarvestDraft,
+} from "@/lib/hunt-options.ts";
+import HarvestEntriesEditor from "./HarvestEntriesEditor.tsx";
+
+const EMPTY_FORM = {
+  title: "",
+  species: "",
+  method: "",
+  locationName: "",
+  state: "",
+  lat: "",
+  lng: "",
+  startTime: "",
+  endTime: "",
+  weather: "",
+  temperature: "",
+  windSpeed: "",
+  windDirection: "",
+  notes: "",
+  successful: false,
+  harvested: "",
+};
+
+interface LogPastHuntDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prefills the coordinates, usually the device's current position
+  defaultLocation: { lat: number; lng: number } | null;
+}
+
+/**
+ * Record a hunt that already happened with its real start and end times
+ */
+export default function LogPastHuntDialog({
+  open,
+  onOpenChange,
+  defaultLocation,
+}: LogPastHuntDialogProps) {
+  const logPastHunt = useOfflineMutation(api.hunts.logPastHunt, "Log hunt");
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [harvests, setHarvests] = useState<HarvestDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setForm({
+      ...EMPTY_FORM,
+      lat: defaultLocation?.lat.toFixed(6) ?? "",
+      lng: defaultLocation?.lng.toFixed(6) ?? "",
+    });
+    setHarvests([]);
+    // Only prefill when the dialog opens, not as the position updates
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleSave = async () => {
+    if (
+      !form.title.trim() ||
+      !form.locationName.trim() ||
+      !form.species ||
+      !form.startTime ||
+      !form.endTime
+    ) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+    const lat = Number(form.lat);
+    const lng = Number(form.lng);
+    if (
+      form.lat.trim() === "" ||
+      form.lng.trim() === "" ||
+      isNaN(lat) ||
+      isNaN(lng)
+    ) {
+      toast.error("Enter a valid latitude and longitude");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { queued } = await logPastHunt({
+        title: form.title,
+        species: form.species,
+        method: form.method || undefined,
+        locationName: form.locationName,
+        state: form.state || undefined,
+        lat,
+        lng,
+        startTime: fromDateTimeInput(form.startTime),
+        endTime: fromDateTimeInput(form.endTime),
+        weather: form.weather || undefined,
+        temperature: toOptionalNumber(form.temperature),
+        windSpeed: toOptionalNumber(form.windSpeed),
+        windDirection: form.windDirection || undefined,
+        notes: form.notes || undefined,
+        successful: form.successful,
+        harvested: toOptionalNumber(form.harvested),
+        harvestDetails:
+          harvests.length > 0 ? harvests.map(fromHarvestDraft) : undefined,
+      });
+      toast.success(
+        queued
+          ? "Hunt saved offline. It will sync when you're back online."
+          : "Hunt logged",
+      );
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof ConvexError) {
+        const { message } = error.data as { code: string; message: string };
+        toast.error(message);
+      } else {
+        toast.error("Failed to log hunt");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Log Past Hunt</DialogTitle>
+          <DialogDescription>
+            Record a hunt you've already been on, like last season's or one you
+            forgot to start
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="past-hunt-title">Title *</Label>
+            <Input
+              id="past-hunt-title"
+              value={form.title}
+              maxLength={100}
+              placeholder="e.g., Opening Day 2025"
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Species *</Label>
+              <Select
+                value={form.species}
+                onValueChange={(value) => setForm({ ...form, species: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Species" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SPECIES_OPTIONS.map((species) => (
+                    <SelectItem key={species} value={species}>
+                      {species}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Method</Label>
+              <Select
+                value={form.method}
+                onValueChange={(value) => setForm({ ...form, method: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {METHOD_OPTIONS.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {method}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="past-hunt-location">Location *</Label>
+              <Input
+                id="past-hunt-location"
+                value={form.locationName}
+                maxLength={200}
+                placeholder="e.g., North Ridge Stand"
+                onChange={(e) =>
+                  setForm({ ...form, locationName: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="past-hunt-state">State</Label>
+              <Input
+                id="past-hunt-state"
+                value={form.state}
+                maxLength={50}
+                onChange={(e) => setForm({ ...form, state: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="past-hunt-lat">Latitude *</Label>
+              <Input
+                id="past-hunt-lat"
+                type="number"
+                step="any"
+                value={form.lat}
+                onChange={(e) => setForm({ ...form, lat: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="past-hunt-lng">Longitude *</Label>
+              <Input
+                id="past-hunt-lng"
+                type="number"
+                step="any"
+                value={form.lng}
+                onChange={(e) => setForm({ ...form, lng: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="past-hunt-start">Started *</Label>
+              <Input
+                id="past-hunt-start"
+                type="datetime-local"
+                value={form.startTime}
+                onChange={(e) =>
+                  setForm({ ...form, startTime: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="past-hunt-end">Ended *</Label>
+              <Input
+                id="past-hunt-end"
+                type="datetime-local"
+                value={form.endTime}
+                onChange={(e) => setForm({ ...form, endTime: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="past-hunt-weather">Weather</Label>
+                <Input
+                  id="past-hunt-weather"
+                  value={form.weather}
+                  maxLength={100}
+                  placeholder="e.g. Clear"
+                  onChange={(e) =>
+                    setForm({ ...form, weather: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="past-hunt-temperature">Temperature (°F)</Label>
+                <Input
+                  id="past-hunt-temperature"
+                  type="number"
+                  value={form.temperature}
+                  onChange={(e) =>
+                    setForm({ ...form, temperature: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="past-hunt-wind-speed">Wind (mph)</Label>
+                <Input
+                  id="past-hunt-wind-speed"
+                  type="number"
+                  min={0}
+                  value={form.windSpeed}
+                  onChange={(e) =>
+                    setForm({ ...form, windSpeed: e.target.value })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="past-hunt-wind-direction">Wind Direction</Label>
+                <Input
+                  id="past-hunt-wind-direction"
+                  value={form.windDirection}
+                  maxLength={20}
+                  placeholder="e.g. NW"
+                  onChange={(e) =>
+                    setForm({ ...form, windDirection: e.target.value })
+                  }
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Leave weather blank to look it up for the start time automatically
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="past-hunt-notes">Notes</Label>
+            <Textarea
+              id="past-hunt-notes"
+              value={form.notes}
+              maxLength={2000}
+              rows={3}
+              placeholder="What did you see? Any observations?"
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 items-end gap-3">
+            <div className="flex items-center gap-2 pb-2">
+              <Switch
+                id="past-hunt-successful"
+                checked={form.successful}
+                onCheckedChange={(checked) =>
+                  setForm({ ...form, successful: checked })
+                }
+              />
+              <Label htmlFor="past-hunt-successful">Successful</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="past-hunt-harvested">Animals Harvested</Label>
+              <Input
+                id="past-hunt-harvested"
+                type="number"
+                min={0}
+                value={form.harvested}
+                onChange={(e) =>
+                  setForm({ ...form, harvested: e.target.value })
+                }
+              />
+            </div>
+          </div>
+
+          <HarvestEntriesEditor
+            entries={harvests}
+            onChange={setHarvests}
+            defaultSpecies={form.species}
+            defaultTime={form.endTime || form.startTime}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Log Hunt"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,13 @@
-import { Layers, Navigation, Cloud } from "lucide-react";
-import { useState, useCallback } from "react";
-import { GoogleMap, useLoadScript, Marker } from "@react-google-maps/api";
+import { Layers, Navigation, Cloud, Download, WifiOff } from "lucide-react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { GoogleMap, useLoadScript, Marker, Rectangle } from "@react-google-maps/api";
 import { Button } from "@/components/ui/button.tsx";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu.tsx";
 import { toast } from "sonner";
@@ -15,24 +17,96 @@ import LayerControl from "./LayerControl.tsx";
 import PropertyDetailsPanel from "./PropertyDetailsPanel.tsx";
 import HuntingUnitLayer from "./HuntingUnitLayer.tsx";
 import HuntingUnitPanel from "./HuntingUnitPanel.tsx";
+import LandStatusPanel from "./LandStatusPanel.tsx";
+import OfflineDataLayer from "./OfflineDataLayer.tsx";
+import OfflineRegionDownloadPanel from "./OfflineRegionDownloadPanel.tsx";
+import OfflineRegionsManager from "./OfflineRegionsManager.tsx";
 import WeatherPanel from "../weather/WeatherPanel.tsx";
 import TrackingControl from "../tracking/TrackingControl.tsx";
 import TrackLayer from "../tracking/TrackLayer.tsx";
 import WaypointLayer from "../tracking/WaypointLayer.tsx";
 import AddWaypointDialog from "../tracking/AddWaypointDialog.tsx";
 import FriendLocationLayer from "../friends/FriendLocationLayer.tsx";
-import { Authenticated } from "convex/react";
+import AuthenticatedOrOffline from "../offline/AuthenticatedOrOffline.tsx";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
 import type { Doc } from "@/convex/_generated/dataModel.d.ts";
+import { getLandKey, getLandVerdict } from "@/lib/land-status.ts";
+import { useOnlineStatus } from "@/hooks/use-online-status.ts";
+import { useOfflineRegions } from "@/hooks/use-offline-regions.ts";
+import {
+  OFFLINE_BASEMAPS,
+  getTileUrl,
+  type OfflineBasemapId,
+  type TileBounds,
+} from "@/lib/offline-tiles.ts";
+import type { OfflineRegion } from "@/lib/offline-regions.ts";
 
-export type MapType = "roadmap" | "satellite" | "hybrid" | "terrain";
+export type MapType =
+  | "roadmap"
+  | "satellite"
+  | "hybrid"
+  | "terrain"
+  | OfflineBasemapId;
 
 const MAP_TYPE_NAMES: Record<MapType, string> = {
   roadmap: "Roadmap",
   satellite: "Satellite",
   hybrid: "Hybrid",
   terrain: "Terrain",
+  usgsTopo: OFFLINE_BASEMAPS.usgsTopo.label,
+  usgsImagery: OFFLINE_BASEMAPS.usgsImagery.label,
 };
 
+function isOfflineBasemap(mapType: MapType): mapType is OfflineBasemapId {
+  return mapType in OFFLINE_BASEMAPS;
+}
+
+// Register the downloadable basemaps as custom map types on a map
+function addOfflineBasemaps(map: google.maps.Map) {
+  for (const basemap of Object.values(OFFLINE_BASEMAPS)) {
+    map.mapTypes.set(
+      basemap.id,
+      new google.maps.ImageMapType({
+        name: basemap.label,
+        maxZoom: basemap.maxZoom,
+        tileSize: new google.maps.Size(256, 256),
+        getTileUrl: (coord, zoom) => {
+          // Wrap around the antimeridian like Google's own tiles do
+          const n = 2 ** zoom;
+          const x = ((coord.x % n) + n) % n;
+          if (coord.y < 0 || coord.y >= n) return null;
+          return getTileUrl(basemap.id, x, coord.y, zoom);
+        },
+      }),
+    );
+  }
+}
+
+function boundsToTileBounds(bounds: google.maps.LatLngBounds): TileBounds {
+  const ne = bounds.getNorthEast();
+  const sw = bounds.getSouthWest();
+  return {
+    minLat: sw.lat(),
+    maxLat: ne.lat(),
+    minLng: sw.lng(),
+    maxLng: ne.lng(),
+  };
+}
+
+// Starting rectangle for a region download: the middle half of the view
+function insetBounds(bounds: google.maps.LatLngBounds): TileBounds {
+  const box = boundsToTileBounds(bounds);
+  const latInset = (box.maxLat - box.minLat) / 4;
+  const lngInset = (box.maxLng - box.minLng) / 4;
+  return {
+    minLat: box.minLat + latInset,
+    maxLat: box.maxLat - latInset,
+    minLng: box.minLng + lngInset,
+    maxLng: box.maxLng - lngInset,
+  };
+}
+
 function MapTypeControl({
   mapType,
   onMapTypeChange,
@@ -62,6 +136,18 @@ function MapTypeControl({
           <DropdownMenuItem onClick={() => onMapTypeChange("terrain")}>
             Terrain
           </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+            Available offline
+          </DropdownMenuLabel>
+          {Object.values(OFFLINE_BASEMAPS).map((basemap) => (
+            <DropdownMenuItem
+              key={basemap.id}
+              onClick={() => onMapTypeChange(basemap.id)}
+            >
+              {basemap.label}
+            </DropdownMenuItem>
+          ))}
         </DropdownMenuContent>
       </DropdownMenu>
     </div>
@@ -71,10 +157,12 @@ function MapTypeControl({
 function LocationButton({
   map,
   onWeatherClick,
+  onOfflineMapsClick,
   onLocationUpdate,
 }: {
   map: google.maps.Map | null;
   onWeatherClick: () => void;
+  onOfflineMapsClick: () => void;
   onLocationUpdate: (lat: number, lng: number) => void;
 }) {
   const [isLocating, setIsLocating] = useState(false);
@@ -117,6 +205,14 @@ function LocationButton({
       >
         <Cloud className="h-4 w-4" />
       </Button>
+      <Button
+        size="icon"
+        onClick={onOfflineMapsClick}
+        className="shadow-lg"
+        title="Offline maps"
+      >
+        <Download className="h-4 w-4" />
+      </Button>
       <Button
         size="icon"
         onClick={handleLocate}
@@ -155,7 +251,10 @@ export default function HuntingMap({
     huntingUnits: false,
     publicLand: false,
     friends: true,
+    tracks: true,
+    waypoints: true,
   });
+  const [selectedTrackIds, setSelectedTrackIds] = useState<string[]>([]);
   const [userLocation, setUserLocation] = useState<{
     lat: number;
     lng: number;
@@ -164,6 +263,7 @@ export default function HuntingMap({
     useState<Doc<"properties"> | null>(null);
   const [selectedHuntingUnit, setSelectedHuntingUnit] =
     useState<Doc<"huntingUnits"> | null>(null);
+  const [showLandStatus, setShowLandStatus] = useState(false);
   const [showWeather, setShowWeather] = useState(false);
   const [weatherLocation, setWeatherLocation] = useState(initialCenter);
   const [waypointDialogOpen, setWaypointDialogOpen] = useState(false);
@@ -172,8 +272,79 @@ export default function HuntingMap({
     lng: number;
     altitude?: number;
   } | null>(null);
+  const [showOfflineRegions, setShowOfflineRegions] = useState(false);
+  const [regionStart, setRegionStart] = useState<TileBounds | null>(null);
+  const [regionSelection, setRegionSelection] = useState<TileBounds | null>(
+    null,
+  );
+  const regionRectangle = useRef<google.maps.Rectangle | null>(null);
+  const isOnline = useOnlineStatus();
+  const offlineRegions = useOfflineRegions();
+
+  // ~1m precision is plenty for boundary checks and avoids a new
+  // subscription for every sub-meter GPS wobble
+  const landQueryArgs = userLocation
+    ? {
+        lat: Math.round(userLocation.lat * 1e5) / 1e5,
+        lng: Math.round(userLocation.lng * 1e5) / 1e5,
+      }
+    : "skip";
+  const landStatus = useQuery(api.landStatus.getLandAtLocation, landQueryArgs);
+  const previousLandKey = useRef<string | null>(null);
+
+  // Warn when the live position crosses into a different parcel or unit
+  useEffect(() => {
+    if (!landStatus) return;
+
+    const key = getLandKey(landStatus);
+    if (previousLandKey.current !== null && previousLandKey.current !== key) {
+      const verdict = getLandVerdict(landStatus);
+      const message = `Boundary crossed: ${verdict.label}`;
+      if (verdict.tone === "allowed") {
+        toast.info(message, { description: verdict.detail });
+      } else {
+        toast.warning(message, { description: verdict.detail });
+      }
+      setShowLandStatus(true);
+    }
+    previousLandKey.current = key;
+  }, [landStatus]);
+
+  // Google's basemaps need a connection, so fall back to a downloaded one
+  const latestBasemap = offlineRegions?.[0]?.basemap;
+  useEffect(() => {
+    if (!isOnline && latestBasemap) {
+      setMapType((current) =>
+        isOfflineBasemap(current) ? current : latestBasemap,
+      );
+    }
+  }, [isOnline, latestBasemap]);
+
+  // Only the starting bounds go in the options; after that the user moves
+  // the rectangle and React just reads its bounds back
+  const regionRectangleOptions = useMemo(
+    () =>
+      regionStart
+        ? {
+            bounds: {
+              north: regionStart.maxLat,
+              south: regionStart.minLat,
+              east: regionStart.maxLng,
+              west: regionStart.minLng,
+            },
+            editable: true,
+            draggable: true,
+            strokeColor: "#2563eb",
+            strokeWeight: 2,
+            fillColor: "#2563eb",
+            fillOpacity: 0.1,
+          }
+        : null,
+    [regionStart],
+  );
 
   const onLoad = useCallback((map: google.maps.Map) => {
+    addOfflineBasemaps(map);
     setMap(map);
   }, []);
 
@@ -185,6 +356,12 @@ export default function HuntingMap({
     setLayers((prev) => ({ ...prev, [layer]: enabled }));
   };
 
+  const handleTrackToggle = (trackId: string, selected: boolean) => {
+    setSelectedTrackIds((prev) =>
+      selected ? [...prev, trackId] : prev.filter((id) => id !== trackId),
+    );
+  };
+
   const handlePropertyClick = (property: Doc<"properties">) => {
     setSelectedProperty(property);
     setSelectedHuntingUnit(null);
@@ -199,6 +376,38 @@ export default function HuntingMap({
     setShowWeather(true);
   };
 
+  const handleDownloadNewRegion = () => {
+    const bounds = map?.getBounds();
+    if (!bounds) return;
+    const start = insetBounds(bounds);
+    setShowOfflineRegions(false);
+    setRegionStart(start);
+    setRegionSelection(start);
+  };
+
+  const handleCloseRegionSelection = () => {
+    setRegionStart(null);
+    setRegionSelection(null);
+  };
+
+  const handleShowRegion = (region: OfflineRegion) => {
+    setShowOfflineRegions(false);
+    map?.fitBounds({
+      north: region.bounds.maxLat,
+      south: region.bounds.minLat,
+      east: region.bounds.maxLng,
+      west: region.bounds.minLng,
+    });
+    setMapType(region.basemap);
+  };
+
+  const handleRegionBoundsChanged = () => {
+    const bounds = regionRectangle.current?.getBounds();
+    if (bounds) {
+      setRegionSelection(boundsToTileBounds(bounds));
+    }
+  };
+
   const handleWaypointAdd = (lat: number, lng: number, altitude?: number) => {
     setWaypointLocation({ lat, lng, altitude });
     setWaypointDialogOpen(true);
@@ -238,34 +447,92 @@ export default function HuntingMap({
           mapTypeId: mapType,
         }}
       >
-        <Authenticated>
-          {layers.properties && (
-            <PropertyLayer onPropertyClick={handlePropertyClick} map={map} />
-          )}
-          {layers.huntingUnits && (
-            <HuntingUnitLayer onUnitClick={handleHuntingUnitClick} map={map} />
+        <AuthenticatedOrOffline>
+          {isOnline ? (
+            <>
+              {layers.properties && (
+                <PropertyLayer onPropertyClick={handlePropertyClick} map={map} />
+              )}
+              {layers.huntingUnits && (
+                <HuntingUnitLayer onUnitClick={handleHuntingUnitClick} map={map} />
+              )}
+              <WaypointLayer visible={layers.waypoints} />
+            </>
+          ) : (
+            <OfflineDataLayer
+              layers={layers}
+              onPropertyClick={handlePropertyClick}
+              onUnitClick={handleHuntingUnitClick}
+            />
           )}
-          <TrackLayer map={map} />
-          <WaypointLayer map={map} />
-          <FriendLocationLayer visible={layers.friends} map={map} />
-        </Authenticated>
+          <TrackLayer
+            visible={layers.tracks}
+            selectedTrackIds={selectedTrackIds}
+          />
+          <FriendLocationLayer visible={layers.friends} />
+        </AuthenticatedOrOffline>
+        {regionRectangleOptions && (
+          <Rectangle
+            options={regionRectangleOptions}
+            onLoad={(rectangle) => {
+              regionRectangle.current = rectangle;
+            }}
+            onUnmount={() => {
+              regionRectangle.current = null;
+            }}
+            onBoundsChanged={handleRegionBoundsChanged}
+          />
+        )}
         {userLocation && <Marker position={userLocation} />}
       </GoogleMap>
       
       <MapTypeControl mapType={mapType} onMapTypeChange={setMapType} />
+      {!isOnline && (
+        <div className="absolute top-16 left-4 z-1000 flex items-center gap-1 rounded-md bg-background/90 px-2 py-1 text-xs shadow">
+          <WifiOff className="h-3 w-3" />
+          Offline · showing downloaded data
+        </div>
+      )}
       <LocationButton
         map={map}
         onWeatherClick={handleWeatherClick}
+        onOfflineMapsClick={() => setShowOfflineRegions(true)}
         onLocationUpdate={(lat, lng) => {
           setUserLocation({ lat, lng });
+          setShowLandStatus(true);
           if (onLocationUpdate) {
             onLocationUpdate(lat, lng);
           }
         }}
       />
+
+      {showLandStatus && userLocation && (
+        <LandStatusPanel
+          land={landStatus}
+          onClose={() => setShowLandStatus(false)}
+        />
+      )}
       
-      <Authenticated>
-        <LayerControl layers={layers} onLayerToggle={handleLayerToggle} />
+      <OfflineRegionsManager
+        open={showOfflineRegions}
+        onOpenChange={setShowOfflineRegions}
+        onDownloadNew={handleDownloadNewRegion}
+        onShowRegion={handleShowRegion}
+      />
+
+      <AuthenticatedOrOffline>
+        {regionSelection && (
+          <OfflineRegionDownloadPanel
+            bounds={regionSelection}
+            onClose={handleCloseRegionSelection}
+          />
+        )}
+        <LayerControl
+          layers={layers}
+          onLayerToggle={handleLayerToggle}
+          selectedTrackIds={selectedTrackIds}
+          onTrackToggle={handleTrackToggle}
+        />
         <TrackingControl
           onWaypointAdd={handleWaypointAdd}
           onLocationUpdate={(lat, lng) => {
@@ -303,7 +570,7 @@ export default function HuntingMap({
             altitude={waypointLocation.altitude}
           />
         )}
-      </Authenticated>
+      </AuthenticatedOrOffline>
     </div>
   );
 }
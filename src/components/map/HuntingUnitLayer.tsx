@@ -1,11 +1,56 @@
+import { useRef } from "react";
+import { useQuery } from "convex/react";
+import { Polygon } from "@react-google-maps/api";
+import { api } from "@/convex/_generated/api.js";
 import type { Doc } from "@/convex/_generated/dataModel.d.ts";
+import { useMapViewport } from "@/hooks/use-map-viewport.ts";
+import { boundariesToPaths } from "@/lib/geojson.ts";
+import { getHuntingUnitColor } from "@/lib/land-colors.ts";
 
 interface HuntingUnitLayerProps {
   onUnitClick?: (unit: Doc<"huntingUnits">) => void;
   map: google.maps.Map | null;
 }
 
+// Units are large, so they stay visible further out than parcels
+const MIN_ZOOM = 7;
+
 export default function HuntingUnitLayer({ onUnitClick, map }: HuntingUnitLayerProps) {
-  // TODO: Implement hunting unit polygons using Google Maps Polygon API
-  return null;
+  const viewport = useMapViewport(map);
+  const visible = viewport !== null && viewport.zoom >= MIN_ZOOM;
+  const units = useQuery(
+    api.huntingUnits.getHuntingUnitsInBounds,
+    visible ? viewport.bounds : "skip",
+  );
+
+  // Keep drawing the previous results while the next viewport loads
+  const lastUnits = useRef<Doc<"huntingUnits">[]>([]);
+  if (units) {
+    lastUnits.current = units;
+  }
+
+  if (!visible) return null;
+
+  return (
+    <>
+      {lastUnits.current.map((unit) => {
+        const color = getHuntingUnitColor(unit.type);
+        return (
+          <Polygon
+            key={unit._id}
+            paths={boundariesToPaths(unit.boundaries)}
+            options={{
+              strokeColor: color,
+              strokeOpacity: 0.9,
+              strokeWeight: 2,
+              fillColor: color,
+              fillOpacity: unit.allowsHunting ? 0.15 : 0.05,
+              clickable: true,
+            }}
+            onClick={() => onUnitClick?.(unit)}
+          />
+        );
+      })}
+    </>
+  );
 }
@@ -0,0 +1,59 @@
+import { Button } from "@/components/ui/button.tsx";
+import { X, ShieldCheck, ShieldAlert, ShieldX, ShieldQuestion } from "lucide-react";
+import {
+  getLandVerdict,
+  type LandAtLocation,
+  type LandVerdictTone,
+} from "@/lib/land-status.ts";
+
+interface LandStatusPanelProps {
+  land: LandAtLocation | undefined;
+  onClose: () => void;
+}
+
+const TONE_STYLES: Record<LandVerdictTone, string> = {
+  allowed: "border-green-500 text-green-700 dark:text-green-400",
+  caution: "border-amber-500 text-amber-700 dark:text-amber-400",
+  prohibited: "border-red-500 text-red-700 dark:text-red-400",
+  unknown: "border-muted text-muted-foreground",
+};
+
+const TONE_ICONS = {
+  allowed: ShieldCheck,
+  caution: ShieldAlert,
+  prohibited: ShieldX,
+  unknown: ShieldQuestion,
+};
+
+export default function LandStatusPanel({ land, onClose }: LandStatusPanelProps) {
+  const verdict = land ? getLandVerdict(land) : null;
+  const Icon = verdict ? TONE_ICONS[verdict.tone] : ShieldQuestion;
+
+  return (
+    <div
+      className={`absolute bottom-36 left-1/2 -translate-x-1/2 z-1000 w-80 max-w-[calc(100%-2rem)] bg-background border-2 rounded-lg shadow-lg p-3 md:bottom-4 ${
+        verdict ? TONE_STYLES[verdict.tone] : TONE_STYLES.unknown
+      }`}
+    >
+      <div className="flex items-start gap-2">
+        <Icon className="h-5 w-5 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-sm">
+            {verdict ? verdict.label : "Checking land status..."}
+          </p>
+          {verdict?.detail && (
+            <p className="text-xs text-muted-foreground mt-1">{verdict.detail}</p>
+          )}
+          {land?.property && land.huntingUnit && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Parcel {land.property.parcelId} · {land.property.ownerName}
+            </p>
+          )}
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
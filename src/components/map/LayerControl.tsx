@@ -1,4 +1,7 @@
-import { Map, MapPin, Trees, Mountain, Users } from "lucide-react";
+import { Map, MapPin, Trees, Mountain, Users, Route, Flag } from "lucide-react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import { useCachedQuery } from "@/hooks/use-cached-query.ts";
 import { Button } from "@/components/ui/button.tsx";
 import {
   DropdownMenu,
@@ -8,6 +11,7 @@ import {
   DropdownMenuLabel,
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu.tsx";
+import { WAYPOINT_TYPES } from "@/lib/waypoint-types.ts";
 
 interface LayerControlProps {
   layers: {
@@ -15,14 +19,26 @@ interface LayerControlProps {
     huntingUnits: boolean;
     publicLand: boolean;
     friends: boolean;
+    tracks: boolean;
+    waypoints: boolean;
   };
   onLayerToggle: (layer: string, enabled: boolean) => void;
+  selectedTrackIds: string[];
+  onTrackToggle: (trackId: string, selected: boolean) => void;
 }
 
 export default function LayerControl({
   layers,
   onLayerToggle,
+  selectedTrackIds,
+  onTrackToggle,
 }: LayerControlProps) {
+  const tracks = useCachedQuery(api.tracks.getMyTracks);
+  const savedTracks = tracks?.filter((track) => !track.isActive) ?? [];
+  // Not cached offline, so revoked shares disappear on the next load
+  const shared = useQuery(api.mapItemShares.getSharedWithMe);
+  const sharedTracks = shared?.tracks ?? [];
+
   return (
     <div className="absolute top-4 right-4 z-1000">
       <DropdownMenu>
@@ -62,6 +78,79 @@ export default function LayerControl({
             Friends' Locations
           </DropdownMenuCheckboxItem>
 
+          <DropdownMenuCheckboxItem
+            checked={layers.tracks}
+            onCheckedChange={(checked) => onLayerToggle("tracks", checked)}
+          >
+            <Route className="w-4 h-4 mr-2" />
+            Tracks
+          </DropdownMenuCheckboxItem>
+
+          <DropdownMenuCheckboxItem
+            checked={layers.waypoints}
+            onCheckedChange={(checked) => onLayerToggle("waypoints", checked)}
+          >
+            <Flag className="w-4 h-4 mr-2" />
+            Waypoints
+          </DropdownMenuCheckboxItem>
+
+          {layers.tracks && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                Saved Tracks
+              </DropdownMenuLabel>
+              {savedTracks.length === 0 ? (
+                <div className="px-2 py-1.5 text-xs text-muted-foreground">
+                  No saved tracks yet
+                </div>
+              ) : (
+                <div className="max-h-48 overflow-y-auto">
+                  {savedTracks.map((track) => (
+                    <DropdownMenuCheckboxItem
+                      key={track._id}
+                      checked={selectedTrackIds.includes(track._id)}
+                      onCheckedChange={(checked) =>
+                        onTrackToggle(track._id, checked)
+                      }
+                      // Keep the menu open so several tracks can be picked
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      <span className="truncate">{track.name}</span>
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </div>
+              )}
+              {sharedTracks.length > 0 && (
+                <>
+                  <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                    Shared With Me
+                  </DropdownMenuLabel>
+                  <div className="max-h-48 overflow-y-auto">
+                    {sharedTracks.map((track) => (
+                      <DropdownMenuCheckboxItem
+                        key={track._id}
+                        checked={selectedTrackIds.includes(track._id)}
+                        onCheckedChange={(checked) =>
+                          onTrackToggle(track._id, checked)
+                        }
+                        onSelect={(e) => e.preventDefault()}
+                      >
+                        <span className="truncate">
+                          {track.name}
+                          <span className="text-muted-foreground">
+                            {" "}
+                            · {track.ownerName}
+                          </span>
+                        </span>
+                      </DropdownMenuCheckboxItem>
+                    ))}
+                  </div>
+                </>
+              )}
+            </>
+          )}
+
           <DropdownMenuSeparator />
           <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
             Property Colors
@@ -102,6 +191,25 @@ export default function LayerControl({
               <span>National Forest</span>
             </div>
           </div>
+          {layers.waypoints && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                Waypoint Types
+              </DropdownMenuLabel>
+              <div className="px-2 py-1.5 space-y-1">
+                {WAYPOINT_TYPES.map((type) => (
+                  <div key={type.value} className="flex items-center gap-2 text-xs">
+                    <div
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: type.color }}
+                    ></div>
+                    <span>{type.label}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
     </div>
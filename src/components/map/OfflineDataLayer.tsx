@@ -0,0 +1,115 @@
+import { Marker, Polygon, Polyline } from "@react-google-maps/api";
+import type { Doc } from "@/convex/_generated/dataModel.d.ts";
+import { useOfflineRegionData } from "@/hooks/use-offline-regions.ts";
+import { boundariesToPaths } from "@/lib/geojson.ts";
+import { getHuntingUnitColor, getPropertyColor } from "@/lib/land-colors.ts";
+import { getWaypointType } from "@/lib/waypoint-types.ts";
+
+interface OfflineDataLayerProps {
+  layers: {
+    properties: boolean;
+    huntingUnits: boolean;
+    tracks: boolean;
+    waypoints: boolean;
+  };
+  onPropertyClick?: (property: Doc<"properties">) => void;
+  onUnitClick?: (unit: Doc<"huntingUnits">) => void;
+}
+
+const OFFLINE_TRACK_COLOR = "#f97316";
+
+/**
+ * Map data saved with downloaded regions, drawn in place of the live
+ * layers while the device has no connection
+ */
+export default function OfflineDataLayer({
+  layers,
+  onPropertyClick,
+  onUnitClick,
+}: OfflineDataLayerProps) {
+  const data = useOfflineRegionData();
+  if (!data) return null;
+
+  return (
+    <>
+      {layers.properties &&
+        data.properties.map((property) => {
+          const color = getPropertyColor(property.propertyType);
+          return (
+            <Polygon
+              key={property._id}
+              paths={boundariesToPaths(property.boundaries)}
+              options={{
+                strokeColor: color,
+                strokeOpacity: 0.9,
+                strokeWeight: 2,
+                fillColor: color,
+                fillOpacity: 0.2,
+                clickable: true,
+              }}
+              onClick={() => onPropertyClick?.(property)}
+            />
+          );
+        })}
+
+      {layers.huntingUnits &&
+        data.huntingUnits.map((unit) => {
+          const color = getHuntingUnitColor(unit.type);
+          return (
+            <Polygon
+              key={unit._id}
+              paths={boundariesToPaths(unit.boundaries)}
+              options={{
+                strokeColor: color,
+                strokeOpacity: 0.9,
+                strokeWeight: 2,
+                fillColor: color,
+                fillOpacity: unit.allowsHunting ? 0.15 : 0.05,
+                clickable: true,
+              }}
+              onClick={() => onUnitClick?.(unit)}
+            />
+          );
+        })}
+
+      {layers.tracks &&
+        data.tracks.map((track) => (
+          <Polyline
+            key={track._id}
+            path={track.path}
+            options={{
+              strokeColor: OFFLINE_TRACK_COLOR,
+              strokeOpacity: 0.9,
+              strokeWeight: 4,
+            }}
+          />
+        ))}
+
+      {layers.waypoints &&
+        data.waypoints.map((waypoint) => {
+          const type = getWaypointType(waypoint.type);
+          return (
+            <Marker
+              key={waypoint._id}
+              position={{ lat: waypoint.lat, lng: waypoint.lng }}
+              title={waypoint.name}
+              icon={{
+                path: google.maps.SymbolPath.CIRCLE,
+                scale: 10,
+                fillColor: waypoint.color ?? type.color,
+                fillOpacity: 1,
+                strokeColor: "#ffffff",
+                strokeWeight: 2,
+              }}
+              label={{
+                text: type.glyph,
+                color: "#ffffff",
+                fontSize: "11px",
+                fontWeight: "bold",
+              }}
+            />
+          );
+        })}
+    </>
+  );
+}
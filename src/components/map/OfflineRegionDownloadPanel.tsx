@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useConvex } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { Slider } from "@/components/ui/slider.tsx";
+import { Progress } from "@/components/ui/progress.tsx";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select.tsx";
+import { Download, X, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import {
+  MAX_TILES_PER_REGION,
+  OFFLINE_BASEMAPS,
+  countTilesForRegion,
+  estimateRegionBytes,
+  formatBytes,
+  type OfflineBasemapId,
+  type TileBounds,
+} from "@/lib/offline-tiles.ts";
+import { downloadOfflineRegion } from "@/lib/offline-regions.ts";
+import { cancelPrecache, type PrecacheProgress } from "@/lib/service-worker.ts";
+
+interface OfflineRegionDownloadPanelProps {
+  bounds: TileBounds | null;
+  onClose: () => void;
+}
+
+// Below this the tiles show little more than state outlines
+const MIN_SELECTABLE_ZOOM = 8;
+
+export default function OfflineRegionDownloadPanel({
+  bounds,
+  onClose,
+}: OfflineRegionDownloadPanelProps) {
+  const convex = useConvex();
+  const [name, setName] = useState("");
+  const [basemap, setBasemap] = useState<OfflineBasemapId>("usgsTopo");
+  const [zoomRange, setZoomRange] = useState([10, 15]);
+  const [progress, setProgress] = useState<PrecacheProgress | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const [minZoom, maxZoom] = zoomRange;
+  const tileCount = bounds ? countTilesForRegion(bounds, minZoom, maxZoom) : 0;
+  const estimatedBytes = bounds
+    ? estimateRegionBytes(basemap, bounds, minZoom, maxZoom)
+    : 0;
+  const tooLarge = tileCount > MAX_TILES_PER_REGION;
+
+  const handleDownload = async () => {
+    if (!bounds || tooLarge) return;
+
+    setIsDownloading(true);
+    setProgress(null);
+    try {
+      const region = await downloadOfflineRegion(
+        {
+          name: name.trim() || `Region ${new Date().toLocaleDateString()}`,
+          bounds,
+          minZoom,
+          maxZoom,
+          basemap,
+        },
+        (regionBounds) =>
+          convex.query(api.offlineRegions.getRegionData, regionBounds),
+        (update) => setProgress(update),
+      );
+      if (region.status === "complete") {
+        toast.success(`Downloaded "${region.name}" for offline use`);
+      } else {
+        toast.warning(
+          `"${region.name}" is missing ${region.failedTiles} tiles. Delete it and try again on a better connection.`,
+        );
+      }
+      onClose();
+    } catch (error) {
+      console.error("Error downloading offline region:", error);
+      toast.error("Failed to download region");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (isDownloading && progress) {
+      void cancelPrecache(progress.regionId);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div className="absolute bottom-36 left-1/2 -translate-x-1/2 z-1000 w-96 max-w-[calc(100%-2rem)] bg-background border rounded-lg shadow-lg p-4 space-y-3 md:bottom-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="font-semibold text-sm">Download Offline Region</p>
+          <p className="text-xs text-muted-foreground">
+            Drag the rectangle and its handles to cover your hunting area
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={onClose}
+          disabled={isDownloading}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="offline-region-name" className="text-xs">
+            Name
+          </Label>
+          <Input
+            id="offline-region-name"
+            placeholder="e.g. North ridge"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={isDownloading}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Basemap</Label>
+          <Select
+            value={basemap}
+            onValueChange={(value) => setBasemap(value as OfflineBasemapId)}
+            disabled={isDownloading}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(OFFLINE_BASEMAPS).map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-xs">
+          <Label className="text-xs">Zoom levels</Label>
+          <span className="text-muted-foreground">
+            {minZoom} – {maxZoom}
+          </span>
+        </div>
+        <Slider
+          min={MIN_SELECTABLE_ZOOM}
+          max={OFFLINE_BASEMAPS[basemap].maxZoom}
+          step={1}
+          minStepsBetweenThumbs={0}
+          value={zoomRange}
+          onValueChange={setZoomRange}
+          disabled={isDownloading}
+        />
+        <p className="text-xs text-muted-foreground">
+          {tileCount.toLocaleString()} tiles · about {formatBytes(estimatedBytes)}
+        </p>
+        {tooLarge && (
+          <p className="text-xs text-amber-600 flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            Too large (max {MAX_TILES_PER_REGION.toLocaleString()} tiles). Shrink
+            the area or lower the max zoom.
+          </p>
+        )}
+      </div>
+
+      {isDownloading && (
+        <div className="space-y-1">
+          <Progress
+            value={progress ? (progress.done / Math.max(progress.total, 1)) * 100 : 0}
+          />
+          <p className="text-xs text-muted-foreground">
+            {progress
+              ? `${progress.done.toLocaleString()} / ${progress.total.toLocaleString()} tiles · ${formatBytes(progress.bytes)}`
+              : "Saving map data..."}
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={handleCancel}>
+          Cancel
+        </Button>
+        <Button
+          className="flex-1 gap-2"
+          onClick={handleDownload}
+          disabled={!bounds || tooLarge || isDownloading}
+        >
+          <Download className="h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button.tsx";
+import { Badge } from "@/components/ui/badge.tsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import { Download, Trash2, MapPin, Info } from "lucide-react";
+import { toast } from "sonner";
+import { useOfflineRegions } from "@/hooks/use-offline-regions.ts";
+import {
+  deleteOfflineRegion,
+  type OfflineRegion,
+} from "@/lib/offline-regions.ts";
+import { OFFLINE_BASEMAPS, formatBytes } from "@/lib/offline-tiles.ts";
+import { isServiceWorkerSupported } from "@/lib/service-worker.ts";
+
+interface OfflineRegionsManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDownloadNew: () => void;
+  onShowRegion: (region: OfflineRegion) => void;
+}
+
+const STATUS_LABELS: Record<OfflineRegion["status"], string> = {
+  downloading: "Downloading",
+  complete: "Ready",
+  incomplete: "Incomplete",
+};
+
+export default function OfflineRegionsManager({
+  open,
+  onOpenChange,
+  onDownloadNew,
+  onShowRegion,
+}: OfflineRegionsManagerProps) {
+  const regions = useOfflineRegions();
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [storage, setStorage] = useState<StorageEstimate | null>(null);
+
+  useEffect(() => {
+    if (!open || !navigator.storage?.estimate) return;
+    navigator.storage
+      .estimate()
+      .then(setStorage)
+      .catch(() => setStorage(null));
+  }, [open, regions]);
+
+  const handleDelete = async (region: OfflineRegion) => {
+    if (!confirm(`Delete "${region.name}" from this device?`)) return;
+
+    setDeletingId(region.id);
+    try {
+      await deleteOfflineRegion(region);
+      toast.success("Region deleted");
+    } catch (error) {
+      console.error("Error deleting offline region:", error);
+      toast.error("Failed to delete region");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const supported = isServiceWorkerSupported();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Offline Maps</DialogTitle>
+          <DialogDescription>
+            Download map tiles, property lines, hunting units, and your tracks
+            and waypoints for areas without cell service
+          </DialogDescription>
+        </DialogHeader>
+
+        {!supported ? (
+          <div className="flex items-start gap-2 rounded-lg bg-muted p-3 text-sm">
+            <Info className="h-4 w-4 mt-0.5 shrink-0" />
+            This browser can't store maps for offline use.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {regions === undefined ? (
+              <p className="text-sm text-muted-foreground">Loading...</p>
+            ) : regions.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No downloaded regions yet
+              </p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto space-y-2">
+                {regions.map((region) => (
+                  <div
+                    key={region.id}
+                    className="flex items-center gap-3 rounded-lg border p-3"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-sm truncate">
+                          {region.name}
+                        </p>
+                        <Badge
+                          variant={
+                            region.status === "complete" ? "secondary" : "outline"
+                          }
+                        >
+                          {STATUS_LABELS[region.status]}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {OFFLINE_BASEMAPS[region.basemap].label} · zoom{" "}
+                        {region.minZoom}–{region.maxZoom} ·{" "}
+                        {formatBytes(region.tileBytes + region.dataBytes)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {region.tileCount.toLocaleString()} tiles
+                        {region.failedTiles > 0 &&
+                          ` (${region.failedTiles.toLocaleString()} missing)`}{" "}
+                        · {new Date(region.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Show on map"
+                      onClick={() => onShowRegion(region)}
+                    >
+                      <MapPin className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete region"
+                      className="text-destructive"
+                      disabled={deletingId === region.id}
+                      onClick={() => handleDelete(region)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {storage?.usage !== undefined && storage.quota !== undefined && (
+              <p className="text-xs text-muted-foreground">
+                Using {formatBytes(storage.usage)} of{" "}
+                {formatBytes(storage.quota)} available on this device
+              </p>
+            )}
+
+            <Button className="w-full gap-2" onClick={onDownloadNew}>
+              <Download className="h-4 w-4" />
+              Download New Region
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Offline regions use the USGS Topo or Imagery basemap. Pick that
+              basemap from the map type menu when you lose service. GPS and
+              track recording work without a connection.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
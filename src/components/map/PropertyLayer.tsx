@@ -1,11 +1,56 @@
+import { useRef } from "react";
+import { useQuery } from "convex/react";
+import { Polygon } from "@react-google-maps/api";
+import { api } from "@/convex/_generated/api.js";
 import type { Doc } from "@/convex/_generated/dataModel.d.ts";
+import { useMapViewport } from "@/hooks/use-map-viewport.ts";
+import { boundariesToPaths } from "@/lib/geojson.ts";
+import { getPropertyColor } from "@/lib/land-colors.ts";
 
 interface PropertyLayerProps {
   onPropertyClick?: (property: Doc<"properties">) => void;
   map: google.maps.Map | null;
 }
 
+// Parcels are too small to be useful (and too many) further out than this
+const MIN_ZOOM = 11;
+
 export default function PropertyLayer({ onPropertyClick, map }: PropertyLayerProps) {
-  // TODO: Implement property polygons using Google Maps Polygon API
-  return null;
+  const viewport = useMapViewport(map);
+  const visible = viewport !== null && viewport.zoom >= MIN_ZOOM;
+  const properties = useQuery(
+    api.properties.getPropertiesInBounds,
+    visible ? viewport.bounds : "skip",
+  );
+
+  // Keep drawing the previous results while the next viewport loads
+  const lastProperties = useRef<Doc<"properties">[]>([]);
+  if (properties) {
+    lastProperties.current = properties;
+  }
+
+  if (!visible) return null;
+
+  return (
+    <>
+      {lastProperties.current.map((property) => {
+        const color = getPropertyColor(property.propertyType);
+        return (
+          <Polygon
+            key={property._id}
+            paths={boundariesToPaths(property.boundaries)}
+            options={{
+              strokeColor: color,
+              strokeOpacity: 0.9,
+              strokeWeight: 2,
+              fillColor: color,
+              fillOpacity: 0.2,
+              clickable: true,
+            }}
+            onClick={() => onPropertyClick?.(property)}
+          />
+        );
+      })}
+    </>
+  );
 }
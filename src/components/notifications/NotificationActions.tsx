@@ -0,0 +1,301 @@
+import { useState, type ComponentType } from "react";
+import { useMutation } from "convex/react";
+import { useNavigate } from "react-router-dom";
+import { api } from "@/convex/_generated/api.js";
+import type { Doc, Id } from "@/convex/_generated/dataModel.d.ts";
+import { Button } from "@/components/ui/button.tsx";
+import { Loader2, Siren } from "lucide-react";
+import { toast } from "sonner";
+import { ConvexError } from "convex/values";
+
+interface ActionProps {
+  notification: Doc<"notifications">;
+  relatedId: string;
+  // Called after an action that should close the bell
+  onNavigate: () => void;
+}
+
+function RecoveryFollowUpActions({ notification, relatedId }: ActionProps) {
+  const markRead = useMutation(api.notifications.markRead);
+  const updateVehicleStatus = useMutation(
+    api.vehicleRecovery.updateRequestStatus,
+  );
+  const closeVehicleRequest = useMutation(api.vehicleRecovery.closeRequest);
+  const updateDeerStatus = useMutation(api.deerRecovery.updateRequestStatus);
+  const closeDeerRequest = useMutation(api.deerRecovery.closeRequest);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const isVehicle = notification.type === "vehicle_recovery_followup";
+
+  const handleAction = async (
+    action: "still_waiting" | "in_progress" | "close",
+  ) => {
+    setIsProcessing(true);
+    try {
+      if (action === "close") {
+        if (isVehicle) {
+          await closeVehicleRequest({
+            requestId: relatedId as Id<"vehicleRecoveryRequests">,
+          });
+        } else {
+          await closeDeerRequest({
+            requestId: relatedId as Id<"deerRecoveryRequests">,
+          });
+        }
+        toast.success("Request closed successfully");
+      } else {
+        if (isVehicle) {
+          await updateVehicleStatus({
+            requestId: relatedId as Id<"vehicleRecoveryRequests">,
+            requestStatus: action,
+          });
+        } else {
+          await updateDeerStatus({
+            requestId: relatedId as Id<"deerRecoveryRequests">,
+            requestStatus: action,
+          });
+        }
+        toast.success("Status updated successfully");
+      }
+      await markRead({ notificationId: notification._id });
+    } catch (error) {
+      console.error("Failed to update status:", error);
+      toast.error("Failed to update status");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const renderLabel = (label: string) =>
+    isProcessing ? <Loader2 className="h-3 w-3 animate-spin" /> : label;
+
+  return (
+    <div className="flex flex-col gap-1.5 mt-3">
+      <div className="flex gap-1.5">
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1 h-7 text-xs"
+          disabled={isProcessing}
+          onClick={() => handleAction("still_waiting")}
+        >
+          {renderLabel("Still Waiting")}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1 h-7 text-xs"
+          disabled={isProcessing}
+          onClick={() => handleAction("in_progress")}
+        >
+          {renderLabel("In Progress")}
+        </Button>
+      </div>
+      <Button
+        size="sm"
+        variant="default"
+        className="w-full h-7 text-xs"
+        disabled={isProcessing}
+        onClick={() => handleAction("close")}
+      >
+        {renderLabel("Close Request")}
+      </Button>
+    </div>
+  );
+}
+
+// relatedId is the hunt
+function CheckInAction({ notification, relatedId }: ActionProps) {
+  const markRead = useMutation(api.notifications.markRead);
+  const checkIn = useMutation(api.hunts.checkIn);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleCheckIn = async () => {
+    setIsProcessing(true);
+    try {
+      await checkIn({ huntId: relatedId as Id<"hunts"> });
+      await markRead({ notificationId: notification._id });
+      toast.success("Checked in. Glad you're safe!");
+    } catch (error) {
+      console.error("Failed to check in:", error);
+      toast.error("Failed to check in");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Button
+      size="sm"
+      className="w-full h-7 text-xs mt-3"
+      disabled={isProcessing}
+      onClick={handleCheckIn}
+    >
+      {isProcessing ? <Loader2 className="h-3 w-3 animate-spin" /> : "I'm Safe"}
+    </Button>
+  );
+}
+
+// relatedId is the alert's share token
+function FollowAlertAction({
+  notification,
+  relatedId,
+  onNavigate,
+}: ActionProps) {
+  const markRead = useMutation(api.notifications.markRead);
+  const navigate = useNavigate();
+
+  return (
+    <Button
+      size="sm"
+      variant="destructive"
+      className="w-full h-7 text-xs mt-3"
+      onClick={() => {
+        markRead({ notificationId: notification._id }).catch((error) =>
+          console.error("Failed to mark notification as read:", error),
+        );
+        onNavigate();
+        navigate(`/sos/${relatedId}`);
+      }}
+    >
+      <Siren className="h-3 w-3 mr-1" />
+      Follow Live Location
+    </Button>
+  );
+}
+
+// relatedId is the friend request
+function FriendRequestActions({ notification, relatedId }: ActionProps) {
+  const markRead = useMutation(api.notifications.markRead);
+  const acceptRequest = useMutation(api.friends.acceptFriendRequest);
+  const rejectRequest = useMutation(api.friends.rejectFriendRequest);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleRespond = async (accept: boolean) => {
+    setIsProcessing(true);
+    try {
+      const requestId = relatedId as Id<"friendRequests">;
+      if (accept) {
+        await acceptRequest({ requestId });
+        toast.success("Friend request accepted");
+      } else {
+        await rejectRequest({ requestId });
+        toast.success("Friend request declined");
+      }
+      await markRead({ notificationId: notification._id });
+    } catch (error) {
+      console.error("Failed to respond to friend request:", error);
+      toast.error("Failed to respond to friend request");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-1.5 mt-3">
+      <Button
+        size="sm"
+        className="flex-1 h-7 text-xs"
+        disabled={isProcessing}
+        onClick={() => handleRespond(true)}
+      >
+        Accept
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        className="flex-1 h-7 text-xs"
+        disabled={isProcessing}
+        onClick={() => handleRespond(false)}
+      >
+        Decline
+      </Button>
+    </div>
+  );
+}
+
+// relatedId is the trip
+function TripInviteActions({ notification, relatedId }: ActionProps) {
+  const markRead = useMutation(api.notifications.markRead);
+  const joinTrip = useMutation(api.scoutingTrips.joinTrip);
+  const declineInvite = useMutation(api.scoutingTrips.declineInvite);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const handleRespond = async (join: boolean) => {
+    setIsProcessing(true);
+    try {
+      const tripId = relatedId as Id<"scoutingTrips">;
+      if (join) {
+        await joinTrip({ tripId });
+        toast.success("You're on the trip!");
+      } else {
+        await declineInvite({ tripId });
+        toast.success("Invite declined");
+      }
+      await markRead({ notificationId: notification._id });
+    } catch (error) {
+      console.error("Failed to respond to trip invite:", error);
+      toast.error(
+        error instanceof ConvexError
+          ? (error.data as { message: string }).message
+          : "Failed to respond to trip invite",
+      );
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-1.5 mt-3">
+      <Button
+        size="sm"
+        className="flex-1 h-7 text-xs"
+        disabled={isProcessing}
+        onClick={() => handleRespond(true)}
+      >
+        Join Trip
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        className="flex-1 h-7 text-xs"
+        disabled={isProcessing}
+        onClick={() => handleRespond(false)}
+      >
+        Decline
+      </Button>
+    </div>
+  );
+}
+
+const ACTIONS_BY_KIND: Record<string, ComponentType<ActionProps>> = {
+  deer_recovery_followup: RecoveryFollowUpActions,
+  vehicle_recovery_followup: RecoveryFollowUpActions,
+  check_in_reminder: CheckInAction,
+  emergency_alert: FollowAlertAction,
+  friend_request: FriendRequestActions,
+  trip_invite: TripInviteActions,
+};
+
+/**
+ * Inline actions for a notification, when its kind has any
+ */
+export default function NotificationActions({
+  notification,
+  onNavigate,
+}: {
+  notification: Doc<"notifications">;
+  onNavigate: () => void;
+}) {
+  const Actions = ACTIONS_BY_KIND[notification.type];
+  if (!Actions || !notification.relatedId) {
+    return null;
+  }
+  return (
+    <Actions
+      notification={notification}
+      relatedId={notification.relatedId}
+      onNavigate={onNavigate}
+    />
+  );
+}
@@ -0,0 +1,324 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import type { FunctionArgs } from "convex/server";
+import { api } from "@/convex/_generated/api.js";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { Skeleton } from "@/components/ui/skeleton.tsx";
+import { Switch } from "@/components/ui/switch.tsx";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select.tsx";
+import { Bell, MapPin, Moon, Smartphone } from "lucide-react";
+import { toast } from "sonner";
+import {
+  NOTIFICATION_CATEGORY_LABELS,
+  type NotificationCategory,
+} from "@/convex/_notificationKinds.ts";
+import { usePushNotifications } from "@/hooks/use-push-notifications.ts";
+
+type UpdateArgs = FunctionArgs<typeof api.notifications.updatePreferences>;
+type Channel = "inApp" | "email" | "push";
+
+const CHANNEL_LABELS: Record<Channel, string> = {
+  inApp: "In-app",
+  email: "Email",
+  push: "Push",
+};
+
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "06:00" };
+const RECOVERY_ALERT_RADIUS_OPTIONS = [5, 10, 25, 50];
+
+function minutesToTime(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function timeToMinutes(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Which notifications arrive on which channel, plus quiet hours and the
+ * email digest
+ */
+export default function NotificationPreferencesCard() {
+  const preferences = useQuery(api.notifications.getPreferences);
+  const updatePreferences = useMutation(api.notifications.updatePreferences);
+  const [quietStart, setQuietStart] = useState(DEFAULT_QUIET_HOURS.start);
+  const [quietEnd, setQuietEnd] = useState(DEFAULT_QUIET_HOURS.end);
+  const push = usePushNotifications();
+
+  const savedQuietHours = preferences?.quietHours;
+  useEffect(() => {
+    if (savedQuietHours) {
+      setQuietStart(minutesToTime(savedQuietHours.startMinute));
+      setQuietEnd(minutesToTime(savedQuietHours.endMinute));
+    }
+  }, [savedQuietHours]);
+
+  if (preferences === undefined) {
+    return <Skeleton className="h-64" />;
+  }
+  if (preferences === null) {
+    return null;
+  }
+
+  const save = async (changes: Omit<UpdateArgs, "utcOffsetMinutes">) => {
+    try {
+      await updatePreferences({
+        ...changes,
+        // Quiet hours and digests follow the browser's clock
+        utcOffsetMinutes: -new Date().getTimezoneOffset(),
+      });
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      toast.error("Failed to save notification settings");
+    }
+  };
+
+  const quietHoursFromInputs = (start: string, end: string) => ({
+    startMinute: timeToMinutes(start),
+    endMinute: timeToMinutes(end),
+  });
+
+  const handlePushToggle = async (checked: boolean) => {
+    try {
+      if (!checked) {
+        await push.disable();
+        toast.success("Push notifications turned off on this device");
+      } else if (await push.enable()) {
+        toast.success("Push notifications turned on for this device");
+      } else {
+        toast.error(
+          "Notifications are blocked. Allow them in your browser settings.",
+        );
+      }
+    } catch (error) {
+      console.error("Error changing push notifications:", error);
+      toast.error("Failed to change push notifications");
+    }
+  };
+
+  const categories = (
+    Object.keys(NOTIFICATION_CATEGORY_LABELS) as NotificationCategory[]
+  ).filter((category) =>
+    preferences.kinds.some((k) => k.category === category),
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Bell className="h-5 w-5" />
+          <CardTitle>Notifications</CardTitle>
+        </div>
+        <CardDescription>
+          Choose how you hear about each kind of update. Safety alerts always
+          appear in the app and ignore quiet hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {categories.map((category) => (
+          <div key={category} className="space-y-3">
+            <div className="grid grid-cols-[1fr_repeat(3,3.5rem)] items-end gap-2">
+              <h4 className="text-sm font-semibold">
+                {NOTIFICATION_CATEGORY_LABELS[category]}
+              </h4>
+              {(Object.keys(CHANNEL_LABELS) as Channel[]).map((channel) => (
+                <span
+                  key={channel}
+                  className="text-center text-xs text-muted-foreground"
+                >
+                  {CHANNEL_LABELS[channel]}
+                </span>
+              ))}
+            </div>
+            {preferences.kinds
+              .filter((kind) => kind.category === category)
+              .map((kind) => (
+                <div
+                  key={kind.kind}
+                  className="grid grid-cols-[1fr_repeat(3,3.5rem)] items-center gap-2"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm">{kind.label}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {kind.description}
+                    </p>
+                  </div>
+                  {(Object.keys(CHANNEL_LABELS) as Channel[]).map((channel) => (
+                    <div key={channel} className="flex justify-center">
+                      <Switch
+                        checked={kind.channels[channel]}
+                        disabled={kind.urgent && channel === "inApp"}
+                        aria-label={`${kind.label}: ${CHANNEL_LABELS[channel]}`}
+                        onCheckedChange={(checked) =>
+                          save({
+                            channels: [
+                              {
+                                kind: kind.kind,
+                                ...kind.channels,
+                                [channel]: checked,
+                              },
+                            ],
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between gap-4 border-t pt-4">
+          <div className="space-y-0.5">
+            <div className="flex items-center gap-2">
+              <Smartphone className="h-4 w-4 text-muted-foreground" />
+              <Label className="text-base">Push on This Device</Label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {push.isSupported
+                ? "Get push notifications here even when the app is closed"
+                : "Push notifications aren't available in this browser"}
+            </p>
+          </div>
+          <Switch
+            checked={push.isSubscribed}
+            disabled={!push.isSupported || push.isBusy}
+            onCheckedChange={handlePushToggle}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-4 border-t pt-4">
+          <div className="space-y-0.5">
+            <div className="flex items-center gap-2">
+              <MapPin className="h-4 w-4 text-muted-foreground" />
+              <Label className="text-base">Volunteer Tracker</Label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Hear about deer and vehicle recovery requests near where you
+              last used the app. Members nearby see your first name and
+              distance to the nearest mile.
+            </p>
+          </div>
+          <Select
+            value={String(preferences.recoveryAlertRadiusMiles ?? "off")}
+            onValueChange={(value) =>
+              save({
+                recoveryAlertRadiusMiles: value === "off" ? null : Number(value),
+              })
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              {RECOVERY_ALERT_RADIUS_OPTIONS.map((miles) => (
+                <SelectItem key={miles} value={String(miles)}>
+                  Within {miles} mi
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <div className="flex items-center gap-2">
+                <Moon className="h-4 w-4 text-muted-foreground" />
+                <Label className="text-base">Quiet Hours</Label>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                No push notifications; emails wait until quiet hours end
+              </p>
+            </div>
+            <Switch
+              checked={preferences.quietHours !== null}
+              onCheckedChange={(checked) =>
+                save({
+                  quietHours: checked
+                    ? quietHoursFromInputs(quietStart, quietEnd)
+                    : null,
+                })
+              }
+            />
+          </div>
+          {preferences.quietHours !== null && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="quietStart">From</Label>
+                <Input
+                  id="quietStart"
+                  type="time"
+                  value={quietStart}
+                  onChange={(e) => setQuietStart(e.target.value)}
+                  onBlur={() =>
+                    quietStart &&
+                    save({
+                      quietHours: quietHoursFromInputs(quietStart, quietEnd),
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quietEnd">Until</Label>
+                <Input
+                  id="quietEnd"
+                  type="time"
+                  value={quietEnd}
+                  onChange={(e) => setQuietEnd(e.target.value)}
+                  onBlur={() =>
+                    quietEnd &&
+                    save({
+                      quietHours: quietHoursFromInputs(quietStart, quietEnd),
+                    })
+                  }
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-4 border-t pt-4">
+          <div className="space-y-0.5">
+            <Label className="text-base">Email Digest</Label>
+            <p className="text-sm text-muted-foreground">
+              Bundle non-urgent emails into one message
+            </p>
+          </div>
+          <Select
+            value={preferences.digest}
+            onValueChange={(digest) =>
+              save({ digest: digest as UpdateArgs["digest"] })
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="off">Off</SelectItem>
+              <SelectItem value="hourly">Hourly</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,23 @@
+import type { ReactNode } from "react";
+import { useConvexAuth } from "convex/react";
+import { useOnlineStatus } from "@/hooks/use-online-status.ts";
+import { hasOfflineSession } from "@/lib/offline-session.ts";
+
+/**
+ * Like <Authenticated>, but also renders for a previously signed-in user
+ * when the app starts offline. Convex can't confirm the session without a
+ * connection, so auth stays "loading" until the device is back online.
+ */
+export default function AuthenticatedOrOffline({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const { isLoading, isAuthenticated } = useConvexAuth();
+  const isOnline = useOnlineStatus();
+
+  if (isAuthenticated || (isLoading && !isOnline && hasOfflineSession())) {
+    return <>{children}</>;
+  }
+  return null;
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from "react";
+import { useConvex } from "convex/react";
+import { makeFunctionReference } from "convex/server";
+import { CloudOff, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { useOnlineStatus } from "@/hooks/use-online-status.ts";
+import { usePendingMutationCount } from "@/hooks/use-offline-mutation.ts";
+import { replayQueuedMutations } from "@/lib/mutation-queue.ts";
+
+/**
+ * Shows when the app is offline or has unsent changes, and replays those
+ * changes when the connection returns
+ */
+export default function ConnectionStatusBar() {
+  const convex = useConvex();
+  const isOnline = useOnlineStatus();
+  const pendingCount = usePendingMutationCount();
+  const wasOnline = useRef(isOnline);
+  const isSyncing = useRef(false);
+
+  useEffect(() => {
+    if (wasOnline.current !== isOnline) {
+      if (isOnline) {
+        toast.success("Back online");
+      } else {
+        toast.warning("You're offline", {
+          description: "Showing saved data. Changes will sync when you reconnect.",
+        });
+      }
+      wasOnline.current = isOnline;
+    }
+  }, [isOnline]);
+
+  useEffect(() => {
+    if (!isOnline || pendingCount === 0 || isSyncing.current) return;
+
+    isSyncing.current = true;
+    replayQueuedMutations((name, args) =>
+      convex.mutation(makeFunctionReference<"mutation">(name), args),
+    )
+      .then(({ replayed, dropped }) => {
+        if (replayed > 0) {
+          toast.success(
+            `Synced ${replayed} offline change${replayed === 1 ? "" : "s"}`,
+          );
+        }
+        for (const { label, message } of dropped) {
+          toast.error(`Couldn't sync "${label}"`, { description: message });
+        }
+      })
+      .catch((error) => console.error("Failed to sync offline changes:", error))
+      .finally(() => {
+        isSyncing.current = false;
+      });
+  }, [convex, isOnline, pendingCount]);
+
+  if (isOnline && pendingCount === 0) return null;
+
+  return (
+    <div
+      className={`z-1001 flex flex-none items-center justify-center gap-2 px-4 py-1 text-xs font-medium ${
+        isOnline
+          ? "bg-blue-500/15 text-blue-700 dark:text-blue-300"
+          : "bg-amber-500/15 text-amber-700 dark:text-amber-300"
+      }`}
+    >
+      {isOnline ? (
+        <>
+          <RefreshCw className="h-3 w-3 animate-spin" />
+          Syncing {pendingCount} offline change{pendingCount === 1 ? "" : "s"}...
+        </>
+      ) : (
+        <>
+          <CloudOff className="h-3 w-3" />
+          Offline · showing saved data
+          {pendingCount > 0 &&
+            ` · ${pendingCount} change${pendingCount === 1 ? "" : "s"} waiting to sync`}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import { Textarea } from "@/components/ui/textarea.tsx";
+import { Star } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils.ts";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+interface CompleteRecoveryDialogProps {
+  requestId: Id<"deerRecoveryRequests"> | Id<"vehicleRecoveryRequests">;
+  responders: { _id: Id<"recoveryResponders">; name: string }[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCompleted?: () => void;
+}
+
+/**
+ * Requester confirms the recovery is done and thanks each responder
+ */
+export default function CompleteRecoveryDialog({
+  requestId,
+  responders,
+  open,
+  onOpenChange,
+  onCompleted,
+}: CompleteRecoveryDialogProps) {
+  const confirmCompletion = useMutation(
+    api.recoveryResponders.confirmCompletion,
+  );
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await confirmCompletion({
+        requestId,
+        feedback: responders.map((responder) => ({
+          responderId: responder._id,
+          rating: ratings[responder._id],
+          thankYouNote: notes[responder._id]?.trim() || undefined,
+        })),
+      });
+      toast.success("Recovery marked complete");
+      onOpenChange(false);
+      onCompleted?.();
+    } catch (error) {
+      if (error instanceof ConvexError) {
+        const { message } = error.data as { code: string; message: string };
+        toast.error(message);
+      } else {
+        toast.error("Failed to complete recovery");
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recovery Complete</DialogTitle>
+          <DialogDescription>
+            This closes your request. Let the people who helped know how it
+            went.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {responders.map((responder) => (
+            <div key={responder._id} className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium">{responder.name}</p>
+                <div className="flex gap-0.5">
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <button
+                      key={value}
+                      type="button"
+                      aria-label={`Rate ${responder.name} ${value} out of 5`}
+                      onClick={() =>
+                        setRatings((current) => ({
+                          ...current,
+                          [responder._id]: value,
+                        }))
+                      }
+                    >
+                      <Star
+                        className={cn(
+                          "h-5 w-5",
+                          value <= (ratings[responder._id] ?? 0)
+                            ? "fill-yellow-400 text-yellow-400"
+                            : "text-muted-foreground",
+                        )}
+                      />
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <Textarea
+                placeholder={`Say thanks to ${responder.name} (optional)`}
+                value={notes[responder._id] ?? ""}
+                maxLength={500}
+                onChange={(e) =>
+                  setNotes((current) => ({
+                    ...current,
+                    [responder._id]: e.target.value,
+                  }))
+                }
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            {submitting ? "Saving..." : "Confirm Complete"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
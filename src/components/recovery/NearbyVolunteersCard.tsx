@@ -0,0 +1,55 @@
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import { Card, CardContent } from "@/components/ui/card.tsx";
+import { Badge } from "@/components/ui/badge.tsx";
+import { HandHelping } from "lucide-react";
+
+interface NearbyVolunteersCardProps {
+  location: { lat: number; lng: number };
+}
+
+/**
+ * How many volunteer responders would hear about a request posted here
+ */
+export default function NearbyVolunteersCard({
+  location,
+}: NearbyVolunteersCardProps) {
+  const nearby = useQuery(api.recoveryVolunteers.getNearby, location);
+
+  if (!nearby) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardContent className="flex items-start gap-3 p-4">
+        <HandHelping className="mt-0.5 h-5 w-5 flex-none text-primary" />
+        <div className="min-w-0 flex-1 space-y-2">
+          <p className="text-sm font-medium">
+            {nearby.total === 0
+              ? "No volunteer trackers near you yet"
+              : `${nearby.total} volunteer ${nearby.total === 1 ? "tracker" : "trackers"} near you`}
+          </p>
+          {nearby.total === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              Turn on nearby recovery requests in your notification settings to
+              volunteer.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-1">
+              {nearby.bands.map((band) => (
+                <Badge
+                  key={band.maxMiles}
+                  variant="secondary"
+                  className="text-xs"
+                >
+                  {band.count} within {band.maxMiles} mi
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
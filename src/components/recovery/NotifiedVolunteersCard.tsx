@@ -0,0 +1,56 @@
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import { Card, CardContent, CardHeader } from "@/components/ui/card.tsx";
+import { BellRing } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+interface NotifiedVolunteersCardProps {
+  requestId: Id<"deerRecoveryRequests"> | Id<"vehicleRecoveryRequests">;
+}
+
+/**
+ * For the request owner: which volunteers were alerted about the request
+ */
+export default function NotifiedVolunteersCard({
+  requestId,
+}: NotifiedVolunteersCardProps) {
+  const volunteers = useQuery(api.recoveryVolunteers.getNotified, {
+    requestId,
+  });
+
+  if (!volunteers) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="flex items-center gap-2 font-semibold">
+          <BellRing className="h-4 w-4" />
+          Volunteers Notified ({volunteers.length})
+        </h3>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {volunteers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No volunteer trackers were within range when you posted.
+          </p>
+        ) : (
+          volunteers.map((volunteer) => (
+            <div
+              key={volunteer.userId}
+              className="flex items-center justify-between text-sm"
+            >
+              <span className="font-medium">{volunteer.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {volunteer.distanceMiles || "<1"} mi away ·{" "}
+                {formatDistanceToNow(volunteer.notifiedAt, { addSuffix: true })}
+              </span>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,22 @@
+import { History } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface RecoveryEventItemProps {
+  event: { content: string; createdAt: number };
+}
+
+/**
+ * A responder workflow step in a recovery request's comment thread
+ */
+export default function RecoveryEventItem({ event }: RecoveryEventItemProps) {
+  return (
+    <div className="flex items-center gap-2 px-1 text-xs text-muted-foreground">
+      <History className="h-3 w-3 flex-none" />
+      <span>{event.content}</span>
+      <span>·</span>
+      <span className="flex-none">
+        {formatDistanceToNow(event.createdAt, { addSuffix: true })}
+      </span>
+    </div>
+  );
+}
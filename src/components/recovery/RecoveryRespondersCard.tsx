@@ -0,0 +1,413 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import { Card, CardContent, CardHeader } from "@/components/ui/card.tsx";
+import { Badge } from "@/components/ui/badge.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { Switch } from "@/components/ui/switch.tsx";
+import { Textarea } from "@/components/ui/textarea.tsx";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select.tsx";
+import { Check, Clock, HandHelping, Navigation, Star, X } from "lucide-react";
+import { GoogleMap, Marker, useLoadScript } from "@react-google-maps/api";
+import {
+  GOOGLE_MAPS_API_KEY,
+  GOOGLE_MAPS_LIBRARIES,
+} from "@/lib/google-maps.ts";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { useRecoveryLiveLocation } from "@/hooks/use-recovery-live-location.ts";
+import CompleteRecoveryDialog from "./CompleteRecoveryDialog.tsx";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+const ETA_OPTIONS = [
+  { value: "15", label: "15 min" },
+  { value: "30", label: "30 min" },
+  { value: "60", label: "1 hour" },
+  { value: "120", label: "2 hours" },
+  { value: "0", label: "I'm here" },
+];
+
+interface RecoveryRespondersCardProps {
+  requestId: Id<"deerRecoveryRequests"> | Id<"vehicleRecoveryRequests">;
+  request: { lat: number; lng: number; status: string };
+  onCompleted?: () => void;
+}
+
+function showError(error: unknown, fallback: string) {
+  if (error instanceof ConvexError) {
+    const { message } = error.data as { code: string; message: string };
+    toast.error(message);
+  } else {
+    toast.error(fallback);
+  }
+}
+
+function formatEta(etaAt: number) {
+  return etaAt <= Date.now() ? "arrived" : `ETA ${formatDistanceToNow(etaAt)}`;
+}
+
+/**
+ * Offers of help on a recovery request: offering and withdrawing for
+ * helpers, accepting and completing for the requester, and a shared map of
+ * live locations once responders are accepted
+ */
+export default function RecoveryRespondersCard({
+  requestId,
+  request,
+  onCompleted,
+}: RecoveryRespondersCardProps) {
+  const data = useQuery(api.recoveryResponders.getResponders, { requestId });
+  const offerHelp = useMutation(api.recoveryResponders.offerHelp);
+  const withdrawOffer = useMutation(api.recoveryResponders.withdrawOffer);
+  const respondToOffer = useMutation(api.recoveryResponders.respondToOffer);
+  const updateEta = useMutation(api.recoveryResponders.updateEta);
+
+  const [message, setMessage] = useState("");
+  const [eta, setEta] = useState("30");
+  const [sharingLocation, setSharingLocation] = useState(false);
+  const [showComplete, setShowComplete] = useState(false);
+
+  const isOpen = request.status === "active";
+  const accepted =
+    data?.responders.filter((responder) => responder.status === "accepted") ??
+    [];
+  const canShareLocation =
+    isOpen && !!data && (data.isOwner || data.myStatus === "accepted");
+  useRecoveryLiveLocation(requestId, sharingLocation && canShareLocation);
+
+  const { isLoaded } = useLoadScript({
+    googleMapsApiKey: GOOGLE_MAPS_API_KEY,
+    libraries: GOOGLE_MAPS_LIBRARIES as never,
+  });
+
+  if (!data) {
+    return null;
+  }
+
+  const offers = data.responders.filter((r) => r.status === "offered");
+  const completed = data.responders.filter((r) => r.status === "completed");
+  const liveLocations = [
+    ...(data.ownerLiveLocation
+      ? [{ key: "owner", label: "R", ...data.ownerLiveLocation }]
+      : []),
+    ...accepted.flatMap((responder) =>
+      responder.liveLocation
+        ? [
+            {
+              key: responder._id,
+              label: responder.name[0]?.toUpperCase() ?? "?",
+              ...responder.liveLocation,
+            },
+          ]
+        : [],
+    ),
+  ];
+
+  const handleOffer = async () => {
+    try {
+      await offerHelp({
+        requestId,
+        message: message.trim() || undefined,
+        etaMinutes: Number(eta),
+      });
+      setMessage("");
+      toast.success("Offer sent");
+    } catch (error) {
+      showError(error, "Failed to offer help");
+    }
+  };
+
+  const handleWithdraw = async () => {
+    try {
+      setSharingLocation(false);
+      await withdrawOffer({ requestId });
+      toast.success("Offer withdrawn");
+    } catch (error) {
+      showError(error, "Failed to withdraw offer");
+    }
+  };
+
+  const handleRespond = async (
+    responderId: Id<"recoveryResponders">,
+    accept: boolean,
+  ) => {
+    try {
+      await respondToOffer({ responderId, accept });
+      toast.success(accept ? "Responder accepted" : "Offer declined");
+    } catch (error) {
+      showError(error, "Failed to answer offer");
+    }
+  };
+
+  const handleEtaChange = async (value: string) => {
+    try {
+      await updateEta({ requestId, etaMinutes: Number(value) });
+    } catch (error) {
+      showError(error, "Failed to update ETA");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h3 className="flex items-center gap-2 font-semibold">
+          <HandHelping className="h-4 w-4" />
+          Responders
+        </h3>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Requester: pending offers */}
+        {data.isOwner && isOpen && offers.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Offers to Help</p>
+            {offers.map((offer) => (
+              <div
+                key={offer._id}
+                className="flex items-start justify-between gap-2 rounded-md border p-3"
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="text-sm font-medium">{offer.name}</p>
+                  {offer.message && (
+                    <p className="text-sm text-muted-foreground">
+                      {offer.message}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                    {offer.etaAt !== undefined && (
+                      <span>{formatEta(offer.etaAt)}</span>
+                    )}
+                    {offer.stats && offer.stats.completedCount > 0 && (
+                      <span className="flex items-center gap-1">
+                        <Star className="h-3 w-3" />
+                        {offer.stats.averageRating?.toFixed(1) ??
+                          "No ratings"}{" "}
+                        · {offer.stats.completedCount} helped
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-none gap-1">
+                  <Button
+                    size="icon"
+                    variant="outline"
+                    aria-label={`Accept ${offer.name}`}
+                    onClick={() => handleRespond(offer._id, true)}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    aria-label={`Decline ${offer.name}`}
+                    onClick={() => handleRespond(offer._id, false)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Everyone: who is helping */}
+        {accepted.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Helping Now</p>
+            {accepted.map((responder) => (
+              <div
+                key={responder._id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <span className="font-medium">{responder.name}</span>
+                <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                  {responder.etaAt !== undefined && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="h-3 w-3" />
+                      {formatEta(responder.etaAt)}
+                    </span>
+                  )}
+                  {responder.liveLocation && (
+                    <Badge variant="secondary" className="text-xs">
+                      <Navigation className="mr-1 h-3 w-3" />
+                      Live
+                    </Badge>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {completed.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Helped</p>
+            {completed.map((responder) => (
+              <div key={responder._id} className="space-y-0.5 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium">{responder.name}</span>
+                  {responder.rating !== undefined && (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                      {responder.rating}/5
+                    </span>
+                  )}
+                </div>
+                {responder.thankYouNote && (
+                  <p className="text-xs text-muted-foreground">
+                    "{responder.thankYouNote}"
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Shared live locations */}
+        {canShareLocation && (
+          <div className="space-y-3 border-t pt-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor={`share-${requestId}`}>
+                  Share My Live Location
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Only the requester and accepted responders can see it, and
+                  only while the request is open
+                </p>
+              </div>
+              <Switch
+                id={`share-${requestId}`}
+                checked={sharingLocation}
+                onCheckedChange={setSharingLocation}
+              />
+            </div>
+            {isLoaded && liveLocations.length > 0 && (
+              <div className="h-48 overflow-hidden rounded-md">
+                <GoogleMap
+                  mapContainerStyle={{ width: "100%", height: "100%" }}
+                  center={{ lat: request.lat, lng: request.lng }}
+                  zoom={13}
+                  options={{
+                    mapTypeControl: false,
+                    streetViewControl: false,
+                    fullscreenControl: false,
+                  }}
+                >
+                  <Marker position={{ lat: request.lat, lng: request.lng }} />
+                  {liveLocations.map((location) => (
+                    <Marker
+                      key={location.key}
+                      position={{ lat: location.lat, lng: location.lng }}
+                      label={location.label}
+                      title={`Updated ${formatDistanceToNow(location.updatedAt, { addSuffix: true })}`}
+                    />
+                  ))}
+                </GoogleMap>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Requester: finish up */}
+        {data.isOwner && isOpen && accepted.length > 0 && (
+          <Button className="w-full" onClick={() => setShowComplete(true)}>
+            <Check className="mr-2 h-4 w-4" />
+            Recovery Complete
+          </Button>
+        )}
+
+        {/* Helpers: offer, wait, or update ETA */}
+        {!data.isOwner && isOpen && (
+          <div className="space-y-3 border-t pt-4">
+            {data.myStatus === "offered" ? (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  Waiting for the requester to accept your offer
+                </p>
+                <Button size="sm" variant="outline" onClick={handleWithdraw}>
+                  Withdraw
+                </Button>
+              </div>
+            ) : data.myStatus === "accepted" ? (
+              <div className="flex items-center justify-between gap-2">
+                <Select onValueChange={handleEtaChange}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Update ETA" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ETA_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button size="sm" variant="outline" onClick={handleWithdraw}>
+                  Can't Make It
+                </Button>
+              </div>
+            ) : data.myStatus === "declined" ? (
+              <p className="text-sm text-muted-foreground">
+                The requester has enough help for now.
+              </p>
+            ) : (
+              <>
+                <Textarea
+                  placeholder="What can you bring? (optional)"
+                  value={message}
+                  maxLength={500}
+                  onChange={(e) => setMessage(e.target.value)}
+                />
+                <div className="flex items-center gap-2">
+                  <Select value={eta} onValueChange={setEta}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ETA_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button className="flex-1" onClick={handleOffer}>
+                    <HandHelping className="mr-2 h-4 w-4" />
+                    Offer to Help
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {data.responders.length === 0 && !isOpen && (
+          <p className="text-sm text-muted-foreground">No one responded.</p>
+        )}
+        {data.isOwner && isOpen && data.responders.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No offers yet. Nearby members can offer to help from this page.
+          </p>
+        )}
+      </CardContent>
+
+      {data.isOwner && (
+        <CompleteRecoveryDialog
+          requestId={requestId}
+          responders={accepted}
+          open={showComplete}
+          onOpenChange={setShowComplete}
+          onCompleted={onCompleted}
+        />
+      )}
+    </Card>
+  );
+}
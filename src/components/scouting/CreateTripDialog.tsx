@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useMutation } from "convex/react";
+import { endOfDay, parseISO, startOfDay } from "date-fns";
 import { api } from "@/convex/_generated/api.js";
 import { Button } from "@/components/ui/button.tsx";
 import { Input } from "@/components/ui/input.tsx";
@@ -60,8 +61,10 @@ export default function CreateTripDialog({
       return;
     }
 
-    const startTimestamp = new Date(startDate).getTime();
-    const endTimestamp = new Date(endDate).getTime();
+    // The trip runs from the start of its first day to the end of its last,
+    // in the creator's own timezone
+    const startTimestamp = startOfDay(parseISO(startDate)).getTime();
+    const endTimestamp = endOfDay(parseISO(endDate)).getTime();
 
     if (endTimestamp < startTimestamp) {
       toast.error("End date must be after start date");
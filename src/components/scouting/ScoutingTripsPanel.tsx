@@ -37,6 +37,7 @@ export default function ScoutingTripsPanel({ onViewProfile }: ScoutingTripsPanel
   const participatingTrips = useQuery(
     api.scoutingTrips.getMyParticipatingTrips
   );
+  const tripInvites = useQuery(api.scoutingTrips.getMyTripInvites);
 
   const getActivityBadgeColor = (activityType: string) => {
     switch (activityType) {
@@ -175,6 +176,16 @@ export default function ScoutingTripsPanel({ onViewProfile }: ScoutingTripsPanel
 
         <ScrollArea className="flex-1">
           <TabsContent value="available" className="p-4 pb-6 space-y-3">
+            {tripInvites && tripInvites.length > 0 && (
+              <div className="space-y-3 pb-3 border-b">
+                <div className="text-sm font-semibold">
+                  Invites ({tripInvites.length})
+                </div>
+                {tripInvites.map((trip) => (
+                  <TripCard key={trip._id} trip={trip} showCreator />
+                ))}
+              </div>
+            )}
             {!availableTrips ? (
               <div className="text-sm text-muted-foreground text-center py-8">
                 Loading trips...
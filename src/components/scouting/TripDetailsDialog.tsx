@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api.js";
 import { Button } from "@/components/ui/button.tsx";
@@ -10,6 +11,8 @@ import {
 import { Badge } from "@/components/ui/badge.tsx";
 import { Card } from "@/components/ui/card.tsx";
 import { Separator } from "@/components/ui/separator.tsx";
+import { Checkbox } from "@/components/ui/checkbox.tsx";
+import { Label } from "@/components/ui/label.tsx";
 import {
   Calendar,
   MapPin,
@@ -20,11 +23,13 @@ import {
   Lock,
   Globe,
   UsersIcon,
+  Send,
   X,
 } from "lucide-react";
 import { toast } from "sonner";
 import { ConvexError } from "convex/values";
 import { format } from "date-fns";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
 
 interface TripDetailsDialogProps {
   tripId: string;
@@ -44,6 +49,24 @@ export default function TripDetailsDialog({
   const joinTrip = useMutation(api.scoutingTrips.joinTrip);
   const leaveTrip = useMutation(api.scoutingTrips.leaveTrip);
   const cancelTrip = useMutation(api.scoutingTrips.cancelTrip);
+  const inviteFriends = useMutation(api.scoutingTrips.inviteFriends);
+  const declineInvite = useMutation(api.scoutingTrips.declineInvite);
+  const isCreator = tripDetails?.userRole === "creator";
+  const friends = useQuery(
+    api.friends.getFriends,
+    open && isCreator && tripDetails?.status === "upcoming" ? {} : "skip"
+  );
+  const groups = useQuery(
+    api.friendGroups.getMyGroups,
+    open && isCreator && tripDetails?.status === "upcoming" ? {} : "skip"
+  );
+  const [selectedFriendIds, setSelectedFriendIds] = useState<Id<"users">[]>(
+    []
+  );
+  const [selectedGroupIds, setSelectedGroupIds] = useState<
+    Id<"friendGroups">[]
+  >([]);
+  const [isInviting, setIsInviting] = useState(false);
 
   const handleJoin = async () => {
     try {
@@ -73,6 +96,58 @@ export default function TripDetailsDialog({
     }
   };
 
+  const handleDecline = async () => {
+    try {
+      await declineInvite({ tripId: tripId as never });
+      toast.success("Invite declined");
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof ConvexError) {
+        const { message } = error.data as { code: string; message: string };
+        toast.error(message);
+      } else {
+        toast.error("Failed to decline invite");
+      }
+    }
+  };
+
+  const handleInvite = async () => {
+    setIsInviting(true);
+    try {
+      const { invited } = await inviteFriends({
+        tripId: tripId as never,
+        userIds: selectedFriendIds,
+        groupIds: selectedGroupIds,
+      });
+      toast.success(
+        invited === 1 ? "Invited 1 person" : `Invited ${invited} people`
+      );
+      setSelectedFriendIds([]);
+      setSelectedGroupIds([]);
+    } catch (error) {
+      if (error instanceof ConvexError) {
+        const { message } = error.data as { code: string; message: string };
+        toast.error(message);
+      } else {
+        toast.error("Failed to send invites");
+      }
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const toggleFriend = (friendId: Id<"users">, checked: boolean) => {
+    setSelectedFriendIds((ids) =>
+      checked ? [...ids, friendId] : ids.filter((id) => id !== friendId)
+    );
+  };
+
+  const toggleGroup = (groupId: Id<"friendGroups">, checked: boolean) => {
+    setSelectedGroupIds((ids) =>
+      checked ? [...ids, groupId] : ids.filter((id) => id !== groupId)
+    );
+  };
+
   const handleCancel = async () => {
     if (!confirm("Are you sure you want to cancel this trip?")) {
       return;
@@ -130,10 +205,14 @@ export default function TripDetailsDialog({
     );
   }
 
-  const isCreator = tripDetails.userRole === "creator";
   const isFull =
     tripDetails.maxParticipants &&
     tripDetails.participants.length >= tripDetails.maxParticipants;
+  const invitableFriends = (friends ?? []).filter(
+    (friend) =>
+      !tripDetails.participants.some((p) => p._id === friend._id) &&
+      !tripDetails.invitedUserIds.includes(friend._id)
+  );
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -258,6 +337,79 @@ export default function TripDetailsDialog({
             </div>
           </div>
 
+          {/* Invite Friends */}
+          {isCreator && tripDetails.status === "upcoming" && friends && (
+            <div>
+              <div className="text-sm font-semibold mb-2 flex items-center gap-2">
+                <UserPlus className="h-4 w-4" />
+                Invite Friends
+                {tripDetails.invitedUserIds.length > 0 && (
+                  <span className="text-xs font-normal text-muted-foreground">
+                    ({tripDetails.invitedUserIds.length} invited)
+                  </span>
+                )}
+              </div>
+              {invitableFriends.length === 0 && !groups?.length ? (
+                <p className="text-sm text-muted-foreground">
+                  {friends.length === 0
+                    ? "Add friends to invite them on trips"
+                    : "All your friends have been invited"}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {groups?.map((group) => (
+                    <div key={group._id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`invite-group-${group._id}`}
+                        checked={selectedGroupIds.includes(group._id)}
+                        onCheckedChange={(checked) =>
+                          toggleGroup(group._id, checked === true)
+                        }
+                      />
+                      <Label
+                        htmlFor={`invite-group-${group._id}`}
+                        className="font-normal flex items-center gap-1"
+                      >
+                        <Users className="h-3 w-3" />
+                        {group.name} ({group.members.length})
+                      </Label>
+                    </div>
+                  ))}
+                  {invitableFriends.map((friend) => (
+                    <div key={friend._id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`invite-${friend._id}`}
+                        checked={selectedFriendIds.includes(friend._id)}
+                        onCheckedChange={(checked) =>
+                          toggleFriend(friend._id, checked === true)
+                        }
+                      />
+                      <Label
+                        htmlFor={`invite-${friend._id}`}
+                        className="font-normal"
+                      >
+                        {friend.name || friend.email}
+                      </Label>
+                    </div>
+                  ))}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleInvite}
+                    disabled={
+                      (selectedFriendIds.length === 0 &&
+                        selectedGroupIds.length === 0) ||
+                      isInviting
+                    }
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    Send Invites
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Actions */}
           <div className="flex gap-2">
             {tripDetails.status === "upcoming" && (
@@ -269,6 +421,17 @@ export default function TripDetailsDialog({
                   </Button>
                 )}
 
+                {tripDetails.isInvited && (
+                  <Button
+                    variant="outline"
+                    onClick={handleDecline}
+                    className="flex-1"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Decline Invite
+                  </Button>
+                )}
+
                 {!tripDetails.isParticipant && isFull && (
                   <Button disabled className="flex-1">
                     Trip Full
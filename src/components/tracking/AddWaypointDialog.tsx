@@ -1,5 +1,4 @@
 import { useState } from "react";
-import { useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api.js";
 import { Button } from "@/components/ui/button.tsx";
 import {
@@ -20,6 +19,8 @@ import {
   SelectValue,
 } from "@/components/ui/select.tsx";
 import { toast } from "sonner";
+import { WAYPOINT_TYPES } from "@/lib/waypoint-types.ts";
+import { useOfflineMutation } from "@/hooks/use-offline-mutation.ts";
 
 interface AddWaypointDialogProps {
   open: boolean;
@@ -29,15 +30,6 @@ interface AddWaypointDialogProps {
   altitude?: number;
 }
 
-const waypointTypes = [
-  { value: "stand", label: "Tree Stand" },
-  { value: "blind", label: "Blind" },
-  { value: "camera", label: "Trail Camera" },
-  { value: "marker", label: "Marker" },
-  { value: "parking", label: "Parking" },
-  { value: "camp", label: "Camp" },
-];
-
 export default function AddWaypointDialog({
   open,
   onOpenChange,
@@ -50,7 +42,10 @@ export default function AddWaypointDialog({
   const [type, setType] = useState("marker");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  const createWaypoint = useMutation(api.waypoints.createWaypoint);
+  const createWaypoint = useOfflineMutation(
+    api.waypoints.createWaypoint,
+    "Add waypoint",
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -62,16 +57,19 @@ export default function AddWaypointDialog({
 
     setIsSubmitting(true);
     try {
-      await createWaypoint({
+      const { queued } = await createWaypoint({
         name: name.trim(),
         description: description.trim() || undefined,
         lat,
         lng,
         altitude,
         type,
+        createdAt: Date.now(),
       });
 
-      toast.success("Waypoint added");
+      toast.success(
+        queued ? "Waypoint saved. It will sync when you're back online." : "Waypoint added",
+      );
       onOpenChange(false);
       setName("");
       setDescription("");
@@ -113,7 +111,7 @@ export default function AddWaypointDialog({
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {waypointTypes.map((wType) => (
+                {WAYPOINT_TYPES.map((wType) => (
                   <SelectItem key={wType.value} value={wType.value}>
                     {wType.label}
                   </SelectItem>
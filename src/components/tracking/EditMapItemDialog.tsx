@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { Textarea } from "@/components/ui/textarea.tsx";
+import { toast } from "sonner";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+interface EditMapItemDialogProps {
+  item:
+    | {
+        itemType: "track";
+        _id: Id<"tracks">;
+        name: string;
+        description?: string;
+      }
+    | {
+        itemType: "waypoint";
+        _id: Id<"waypoints">;
+        name: string;
+        description?: string;
+      }
+    | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Rename a track or waypoint and edit its notes, as its owner or as a
+ * member it is shared with for editing
+ */
+export default function EditMapItemDialog({
+  item,
+  onOpenChange,
+}: EditMapItemDialogProps) {
+  const updateTrack = useMutation(api.tracks.updateTrack);
+  const updateWaypoint = useMutation(api.waypoints.updateWaypoint);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (item) {
+      setName(item.name);
+      setDescription(item.description ?? "");
+    }
+  }, [item]);
+
+  const handleSave = async () => {
+    if (!item) return;
+    setSaving(true);
+    try {
+      if (item.itemType === "track") {
+        await updateTrack({ trackId: item._id, name, description });
+      } else {
+        await updateWaypoint({ waypointId: item._id, name, description });
+      }
+      toast.success("Saved");
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof ConvexError) {
+        const { message } = error.data as { code: string; message: string };
+        toast.error(message);
+      } else {
+        toast.error("Failed to save changes");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={item !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>
+            Edit {item?.itemType === "track" ? "Track" : "Waypoint"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="map-item-name">Name</Label>
+            <Input
+              id="map-item-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="map-item-description">Notes</Label>
+            <Textarea
+              id="map-item-description"
+              value={description}
+              rows={3}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,218 @@
+import { useRef, useState } from "react";
+import { useConvex, useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select.tsx";
+import { Download, Upload } from "lucide-react";
+import { toast } from "sonner";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+interface GpsFileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type GpsFileFormat = "gpx" | "kml";
+
+function downloadFile(fileName: string, mimeType: string, content: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export default function GpsFileDialog({
+  open,
+  onOpenChange,
+}: GpsFileDialogProps) {
+  const convex = useConvex();
+  const tracks = useQuery(api.tracks.getMyTracks);
+  const importGpsFile = useMutation(api.gpsFiles.importGpsFile);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedTrackId, setSelectedTrackId] = useState<string>("");
+  const [isImporting, setIsImporting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const savedTracks = tracks?.filter((track) => !track.isActive) ?? [];
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const content = await file.text();
+      const result = await importGpsFile({ fileName: file.name, content });
+      toast.success(
+        `Imported ${result.tracksImported} track(s) and ${result.waypointsImported} waypoint(s)`,
+      );
+    } catch (error) {
+      toast.error("Failed to import file");
+      console.error(error);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExportTrack = async (format: GpsFileFormat) => {
+    if (!selectedTrackId) {
+      toast.error("Please select a track");
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const file = await convex.query(api.gpsFiles.exportTrack, {
+        trackId: selectedTrackId as Id<"tracks">,
+        format,
+      });
+      downloadFile(file.fileName, file.mimeType, file.content);
+    } catch (error) {
+      toast.error("Failed to export track");
+      console.error(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportWaypoints = async (format: GpsFileFormat) => {
+    setIsExporting(true);
+    try {
+      const file = await convex.query(api.gpsFiles.exportWaypoints, {
+        format,
+      });
+      if (file.count === 0) {
+        toast.error("You don't have any waypoints yet");
+        return;
+      }
+      downloadFile(file.fileName, file.mimeType, file.content);
+    } catch (error) {
+      toast.error("Failed to export waypoints");
+      console.error(error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import & Export</DialogTitle>
+          <DialogDescription>
+            Move tracks and waypoints between your GPS unit and other mapping
+            apps using GPX or KML files
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Import GPX / KML</Label>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".gpx,.kml,application/gpx+xml,application/vnd.google-earth.kml+xml"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button
+              variant="outline"
+              className="w-full gap-2"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isImporting}
+            >
+              <Upload className="w-4 h-4" />
+              {isImporting ? "Importing..." : "Choose File"}
+            </Button>
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <Label htmlFor="export-track">Export Track</Label>
+            <Select value={selectedTrackId} onValueChange={setSelectedTrackId}>
+              <SelectTrigger id="export-track">
+                <SelectValue
+                  placeholder={
+                    savedTracks.length === 0
+                      ? "No saved tracks"
+                      : "Select a track"
+                  }
+                />
+              </SelectTrigger>
+              <SelectContent>
+                {savedTracks.map((track) => (
+                  <SelectItem key={track._id} value={track._id}>
+                    {track.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1 gap-2"
+                onClick={() => handleExportTrack("gpx")}
+                disabled={isExporting || !selectedTrackId}
+              >
+                <Download className="w-4 h-4" />
+                GPX
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1 gap-2"
+                onClick={() => handleExportTrack("kml")}
+                disabled={isExporting || !selectedTrackId}
+              >
+                <Download className="w-4 h-4" />
+                KML
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2 border-t pt-4">
+            <Label>Export All Waypoints</Label>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1 gap-2"
+                onClick={() => handleExportWaypoints("gpx")}
+                disabled={isExporting}
+              >
+                <Download className="w-4 h-4" />
+                GPX
+              </Button>
+              <Button
+                variant="outline"
+                className="flex-1 gap-2"
+                onClick={() => handleExportWaypoints("kml")}
+                disabled={isExporting}
+              >
+                <Download className="w-4 h-4" />
+                KML
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { ConvexError } from "convex/values";
+import { api } from "@/convex/_generated/api.js";
+import { Button } from "@/components/ui/button.tsx";
+import { Checkbox } from "@/components/ui/checkbox.tsx";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { ScrollArea } from "@/components/ui/scroll-area.tsx";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select.tsx";
+import { Separator } from "@/components/ui/separator.tsx";
+import { Switch } from "@/components/ui/switch.tsx";
+import { Copy, Link2, Link2Off } from "lucide-react";
+import { toast } from "sonner";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+interface ShareMapItemDialogProps {
+  item: { _id: Id<"tracks"> | Id<"waypoints">; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Permission = "read" | "edit";
+
+function showError(error: unknown, fallback: string) {
+  if (error instanceof ConvexError) {
+    const { message } = error.data as { code: string; message: string };
+    toast.error(message);
+  } else {
+    toast.error(fallback);
+  }
+}
+
+function shareUrl(linkToken: string) {
+  return `${window.location.origin}/shared/${linkToken}`;
+}
+
+/**
+ * Share one of your tracks or waypoints with friends, groups, all your
+ * friends, or anyone with a link
+ */
+export default function ShareMapItemDialog({
+  item,
+  onOpenChange,
+}: ShareMapItemDialogProps) {
+  const shares = useQuery(
+    api.mapItemShares.getItemShares,
+    item ? { itemId: item._id } : "skip",
+  );
+  const friends = useQuery(api.friends.getFriends, item ? {} : "skip");
+  const groups = useQuery(api.friendGroups.getMyGroups, item ? {} : "skip");
+  const setItemShares = useMutation(api.mapItemShares.setItemShares);
+  const createShareLink = useMutation(api.mapItemShares.createShareLink);
+  const revokeShareLink = useMutation(api.mapItemShares.revokeShareLink);
+
+  const [groupIds, setGroupIds] = useState<Id<"friendGroups">[]>([]);
+  const [userIds, setUserIds] = useState<Id<"users">[]>([]);
+  const [allFriends, setAllFriends] = useState(false);
+  const [permission, setPermission] = useState<Permission>("read");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (shares) {
+      setGroupIds(shares.groupIds);
+      setUserIds(shares.userIds);
+      setAllFriends(shares.allFriends);
+      setPermission(shares.permission);
+    }
+  }, [shares]);
+
+  const toggle = <T,>(ids: T[], id: T, checked: boolean) =>
+    checked ? [...ids, id] : ids.filter((existing) => existing !== id);
+
+  const handleSave = async () => {
+    if (!item) return;
+    setSaving(true);
+    try {
+      await setItemShares({
+        itemId: item._id,
+        groupIds,
+        userIds: allFriends ? [] : userIds,
+        allFriends,
+        permission,
+      });
+      toast.success("Sharing updated");
+      onOpenChange(false);
+    } catch (error) {
+      showError(error, "Failed to update sharing");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreateLink = async () => {
+    if (!item) return;
+    try {
+      const linkToken = await createShareLink({ itemId: item._id });
+      await navigator.clipboard?.writeText(shareUrl(linkToken));
+      toast.success("Link created and copied");
+    } catch (error) {
+      showError(error, "Failed to create link");
+    }
+  };
+
+  const handleCopyLink = async (linkToken: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(linkToken));
+      toast.success("Link copied");
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+      toast.error("Couldn't copy the link");
+    }
+  };
+
+  const handleRevokeLink = async () => {
+    if (!item) return;
+    try {
+      await revokeShareLink({ itemId: item._id });
+      toast.success("Link turned off");
+    } catch (error) {
+      showError(error, "Failed to turn off link");
+    }
+  };
+
+  return (
+    <Dialog open={item !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Share "{item?.name}"</DialogTitle>
+          <DialogDescription>
+            People you share with see it on their map, labeled with your name
+          </DialogDescription>
+        </DialogHeader>
+
+        {shares === undefined ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="share-all-friends" className="text-base">
+                All Friends
+              </Label>
+              <Switch
+                id="share-all-friends"
+                checked={allFriends}
+                onCheckedChange={setAllFriends}
+              />
+            </div>
+
+            {groups && groups.length > 0 && (
+              <div className="space-y-2">
+                <Label>Groups</Label>
+                {groups.map((group) => (
+                  <div key={group._id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`share-item-group-${group._id}`}
+                      checked={groupIds.includes(group._id)}
+                      onCheckedChange={(checked) =>
+                        setGroupIds((ids) =>
+                          toggle(ids, group._id, checked === true),
+                        )
+                      }
+                    />
+                    <Label
+                      htmlFor={`share-item-group-${group._id}`}
+                      className="font-normal"
+                    >
+                      {group.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {!allFriends && friends && friends.length > 0 && (
+              <div className="space-y-2">
+                <Label>Friends</Label>
+                <ScrollArea className="max-h-40">
+                  <div className="space-y-2">
+                    {friends.map((friend) => (
+                      <div key={friend._id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`share-item-friend-${friend._id}`}
+                          checked={userIds.includes(friend._id)}
+                          onCheckedChange={(checked) =>
+                            setUserIds((ids) =>
+                              toggle(ids, friend._id, checked === true),
+                            )
+                          }
+                        />
+                        <Label
+                          htmlFor={`share-item-friend-${friend._id}`}
+                          className="font-normal"
+                        >
+                          {friend.name || friend.email}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>They Can</Label>
+              <Select
+                value={permission}
+                onValueChange={(value) => setPermission(value as Permission)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="read">View only</SelectItem>
+                  <SelectItem value="edit">View and edit</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label>Share Link</Label>
+              <p className="text-sm text-muted-foreground">
+                Anyone with the link can view it without signing in
+              </p>
+              {shares.linkToken ? (
+                <div className="flex gap-2">
+                  <Input readOnly value={shareUrl(shares.linkToken)} />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    aria-label="Copy link"
+                    onClick={() => handleCopyLink(shares.linkToken!)}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    aria-label="Turn off link"
+                    onClick={handleRevokeLink}
+                  >
+                    <Link2Off className="h-4 w-4" />
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" size="sm" onClick={handleCreateLink}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Create Link
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || shares === undefined}
+          >
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
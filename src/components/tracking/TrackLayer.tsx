@@ -1,8 +1,254 @@
+import { useState } from "react";
+import { useQuery } from "convex/react";
+import { InfoWindow, Polyline } from "@react-google-maps/api";
+import { api } from "@/convex/_generated/api.js";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+import {
+  formatDistance,
+  formatDuration,
+  formatElevation,
+  formatSpeed,
+} from "@/lib/track-format.ts";
+import { Button } from "@/components/ui/button.tsx";
+import { Pencil, Share2 } from "lucide-react";
+import ShareMapItemDialog from "./ShareMapItemDialog.tsx";
+import EditMapItemDialog from "./EditMapItemDialog.tsx";
+
 interface TrackLayerProps {
-  map: google.maps.Map | null;
+  visible: boolean;
+  selectedTrackIds: string[];
+}
+
+const ACTIVE_TRACK_COLOR = "#ef4444";
+const SHARED_TRACK_COLOR = "#a855f7";
+const SAVED_TRACK_COLORS = [
+  "#f97316",
+  "#eab308",
+  "#06b6d4",
+  "#a855f7",
+  "#ec4899",
+  "#84cc16",
+];
+
+function TrackPolyline({
+  trackId,
+  color,
+  onClick,
+}: {
+  trackId: Id<"tracks">;
+  color: string;
+  onClick: (position: google.maps.LatLngLiteral) => void;
+}) {
+  const trackPath = useQuery(api.tracks.getTrackPath, { trackId });
+  if (!trackPath || trackPath.path.length < 2) return null;
+
+  return (
+    <Polyline
+      path={trackPath.path}
+      options={{
+        strokeColor: color,
+        strokeOpacity: 0.9,
+        strokeWeight: 4,
+        clickable: true,
+      }}
+      onClick={(e) => {
+        if (e.latLng) {
+          onClick(e.latLng.toJSON());
+        }
+      }}
+    />
+  );
 }
 
-export default function TrackLayer({ map }: TrackLayerProps) {
-  // TODO: Implement track polylines using Google Maps Polyline API
-  return null;
+export default function TrackLayer({
+  visible,
+  selectedTrackIds,
+}: TrackLayerProps) {
+  const tracks = useQuery(api.tracks.getMyTracks);
+  const shared = useQuery(api.mapItemShares.getSharedWithMe);
+  const [inspected, setInspected] = useState<{
+    trackId: string;
+    position: google.maps.LatLngLiteral;
+  } | null>(null);
+  const [sharing, setSharing] = useState<{
+    _id: Id<"tracks">;
+    name: string;
+  } | null>(null);
+  const [editing, setEditing] = useState<{
+    _id: Id<"tracks">;
+    name: string;
+    description?: string;
+  } | null>(null);
+
+  if (!visible || !tracks) return null;
+
+  const activeTrack = tracks.find((track) => track.isActive);
+  const selectedTracks = tracks.filter(
+    (track) => !track.isActive && selectedTrackIds.includes(track._id),
+  );
+  // Tracks other members shared with you, drawn when picked in the layer menu
+  const sharedTracks = (shared?.tracks ?? []).filter((track) =>
+    selectedTrackIds.includes(track._id),
+  );
+  const inspectedTrack = inspected
+    ? tracks.find((track) => track._id === inspected.trackId)
+    : undefined;
+  const inspectedShared = inspected
+    ? sharedTracks.find((track) => track._id === inspected.trackId)
+    : undefined;
+
+  return (
+    <>
+      {selectedTracks.map((track, index) => (
+        <TrackPolyline
+          key={track._id}
+          trackId={track._id}
+          color={SAVED_TRACK_COLORS[index % SAVED_TRACK_COLORS.length]}
+          onClick={(position) => setInspected({ trackId: track._id, position })}
+        />
+      ))}
+      {sharedTracks.map((track) => (
+        <TrackPolyline
+          key={track._id}
+          trackId={track._id}
+          color={SHARED_TRACK_COLOR}
+          onClick={(position) => setInspected({ trackId: track._id, position })}
+        />
+      ))}
+      {activeTrack && (
+        <TrackPolyline
+          trackId={activeTrack._id}
+          color={ACTIVE_TRACK_COLOR}
+          onClick={(position) =>
+            setInspected({ trackId: activeTrack._id, position })
+          }
+        />
+      )}
+
+      {inspected && inspectedTrack && (
+        <InfoWindow
+          position={inspected.position}
+          onCloseClick={() => setInspected(null)}
+        >
+          <div className="space-y-1 text-sm text-gray-900">
+            <p className="font-semibold">{inspectedTrack.name}</p>
+            <p className="text-xs text-gray-600">
+              {new Date(inspectedTrack.startTime).toLocaleString()}
+              {inspectedTrack.isActive && " · Recording"}
+            </p>
+            <div className="grid grid-cols-2 gap-x-3 text-xs">
+              <span>Distance</span>
+              <span className="font-medium">
+                {formatDistance(inspectedTrack.distance)}
+              </span>
+              {!inspectedTrack.isActive && (
+                <>
+                  <span>Duration</span>
+                  <span className="font-medium">
+                    {formatDuration(inspectedTrack.duration)}
+                  </span>
+                </>
+              )}
+              {inspectedTrack.movingTime !== undefined && (
+                <>
+                  <span>Moving</span>
+                  <span className="font-medium">
+                    {formatDuration(inspectedTrack.movingTime)}
+                  </span>
+                </>
+              )}
+              {inspectedTrack.averageSpeed !== undefined && (
+                <>
+                  <span>Avg speed</span>
+                  <span className="font-medium">
+                    {formatSpeed(inspectedTrack.averageSpeed)}
+                  </span>
+                </>
+              )}
+              {inspectedTrack.elevationGain !== undefined && (
+                <>
+                  <span>Climb</span>
+                  <span className="font-medium">
+                    {formatElevation(inspectedTrack.elevationGain)}
+                  </span>
+                </>
+              )}
+            </div>
+            {!inspectedTrack.isActive && (
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 gap-1 px-2"
+                  onClick={() => setEditing(inspectedTrack)}
+                >
+                  <Pencil className="w-3 h-3" />
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 gap-1 px-2"
+                  onClick={() => setSharing(inspectedTrack)}
+                >
+                  <Share2 className="w-3 h-3" />
+                  Share
+                </Button>
+              </div>
+            )}
+          </div>
+        </InfoWindow>
+      )}
+
+      {inspected && inspectedShared && (
+        <InfoWindow
+          position={inspected.position}
+          onCloseClick={() => setInspected(null)}
+        >
+          <div className="space-y-1 text-sm text-gray-900">
+            <p className="font-semibold">{inspectedShared.name}</p>
+            <p className="text-xs text-purple-700">
+              Shared by {inspectedShared.ownerName}
+            </p>
+            <p className="text-xs text-gray-600">
+              {new Date(inspectedShared.startTime).toLocaleString()}
+            </p>
+            {inspectedShared.description && (
+              <p className="text-xs">{inspectedShared.description}</p>
+            )}
+            <div className="grid grid-cols-2 gap-x-3 text-xs">
+              <span>Distance</span>
+              <span className="font-medium">
+                {formatDistance(inspectedShared.distance)}
+              </span>
+              <span>Duration</span>
+              <span className="font-medium">
+                {formatDuration(inspectedShared.duration)}
+              </span>
+            </div>
+            {inspectedShared.permission === "edit" && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 gap-1 px-2"
+                onClick={() => setEditing(inspectedShared)}
+              >
+                <Pencil className="w-3 h-3" />
+                Edit
+              </Button>
+            )}
+          </div>
+        </InfoWindow>
+      )}
+
+      <ShareMapItemDialog
+        item={sharing}
+        onOpenChange={(open) => !open && setSharing(null)}
+      />
+      <EditMapItemDialog
+        item={editing && { itemType: "track", ...editing }}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+    </>
+  );
 }
@@ -10,9 +10,21 @@ import {
   Clock,
   Route,
   TrendingUp,
+  FileUp,
+  CloudOff,
 } from "lucide-react";
 import { toast } from "sonner";
 import type { Id } from "@/convex/_generated/dataModel.d.ts";
+import {
+  countQueuedTrackPoints,
+  enqueueTrackPoint,
+  flushTrackPoints,
+} from "@/lib/track-point-queue.ts";
+import { formatDistance, formatDuration } from "@/lib/track-format.ts";
+import GpsFileDialog from "./GpsFileDialog.tsx";
+
+// How often buffered fixes are sent while tracking
+const FLUSH_INTERVAL_MS = 15000;
 
 interface TrackingControlProps {
   onWaypointAdd: (lat: number, lng: number) => void;
@@ -31,6 +43,9 @@ export default function TrackingControl({
     accuracy?: number;
   } | null>(null);
   const [watchId, setWatchId] = useState<number | null>(null);
+  const [gpsFileDialogOpen, setGpsFileDialogOpen] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queuedPoints, setQueuedPoints] = useState(0);
   const [trackStats, setTrackStats] = useState({
     distance: 0,
     duration: 0,
@@ -38,10 +53,27 @@ export default function TrackingControl({
   });
 
   const startTrack = useMutation(api.tracks.startTrack);
-  const addTrackPoint = useMutation(api.tracks.addTrackPoint);
+  const addTrackPoints = useMutation(api.tracks.addTrackPoints);
   const stopTrack = useMutation(api.tracks.stopTrack);
   const activeTrack = useQuery(api.tracks.getActiveTrack);
 
+  const refreshQueuedCount = useCallback(async () => {
+    setQueuedPoints(await countQueuedTrackPoints());
+  }, []);
+
+  const flushQueue = useCallback(async () => {
+    if (!navigator.onLine) return;
+    try {
+      await flushTrackPoints((trackId, points) =>
+        addTrackPoints({ trackId: trackId as Id<"tracks">, points }),
+      );
+    } catch (error) {
+      console.error("Failed to flush track points:", error);
+    } finally {
+      await refreshQueuedCount();
+    }
+  }, [addTrackPoints, refreshQueuedCount]);
+
   const handleStartTracking = async () => {
     try {
       const trackId = await startTrack({
@@ -69,15 +101,13 @@ export default function TrackingControl({
               onLocationUpdate(coords.lat, coords.lng);
             }
 
-            // Add point to track
-            try {
-              await addTrackPoint({
-                trackId,
-                ...coords,
-              });
-            } catch (error) {
-              console.error("Failed to add track point:", error);
-            }
+            // Buffer the fix locally; the queue is flushed in batches
+            await enqueueTrackPoint({
+              trackId,
+              ...coords,
+              timestamp: position.timestamp,
+            });
+            await refreshQueuedCount();
           },
           (error) => {
             console.error("Geolocation error:", error);
@@ -101,6 +131,25 @@ export default function TrackingControl({
     if (!activeTrack) return;
 
     try {
+      if (!navigator.onLine) {
+        toast.error("You're offline. Reconnect to save this track.");
+        return;
+      }
+
+      // Send buffered points first: once the track is stopped the server
+      // rejects them. flushQueue swallows errors, so check what's left and
+      // retry once before giving up.
+      await flushQueue();
+      if ((await countQueuedTrackPoints(activeTrack._id)) > 0) {
+        await flushQueue();
+      }
+      if ((await countQueuedTrackPoints(activeTrack._id)) > 0) {
+        toast.error(
+          "Some track points haven't uploaded yet. Try stopping again in a moment.",
+        );
+        return;
+      }
+
       await stopTrack({ trackId: activeTrack._id });
       
       if (watchId !== null) {
@@ -132,11 +181,38 @@ export default function TrackingControl({
       setTrackStats({
         distance: activeTrack.distance,
         duration,
-        points: activeTrack.coordinates.length,
+        points: activeTrack.pointCount,
       });
     }
   }, [activeTrack]);
 
+  // Track connectivity and flush as soon as we're back online
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      void flushQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [flushQueue]);
+
+  // Flush periodically, and once on mount for points left from a prior session
+  useEffect(() => {
+    void flushQueue();
+    if (!isTracking) return;
+
+    const interval = setInterval(() => {
+      void flushQueue();
+    }, FLUSH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isTracking, flushQueue]);
+
   // Sync isTracking state with activeTrack
   useEffect(() => {
     if (activeTrack && !isTracking) {
@@ -150,27 +226,6 @@ export default function TrackingControl({
     }
   }, [activeTrack, isTracking, watchId]);
 
-  const formatDistance = (meters: number) => {
-    const miles = meters * 0.000621371;
-    return miles < 0.1
-      ? `${Math.round(meters * 3.28084)} ft`
-      : `${miles.toFixed(2)} mi`;
-  };
-
-  const formatDuration = (seconds: number) => {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-
-    if (hours > 0) {
-      return `${hours}h ${minutes}m`;
-    } else if (minutes > 0) {
-      return `${minutes}m ${secs}s`;
-    } else {
-      return `${secs}s`;
-    }
-  };
-
   return (
     <div className="absolute bottom-20 left-4 z-[1000] bg-background border rounded-lg shadow-lg p-3 space-y-3 w-64 md:top-4 md:bottom-auto">
       <div className="flex items-center justify-between">
@@ -205,6 +260,15 @@ export default function TrackingControl({
             </div>
             <span className="font-bold">{trackStats.points}</span>
           </div>
+          {(queuedPoints > 0 || !isOnline) && (
+            <div className="flex items-center gap-2 text-xs text-amber-600">
+              <CloudOff className="w-3 h-3" />
+              <span>
+                {isOnline ? "Syncing" : "Offline"} · {queuedPoints} point
+                {queuedPoints === 1 ? "" : "s"} queued
+              </span>
+            </div>
+          )}
         </div>
       )}
 
@@ -241,6 +305,15 @@ export default function TrackingControl({
             </Button>
           </>
         )}
+        <Button
+          onClick={() => setGpsFileDialogOpen(true)}
+          variant="ghost"
+          className="w-full gap-2"
+          size="sm"
+        >
+          <FileUp className="w-4 h-4" />
+          Import / Export
+        </Button>
       </div>
 
       {currentPosition && (
@@ -258,6 +331,11 @@ export default function TrackingControl({
           )}
         </div>
       )}
+
+      <GpsFileDialog
+        open={gpsFileDialogOpen}
+        onOpenChange={setGpsFileDialogOpen}
+      />
     </div>
   );
 }
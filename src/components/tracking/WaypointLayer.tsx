@@ -1,8 +1,163 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { InfoWindow, Marker } from "@react-google-maps/api";
+import { api } from "@/convex/_generated/api.js";
+import type { Doc } from "@/convex/_generated/dataModel.d.ts";
+import { Button } from "@/components/ui/button.tsx";
+import { Pencil, Share2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { getWaypointType } from "@/lib/waypoint-types.ts";
+import ShareMapItemDialog from "./ShareMapItemDialog.tsx";
+import EditMapItemDialog from "./EditMapItemDialog.tsx";
+
 interface WaypointLayerProps {
-  map: google.maps.Map | null;
+  visible: boolean;
 }
 
-export default function WaypointLayer({ map }: WaypointLayerProps) {
-  // TODO: Implement waypoint markers using Google Maps Marker API
-  return null;
+// Ownership details for waypoints other members shared with you
+type MapWaypoint = Doc<"waypoints"> & {
+  ownerName?: string;
+  permission?: "read" | "edit";
+};
+
+const SHARED_STROKE_COLOR = "#a855f7";
+
+export default function WaypointLayer({ visible }: WaypointLayerProps) {
+  const waypoints = useQuery(api.waypoints.getMyWaypoints);
+  const shared = useQuery(api.mapItemShares.getSharedWithMe);
+  const deleteWaypoint = useMutation(api.waypoints.deleteWaypoint);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [sharing, setSharing] = useState<Doc<"waypoints"> | null>(null);
+  const [editing, setEditing] = useState<Doc<"waypoints"> | null>(null);
+
+  if (!visible || !waypoints) return null;
+
+  const allWaypoints: MapWaypoint[] = [
+    ...waypoints,
+    ...(shared?.waypoints ?? []),
+  ];
+  // Looked up by id so edits and revoked shares show right away
+  const selected = allWaypoints.find(
+    (waypoint) => waypoint._id === selectedId,
+  );
+  const isOwn = !selected?.ownerName;
+
+  const handleDelete = async (waypoint: Doc<"waypoints">) => {
+    try {
+      await deleteWaypoint({ waypointId: waypoint._id });
+      setSelectedId(null);
+      toast.success("Waypoint deleted");
+    } catch (error) {
+      toast.error("Failed to delete waypoint");
+      console.error(error);
+    }
+  };
+
+  return (
+    <>
+      {allWaypoints.map((waypoint) => {
+        const type = getWaypointType(waypoint.type);
+        return (
+          <Marker
+            key={waypoint._id}
+            position={{ lat: waypoint.lat, lng: waypoint.lng }}
+            title={
+              waypoint.ownerName
+                ? `${waypoint.name} · ${waypoint.ownerName}`
+                : waypoint.name
+            }
+            icon={{
+              path: google.maps.SymbolPath.CIRCLE,
+              scale: 10,
+              fillColor: waypoint.color ?? type.color,
+              fillOpacity: 1,
+              strokeColor: waypoint.ownerName ? SHARED_STROKE_COLOR : "#ffffff",
+              strokeWeight: waypoint.ownerName ? 3 : 2,
+            }}
+            label={{
+              text: type.glyph,
+              color: "#ffffff",
+              fontSize: "11px",
+              fontWeight: "bold",
+            }}
+            onClick={() => setSelectedId(waypoint._id)}
+          />
+        );
+      })}
+
+      {selected && (
+        <InfoWindow
+          position={{ lat: selected.lat, lng: selected.lng }}
+          onCloseClick={() => setSelectedId(null)}
+        >
+          <div className="space-y-1 text-sm text-gray-900 max-w-56">
+            <p className="font-semibold">{selected.name}</p>
+            <p className="text-xs text-gray-600">
+              {getWaypointType(selected.type).label}
+            </p>
+            {selected.ownerName && (
+              <p className="text-xs text-purple-700">
+                Shared by {selected.ownerName}
+              </p>
+            )}
+            {selected.description && (
+              <p className="text-xs">{selected.description}</p>
+            )}
+            <p className="text-xs text-gray-600">
+              {selected.lat.toFixed(6)}, {selected.lng.toFixed(6)}
+              {selected.altitude !== undefined &&
+                ` · ${Math.round(selected.altitude * 3.28084)} ft`}
+            </p>
+            <p className="text-xs text-gray-600">
+              Added {new Date(selected.createdAt).toLocaleDateString()}
+            </p>
+            <div className="flex gap-1">
+              {(isOwn || selected.permission === "edit") && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 gap-1 px-2"
+                  onClick={() => setEditing(selected)}
+                >
+                  <Pencil className="w-3 h-3" />
+                  Edit
+                </Button>
+              )}
+              {isOwn && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 gap-1 px-2"
+                    onClick={() => setSharing(selected)}
+                  >
+                    <Share2 className="w-3 h-3" />
+                    Share
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 gap-1 px-2 text-destructive"
+                    onClick={() => handleDelete(selected)}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    Delete
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        </InfoWindow>
+      )}
+
+      <ShareMapItemDialog
+        item={sharing}
+        onOpenChange={(open) => !open && setSharing(null)}
+      />
+      <EditMapItemDialog
+        item={editing && { itemType: "waypoint", ...editing }}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+    </>
+  );
 }
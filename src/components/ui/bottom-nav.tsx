@@ -4,7 +4,7 @@ import { MapIcon, Building2, Binoculars, Users, Wrench, Shield } from "lucide-re
 interface BottomNavProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
-  userRole?: string | null;
+  showMembers?: boolean;
 }
 
 const baseTabs = [
@@ -15,11 +15,11 @@ const baseTabs = [
   { id: "mytools", label: "My Tools", icon: Wrench },
 ];
 
-export default function BottomNav({ activeTab, onTabChange, userRole }: BottomNavProps) {
+export default function BottomNav({ activeTab, onTabChange, showMembers }: BottomNavProps) {
   const tabs = [...baseTabs];
   
-  // Add Members tab for admins and owners
-  if (userRole === "owner" || userRole === "admin") {
+  // Add Members tab for anyone who can open a Manage section
+  if (showMembers) {
     tabs.push({ id: "members", label: "Members", icon: Shield });
   }
   
@@ -4,7 +4,8 @@ import { Loader2, LogIn, LogOut } from "lucide-react";
 import { toast } from "sonner";
 import { CodeInput } from "@/components/ui/CodeInput.tsx";
 import { useAuthActions } from "@convex-dev/auth/react";
-import { useConvexAuth } from "convex/react";
+import { useConvexAuth, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
 import { Button, buttonVariants } from "@/components/ui/button.tsx";
 import {
   Dialog,
@@ -15,6 +16,8 @@ import {
 } from "@/components/ui/dialog.tsx";
 import { Input } from "@/components/ui/input.tsx";
 import { Label } from "@/components/ui/label.tsx";
+import { clearOfflineSession } from "@/lib/offline-session.ts";
+import { releasePushSubscription } from "@/lib/push.ts";
 
 export interface SignInButtonProps
   extends Omit<React.ComponentProps<"button">, "onClick">,
@@ -322,6 +325,7 @@ export const SignInButton = forwardRef<HTMLButtonElement, SignInButtonProps>(
   ) => {
     const { isAuthenticated, isLoading } = useConvexAuth();
     const { signOut } = useAuthActions();
+    const removePushSubscription = useMutation(api.push.unsubscribe);
     const [showSignInDialog, setShowSignInDialog] = useState(false);
 
     const handleClick = useCallback(
@@ -330,6 +334,10 @@ export const SignInButton = forwardRef<HTMLButtonElement, SignInButtonProps>(
 
         if (isAuthenticated) {
           try {
+            await releasePushSubscription((endpoint) =>
+              removePushSubscription({ endpoint }),
+            );
+            await clearOfflineSession();
             await signOut();
             toast.success("Signed out successfully");
           } catch (err) {
@@ -340,7 +348,7 @@ export const SignInButton = forwardRef<HTMLButtonElement, SignInButtonProps>(
           setShowSignInDialog(true);
         }
       },
-      [isAuthenticated, signOut, onClick],
+      [isAuthenticated, signOut, onClick, removePushSubscription],
     );
 
     const isDisabled = disabled || isLoading;
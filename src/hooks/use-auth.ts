@@ -1,13 +1,27 @@
 import { useAuthActions } from "@convex-dev/auth/react";
-import { useConvexAuth, useQuery } from "convex/react";
+import { useConvexAuth, useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api.js";
-import { useMemo } from "react";
+import { useCallback, useMemo } from "react";
+import { clearOfflineSession } from "@/lib/offline-session.ts";
+import { releasePushSubscription } from "@/lib/push.ts";
 
 export function useAuth() {
   const { isLoading, isAuthenticated } = useConvexAuth();
-  const { signIn, signOut } = useAuthActions();
+  const { signIn, signOut: convexSignOut } = useAuthActions();
   const user = useQuery(api.users.getCurrentUser, isAuthenticated ? {} : "skip");
 
+  const removePushSubscription = useMutation(api.push.unsubscribe);
+
+  // Cached screens, unsent changes and push notifications belong to the
+  // signed-out user
+  const signOut = useCallback(async () => {
+    await releasePushSubscription((endpoint) =>
+      removePushSubscription({ endpoint }),
+    );
+    await clearOfflineSession();
+    await convexSignOut();
+  }, [convexSignOut, removePushSubscription]);
+
   return useMemo(
     () => ({
       isLoading,
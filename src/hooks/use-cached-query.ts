@@ -0,0 +1,58 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { useQuery, type OptionalRestArgsOrSkip } from "convex/react";
+import { getFunctionName, type FunctionReference } from "convex/server";
+import { readCachedQuery, writeCachedQuery } from "@/lib/query-cache.ts";
+import {
+  getOfflineSessionUser,
+  subscribeToOfflineSession,
+} from "@/lib/offline-session.ts";
+
+/**
+ * useQuery that also saves each result to IndexedDB and falls back to the
+ * saved result while the live query is loading, e.g. when offline. Results
+ * are kept per user, and not at all until the signed-in user is known.
+ */
+export function useCachedQuery<Query extends FunctionReference<"query">>(
+  query: Query,
+  ...args: OptionalRestArgsOrSkip<Query>
+): Query["_returnType"] | undefined {
+  const live = useQuery(query, ...args);
+  const userId = useSyncExternalStore(
+    subscribeToOfflineSession,
+    getOfflineSessionUser,
+  );
+  const skipped = args[0] === "skip";
+  const key =
+    skipped || !userId
+      ? null
+      : `${userId}:${getFunctionName(query)}:${JSON.stringify(args[0] ?? {})}`;
+  const [cached, setCached] = useState<{
+    key: string;
+    value: Query["_returnType"];
+  } | null>(null);
+
+  useEffect(() => {
+    if (!key || live !== undefined) return;
+    let cancelled = false;
+    readCachedQuery<Query["_returnType"]>(key)
+      .then((value) => {
+        if (!cancelled && value !== undefined) {
+          setCached({ key, value });
+        }
+      })
+      .catch((error) => console.error("Failed to read query cache:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [key, live]);
+
+  useEffect(() => {
+    if (!key || live === undefined) return;
+    writeCachedQuery(key, live).catch((error) =>
+      console.error("Failed to write query cache:", error),
+    );
+  }, [key, live]);
+
+  if (live !== undefined) return live;
+  return cached && cached.key === key ? cached.value : undefined;
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+
+// Often enough for nearby alerts, rarely enough not to track anyone
+const SYNC_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Keeps the member's last known location on the server while they have
+ * nearby recovery request alerts turned on. Uses the map's location when
+ * there is one, else asks the browser once on load.
+ */
+export function useLastLocationSync(
+  location: { lat: number; lng: number } | null,
+) {
+  const preferences = useQuery(api.notifications.getPreferences);
+  const updateLastLocation = useMutation(api.notifications.updateLastLocation);
+  const lastSentAt = useRef(0);
+  const hasLocation = useRef(false);
+  hasLocation.current = location !== null;
+
+  const isEnabled = !!preferences?.recoveryAlertRadiusMiles;
+
+  useEffect(() => {
+    // Only on load or when alerts are turned on
+    if (!isEnabled || hasLocation.current || !("geolocation" in navigator)) {
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        lastSentAt.current = Date.now();
+        updateLastLocation({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        }).catch((error) =>
+          console.error("Failed to update last location:", error),
+        );
+      },
+      (error) => console.error("Geolocation error:", error),
+      { maximumAge: SYNC_INTERVAL_MS },
+    );
+  }, [isEnabled, updateLastLocation]);
+
+  useEffect(() => {
+    if (!isEnabled || !location) return;
+    if (Date.now() - lastSentAt.current < SYNC_INTERVAL_MS) return;
+
+    lastSentAt.current = Date.now();
+    updateLastLocation(location).catch((error) =>
+      console.error("Failed to update last location:", error),
+    );
+  }, [isEnabled, location, updateLastLocation]);
+}
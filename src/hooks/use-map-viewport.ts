@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+
+export interface MapBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface MapViewport {
+  bounds: MapBounds;
+  zoom: number;
+}
+
+// Round so tiny pans don't produce a new query subscription each time
+function roundCoordinate(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Current viewport of a Google Map, updated when the map goes idle
+ */
+export function useMapViewport(map: google.maps.Map | null) {
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+
+  useEffect(() => {
+    if (!map) return;
+
+    const update = () => {
+      const bounds = map.getBounds();
+      const zoom = map.getZoom();
+      if (!bounds || zoom === undefined) return;
+
+      const ne = bounds.getNorthEast();
+      const sw = bounds.getSouthWest();
+      setViewport({
+        bounds: {
+          minLat: roundCoordinate(sw.lat()),
+          maxLat: roundCoordinate(ne.lat()),
+          minLng: roundCoordinate(sw.lng()),
+          maxLng: roundCoordinate(ne.lng()),
+        },
+        zoom,
+      });
+    };
+
+    update();
+    const listener = map.addListener("idle", update);
+    return () => listener.remove();
+  }, [map]);
+
+  return viewport;
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+import { useMutation } from "convex/react";
+import {
+  getFunctionName,
+  type FunctionReference,
+  type OptionalRestArgs,
+} from "convex/server";
+import {
+  countQueuedMutations,
+  enqueueMutation,
+  subscribeToMutationQueue,
+} from "@/lib/mutation-queue.ts";
+
+export type OfflineMutationResult<Mutation extends FunctionReference<"mutation">> =
+  | { queued: true }
+  | { queued: false; result: Mutation["_returnType"] };
+
+/**
+ * useMutation that saves the write for later instead of sending it while
+ * the device is offline. `label` names the change in sync notifications.
+ */
+export function useOfflineMutation<
+  Mutation extends FunctionReference<"mutation">,
+>(mutation: Mutation, label: string) {
+  const run = useMutation(mutation);
+
+  return useCallback(
+    async (args: Mutation["_args"]): Promise<OfflineMutationResult<Mutation>> => {
+      if (!navigator.onLine) {
+        await enqueueMutation(getFunctionName(mutation), args, label);
+        return { queued: true };
+      }
+      const result = await run(...([args] as OptionalRestArgs<Mutation>));
+      return { queued: false, result };
+    },
+    [mutation, label, run],
+  );
+}
+
+/**
+ * Number of offline writes waiting to be sent
+ */
+export function usePendingMutationCount() {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    const load = () => {
+      countQueuedMutations()
+        .then(setCount)
+        .catch((error) =>
+          console.error("Failed to count queued changes:", error),
+        );
+    };
+    load();
+    return subscribeToMutationQueue(load);
+  }, []);
+
+  return count;
+}
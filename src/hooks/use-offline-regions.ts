@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import {
+  listOfflineRegions,
+  loadOfflineRegionData,
+  subscribeToOfflineRegions,
+  type OfflineRegion,
+  type OfflineRegionData,
+} from "@/lib/offline-regions.ts";
+
+/**
+ * Downloaded offline regions, refreshed whenever one is added or removed
+ */
+export function useOfflineRegions() {
+  const [regions, setRegions] = useState<OfflineRegion[] | undefined>(
+    undefined,
+  );
+
+  useEffect(() => {
+    const load = () => {
+      listOfflineRegions()
+        .then(setRegions)
+        .catch((error) => {
+          console.error("Failed to load offline regions:", error);
+          setRegions([]);
+        });
+    };
+    load();
+    return subscribeToOfflineRegions(load);
+  }, []);
+
+  return regions;
+}
+
+/**
+ * Map data saved with all downloaded regions
+ */
+export function useOfflineRegionData() {
+  const [data, setData] = useState<OfflineRegionData | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      loadOfflineRegionData()
+        .then(setData)
+        .catch((error) =>
+          console.error("Failed to load offline region data:", error),
+        );
+    };
+    load();
+    return subscribeToOfflineRegions(load);
+  }, []);
+
+  return data;
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import {
+  getPushSubscription,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from "@/lib/push.ts";
+
+/**
+ * Bind an existing browser subscription to whoever is signed in now: it may
+ * belong to a different member who used this browser before, or have been
+ * rotated by the browser. Mounted by the signed-in app shell.
+ */
+export function usePushSubscriptionSync() {
+  const saveSubscription = useMutation(api.push.subscribe);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    getPushSubscription()
+      .then(async (subscription) => {
+        if (subscription) {
+          await saveSubscription({
+            ...subscription,
+            userAgent: navigator.userAgent,
+          });
+        }
+      })
+      .catch((error) =>
+        console.error("Failed to sync push subscription:", error),
+      );
+  }, [saveSubscription]);
+}
+
+/**
+ * Push notification state for this device, with enable/disable that keep
+ * the browser subscription and the server copy in step
+ */
+export function usePushNotifications() {
+  const publicKey = useQuery(api.push.getPublicKey);
+  const saveSubscription = useMutation(api.push.subscribe);
+  const removeSubscription = useMutation(api.push.unsubscribe);
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission>(() =>
+    isPushSupported() ? Notification.permission : "denied",
+  );
+
+  const isSupported = isPushSupported() && !!publicKey;
+
+  // The subscription itself is kept bound by usePushSubscriptionSync
+  useEffect(() => {
+    if (!isSupported) return;
+    getPushSubscription()
+      .then((subscription) => setIsSubscribed(subscription !== null))
+      .catch((error) =>
+        console.error("Failed to read push subscription:", error),
+      );
+  }, [isSupported]);
+
+  const enable = useCallback(async () => {
+    if (!publicKey) return false;
+    setIsBusy(true);
+    try {
+      const subscription = await subscribeToPush(publicKey);
+      setPermission(Notification.permission);
+      if (!subscription) return false;
+      await saveSubscription({
+        ...subscription,
+        userAgent: navigator.userAgent,
+      });
+      setIsSubscribed(true);
+      return true;
+    } finally {
+      setIsBusy(false);
+    }
+  }, [publicKey, saveSubscription]);
+
+  const disable = useCallback(async () => {
+    setIsBusy(true);
+    try {
+      const endpoint = await unsubscribeFromPush();
+      if (endpoint) {
+        await removeSubscription({ endpoint });
+      }
+      setIsSubscribed(false);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [removeSubscription]);
+
+  return { isSupported, isSubscribed, isBusy, permission, enable, disable };
+}
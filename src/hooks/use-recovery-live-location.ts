@@ -0,0 +1,52 @@
+import { useEffect, useRef } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+
+// Frequent enough to follow someone walking a blood trail
+const MIN_UPDATE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Shares this device's location on a recovery request while `enabled`,
+ * and stops sharing when turned off or unmounted
+ */
+export function useRecoveryLiveLocation(
+  requestId: Id<"deerRecoveryRequests"> | Id<"vehicleRecoveryRequests">,
+  enabled: boolean,
+) {
+  const updateLiveLocation = useMutation(
+    api.recoveryResponders.updateLiveLocation,
+  );
+  const stopSharing = useMutation(
+    api.recoveryResponders.stopSharingLiveLocation,
+  );
+  const lastSentAt = useRef(0);
+
+  useEffect(() => {
+    if (!enabled || !("geolocation" in navigator)) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        if (Date.now() - lastSentAt.current < MIN_UPDATE_INTERVAL_MS) return;
+        lastSentAt.current = Date.now();
+        updateLiveLocation({
+          requestId,
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        }).catch((error) =>
+          console.error("Failed to share live location:", error),
+        );
+      },
+      (error) => console.error("Geolocation error:", error),
+      { enableHighAccuracy: true },
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      lastSentAt.current = 0;
+      stopSharing({ requestId }).catch((error) =>
+        console.error("Failed to stop sharing live location:", error),
+      );
+    };
+  }, [enabled, requestId, updateLiveLocation, stopSharing]);
+}
@@ -0,0 +1,17 @@
+import type { Doc } from "@/convex/_generated/dataModel.d.ts";
+
+type Boundaries = Doc<"properties">["boundaries"];
+
+/**
+ * Google Maps polygon paths for a GeoJSON Polygon or MultiPolygon. Every ring
+ * becomes a path; holes render as holes because of their opposite winding.
+ */
+export function boundariesToPaths(boundaries: Boundaries) {
+  const polygons =
+    boundaries.type === "Polygon"
+      ? [boundaries.coordinates]
+      : boundaries.coordinates;
+  return polygons.flatMap((rings) =>
+    rings.map((ring) => ring.map(([lng, lat]) => ({ lat, lng }))),
+  );
+}
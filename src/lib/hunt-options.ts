@@ -0,0 +1,89 @@
+import { format } from "date-fns";
+import type { Doc } from "@/convex/_generated/dataModel.d.ts";
+
+// Choices and form helpers shared by the hunt forms
+
+export const SPECIES_OPTIONS = [
+  "Deer",
+  "Turkey",
+  "Elk",
+  "Duck",
+  "Goose",
+  "Rabbit",
+  "Squirrel",
+  "Bear",
+  "Hog",
+  "Other",
+];
+
+export const METHOD_OPTIONS = [
+  "Rifle",
+  "Bow",
+  "Shotgun",
+  "Muzzleloader",
+  "Other",
+];
+
+export const SEX_OPTIONS = ["Male", "Female", "Unknown"];
+
+export const AGE_OPTIONS = ["Juvenile", "Adult", "Mature"];
+
+// Options for a select, keeping a saved value that isn't one of them
+export function withCurrentOption(options: string[], current?: string) {
+  return current && !options.includes(current)
+    ? [...options, current]
+    : options;
+}
+
+// Timestamps to and from a datetime-local input, in local time
+export function toDateTimeInput(timestamp: number) {
+  return format(timestamp, "yyyy-MM-dd'T'HH:mm");
+}
+
+export function fromDateTimeInput(value: string) {
+  return new Date(value).getTime();
+}
+
+// A number input's value, or undefined when it was left blank
+export function toOptionalNumber(value: string) {
+  return value.trim() === "" ? undefined : Number(value);
+}
+
+type HarvestEntry = NonNullable<Doc<"hunts">["harvestDetails"]>[number];
+
+// A harvest entry as typed into the form; numbers stay strings until saved
+export interface HarvestDraft {
+  species: string;
+  sex: string;
+  age: string;
+  weight: string;
+  points: string;
+  time: string;
+  notes: string;
+  photos?: HarvestEntry["photos"];
+}
+
+export function toHarvestDraft(entry: HarvestEntry): HarvestDraft {
+  return {
+    species: entry.species,
+    sex: entry.sex ?? "",
+    age: entry.age ?? "",
+    weight: entry.weight?.toString() ?? "",
+    points: entry.points?.toString() ?? "",
+    time: toDateTimeInput(entry.time),
+    notes: entry.notes ?? "",
+    photos: entry.photos,
+  };
+}
+
+export function fromHarvestDraft(entry: HarvestDraft) {
+  return {
+    species: entry.species,
+    sex: entry.sex || undefined,
+    age: entry.age || undefined,
+    weight: toOptionalNumber(entry.weight),
+    points: toOptionalNumber(entry.points),
+    time: fromDateTimeInput(entry.time),
+    notes: entry.notes,
+  };
+}
@@ -0,0 +1,126 @@
+// Minimal promise wrapper around IndexedDB for data that must survive
+// reloads while the device is offline.
+
+const DB_NAME = "camo-ammo-offline";
+const DB_VERSION = 3;
+
+export const STORES = {
+  trackPoints: "trackPoints",
+  offlineRegions: "offlineRegions",
+  offlineRegionData: "offlineRegionData",
+  queryCache: "queryCache",
+  pendingMutations: "pendingMutations",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isIndexedDbAvailable() {
+  return typeof indexedDB !== "undefined";
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.trackPoints)) {
+        const store = db.createObjectStore(STORES.trackPoints, {
+          keyPath: "id",
+          autoIncrement: true,
+        });
+        store.createIndex("trackId", "trackId");
+      }
+      if (!db.objectStoreNames.contains(STORES.offlineRegions)) {
+        db.createObjectStore(STORES.offlineRegions, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.offlineRegionData)) {
+        db.createObjectStore(STORES.offlineRegionData, { keyPath: "regionId" });
+      }
+      if (!db.objectStoreNames.contains(STORES.queryCache)) {
+        db.createObjectStore(STORES.queryCache, { keyPath: "key" });
+      }
+      if (!db.objectStoreNames.contains(STORES.pendingMutations)) {
+        db.createObjectStore(STORES.pendingMutations, {
+          keyPath: "id",
+          autoIncrement: true,
+        });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function addRecord<T>(store: StoreName, value: T) {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readwrite");
+  return (await requestToPromise(tx.objectStore(store).add(value))) as number;
+}
+
+export async function putRecord<T>(store: StoreName, value: T) {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readwrite");
+  return await requestToPromise(tx.objectStore(store).put(value));
+}
+
+export async function getRecord<T>(
+  store: StoreName,
+  key: IDBValidKey,
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readonly");
+  return (await requestToPromise(tx.objectStore(store).get(key))) as
+    | T
+    | undefined;
+}
+
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readonly");
+  return (await requestToPromise(tx.objectStore(store).getAll())) as T[];
+}
+
+export async function countRecords(store: StoreName): Promise<number> {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readonly");
+  return await requestToPromise(tx.objectStore(store).count());
+}
+
+export async function deleteRecords(store: StoreName, keys: IDBValidKey[]) {
+  if (keys.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readwrite");
+  const objectStore = tx.objectStore(store);
+  for (const key of keys) {
+    objectStore.delete(key);
+  }
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function clearStore(store: StoreName) {
+  const db = await openDatabase();
+  const tx = db.transaction(store, "readwrite");
+  await requestToPromise(tx.objectStore(store).clear());
+}
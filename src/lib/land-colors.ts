@@ -0,0 +1,22 @@
+// Polygon colors for land layers; these match the legend in LayerControl
+
+const PROPERTY_COLORS: Record<string, string> = {
+  public: "#22c55e",
+  private: "#ef4444",
+  state: "#3b82f6",
+  federal: "#a855f7",
+};
+
+const HUNTING_UNIT_COLORS: Record<string, string> = {
+  WMA: "#10b981",
+  "State Park": "#14b8a6",
+  "National Forest": "#047857",
+};
+
+export function getPropertyColor(propertyType: string) {
+  return PROPERTY_COLORS[propertyType] ?? "#6b7280";
+}
+
+export function getHuntingUnitColor(type: string) {
+  return HUNTING_UNIT_COLORS[type] ?? "#059669";
+}
@@ -0,0 +1,65 @@
+import type { FunctionReturnType } from "convex/server";
+import type { api } from "@/convex/_generated/api.js";
+
+export type LandAtLocation = FunctionReturnType<
+  typeof api.landStatus.getLandAtLocation
+>;
+
+export type LandVerdictTone = "allowed" | "caution" | "prohibited" | "unknown";
+
+export interface LandVerdict {
+  tone: LandVerdictTone;
+  label: string;
+  detail?: string;
+}
+
+const PUBLIC_PROPERTY_TYPES = ["public", "state", "federal"];
+
+/**
+ * Plain-language answer to "can I hunt here?" for a land lookup result
+ */
+export function getLandVerdict(land: LandAtLocation): LandVerdict {
+  const { property, huntingUnit } = land;
+
+  if (huntingUnit) {
+    if (!huntingUnit.allowsHunting) {
+      return {
+        tone: "prohibited",
+        label: `No hunting in ${huntingUnit.name}`,
+        detail: huntingUnit.regulations,
+      };
+    }
+    return {
+      tone: huntingUnit.permitRequired ? "caution" : "allowed",
+      label: huntingUnit.permitRequired
+        ? `${huntingUnit.name} (permit required)`
+        : `Huntable: ${huntingUnit.name}`,
+      detail: huntingUnit.seasonDates,
+    };
+  }
+
+  if (property) {
+    if (PUBLIC_PROPERTY_TYPES.includes(property.propertyType)) {
+      return {
+        tone: "allowed",
+        label: `Public land (${property.propertyType})`,
+        detail: "Check local regulations before hunting",
+      };
+    }
+    return {
+      tone: "caution",
+      label: `Private land: ${property.ownerName}`,
+      detail: "Hunting requires the landowner's permission",
+    };
+  }
+
+  return {
+    tone: "unknown",
+    label: "No parcel or hunting unit on file here",
+  };
+}
+
+// Stable identity of the land at a location, for detecting boundary crossings
+export function getLandKey(land: LandAtLocation) {
+  return `${land.property?._id ?? "none"}|${land.huntingUnit?._id ?? "none"}`;
+}
@@ -0,0 +1,120 @@
+import { ConvexError } from "convex/values";
+import {
+  STORES,
+  addRecord,
+  clearStore,
+  countRecords,
+  deleteRecords,
+  getAllRecords,
+  isIndexedDbAvailable,
+} from "@/lib/idb.ts";
+
+// Writes made while offline, persisted so they survive a reload and replayed
+// in order once the connection is back.
+
+export interface QueuedMutation {
+  id?: number;
+  name: string;
+  args: Record<string, unknown>;
+  label: string;
+  createdAt: number;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  dropped: { label: string; message: string }[];
+}
+
+// Errors the server raises on purpose won't change on retry, except auth,
+// which can fail briefly while the session is restored after reconnecting
+function isPermanentError(error: unknown): error is ConvexError<{
+  message?: string;
+  code?: string;
+}> {
+  if (!(error instanceof ConvexError)) return false;
+  const code = (error.data as { code?: string } | undefined)?.code;
+  return code !== "UNAUTHENTICATED";
+}
+
+const listeners = new Set<() => void>();
+
+export function subscribeToMutationQueue(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+export async function enqueueMutation(
+  name: string,
+  args: Record<string, unknown>,
+  label: string,
+) {
+  if (!isIndexedDbAvailable()) {
+    throw new Error("Offline changes can't be saved on this device");
+  }
+  await addRecord<QueuedMutation>(STORES.pendingMutations, {
+    name,
+    args,
+    label,
+    createdAt: Date.now(),
+  });
+  notifyListeners();
+}
+
+export async function countQueuedMutations() {
+  if (!isIndexedDbAvailable()) return 0;
+  return await countRecords(STORES.pendingMutations);
+}
+
+let replaying: Promise<ReplayResult> | null = null;
+
+/**
+ * Send queued writes oldest first. Stops at the first network failure so
+ * later writes never overtake earlier ones; writes the server rejects are
+ * dropped and reported.
+ */
+export function replayQueuedMutations(
+  run: (name: string, args: Record<string, unknown>) => Promise<unknown>,
+): Promise<ReplayResult> {
+  // Online events and the manager's mount can both trigger a replay
+  if (replaying) return replaying;
+
+  replaying = (async () => {
+    const result: ReplayResult = { replayed: 0, dropped: [] };
+    if (!isIndexedDbAvailable()) return result;
+
+    const queued = await getAllRecords<QueuedMutation>(STORES.pendingMutations);
+    queued.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+
+    for (const mutation of queued) {
+      try {
+        await run(mutation.name, mutation.args);
+        result.replayed++;
+      } catch (error) {
+        if (!isPermanentError(error)) break;
+        result.dropped.push({
+          label: mutation.label,
+          message: error.data?.message ?? "Rejected by the server",
+        });
+      }
+      await deleteRecords(STORES.pendingMutations, [mutation.id!]);
+      notifyListeners();
+    }
+    return result;
+  })().finally(() => {
+    replaying = null;
+  });
+
+  return replaying;
+}
+
+export async function clearMutationQueue() {
+  if (!isIndexedDbAvailable()) return;
+  await clearStore(STORES.pendingMutations);
+  notifyListeners();
+}
@@ -0,0 +1,58 @@
+import type { LucideIcon } from "lucide-react";
+import {
+  AlertCircle,
+  AlertTriangle,
+  Bell,
+  Binoculars,
+  Footprints,
+  HandHelping,
+  Handshake,
+  Heart,
+  LandPlot,
+  MapPin,
+  ShieldCheck,
+  Siren,
+  ThumbsUp,
+  Timer,
+  Truck,
+  Unlock,
+  UserPlus,
+} from "lucide-react";
+import type { NotificationKind } from "@/convex/_notificationKinds.ts";
+
+// How each notification kind looks in the bell. The kinds themselves are
+// defined in convex/_notificationKinds.ts; unknown kinds get the fallback.
+
+export interface NotificationKindStyle {
+  icon: LucideIcon;
+  className: string;
+}
+
+const NOTIFICATION_STYLES: Record<NotificationKind, NotificationKindStyle> = {
+  post_approved: { icon: ThumbsUp, className: "text-green-500" },
+  post_rejected: { icon: AlertCircle, className: "text-destructive" },
+  forum_warning: { icon: AlertTriangle, className: "text-orange-500" },
+  forum_ban_removed: { icon: Unlock, className: "text-green-500" },
+  forum_ban_expired: { icon: Unlock, className: "text-green-500" },
+  vehicle_recovery_followup: { icon: Truck, className: "text-blue-500" },
+  deer_recovery_followup: { icon: Footprints, className: "text-amber-600" },
+  nearby_recovery_request: { icon: MapPin, className: "text-amber-600" },
+  recovery_help_offered: { icon: HandHelping, className: "text-blue-500" },
+  recovery_offer_accepted: { icon: Handshake, className: "text-green-500" },
+  recovery_thank_you: { icon: Heart, className: "text-rose-500" },
+  emergency_alert: { icon: Siren, className: "text-red-600" },
+  emergency_alert_resolved: { icon: ShieldCheck, className: "text-green-600" },
+  check_in_reminder: { icon: Timer, className: "text-orange-500" },
+  friend_request: { icon: UserPlus, className: "text-blue-500" },
+  trip_invite: { icon: Binoculars, className: "text-primary" },
+  lease_inquiry_reply: { icon: LandPlot, className: "text-green-600" },
+};
+
+const FALLBACK_STYLE: NotificationKindStyle = {
+  icon: Bell,
+  className: "text-muted-foreground",
+};
+
+export function getNotificationStyle(kind: string): NotificationKindStyle {
+  return NOTIFICATION_STYLES[kind as NotificationKind] ?? FALLBACK_STYLE;
+}
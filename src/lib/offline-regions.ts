@@ -0,0 +1,208 @@
+import type { FunctionReturnType } from "convex/server";
+import type { api } from "@/convex/_generated/api.js";
+import {
+  STORES,
+  clearStore,
+  deleteRecords,
+  getAllRecords,
+  isIndexedDbAvailable,
+  putRecord,
+} from "@/lib/idb.ts";
+import {
+  tileUrlsForRegion,
+  type OfflineBasemapId,
+  type TileBounds,
+} from "@/lib/offline-tiles.ts";
+import {
+  deleteCachedTiles,
+  precacheTiles,
+  type PrecacheProgress,
+} from "@/lib/service-worker.ts";
+
+// Downloaded map regions: tiles live in the service worker's cache, region
+// metadata and the map data snapshot live in IndexedDB.
+
+export type OfflineRegionData = FunctionReturnType<
+  typeof api.offlineRegions.getRegionData
+>;
+
+export interface OfflineRegion {
+  id: string;
+  name: string;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+  basemap: OfflineBasemapId;
+  status: "downloading" | "complete" | "incomplete";
+  tileCount: number;
+  failedTiles: number;
+  tileBytes: number;
+  dataBytes: number;
+  createdAt: number;
+}
+
+interface StoredRegionData {
+  regionId: string;
+  data: OfflineRegionData;
+}
+
+export interface DownloadRegionOptions {
+  name: string;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+  basemap: OfflineBasemapId;
+}
+
+const listeners = new Set<() => void>();
+
+export function subscribeToOfflineRegions(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+export async function listOfflineRegions(): Promise<OfflineRegion[]> {
+  if (!isIndexedDbAvailable()) return [];
+  const regions = await getAllRecords<OfflineRegion>(STORES.offlineRegions);
+  return regions.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Download a region's tiles and map data. The region record is saved first
+ * so an interrupted download still shows up (and can be deleted).
+ */
+export async function downloadOfflineRegion(
+  options: DownloadRegionOptions,
+  fetchData: (bounds: TileBounds) => Promise<OfflineRegionData>,
+  onProgress?: (progress: PrecacheProgress) => void,
+): Promise<OfflineRegion> {
+  const urls = tileUrlsForRegion(
+    options.basemap,
+    options.bounds,
+    options.minZoom,
+    options.maxZoom,
+  );
+  const region: OfflineRegion = {
+    id: crypto.randomUUID(),
+    ...options,
+    status: "downloading",
+    tileCount: urls.length,
+    failedTiles: 0,
+    tileBytes: 0,
+    dataBytes: 0,
+    createdAt: Date.now(),
+  };
+  await putRecord(STORES.offlineRegions, region);
+  notifyListeners();
+
+  try {
+    const data = await fetchData(options.bounds);
+    await putRecord<StoredRegionData>(STORES.offlineRegionData, {
+      regionId: region.id,
+      data,
+    });
+    region.dataBytes = new Blob([JSON.stringify(data)]).size;
+
+    const result = await precacheTiles(region.id, urls, onProgress);
+    region.tileBytes = result.bytes;
+    region.failedTiles = result.failed + (result.total - result.done);
+    region.status = region.failedTiles === 0 ? "complete" : "incomplete";
+  } catch (error) {
+    region.status = "incomplete";
+    throw error;
+  } finally {
+    await putRecord(STORES.offlineRegions, region);
+    notifyListeners();
+  }
+
+  return region;
+}
+
+/**
+ * Remove a region, keeping any tiles that another region still covers
+ */
+export async function deleteOfflineRegion(region: OfflineRegion) {
+  const others = (await listOfflineRegions()).filter(
+    (other) => other.id !== region.id,
+  );
+  const keep = new Set(
+    others.flatMap((other) =>
+      tileUrlsForRegion(other.basemap, other.bounds, other.minZoom, other.maxZoom),
+    ),
+  );
+  const urls = tileUrlsForRegion(
+    region.basemap,
+    region.bounds,
+    region.minZoom,
+    region.maxZoom,
+  ).filter((url) => !keep.has(url));
+
+  await deleteCachedTiles(urls);
+  await deleteRecords(STORES.offlineRegionData, [region.id]);
+  await deleteRecords(STORES.offlineRegions, [region.id]);
+  notifyListeners();
+}
+
+/**
+ * Remove every region with its tiles and map data, e.g. on sign-out: the
+ * data includes the user's private waypoints and tracks
+ */
+export async function clearOfflineRegions() {
+  if (!isIndexedDbAvailable()) return;
+  const regions = await listOfflineRegions();
+  await deleteCachedTiles(
+    regions.flatMap((region) =>
+      tileUrlsForRegion(
+        region.basemap,
+        region.bounds,
+        region.minZoom,
+        region.maxZoom,
+      ),
+    ),
+  );
+  await clearStore(STORES.offlineRegionData);
+  await clearStore(STORES.offlineRegions);
+  notifyListeners();
+}
+
+/**
+ * Map data from every downloaded region, with overlapping records merged
+ */
+export async function loadOfflineRegionData(): Promise<OfflineRegionData> {
+  const merged: OfflineRegionData = {
+    properties: [],
+    huntingUnits: [],
+    waypoints: [],
+    tracks: [],
+    fetchedAt: 0,
+  };
+  if (!isIndexedDbAvailable()) return merged;
+
+  const stored = await getAllRecords<StoredRegionData>(
+    STORES.offlineRegionData,
+  );
+  const seen = new Set<string>();
+  const addUnique = <T extends { _id: string }>(target: T[], items: T[]) => {
+    for (const item of items) {
+      if (!seen.has(item._id)) {
+        seen.add(item._id);
+        target.push(item);
+      }
+    }
+  };
+
+  for (const { data } of stored) {
+    addUnique(merged.properties, data.properties);
+    addUnique(merged.huntingUnits, data.huntingUnits);
+    addUnique(merged.waypoints, data.waypoints);
+    addUnique(merged.tracks, data.tracks);
+    merged.fetchedAt = Math.max(merged.fetchedAt, data.fetchedAt);
+  }
+  return merged;
+}
@@ -0,0 +1,62 @@
+import { clearQueryCache } from "@/lib/query-cache.ts";
+import { clearMutationQueue } from "@/lib/mutation-queue.ts";
+import { clearOfflineRegions } from "@/lib/offline-regions.ts";
+import { clearQueuedTrackPoints } from "@/lib/track-point-queue.ts";
+
+// Remembers who signed in on this device, so the app can open to their
+// cached screens when it starts without a connection.
+
+const SESSION_KEY = "offline_session_user";
+
+const listeners = new Set<() => void>();
+
+export function subscribeToOfflineSession(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+export function getOfflineSessionUser() {
+  return localStorage.getItem(SESSION_KEY);
+}
+
+export function hasOfflineSession() {
+  return getOfflineSessionUser() !== null;
+}
+
+// Everything kept on the device for the signed-in user: cached query
+// results, unsent changes, downloaded regions with their private waypoints
+// and tracks, and unsent track points
+async function clearOfflineData() {
+  await Promise.all([
+    clearQueryCache(),
+    clearMutationQueue(),
+    clearOfflineRegions(),
+    clearQueuedTrackPoints(),
+  ]);
+}
+
+export async function rememberOfflineSession(userId: string) {
+  const previous = getOfflineSessionUser();
+  if (previous === userId) return;
+  // Someone else's data is still here if they never signed out
+  if (previous !== null) {
+    await clearOfflineData();
+  }
+  localStorage.setItem(SESSION_KEY, userId);
+  notifyListeners();
+}
+
+/**
+ * Forget the signed-in user's cached data and unsent changes
+ */
+export async function clearOfflineSession() {
+  localStorage.removeItem(SESSION_KEY);
+  notifyListeners();
+  await clearOfflineData();
+}
@@ -0,0 +1,134 @@
+// Basemaps that can be downloaded for offline use. Google's tiles can't be
+// precached, so offline regions use the public-domain USGS National Map
+// services, which the map shows as extra map types.
+
+export type OfflineBasemapId = "usgsTopo" | "usgsImagery";
+
+export interface OfflineBasemap {
+  id: OfflineBasemapId;
+  label: string;
+  urlTemplate: string;
+  maxZoom: number;
+  // Rough average for size estimates before a download starts
+  averageTileBytes: number;
+}
+
+export const OFFLINE_BASEMAPS: Record<OfflineBasemapId, OfflineBasemap> = {
+  usgsTopo: {
+    id: "usgsTopo",
+    label: "USGS Topo",
+    urlTemplate:
+      "https://basemap.nationalmap.gov/arcgis/rest/services/USGSTopo/MapServer/tile/{z}/{y}/{x}",
+    maxZoom: 16,
+    averageTileBytes: 20_000,
+  },
+  usgsImagery: {
+    id: "usgsImagery",
+    label: "USGS Imagery",
+    urlTemplate:
+      "https://basemap.nationalmap.gov/arcgis/rest/services/USGSImageryTopo/MapServer/tile/{z}/{y}/{x}",
+    maxZoom: 16,
+    averageTileBytes: 40_000,
+  },
+};
+
+// Keeps a single download to a few hundred MB at most
+export const MAX_TILES_PER_REGION = 20_000;
+
+export interface TileBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// Web Mercator stops short of the poles
+const MAX_MERCATOR_LAT = 85.05112878;
+
+function lngToTileX(lng: number, zoom: number) {
+  const n = 2 ** zoom;
+  return Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+}
+
+function latToTileY(lat: number, zoom: number) {
+  const n = 2 ** zoom;
+  const clamped = Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat));
+  const rad = (clamped * Math.PI) / 180;
+  const y = ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * n;
+  return Math.min(n - 1, Math.max(0, Math.floor(y)));
+}
+
+function tileRange(bounds: TileBounds, zoom: number) {
+  return {
+    minX: lngToTileX(bounds.minLng, zoom),
+    maxX: lngToTileX(bounds.maxLng, zoom),
+    // Tile y grows southward
+    minY: latToTileY(bounds.maxLat, zoom),
+    maxY: latToTileY(bounds.minLat, zoom),
+  };
+}
+
+export function getTileUrl(
+  basemap: OfflineBasemapId,
+  x: number,
+  y: number,
+  zoom: number,
+) {
+  return OFFLINE_BASEMAPS[basemap].urlTemplate
+    .replace("{z}", String(zoom))
+    .replace("{y}", String(y))
+    .replace("{x}", String(x));
+}
+
+export function countTilesForRegion(
+  bounds: TileBounds,
+  minZoom: number,
+  maxZoom: number,
+) {
+  let count = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const range = tileRange(bounds, zoom);
+    count += (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1);
+  }
+  return count;
+}
+
+export function estimateRegionBytes(
+  basemap: OfflineBasemapId,
+  bounds: TileBounds,
+  minZoom: number,
+  maxZoom: number,
+) {
+  return (
+    countTilesForRegion(bounds, minZoom, maxZoom) *
+    OFFLINE_BASEMAPS[basemap].averageTileBytes
+  );
+}
+
+/**
+ * Every tile URL covering a region, coarsest zoom first
+ */
+export function tileUrlsForRegion(
+  basemap: OfflineBasemapId,
+  bounds: TileBounds,
+  minZoom: number,
+  maxZoom: number,
+) {
+  const urls: string[] = [];
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const range = tileRange(bounds, zoom);
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        urls.push(getTileUrl(basemap, x, y, zoom));
+      }
+    }
+  }
+  return urls;
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
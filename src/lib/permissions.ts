@@ -0,0 +1,78 @@
+// Admin permissions as shown in the role editor, and which Manage sections
+// each one opens. Keys match PERMISSIONS in convex/_permissions.ts.
+
+export const PERMISSION_DESCRIPTIONS: Record<
+  string,
+  { name: string; description: string }
+> = {
+  view_users: {
+    name: "View Users",
+    description: "Can view the list of all users and their profiles",
+  },
+  edit_users: {
+    name: "Edit Users",
+    description: "Can edit user profiles and information",
+  },
+  delete_users: {
+    name: "Delete Users",
+    description: "Can permanently delete user accounts",
+  },
+  ban_users: {
+    name: "Ban Users",
+    description: "Can ban users from the platform",
+  },
+  manage_roles: {
+    name: "Manage Roles",
+    description: "Can assign and change user roles",
+  },
+  moderate_forums: {
+    name: "Moderate Forums",
+    description: "Can moderate forum posts and comments",
+  },
+  moderate_marketplace: {
+    name: "Moderate Marketplace",
+    description: "Can review and approve marketplace listings",
+  },
+  manage_support: {
+    name: "Manage Support",
+    description: "Can answer support tickets and manage recovery requests",
+  },
+  manage_subscriptions: {
+    name: "Manage Subscriptions",
+    description: "Can manage user subscriptions and billing",
+  },
+  view_analytics: {
+    name: "View Analytics",
+    description: "Can view platform analytics and reports",
+  },
+  view_audit_logs: {
+    name: "View Audit Logs",
+    description: "Can view member and admin activity logs",
+  },
+  import_land_data: {
+    name: "Import Land Data",
+    description: "Can import parcels and hunting units",
+  },
+};
+
+export const MANAGE_SECTION_PERMISSIONS = {
+  members: "view_users",
+  archived: "view_users",
+  bans: "ban_users",
+  subscriptions: "manage_subscriptions",
+  administrators: "view_users",
+  permissions: "manage_roles",
+  audit: "view_audit_logs",
+  land_import: "import_land_data",
+} as const;
+
+export type ManageSection = keyof typeof MANAGE_SECTION_PERMISSIONS;
+
+/**
+ * Whether the user can open at least one Manage section
+ */
+export function canOpenManage(permissions: string[] | undefined) {
+  return Object.values(MANAGE_SECTION_PERMISSIONS).some((permission) =>
+    permissions?.includes(permission),
+  );
+}
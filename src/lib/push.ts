@@ -0,0 +1,99 @@
+// Browser side of Web Push: permission, subscribing through the service
+// worker in public/sw.js, and the subscription fields the server stores.
+
+export interface PushSubscriptionFields {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export function isPushSupported() {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+// VAPID keys are URL-safe base64; PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64: string) {
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+  const raw = atob((base64 + padding).replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+function toFields(subscription: PushSubscription): PushSubscriptionFields {
+  const json = subscription.toJSON();
+  if (!json.endpoint || !json.keys?.p256dh || !json.keys?.auth) {
+    throw new Error("Push subscription is missing its keys");
+  }
+  return {
+    endpoint: json.endpoint,
+    p256dh: json.keys.p256dh,
+    auth: json.keys.auth,
+  };
+}
+
+export async function getPushSubscription(): Promise<PushSubscriptionFields | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription();
+  return subscription ? toFields(subscription) : null;
+}
+
+/**
+ * Ask for notification permission and subscribe this browser. Returns null
+ * if the user declines.
+ */
+export async function subscribeToPush(
+  publicKey: string,
+): Promise<PushSubscriptionFields | null> {
+  if (!isPushSupported()) {
+    throw new Error("Push notifications aren't supported in this browser");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return null;
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    }));
+  return toFields(subscription);
+}
+
+// Returns the endpoint that was removed, so the server copy can go too
+export async function unsubscribeFromPush(): Promise<string | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription();
+  if (!subscription) return null;
+  await subscription.unsubscribe();
+  return subscription.endpoint;
+}
+
+/**
+ * Drop this browser's subscription and the server copy, e.g. on sign-out,
+ * so whoever uses the device next doesn't get the previous member's pushes.
+ * Call while still signed in: the server only removes its own user's record.
+ */
+export async function releasePushSubscription(
+  removeFromServer: (endpoint: string) => Promise<unknown>,
+) {
+  if (!isPushSupported()) return;
+  // Not `ready`, which never settles when no service worker is registered
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+  try {
+    await removeFromServer(subscription.endpoint);
+  } catch (error) {
+    // The push service reports the endpoint gone once it's unsubscribed
+    console.error("Failed to remove push subscription from server:", error);
+  }
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,36 @@
+import {
+  STORES,
+  clearStore,
+  getRecord,
+  isIndexedDbAvailable,
+  putRecord,
+} from "@/lib/idb.ts";
+
+// Last known results of selected Convex queries, so read-only screens can
+// render from IndexedDB when the app starts without a connection.
+
+interface CachedQueryResult {
+  key: string;
+  value: unknown;
+  updatedAt: number;
+}
+
+export async function readCachedQuery<T>(key: string): Promise<T | undefined> {
+  if (!isIndexedDbAvailable()) return undefined;
+  const record = await getRecord<CachedQueryResult>(STORES.queryCache, key);
+  return record?.value as T | undefined;
+}
+
+export async function writeCachedQuery(key: string, value: unknown) {
+  if (!isIndexedDbAvailable()) return;
+  await putRecord<CachedQueryResult>(STORES.queryCache, {
+    key,
+    value,
+    updatedAt: Date.now(),
+  });
+}
+
+export async function clearQueryCache() {
+  if (!isIndexedDbAvailable()) return;
+  await clearStore(STORES.queryCache);
+}
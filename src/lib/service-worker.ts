@@ -0,0 +1,83 @@
+// Registration and messaging for public/sw.js
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+// Must match TILE_CACHE in public/sw.js
+export const TILE_CACHE = "offline-tiles-v1";
+
+export interface PrecacheProgress {
+  regionId: string;
+  done: number;
+  total: number;
+  bytes: number;
+  failed: number;
+  cancelled?: boolean;
+}
+
+export function isServiceWorkerSupported() {
+  return typeof navigator !== "undefined" && "serviceWorker" in navigator;
+}
+
+export function registerServiceWorker() {
+  if (!isServiceWorkerSupported()) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .catch((error) =>
+        console.error("Service worker registration failed:", error),
+      );
+  });
+}
+
+async function getActiveWorker() {
+  const registration = await navigator.serviceWorker.ready;
+  if (!registration.active) {
+    throw new Error("Service worker is not active");
+  }
+  return registration.active;
+}
+
+/**
+ * Ask the service worker to download and cache tiles for a region.
+ * Resolves once every tile has been attempted or the download is cancelled.
+ */
+export async function precacheTiles(
+  regionId: string,
+  urls: string[],
+  onProgress?: (progress: PrecacheProgress) => void,
+): Promise<PrecacheProgress> {
+  if (!isServiceWorkerSupported()) {
+    throw new Error("Offline downloads need service worker support");
+  }
+  const worker = await getActiveWorker();
+
+  return new Promise((resolve) => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message?.regionId !== regionId) return;
+
+      if (message.type === "PRECACHE_PROGRESS") {
+        onProgress?.(message);
+      } else if (message.type === "PRECACHE_DONE") {
+        navigator.serviceWorker.removeEventListener("message", handleMessage);
+        onProgress?.(message);
+        resolve(message);
+      }
+    };
+    navigator.serviceWorker.addEventListener("message", handleMessage);
+    worker.postMessage({ type: "PRECACHE_TILES", regionId, urls });
+  });
+}
+
+export async function cancelPrecache(regionId: string) {
+  if (!isServiceWorkerSupported()) return;
+  const worker = await getActiveWorker();
+  worker.postMessage({ type: "CANCEL_PRECACHE", regionId });
+}
+
+export async function deleteCachedTiles(urls: string[]) {
+  if (typeof caches === "undefined") return;
+  const cache = await caches.open(TILE_CACHE);
+  await Promise.all(urls.map((url) => cache.delete(url)));
+}
@@ -0,0 +1,30 @@
+// Display formatting for track statistics (stored in meters and seconds)
+
+export function formatDistance(meters: number) {
+  const miles = meters * 0.000621371;
+  return miles < 0.1
+    ? `${Math.round(meters * 3.28084)} ft`
+    : `${miles.toFixed(2)} mi`;
+}
+
+export function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  } else if (minutes > 0) {
+    return `${minutes}m ${secs}s`;
+  } else {
+    return `${secs}s`;
+  }
+}
+
+export function formatSpeed(metersPerSecond: number) {
+  return `${(metersPerSecond * 2.23694).toFixed(1)} mph`;
+}
+
+export function formatElevation(meters: number) {
+  return `${Math.round(meters * 3.28084)} ft`;
+}
@@ -0,0 +1,172 @@
+// Persistent queue of GPS fixes. Every fix is written here first and then
+// flushed to the server in batches, so points recorded without signal are
+// kept until connectivity returns.
+
+import { ConvexError } from "convex/values";
+import {
+  addRecord,
+  clearStore,
+  countRecords,
+  deleteRecords,
+  getAllRecords,
+  isIndexedDbAvailable,
+  STORES,
+} from "./idb.ts";
+
+export interface QueuedTrackPoint {
+  id?: number;
+  trackId: string;
+  lat: number;
+  lng: number;
+  timestamp: number;
+  altitude?: number;
+  accuracy?: number;
+}
+
+type TrackPoint = Omit<QueuedTrackPoint, "id" | "trackId">;
+
+export type SendTrackPoints = (
+  trackId: string,
+  points: TrackPoint[],
+) => Promise<unknown>;
+
+// Matches the server-side limit in tracks.addTrackPoints
+const BATCH_SIZE = 500;
+
+// Errors that will never succeed on retry (track deleted, stopped, not ours)
+const PERMANENT_ERROR_CODES = ["NOT_FOUND", "FORBIDDEN", "BAD_REQUEST"];
+
+// In-memory fallback for browsers without IndexedDB (e.g. private mode)
+let memoryQueue: QueuedTrackPoint[] = [];
+let nextMemoryId = 1;
+
+let flushInProgress: Promise<number> | null = null;
+
+export async function enqueueTrackPoint(point: QueuedTrackPoint) {
+  if (!isIndexedDbAvailable()) {
+    memoryQueue.push({ ...point, id: nextMemoryId++ });
+    return;
+  }
+
+  try {
+    await addRecord(STORES.trackPoints, point);
+  } catch (error) {
+    console.error("Failed to persist track point, keeping in memory:", error);
+    memoryQueue.push({ ...point, id: nextMemoryId++ });
+  }
+}
+
+async function getQueuedPoints(): Promise<QueuedTrackPoint[]> {
+  const stored = isIndexedDbAvailable()
+    ? await getAllRecords<QueuedTrackPoint>(STORES.trackPoints).catch(
+        () => [] as QueuedTrackPoint[],
+      )
+    : [];
+  return [...stored, ...memoryQueue];
+}
+
+async function removeQueuedPoints(points: QueuedTrackPoint[]) {
+  const memoryIds = new Set(
+    points.filter((p) => memoryQueue.includes(p)).map((p) => p.id),
+  );
+  memoryQueue = memoryQueue.filter((p) => !memoryIds.has(p.id));
+
+  const storedIds = points
+    .filter((p) => !memoryIds.has(p.id) && p.id !== undefined)
+    .map((p) => p.id!);
+  if (storedIds.length > 0) {
+    await deleteRecords(STORES.trackPoints, storedIds);
+  }
+}
+
+/**
+ * Points still waiting to be sent, for one track or all of them
+ */
+export async function countQueuedTrackPoints(
+  trackId?: string,
+): Promise<number> {
+  if (trackId !== undefined) {
+    const queued = await getQueuedPoints();
+    return queued.filter((p) => p.trackId === trackId).length;
+  }
+  const stored = isIndexedDbAvailable()
+    ? await countRecords(STORES.trackPoints).catch(() => 0)
+    : 0;
+  return stored + memoryQueue.length;
+}
+
+/**
+ * Drop every queued point, e.g. when the user signs out
+ */
+export async function clearQueuedTrackPoints() {
+  memoryQueue = [];
+  if (!isIndexedDbAvailable()) return;
+  await clearStore(STORES.trackPoints);
+}
+
+function isPermanentError(error: unknown) {
+  if (!(error instanceof ConvexError)) return false;
+  const code = (error.data as { code?: string } | undefined)?.code;
+  return code !== undefined && PERMANENT_ERROR_CODES.includes(code);
+}
+
+async function flush(send: SendTrackPoints): Promise<number> {
+  const queued = await getQueuedPoints();
+  if (queued.length === 0) return 0;
+
+  const byTrack = new Map<string, QueuedTrackPoint[]>();
+  for (const point of queued) {
+    const points = byTrack.get(point.trackId) ?? [];
+    points.push(point);
+    byTrack.set(point.trackId, points);
+  }
+
+  let sent = 0;
+  for (const [trackId, points] of byTrack) {
+    points.sort((a, b) => a.timestamp - b.timestamp);
+
+    for (let i = 0; i < points.length; i += BATCH_SIZE) {
+      const batch = points.slice(i, i + BATCH_SIZE);
+      try {
+        await send(
+          trackId,
+          batch.map(({ lat, lng, timestamp, altitude, accuracy }) => ({
+            lat,
+            lng,
+            timestamp,
+            altitude,
+            accuracy,
+          })),
+        );
+        sent += batch.length;
+      } catch (error) {
+        if (isPermanentError(error)) {
+          console.warn(
+            `Dropping ${points.length - i} queued points for track ${trackId}:`,
+            error,
+          );
+          await removeQueuedPoints(points.slice(i));
+          break;
+        }
+        // Network or server hiccup; keep the rest queued for next time
+        throw error;
+      }
+      await removeQueuedPoints(batch);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Send all queued points to the server. Concurrent calls share one flush.
+ * Returns the number of points delivered.
+ */
+export function flushTrackPoints(send: SendTrackPoints): Promise<number> {
+  if (!flushInProgress) {
+    flushInProgress = flush(send).finally(() => {
+      flushInProgress = null;
+    });
+  }
+  return flushInProgress;
+}
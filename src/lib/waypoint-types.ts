@@ -0,0 +1,23 @@
+// Waypoint types shared by the add dialog, the map markers and the legend
+
+export interface WaypointTypeInfo {
+  value: string;
+  label: string;
+  color: string;
+  glyph: string;
+}
+
+export const WAYPOINT_TYPES: WaypointTypeInfo[] = [
+  { value: "stand", label: "Tree Stand", color: "#ea580c", glyph: "S" },
+  { value: "blind", label: "Blind", color: "#65a30d", glyph: "B" },
+  { value: "camera", label: "Trail Camera", color: "#7c3aed", glyph: "C" },
+  { value: "marker", label: "Marker", color: "#dc2626", glyph: "M" },
+  { value: "parking", label: "Parking", color: "#2563eb", glyph: "P" },
+  { value: "camp", label: "Camp", color: "#a16207", glyph: "T" },
+];
+
+const FALLBACK_TYPE = WAYPOINT_TYPES.find((type) => type.value === "marker")!;
+
+export function getWaypointType(value: string): WaypointTypeInfo {
+  return WAYPOINT_TYPES.find((type) => type.value === value) ?? FALLBACK_TYPE;
+}
@@ -1,4 +1,7 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import { registerServiceWorker } from "./lib/service-worker.ts";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+registerServiceWorker();
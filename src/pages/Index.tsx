@@ -1,6 +1,7 @@
-import { Authenticated, Unauthenticated } from "convex/react";
+import { Unauthenticated } from "convex/react";
 import WelcomePage from "./_components/WelcomePage.tsx";
 import Dashboard from "./_components/Dashboard.tsx";
+import AuthenticatedOrOffline from "@/components/offline/AuthenticatedOrOffline.tsx";
 
 export default function Index() {
   return (
@@ -8,10 +9,10 @@ export default function Index() {
       <Unauthenticated>
         <WelcomePage />
       </Unauthenticated>
-      <Authenticated>
+      <AuthenticatedOrOffline>
         {/* <h1 className="text-2xl font-bold text-white">Dashboard</h1> */}
         <Dashboard />
-      </Authenticated>
+      </AuthenticatedOrOffline>
     </>
   );
 }
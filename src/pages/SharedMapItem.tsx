@@ -0,0 +1,165 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "convex/react";
+import {
+  GoogleMap,
+  Marker,
+  Polyline,
+  useLoadScript,
+} from "@react-google-maps/api";
+import { api } from "@/convex/_generated/api.js";
+import { Skeleton } from "@/components/ui/skeleton.tsx";
+import { Flag, Navigation, Route } from "lucide-react";
+import { Button } from "@/components/ui/button.tsx";
+import {
+  DEFAULT_MAP_OPTIONS,
+  GOOGLE_MAPS_API_KEY,
+  GOOGLE_MAPS_LIBRARIES,
+} from "@/lib/google-maps.ts";
+import { getWaypointType } from "@/lib/waypoint-types.ts";
+import {
+  formatDistance,
+  formatDuration,
+  formatElevation,
+} from "@/lib/track-format.ts";
+
+/**
+ * A track or waypoint opened from a share link. Works without signing in;
+ * the link itself is the key.
+ */
+export default function SharedMapItem() {
+  const { token = "" } = useParams();
+  const shared = useQuery(api.mapItemShares.getSharedItemByToken, {
+    linkToken: token,
+  });
+  const trackPath = useQuery(
+    api.tracks.getTrackPath,
+    shared?.itemType === "track"
+      ? { trackId: shared.track._id, linkToken: token }
+      : "skip",
+  );
+  const { isLoaded } = useLoadScript({
+    googleMapsApiKey: GOOGLE_MAPS_API_KEY,
+    libraries: GOOGLE_MAPS_LIBRARIES,
+  });
+
+  if (shared === undefined) {
+    return (
+      <div className="min-h-screen bg-background p-4 space-y-4">
+        <Skeleton className="h-24" />
+        <Skeleton className="h-[60vh]" />
+      </div>
+    );
+  }
+
+  if (shared === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="text-center space-y-2">
+          <h1 className="text-2xl font-semibold">Link Not Found</h1>
+          <p className="text-muted-foreground">
+            This share link is invalid or has been turned off.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const path = trackPath?.path ?? [];
+  const center =
+    shared.itemType === "waypoint"
+      ? { lat: shared.waypoint.lat, lng: shared.waypoint.lng }
+      : path[Math.floor(path.length / 2)];
+
+  const fitToPath = (map: google.maps.Map) => {
+    if (path.length < 2) return;
+    const bounds = new google.maps.LatLngBounds();
+    path.forEach((point) => bounds.extend(point));
+    map.fitBounds(bounds, 32);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header className="flex-none px-4 py-3 border-b">
+        <div className="flex items-center gap-2">
+          {shared.itemType === "waypoint" ? (
+            <Flag className="h-5 w-5 text-primary" />
+          ) : (
+            <Route className="h-5 w-5 text-primary" />
+          )}
+          <h1 className="text-lg font-bold">
+            {shared.itemType === "waypoint"
+              ? shared.waypoint.name
+              : shared.track.name}
+          </h1>
+        </div>
+        <p className="text-sm text-muted-foreground mt-1">
+          Shared by {shared.ownerName}
+        </p>
+      </header>
+
+      <div className="flex-none p-4 space-y-2 border-b text-sm">
+        {shared.itemType === "waypoint" ? (
+          <>
+            <p>{getWaypointType(shared.waypoint.type).label}</p>
+            {shared.waypoint.description && (
+              <p>{shared.waypoint.description}</p>
+            )}
+            <p className="text-muted-foreground">
+              {shared.waypoint.lat.toFixed(6)}, {shared.waypoint.lng.toFixed(6)}
+              {shared.waypoint.altitude !== undefined &&
+                ` · ${Math.round(shared.waypoint.altitude * 3.28084)} ft`}
+            </p>
+            <Button variant="outline" className="gap-2" asChild>
+              <a
+                href={`https://www.google.com/maps/dir/?api=1&destination=${shared.waypoint.lat},${shared.waypoint.lng}`}
+                target="_blank"
+                rel="noreferrer"
+              >
+                <Navigation className="h-4 w-4" />
+                Directions
+              </a>
+            </Button>
+          </>
+        ) : (
+          <>
+            {shared.track.description && <p>{shared.track.description}</p>}
+            <p className="text-muted-foreground">
+              {new Date(shared.track.startTime).toLocaleString()} ·{" "}
+              {formatDistance(shared.track.distance)} ·{" "}
+              {formatDuration(shared.track.duration)}
+              {shared.track.elevationGain !== undefined &&
+                ` · ${formatElevation(shared.track.elevationGain)} climb`}
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-[50vh]">
+        {isLoaded && center ? (
+          <GoogleMap
+            mapContainerClassName="h-full w-full min-h-[50vh]"
+            center={center}
+            zoom={15}
+            options={{ ...DEFAULT_MAP_OPTIONS, mapTypeId: "hybrid" }}
+            onLoad={fitToPath}
+          >
+            {shared.itemType === "waypoint" ? (
+              <Marker position={center} title={shared.waypoint.name} />
+            ) : (
+              <Polyline
+                path={path}
+                options={{
+                  strokeColor: "#f97316",
+                  strokeOpacity: 0.9,
+                  strokeWeight: 4,
+                }}
+              />
+            )}
+          </GoogleMap>
+        ) : (
+          <Skeleton className="h-full w-full min-h-[50vh]" />
+        )}
+      </div>
+    </div>
+  );
+}
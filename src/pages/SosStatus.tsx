@@ -0,0 +1,193 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "convex/react";
+import {
+  Circle,
+  GoogleMap,
+  Marker,
+  Polyline,
+  useLoadScript,
+} from "@react-google-maps/api";
+import { formatDistanceToNow } from "date-fns";
+import { api } from "@/convex/_generated/api.js";
+import { Badge } from "@/components/ui/badge.tsx";
+import { Button } from "@/components/ui/button.tsx";
+import { Skeleton } from "@/components/ui/skeleton.tsx";
+import { CheckCircle2, Navigation, Phone, Siren } from "lucide-react";
+import {
+  DEFAULT_MAP_OPTIONS,
+  GOOGLE_MAPS_API_KEY,
+  GOOGLE_MAPS_LIBRARIES,
+} from "@/lib/google-maps.ts";
+
+/**
+ * Live SOS status for responders, reached from the alert email or
+ * notification. Works without signing in; the link itself is the key.
+ */
+export default function SosStatus() {
+  const { token = "" } = useParams();
+  const alert = useQuery(api.emergencyAlerts.getAlertStatus, {
+    shareToken: token,
+  });
+  const { isLoaded } = useLoadScript({
+    googleMapsApiKey: GOOGLE_MAPS_API_KEY,
+    libraries: GOOGLE_MAPS_LIBRARIES,
+  });
+
+  if (alert === undefined) {
+    return (
+      <div className="min-h-screen bg-background p-4 space-y-4">
+        <Skeleton className="h-24" />
+        <Skeleton className="h-[60vh]" />
+      </div>
+    );
+  }
+
+  if (alert === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <div className="text-center space-y-2">
+          <h1 className="text-2xl font-semibold">Alert Not Found</h1>
+          <p className="text-muted-foreground">
+            This SOS link is invalid or has been removed.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const isActive = alert.status === "active";
+  const position = { lat: alert.lat, lng: alert.lng };
+  const directionsUrl = `https://www.google.com/maps/dir/?api=1&destination=${alert.lat},${alert.lng}`;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-background">
+      <header
+        className={`flex-none px-4 py-3 text-white ${
+          isActive ? "bg-red-600" : "bg-green-700"
+        }`}
+      >
+        <div className="flex items-center gap-2">
+          {isActive ? (
+            <Siren className="h-5 w-5 animate-pulse" />
+          ) : (
+            <CheckCircle2 className="h-5 w-5" />
+          )}
+          <h1 className="text-lg font-bold">
+            {!isActive
+              ? `${alert.senderName} is safe`
+              : alert.source === "overdue"
+                ? `${alert.senderName} is overdue`
+                : `${alert.senderName} needs help`}
+          </h1>
+          <Badge variant="secondary" className="ml-auto capitalize">
+            {alert.status}
+          </Badge>
+        </div>
+        <p className="text-sm opacity-90 mt-1">
+          {alert.source === "overdue" ? "Missed check-in" : "SOS sent"}{" "}
+          {formatDistanceToNow(alert.createdAt, { addSuffix: true })}
+          {alert.resolvedAt &&
+            ` · closed ${formatDistanceToNow(alert.resolvedAt, { addSuffix: true })}`}
+        </p>
+      </header>
+
+      <div className="flex-none p-4 space-y-3 border-b">
+        {alert.message && <p className="italic">&ldquo;{alert.message}&rdquo;</p>}
+        {alert.huntLocation && (
+          <p className="text-sm">
+            <span className="font-medium">Hunting at:</span>{" "}
+            {alert.huntLocation.name}
+          </p>
+        )}
+        {alert.resolutionNote && (
+          <p className="text-sm">
+            <span className="font-medium">Update:</span> {alert.resolutionNote}
+          </p>
+        )}
+        <div className="text-sm text-muted-foreground space-y-1">
+          <p>
+            Last known location: {alert.lat.toFixed(5)}, {alert.lng.toFixed(5)}
+            {alert.accuracy !== undefined &&
+              ` (±${Math.round(alert.accuracy)} m)`}
+          </p>
+          <p>
+            Updated{" "}
+            {formatDistanceToNow(alert.locationUpdatedAt, { addSuffix: true })}
+          </p>
+        </div>
+        {isActive && (
+          <div className="flex gap-2">
+            {alert.senderPhone && (
+              <Button variant="destructive" className="flex-1 gap-2" asChild>
+                <a href={`tel:${alert.senderPhone}`}>
+                  <Phone className="h-4 w-4" />
+                  Call {alert.senderName}
+                </a>
+              </Button>
+            )}
+            <Button variant="outline" className="flex-1 gap-2" asChild>
+              <a href={directionsUrl} target="_blank" rel="noreferrer">
+                <Navigation className="h-4 w-4" />
+                Directions
+              </a>
+            </Button>
+          </div>
+        )}
+        {isActive && (
+          <p className="text-xs text-muted-foreground">
+            If you can't reach them, call 911 and give the coordinates above.
+          </p>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-[50vh]">
+        {isLoaded ? (
+          <GoogleMap
+            mapContainerClassName="h-full w-full min-h-[50vh]"
+            center={position}
+            zoom={15}
+            options={{ ...DEFAULT_MAP_OPTIONS, mapTypeId: "hybrid" }}
+          >
+            {alert.breadcrumb.length > 1 && (
+              <Polyline
+                path={alert.breadcrumb}
+                options={{
+                  strokeColor: "#f97316",
+                  strokeOpacity: 0.9,
+                  strokeWeight: 4,
+                }}
+              />
+            )}
+            {alert.accuracy !== undefined && (
+              <Circle
+                center={position}
+                radius={alert.accuracy}
+                options={{
+                  strokeColor: "#dc2626",
+                  strokeOpacity: 0.5,
+                  strokeWeight: 1,
+                  fillColor: "#dc2626",
+                  fillOpacity: 0.1,
+                  clickable: false,
+                }}
+              />
+            )}
+            {alert.huntLocation && (
+              <Marker
+                position={{
+                  lat: alert.huntLocation.lat,
+                  lng: alert.huntLocation.lng,
+                }}
+                title={`Hunt: ${alert.huntLocation.name}`}
+                label={{ text: "H", color: "#ffffff", fontWeight: "bold" }}
+              />
+            )}
+            <Marker position={position} title={alert.senderName} />
+          </GoogleMap>
+        ) : (
+          <Skeleton className="h-full w-full min-h-[50vh]" />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,7 +15,8 @@ interface AdministratorsPageProps {
 export default function AdministratorsPage({ onBack }: AdministratorsPageProps) {
   const users = useQuery(api.roles.listUsers);
 
-  const admins = users?.filter((u) => u.role === "owner" || u.role === "admin") || [];
+  // Owners, admins and anyone holding a custom role
+  const admins = users?.filter((u) => u.role === "owner" || u.role === "admin" || u.roleId) || [];
 
   return (
     <div className="h-full overflow-y-auto bg-background">
@@ -27,7 +28,7 @@ export default function AdministratorsPage({ onBack }: AdministratorsPageProps)
           <div>
             <h1 className="text-lg font-bold">Administrators</h1>
             <p className="text-xs text-muted-foreground">
-              View all admins and owners
+              View owners, admins and custom role holders
             </p>
           </div>
         </div>
@@ -83,7 +84,7 @@ export default function AdministratorsPage({ onBack }: AdministratorsPageProps)
                             ) : (
                               <UserCog className="h-3 w-3" />
                             )}
-                            {(admin.role || "admin").toUpperCase()}
+                            {admin.roleName.toUpperCase()}
                           </span>
                         </Badge>
                       </div>
@@ -101,9 +101,11 @@ export default function AuditTrailPage({ onBack }: AuditTrailPageProps) {
               <SelectItem value="all">All Types</SelectItem>
               <SelectItem value="profile">Profile</SelectItem>
               <SelectItem value="user">User</SelectItem>
+              <SelectItem value="role">Role</SelectItem>
               <SelectItem value="hunt">Hunt</SelectItem>
               <SelectItem value="friend">Friend</SelectItem>
               <SelectItem value="scouting">Scouting</SelectItem>
+              <SelectItem value="land">Land Data</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -25,6 +25,7 @@ import ViewMemberProfilePage from "./ViewMemberProfilePage.tsx";
 import ArchivedMembersPage from "./ArchivedMembersPage.tsx";
 import PublicProfilePage from "./PublicProfilePage.tsx";
 import AuditTrailPage from "./AuditTrailPage.tsx";
+import LandDataImportPage from "./LandDataImportPage.tsx";
 import ForumModerationPage from "./ForumModerationPage.tsx";
 import OpenTicketsListPage from "./OpenTicketsListPage.tsx";
 import PendingPostsListPage from "./PendingPostsListPage.tsx";
@@ -43,15 +44,23 @@ import { Button } from "@/components/ui/button.tsx";
 import { AlertTriangle, Phone } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth.ts";
 import { useBiometricAuth } from "@/hooks/use-biometric-auth.ts";
-import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api.js";
+import { useCachedQuery } from "@/hooks/use-cached-query.ts";
+import { rememberOfflineSession } from "@/lib/offline-session.ts";
+import ConnectionStatusBar from "@/components/offline/ConnectionStatusBar.tsx";
+import ActiveAlertBanner from "@/components/emergency/ActiveAlertBanner.tsx";
+import { useLastLocationSync } from "@/hooks/use-last-location-sync.ts";
+import { usePushSubscriptionSync } from "@/hooks/use-push-notifications.ts";
+import SendSosButton from "@/components/emergency/SendSosButton.tsx";
 import { Skeleton } from "@/components/ui/skeleton.tsx";
+import { canOpenManage } from "@/lib/permissions.ts";
 
 export default function Dashboard() {
   const { user } = useAuth();
   const { isAvailable, isEnabled } = useBiometricAuth();
-  const userRole = useQuery(api.roles.getMyRole);
-  const profile = useQuery(api.profile.getMyProfile);
+  // Cached so the app can open to the last known state offline
+  const permissions = useCachedQuery(api.roles.getMyPermissions);
+  const profile = useCachedQuery(api.profile.getMyProfile);
   const [activeTab, setActiveTab] = useState("myhunt");
   const [showFullMap, setShowFullMap] = useState(false);
   const [showEmergencyDialog, setShowEmergencyDialog] = useState(false);
@@ -66,6 +75,7 @@ export default function Dashboard() {
     | "permissions"
     | "archived"
     | "audit"
+    | "land_import"
     | "view_profile"
   >("main");
   const [selectedUserId, setSelectedUserId] = useState<Id<"users"> | null>(
@@ -89,6 +99,20 @@ export default function Dashboard() {
     lng: number;
   } | null>(null);
 
+  useEffect(() => {
+    if (user?._id) {
+      rememberOfflineSession(user._id).catch((error) =>
+        console.error("Failed to remember offline session:", error),
+      );
+    }
+  }, [user?._id]);
+
+  // Nearby recovery request alerts match against this
+  useLastLocationSync(userLocation);
+
+  // This browser's push subscription follows whoever is signed in
+  usePushSubscriptionSync();
+
   // Show biometric prompt on first sign-in
   useEffect(() => {
     const hasShownPrompt = localStorage.getItem("biometric_prompt_shown");
@@ -143,12 +167,6 @@ export default function Dashboard() {
     setShowEmergencyDialog(true);
   };
 
-  const handleEmergencyCall = (service: string) => {
-    setShowEmergencyDialog(false);
-    toast.success(`Calling ${service}...`);
-    // In a real app, this would initiate a call or send an emergency alert
-  };
-
   const handleNavigateToMarketplace = () => {
     setActiveTab("marketplace");
     setShowLeaseReview(false);
@@ -235,7 +253,7 @@ export default function Dashboard() {
             onViewFullMap={handleViewFullMap}
             onStartTracking={handleStartTracking}
             onEmergency={handleEmergency}
-            userRole={userRole || undefined}
+            permissions={permissions}
             onNavigateToForumModeration={handleNavigateToForumModeration}
             onNavigateToOpenTickets={handleNavigateToOpenTickets}
             onNavigateToPendingPosts={handleNavigateToPendingPosts}
@@ -306,6 +324,8 @@ export default function Dashboard() {
           return <RolePermissionsPage onBack={() => setMembersView("main")} />;
         } else if (membersView === "audit") {
           return <AuditTrailPage onBack={() => setMembersView("main")} />;
+        } else if (membersView === "land_import") {
+          return <LandDataImportPage onBack={() => setMembersView("main")} />;
         }
         return <ManagePage onNavigate={setMembersView} />;
       default:
@@ -321,6 +341,15 @@ export default function Dashboard() {
 
   const displayTab = showFullMap ? "map" : activeTab;
 
+  const emergencyContacts = [
+    profile?.emergencyContact1,
+    profile?.emergencyContact2,
+    profile?.emergencyContact3,
+  ].filter(
+    (contact): contact is NonNullable<typeof contact> =>
+      contact !== undefined && contact.phone.trim() !== "",
+  );
+
   // Show loading state while checking profile completion
   if (profile === undefined) {
     return (
@@ -340,6 +369,9 @@ export default function Dashboard() {
 
   return (
     <div className="fixed inset-0 flex flex-col bg-background">
+      <ConnectionStatusBar />
+      <ActiveAlertBanner />
+
       {/* Minimal Header - Only show on non-map tabs */}
       {!showFullMap &&
         activeTab !== "map" &&
@@ -376,7 +408,7 @@ export default function Dashboard() {
       <BottomNav
         activeTab={displayTab}
         onTabChange={handleTabChange}
-        userRole={userRole}
+        showMembers={canOpenManage(permissions)}
       />
 
       {/* Emergency Dialog */}
@@ -388,35 +420,48 @@ export default function Dashboard() {
               Emergency Services
             </DialogTitle>
             <DialogDescription>
-              Contact emergency services immediately if you need help.
+              Send an SOS or contact emergency services if you need help.
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-3 py-4">
-            <Button
-              variant="destructive"
-              className="w-full justify-start text-lg"
-              size="lg"
-              onClick={() => handleEmergencyCall("911")}
-            >
-              <Phone className="mr-3 h-5 w-5" />
-              Call 911
-            </Button>
-            <Button
-              variant="outline"
-              className="w-full justify-start"
-              onClick={() => handleEmergencyCall("Local Ranger Station")}
-            >
-              <Phone className="mr-3 h-4 w-4" />
-              Contact Local Ranger Station
-            </Button>
+            <SendSosButton
+              fallbackLocation={userLocation}
+              onSent={() => setShowEmergencyDialog(false)}
+            />
             <Button
               variant="outline"
               className="w-full justify-start"
-              onClick={() => handleEmergencyCall("Emergency Contact")}
+              asChild
             >
-              <Phone className="mr-3 h-4 w-4" />
-              Call Emergency Contact
+              <a href="tel:911">
+                <Phone className="mr-3 h-4 w-4" />
+                Call 911
+              </a>
             </Button>
+            {emergencyContacts.length > 0 ? (
+              // Plain tel: links work offline from the cached profile
+              emergencyContacts.map((contact) => (
+                <Button
+                  key={contact.phone}
+                  variant="outline"
+                  className="w-full justify-start"
+                  asChild
+                >
+                  <a href={`tel:${contact.phone}`}>
+                    <Phone className="mr-3 h-4 w-4" />
+                    Call {contact.name}
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {contact.relationship}
+                    </span>
+                  </a>
+                </Button>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Add emergency contacts in your profile so they can be called
+                and alerted from here.
+              </p>
+            )}
           </div>
           <DialogFooter>
             <Button
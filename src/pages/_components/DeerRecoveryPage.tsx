@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, usePaginatedQuery } from "convex/react";
 import { api } from "@/convex/_generated/api.js";
 import { Button } from "@/components/ui/button.tsx";
 import { Card, CardContent, CardHeader } from "@/components/ui/card.tsx";
@@ -36,6 +36,12 @@ import type { Id } from "@/convex/_generated/dataModel.d.ts";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar.tsx";
 import { GoogleMap, useLoadScript, Marker } from "@react-google-maps/api";
 import { GOOGLE_MAPS_API_KEY, GOOGLE_MAPS_LIBRARIES } from "@/lib/google-maps.ts";
+import NearbyVolunteersCard from "@/components/recovery/NearbyVolunteersCard.tsx";
+import NotifiedVolunteersCard from "@/components/recovery/NotifiedVolunteersCard.tsx";
+import RecoveryRespondersCard from "@/components/recovery/RecoveryRespondersCard.tsx";
+import RecoveryEventItem from "@/components/recovery/RecoveryEventItem.tsx";
+
+const REQUESTS_PAGE_SIZE = 20;
 
 interface DeerRecoveryPageProps {
   onBack: () => void;
@@ -65,7 +71,11 @@ export default function DeerRecoveryPage({ onBack }: DeerRecoveryPageProps) {
     }
   }, []);
 
-  const requests = useQuery(
+  const {
+    results: requests,
+    status: requestsStatus,
+    loadMore,
+  } = usePaginatedQuery(
     api.deerRecovery.getRequests,
     userLocation
       ? {
@@ -73,7 +83,8 @@ export default function DeerRecoveryPage({ onBack }: DeerRecoveryPageProps) {
           userLng: userLocation.lng,
           maxDistance: 50,
         }
-      : {}
+      : {},
+    { initialNumItems: REQUESTS_PAGE_SIZE }
   );
 
   if (selectedRequestId) {
@@ -108,8 +119,9 @@ export default function DeerRecoveryPage({ onBack }: DeerRecoveryPageProps) {
 
       {/* Active Requests List */}
       <div className="space-y-3 p-4">
+        {userLocation && <NearbyVolunteersCard location={userLocation} />}
         <h2 className="text-sm font-semibold text-muted-foreground">Active Requests</h2>
-        {!requests ? (
+        {requestsStatus === "LoadingFirstPage" ? (
           <>
             {Array.from({ length: 3 }).map((_, i) => (
               <Card key={i}>
@@ -199,6 +211,17 @@ export default function DeerRecoveryPage({ onBack }: DeerRecoveryPageProps) {
             </Card>
           ))
         )}
+        {(requestsStatus === "CanLoadMore" ||
+          requestsStatus === "LoadingMore") && (
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={requestsStatus === "LoadingMore"}
+            onClick={() => loadMore(REQUESTS_PAGE_SIZE)}
+          >
+            {requestsStatus === "LoadingMore" ? "Loading..." : "Load more"}
+          </Button>
+        )}
       </div>
 
       {/* Ticket History */}
@@ -222,8 +245,8 @@ function RequestHistorySection({
   onSelectRequest: (requestId: Id<"deerRecoveryRequests">) => void;
 }) {
   const history = useQuery(api.deerRecovery.getRequestHistory);
-  const currentUser = useQuery(api.users.getCurrentUser);
-  const isAdmin = currentUser?.role === "admin" || currentUser?.role === "owner";
+  const myPermissions = useQuery(api.roles.getMyPermissions);
+  const isAdmin = !!myPermissions?.includes("manage_support");
 
   if (!history || history.length === 0) {
     return null;
@@ -616,7 +639,8 @@ function RequestDetailView({
   });
 
   const isOwner = profile && request && request.userId === profile._id;
-  const isAdmin = currentUser?.role === "admin" || currentUser?.role === "owner";
+  const myPermissions = useQuery(api.roles.getMyPermissions);
+  const isAdmin = !!myPermissions?.includes("manage_support");
   const isClosed = request?.closedAt !== undefined;
 
   const handleAddComment = async (e: React.FormEvent) => {
@@ -804,10 +828,18 @@ function RequestDetailView({
             </CardContent>
           </Card>
 
+          <RecoveryRespondersCard
+            requestId={requestId}
+            request={request}
+            onCompleted={onBack}
+          />
+
+          {isOwner && <NotifiedVolunteersCard requestId={requestId} />}
+
           {/* Comments */}
           <Card>
             <CardHeader>
-              <h3 className="font-semibold">Comments ({request.comments.length})</h3>
+              <h3 className="font-semibold">Comments ({request.commentCount})</h3>
             </CardHeader>
             <CardContent className="space-y-3">
               {request.comments.length === 0 ? (
@@ -815,30 +847,34 @@ function RequestDetailView({
                   No comments yet
                 </p>
               ) : (
-                request.comments.map((comment) => (
-                  <div key={comment._id} className="flex gap-3">
-                    <Avatar className="h-8 w-8">
-                      <AvatarFallback>
-                        {comment.user?.name?.[0]?.toUpperCase() || "?"}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1">
-                      <div className="flex items-baseline gap-2">
-                        <p className="text-sm font-medium">
-                          {comment.user?.name || "Unknown"}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          {formatDistanceToNow(comment.createdAt, {
-                            addSuffix: true,
-                          })}
+                request.comments.map((comment) =>
+                  comment.event ? (
+                    <RecoveryEventItem key={comment._id} event={comment} />
+                  ) : (
+                    <div key={comment._id} className="flex gap-3">
+                      <Avatar className="h-8 w-8">
+                        <AvatarFallback>
+                          {comment.user?.name?.[0]?.toUpperCase() || "?"}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1">
+                        <div className="flex items-baseline gap-2">
+                          <p className="text-sm font-medium">
+                            {comment.user?.name || "Unknown"}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatDistanceToNow(comment.createdAt, {
+                              addSuffix: true,
+                            })}
+                          </p>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {comment.content}
                         </p>
                       </div>
-                      <p className="text-sm text-muted-foreground">
-                        {comment.content}
-                      </p>
                     </div>
-                  </div>
-                ))
+                  )
+                )
               )}
             </CardContent>
           </Card>
@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api.js";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import { Button } from "@/components/ui/button.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Label } from "@/components/ui/label.tsx";
+import { Badge } from "@/components/ui/badge.tsx";
+import { Progress } from "@/components/ui/progress.tsx";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select.tsx";
+import { ArrowLeft, Upload, FileUp, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface LandDataImportPageProps {
+  onBack: () => void;
+}
+
+type ImportKind = "property" | "huntingUnit";
+
+interface ImportError {
+  index: number;
+  featureId?: string;
+  message: string;
+}
+
+interface ImportSummary {
+  created: number;
+  updated: number;
+  failed: number;
+  errors: ImportError[];
+}
+
+// Must not exceed the server-side limit in convex/landImport.ts
+const BATCH_SIZE = 100;
+
+// Sentinel for "no source attribute" in the mapping selects
+const UNMAPPED = "__none__";
+
+// Fields where a dataset-wide default is commonly needed
+const DEFAULT_FIELDS: Record<ImportKind, { field: string; label: string; placeholder: string }[]> = {
+  property: [
+    { field: "state", label: "State", placeholder: "e.g. MO" },
+    { field: "county", label: "County", placeholder: "e.g. Boone" },
+    { field: "propertyType", label: "Property type", placeholder: "private" },
+  ],
+  huntingUnit: [
+    { field: "state", label: "State", placeholder: "e.g. MO" },
+    { field: "type", label: "Unit type", placeholder: "e.g. WMA" },
+  ],
+};
+
+export default function LandDataImportPage({ onBack }: LandDataImportPageProps) {
+  const [kind, setKind] = useState<ImportKind>("property");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [features, setFeatures] = useState<unknown[]>([]);
+  const [sourceKeys, setSourceKeys] = useState<string[]>([]);
+  const [mappingOverrides, setMappingOverrides] = useState<Record<string, string>>({});
+  const [defaults, setDefaults] = useState<Record<string, string>>({});
+  const [processed, setProcessed] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const importLandFeatures = useMutation(api.landImport.importLandFeatures);
+  const preview = useQuery(
+    api.landImport.previewLandImport,
+    features.length > 0 ? { kind, sourceKeys } : "skip",
+  );
+
+  const resetImport = () => {
+    setMappingOverrides({});
+    setProcessed(0);
+    setSummary(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    resetImport();
+    try {
+      const parsed = JSON.parse(await file.text());
+      if (parsed?.type !== "FeatureCollection" || !Array.isArray(parsed.features)) {
+        toast.error("File is not a GeoJSON FeatureCollection");
+        return;
+      }
+
+      const keys = new Set<string>();
+      for (const feature of parsed.features) {
+        if (feature?.properties && typeof feature.properties === "object") {
+          Object.keys(feature.properties).forEach((key) => keys.add(key));
+        }
+      }
+
+      setFileName(file.name);
+      setFeatures(parsed.features);
+      setSourceKeys([...keys].sort());
+    } catch (error) {
+      console.error("Error reading GeoJSON file:", error);
+      toast.error("Could not read file as JSON");
+    }
+  };
+
+  const handleKindChange = (value: string) => {
+    setKind(value as ImportKind);
+    setDefaults({});
+    resetImport();
+  };
+
+  const getSource = (field: string, autoSource: string | null) =>
+    field in mappingOverrides ? mappingOverrides[field] : autoSource;
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    // Send the full mapping so an explicitly unmapped field stays unmapped
+    const fieldMapping: Record<string, string> = {};
+    for (const row of preview) {
+      const source = getSource(row.field, row.source);
+      fieldMapping[row.field] = source ?? "";
+    }
+    const activeDefaults = Object.fromEntries(
+      Object.entries(defaults).filter(([, value]) => value.trim() !== ""),
+    );
+
+    setIsImporting(true);
+    setProcessed(0);
+    const totals: ImportSummary = { created: 0, updated: 0, failed: 0, errors: [] };
+    try {
+      for (let start = 0; start < features.length; start += BATCH_SIZE) {
+        const result = await importLandFeatures({
+          kind,
+          features: features.slice(start, start + BATCH_SIZE),
+          fieldMapping,
+          defaults: activeDefaults,
+          startIndex: start,
+          fileName: fileName ?? undefined,
+        });
+        totals.created += result.created;
+        totals.updated += result.updated;
+        totals.failed += result.failed;
+        totals.errors.push(...result.errors);
+        setProcessed(Math.min(start + BATCH_SIZE, features.length));
+        setSummary({ ...totals, errors: [...totals.errors] });
+      }
+      toast.success(
+        `Import finished: ${totals.created} created, ${totals.updated} updated, ${totals.failed} failed`,
+      );
+    } catch (error) {
+      console.error("Error importing land data:", error);
+      toast.error("Import stopped. Features before the failed batch were saved.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const missingRequired =
+    preview?.filter(
+      (row) =>
+        row.required &&
+        !getSource(row.field, row.source) &&
+        !defaults[row.field]?.trim(),
+    ) ?? [];
+
+  return (
+    <div className="h-full overflow-y-auto bg-background">
+      <div className="border-b bg-card px-4 py-3">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={onBack}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-lg font-bold">Land Data Import</h1>
+            <p className="text-xs text-muted-foreground">
+              Load parcels and hunting units from GeoJSON
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Source File</CardTitle>
+            <CardDescription>
+              A GeoJSON FeatureCollection of Polygon or MultiPolygon features.
+              Convert shapefiles first, e.g. with ogr2ogr -f GeoJSON -t_srs EPSG:4326.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label>Dataset type</Label>
+              <Select value={kind} onValueChange={handleKindChange} disabled={isImporting}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="property">Parcels (properties)</SelectItem>
+                  <SelectItem value="huntingUnit">Hunting units (WMAs, forests)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="land-import-file">GeoJSON file</Label>
+              <Input
+                id="land-import-file"
+                type="file"
+                accept=".geojson,.json,application/geo+json,application/json"
+                onChange={handleFileChange}
+                disabled={isImporting}
+              />
+              {fileName && (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <FileUp className="h-3 w-3" />
+                  {fileName}: {features.length} features, {sourceKeys.length} attributes
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {preview && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Field Mapping</CardTitle>
+              <CardDescription>
+                Attributes were matched automatically where possible. Required
+                fields need a source attribute or a default.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {preview.map((row) => (
+                <div key={row.field} className="flex items-center gap-3">
+                  <div className="w-36 shrink-0">
+                    <p className="text-sm font-medium">{row.field}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {row.kind}
+                      {row.required && " · required"}
+                    </p>
+                  </div>
+                  <Select
+                    value={getSource(row.field, row.source) || UNMAPPED}
+                    onValueChange={(value) =>
+                      setMappingOverrides((prev) => ({
+                        ...prev,
+                        [row.field]: value === UNMAPPED ? "" : value,
+                      }))
+                    }
+                    disabled={isImporting}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {sourceKeys.map((key) => (
+                        <SelectItem key={key} value={key}>
+                          {key}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {preview && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Defaults</CardTitle>
+              <CardDescription>
+                Used when a feature has no value for the field
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid gap-3 sm:grid-cols-3">
+              {DEFAULT_FIELDS[kind].map(({ field, label, placeholder }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`default-${field}`}>{label}</Label>
+                  <Input
+                    id={`default-${field}`}
+                    placeholder={placeholder}
+                    value={defaults[field] ?? ""}
+                    onChange={(e) =>
+                      setDefaults((prev) => ({ ...prev, [field]: e.target.value }))
+                    }
+                    disabled={isImporting}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {preview && (
+          <div className="space-y-2">
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-amber-600 flex items-center gap-1">
+                <AlertTriangle className="h-4 w-4" />
+                Unmapped required fields: {missingRequired.map((row) => row.field).join(", ")}
+              </p>
+            )}
+            <Button
+              className="w-full"
+              onClick={handleImport}
+              disabled={isImporting || features.length === 0}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {isImporting
+                ? `Importing ${processed} / ${features.length}...`
+                : `Import ${features.length} features`}
+            </Button>
+            {(isImporting || processed > 0) && (
+              <Progress value={(processed / Math.max(features.length, 1)) * 100} />
+            )}
+          </div>
+        )}
+
+        {summary && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CheckCircle2 className="h-5 w-5 text-green-500" />
+                Results
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex gap-2 flex-wrap">
+                <Badge variant="default">{summary.created} created</Badge>
+                <Badge variant="secondary">{summary.updated} updated</Badge>
+                <Badge variant={summary.failed > 0 ? "destructive" : "outline"}>
+                  {summary.failed} failed
+                </Badge>
+              </div>
+              {summary.errors.length > 0 && (
+                <div className="max-h-80 overflow-y-auto rounded border divide-y">
+                  {summary.errors.map((error) => (
+                    <div key={error.index} className="p-2 text-sm">
+                      <span className="font-medium">
+                        Feature {error.index + 1}
+                        {error.featureId && ` (${error.featureId})`}:
+                      </span>{" "}
+                      <span className="text-muted-foreground">{error.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
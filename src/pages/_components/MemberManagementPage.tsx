@@ -159,7 +159,7 @@ export default function MemberManagementPage({ onBack, onViewProfile }: MemberMa
                         <Badge variant={getRoleBadgeVariant(user.role || "member")}>
                           <span className="flex items-center gap-1">
                             {getRoleIcon(user.role || "member")}
-                            {(user.role || "member").toUpperCase()}
+                            {user.roleName.toUpperCase()}
                           </span>
                         </Badge>
                         {user.accountStatus && user.accountStatus !== "active" && (
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { useQuery, useMutation, useAction } from "convex/react";
+import { useQuery, useAction } from "convex/react";
 import { api } from "@/convex/_generated/api.js";
 import {
   Card,
@@ -36,6 +36,11 @@ import {
   Trees,
   Sunrise,
   Sunset,
+  Pencil,
+  Camera,
+  History,
+  Gauge,
+  Moon,
 } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "sonner";
@@ -64,22 +69,15 @@ import {
   GOOGLE_MAPS_LIBRARIES,
 } from "@/lib/google-maps.ts";
 import AddWaypointDialog from "@/components/tracking/AddWaypointDialog.tsx";
-import type { Id } from "@/convex/_generated/dataModel.d.ts";
-
-const SPECIES_OPTIONS = [
-  "Deer",
-  "Turkey",
-  "Elk",
-  "Duck",
-  "Goose",
-  "Rabbit",
-  "Squirrel",
-  "Bear",
-  "Hog",
-  "Other",
-];
-
-const METHOD_OPTIONS = ["Rifle", "Bow", "Shotgun", "Muzzleloader", "Other"];
+import CheckInTimer from "@/components/emergency/CheckInTimer.tsx";
+import EditHuntDialog from "@/components/hunts/EditHuntDialog.tsx";
+import HuntPhotosDialog from "@/components/hunts/HuntPhotosDialog.tsx";
+import HarvestGallery from "@/components/hunts/HarvestGallery.tsx";
+import LogPastHuntDialog from "@/components/hunts/LogPastHuntDialog.tsx";
+import type { Doc, Id } from "@/convex/_generated/dataModel.d.ts";
+import { useCachedQuery } from "@/hooks/use-cached-query.ts";
+import { useOfflineMutation } from "@/hooks/use-offline-mutation.ts";
+import { METHOD_OPTIONS, SPECIES_OPTIONS } from "@/lib/hunt-options.ts";
 
 interface WeatherData {
   temperature: number;
@@ -100,11 +98,23 @@ interface ForecastData {
   }>;
 }
 
+// "HH:mm" from a time input as a timestamp: today, or tomorrow if that
+// time has already passed
+function nextOccurrenceOfTime(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  if (date.getTime() <= Date.now()) {
+    date.setDate(date.getDate() + 1);
+  }
+  return date.getTime();
+}
+
 interface MyHuntPageProps {
   onViewFullMap: () => void;
   onStartTracking: () => void;
   onEmergency: () => void;
-  userRole?: string;
+  permissions?: string[];
   onNavigateToForumModeration?: () => void;
   onNavigateToOpenTickets?: () => void;
   onNavigateToPendingPosts?: () => void;
@@ -115,7 +125,7 @@ export default function MyHuntPage({
   onViewFullMap,
   onStartTracking,
   onEmergency,
-  userRole,
+  permissions,
   onNavigateToForumModeration,
   onNavigateToOpenTickets,
   onNavigateToPendingPosts,
@@ -129,6 +139,9 @@ export default function MyHuntPage({
   const [showStartDialog, setShowStartDialog] = useState(false);
   const [showEndDialog, setShowEndDialog] = useState(false);
   const [waypointDialogOpen, setWaypointDialogOpen] = useState(false);
+  const [editingHunt, setEditingHunt] = useState<Doc<"hunts"> | null>(null);
+  const [photosHuntId, setPhotosHuntId] = useState<Id<"hunts"> | null>(null);
+  const [showLogPastDialog, setShowLogPastDialog] = useState(false);
   const [location, setLocation] = useState<{ lat: number; lng: number } | null>(
     null,
   );
@@ -154,6 +167,7 @@ export default function MyHuntPage({
     species: "",
     method: "",
     notes: "",
+    checkInTime: "",
   });
   const [endHuntData, setEndHuntData] = useState({
     successful: false,
@@ -161,27 +175,30 @@ export default function MyHuntPage({
     notes: "",
   });
 
-  const hunts = useQuery(api.hunts.getMyHunts);
-  const activeHunt = useQuery(api.hunts.getActiveHunt);
-  const stats = useQuery(api.hunts.getHuntStats);
+  // Cached so the page still shows the last known data offline
+  const hunts = useCachedQuery(api.hunts.getMyHunts);
+  const activeHunt = useCachedQuery(api.hunts.getActiveHunt);
+  const stats = useCachedQuery(api.hunts.getHuntStats);
 
-  // Admin only queries
-  const isAdmin = userRole === "owner" || userRole === "admin";
+  // Admin only queries, each gated on the permission it requires
+  const canModerateForums = !!permissions?.includes("moderate_forums");
+  const canManageSupport = !!permissions?.includes("manage_support");
+  const isAdmin = canModerateForums || canManageSupport;
   const pendingPosts = useQuery(
     api.forums.getPendingPosts,
-    isAdmin ? {} : "skip",
+    canModerateForums ? {} : "skip",
   );
   const reportedPosts = useQuery(
     api.forums.getReportedPosts,
-    isAdmin ? {} : "skip",
+    canModerateForums ? {} : "skip",
   );
   const openTickets = useQuery(
     api.support.getAllTickets,
-    isAdmin ? { status: "open" } : "skip",
+    canManageSupport ? { status: "open" } : "skip",
   );
 
-  const startHunt = useMutation(api.hunts.startHunt);
-  const endHunt = useMutation(api.hunts.endHunt);
+  const startHunt = useOfflineMutation(api.hunts.startHunt, "Start hunt");
+  const endHunt = useOfflineMutation(api.hunts.endHunt, "End hunt");
 
   const getCurrentWeather = useAction(api.weather.getCurrentWeather);
   const getForecast = useAction(api.weather.getForecast);
@@ -189,6 +206,8 @@ export default function MyHuntPage({
 
   const loadWeatherData = useCallback(
     async (lat: number, lng: number) => {
+      // Forecasts need the network; skip the error toast while offline
+      if (!navigator.onLine) return;
       setIsLoadingWeather(true);
       try {
         const [weatherData, forecastData] = await Promise.all([
@@ -320,56 +339,49 @@ export default function MyHuntPage({
       return;
     }
 
-    try {
-      // Get current location
-      if ("geolocation" in navigator) {
-        navigator.geolocation.getCurrentPosition(
-          async (position) => {
-            await startHunt({
-              title: newHunt.title,
-              locationName: newHunt.locationName,
-              lat: position.coords.latitude,
-              lng: position.coords.longitude,
-              species: newHunt.species,
-              method: newHunt.method || undefined,
-              notes: newHunt.notes || undefined,
-            });
-            toast.success("Hunt started! Good luck!");
-            setShowStartDialog(false);
-            setNewHunt({
-              title: "",
-              locationName: "",
-              species: "",
-              method: "",
-              notes: "",
-            });
-          },
-          async () => {
-            // Default location if geolocation fails
-            await startHunt({
-              title: newHunt.title,
-              locationName: newHunt.locationName,
-              lat: 39.0997,
-              lng: -94.5786,
-              species: newHunt.species,
-              method: newHunt.method || undefined,
-              notes: newHunt.notes || undefined,
-            });
-            toast.success("Hunt started! Good luck!");
-            setShowStartDialog(false);
-            setNewHunt({
-              title: "",
-              locationName: "",
-              species: "",
-              method: "",
-              notes: "",
-            });
-          },
+    const submitHunt = async (lat: number, lng: number) => {
+      try {
+        const { queued } = await startHunt({
+          title: newHunt.title,
+          locationName: newHunt.locationName,
+          lat,
+          lng,
+          species: newHunt.species,
+          method: newHunt.method || undefined,
+          notes: newHunt.notes || undefined,
+          startTime: Date.now(),
+          expectedReturnAt: newHunt.checkInTime
+            ? nextOccurrenceOfTime(newHunt.checkInTime)
+            : undefined,
+        });
+        toast.success(
+          queued
+            ? "Hunt saved offline. It will sync when you're back online."
+            : "Hunt started! Good luck!",
         );
+        setShowStartDialog(false);
+        setNewHunt({
+          title: "",
+          locationName: "",
+          species: "",
+          method: "",
+          notes: "",
+          checkInTime: "",
+        });
+      } catch (error) {
+        toast.error("Failed to start hunt");
+        console.error(error);
       }
-    } catch (error) {
-      toast.error("Failed to start hunt");
-      console.error(error);
+    };
+
+    // Get current location
+    if ("geolocation" in navigator) {
+      navigator.geolocation.getCurrentPosition(
+        (position) =>
+          submitHunt(position.coords.latitude, position.coords.longitude),
+        // Default location if geolocation fails
+        () => submitHunt(39.0997, -94.5786),
+      );
     }
   };
 
@@ -377,13 +389,18 @@ export default function MyHuntPage({
     if (!activeHunt) return;
 
     try {
-      await endHunt({
+      const { queued } = await endHunt({
         huntId: activeHunt._id,
         successful: endHuntData.successful,
         harvested: endHuntData.successful ? endHuntData.harvested : undefined,
         notes: endHuntData.notes || undefined,
+        endTime: Date.now(),
       });
-      toast.success("Hunt completed!");
+      toast.success(
+        queued
+          ? "Hunt end saved offline. It will sync when you're back online."
+          : "Hunt completed!",
+      );
       setShowEndDialog(false);
       setEndHuntData({ successful: false, harvested: 0, notes: "" });
     } catch (error) {
@@ -911,6 +928,7 @@ export default function MyHuntPage({
                   </div>
                 </div>
               </div>
+              <CheckInTimer hunt={activeHunt} />
               <Button
                 size="sm"
                 variant="outline"
@@ -988,8 +1006,16 @@ export default function MyHuntPage({
 
         {/* Hunt History */}
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
             <CardTitle className="text-base">Recent Hunts</CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowLogPastDialog(true)}
+            >
+              <History className="mr-1 h-4 w-4" />
+              Log Past Hunt
+            </Button>
           </CardHeader>
           <CardContent className="p-0">
             <ScrollArea className="h-64">
@@ -1041,12 +1067,54 @@ export default function MyHuntPage({
                               {hunt.locationName}
                             </div>
                           </div>
+                          {hunt.startConditions && (
+                            <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                              {hunt.startConditions.temperature !== undefined && (
+                                <div className="flex items-center gap-1">
+                                  <Thermometer className="h-3 w-3" />
+                                  {hunt.startConditions.temperature}°F
+                                </div>
+                              )}
+                              {hunt.startConditions.pressure !== undefined && (
+                                <div className="flex items-center gap-1">
+                                  <Gauge className="h-3 w-3" />
+                                  {hunt.startConditions.pressure} hPa
+                                  {hunt.startConditions.pressureTrend &&
+                                    `, ${hunt.startConditions.pressureTrend}`}
+                                </div>
+                              )}
+                              {hunt.startConditions.moonPhase && (
+                                <div className="flex items-center gap-1">
+                                  <Moon className="h-3 w-3" />
+                                  {hunt.startConditions.moonPhase}
+                                </div>
+                              )}
+                            </div>
+                          )}
                           {hunt.notes && (
                             <p className="mt-2 text-xs text-muted-foreground">
                               {hunt.notes}
                             </p>
                           )}
                         </div>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            aria-label="Photos"
+                            onClick={() => setPhotosHuntId(hunt._id)}
+                          >
+                            <Camera className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            aria-label="Edit hunt"
+                            onClick={() => setEditingHunt(hunt)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -1055,6 +1123,8 @@ export default function MyHuntPage({
             </ScrollArea>
           </CardContent>
         </Card>
+
+        <HarvestGallery />
       </div>
 
       {/* Start Hunt Dialog */}
@@ -1129,6 +1199,22 @@ export default function MyHuntPage({
                 </SelectContent>
               </Select>
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="checkInTime">Check in by</Label>
+              <Input
+                id="checkInTime"
+                type="time"
+                value={newHunt.checkInTime}
+                onChange={(e) =>
+                  setNewHunt({ ...newHunt, checkInTime: e.target.value })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Optional. If you haven't ended the hunt or checked in by then,
+                you'll get a reminder, and 30 minutes later your emergency
+                contacts and friends are alerted.
+              </p>
+            </div>
             <div className="space-y-2">
               <Label htmlFor="notes">Notes</Label>
               <Textarea
@@ -1227,6 +1313,20 @@ export default function MyHuntPage({
         </DialogContent>
       </Dialog>
 
+      <EditHuntDialog
+        hunt={editingHunt}
+        onOpenChange={(open) => !open && setEditingHunt(null)}
+      />
+      <LogPastHuntDialog
+        open={showLogPastDialog}
+        onOpenChange={setShowLogPastDialog}
+        defaultLocation={location}
+      />
+      <HuntPhotosDialog
+        hunt={hunts?.find((hunt) => hunt._id === photosHuntId) ?? null}
+        onOpenChange={(open) => !open && setPhotosHuntId(null)}
+      />
+
       {/* Add Waypoint Dialog */}
       {location && (
         <AddWaypointDialog
@@ -19,6 +19,8 @@ import { Label } from "@/components/ui/label.tsx";
 import { Checkbox } from "@/components/ui/checkbox.tsx";
 import { Switch } from "@/components/ui/switch.tsx";
 import { NotificationBell } from "@/components/ui/notification-bell.tsx";
+import NotificationPreferencesCard from "@/components/notifications/NotificationPreferencesCard.tsx";
+import PrivacySettingsCard from "@/components/friends/PrivacySettingsCard.tsx";
 import {
   Select,
   SelectContent,
@@ -62,9 +64,17 @@ const emergencyContactSchema = z
     name: z.string(),
     phone: z.string(),
     relationship: z.string(),
+    email: z.string().optional(),
   })
   .optional();
 
+type EmergencyContactFormData = z.infer<typeof emergencyContactSchema>;
+
+function toEmergencyContact(contact: EmergencyContactFormData) {
+  if (!contact || !contact.name) return undefined;
+  return { ...contact, email: contact.email?.trim() || undefined };
+}
+
 const profileSchema = z.object({
   name: z.string().optional(),
   country: z.string().optional(),
@@ -315,18 +325,9 @@ export default function ProfilePage() {
       console.log("Submitting profile update:", data);
 
       // Filter out empty emergency contacts
-      const contact1 =
-        data.emergencyContact1 && data.emergencyContact1.name
-          ? data.emergencyContact1
-          : undefined;
-      const contact2 =
-        data.emergencyContact2 && data.emergencyContact2.name
-          ? data.emergencyContact2
-          : undefined;
-      const contact3 =
-        data.emergencyContact3 && data.emergencyContact3.name
-          ? data.emergencyContact3
-          : undefined;
+      const contact1 = toEmergencyContact(data.emergencyContact1);
+      const contact2 = toEmergencyContact(data.emergencyContact2);
+      const contact3 = toEmergencyContact(data.emergencyContact3);
 
       await updateProfile({
         name: data.name,
@@ -581,6 +582,17 @@ export default function ProfilePage() {
                     {...register("emergencyContact1.relationship")}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Email (optional)</Label>
+                  <Input
+                    type="email"
+                    placeholder="jane@example.com"
+                    {...register("emergencyContact1.email")}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Receives an email with your live location if you send an SOS
+                  </p>
+                </div>
               </CollapsibleContent>
             </Collapsible>
 
@@ -622,6 +634,17 @@ export default function ProfilePage() {
                     {...register("emergencyContact2.relationship")}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Email (optional)</Label>
+                  <Input
+                    type="email"
+                    placeholder="jane@example.com"
+                    {...register("emergencyContact2.email")}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Receives an email with your live location if you send an SOS
+                  </p>
+                </div>
               </CollapsibleContent>
             </Collapsible>
 
@@ -663,6 +686,17 @@ export default function ProfilePage() {
                     {...register("emergencyContact3.relationship")}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Email (optional)</Label>
+                  <Input
+                    type="email"
+                    placeholder="jane@example.com"
+                    {...register("emergencyContact3.email")}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Receives an email with your live location if you send an SOS
+                  </p>
+                </div>
               </CollapsibleContent>
             </Collapsible>
           </CardContent>
@@ -755,6 +789,10 @@ export default function ProfilePage() {
       </form>
 
       <div className="mt-6 space-y-4 px-4 pb-6">
+        <NotificationPreferencesCard />
+
+        <PrivacySettingsCard />
+
         {/* Security Settings */}
         {isAvailable && (
           <Card>
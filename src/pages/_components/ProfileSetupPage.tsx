@@ -36,6 +36,7 @@ const profileSetupSchema = z.object({
     name: z.string().min(1, "Emergency contact name is required"),
     phone: z.string().min(1, "Emergency contact phone is required"),
     relationship: z.string().min(1, "Relationship is required"),
+    email: z.union([z.string().email("Enter a valid email"), z.literal("")]).optional(),
   }),
   huntingPreferences: z.array(z.string()).min(1, "Select at least one hunting preference"),
   weaponTypes: z.array(z.string()).min(1, "Select at least one weapon type"),
@@ -258,7 +259,10 @@ export default function ProfileSetupPage() {
         city: data.city,
         state: data.state,
         zipCode: data.zipCode,
-        emergencyContact1: data.emergencyContact,
+        emergencyContact1: {
+          ...data.emergencyContact,
+          email: data.emergencyContact.email?.trim() || undefined,
+        },
         huntingPreferences: data.huntingPreferences,
         weaponTypes: data.weaponTypes,
         bio: data.bio,
@@ -510,6 +514,21 @@ export default function ProfileSetupPage() {
                   <p className="text-sm text-destructive">{errors.emergencyContact.relationship.message}</p>
                 )}
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="emergencyContactEmail">Email</Label>
+                <Input
+                  id="emergencyContactEmail"
+                  type="email"
+                  placeholder="jane@example.com"
+                  {...register("emergencyContact.email")}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Optional. Receives an email with your live location if you send an SOS.
+                </p>
+                {errors.emergencyContact?.email && (
+                  <p className="text-sm text-destructive">{errors.emergencyContact.email.message}</p>
+                )}
+              </div>
             </CardContent>
           </Card>
 
@@ -1,12 +1,35 @@
 import { useQuery, useMutation } from "convex/react";
+import { ConvexError } from "convex/values";
 import { api } from "@/convex/_generated/api.js";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import type { Id } from "@/convex/_generated/dataModel.d.ts";
+import { Card, CardContent } from "@/components/ui/card.tsx";
 import { Button } from "@/components/ui/button.tsx";
 import { Badge } from "@/components/ui/badge.tsx";
 import { Switch } from "@/components/ui/switch.tsx";
 import { Label } from "@/components/ui/label.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Textarea } from "@/components/ui/textarea.tsx";
 import { Skeleton } from "@/components/ui/skeleton.tsx";
-import { ArrowLeft, Shield, UserCog, User, Info } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog.tsx";
+import {
+  ArrowLeft,
+  Copy,
+  Info,
+  Pencil,
+  Plus,
+  Shield,
+  Trash2,
+  User,
+  UserCog,
+  Users,
+} from "lucide-react";
 import { toast } from "sonner";
 import { useState } from "react";
 import {
@@ -15,84 +38,129 @@ import {
   AccordionItem,
   AccordionTrigger,
 } from "@/components/ui/accordion.tsx";
+import { PERMISSION_DESCRIPTIONS } from "@/lib/permissions.ts";
 
 interface RolePermissionsPageProps {
   onBack: () => void;
 }
 
-const PERMISSION_DESCRIPTIONS: Record<string, { name: string; description: string }> = {
-  view_users: {
-    name: "View Users",
-    description: "Can view the list of all users and their profiles",
-  },
-  edit_users: {
-    name: "Edit Users",
-    description: "Can edit user profiles and information",
-  },
-  delete_users: {
-    name: "Delete Users",
-    description: "Can permanently delete user accounts",
-  },
-  ban_users: {
-    name: "Ban Users",
-    description: "Can ban users from the platform",
-  },
-  manage_roles: {
-    name: "Manage Roles",
-    description: "Can assign and change user roles",
-  },
-  moderate_forums: {
-    name: "Moderate Forums",
-    description: "Can moderate forum posts and comments",
-  },
-  moderate_marketplace: {
-    name: "Moderate Marketplace",
-    description: "Can review and approve marketplace listings",
-  },
-  manage_subscriptions: {
-    name: "Manage Subscriptions",
-    description: "Can manage user subscriptions and billing",
-  },
-  view_analytics: {
-    name: "View Analytics",
-    description: "Can view platform analytics and reports",
-  },
+type BuiltInRole = "owner" | "admin" | "member";
+
+interface RoleSummary {
+  _id: Id<"roles"> | null;
+  key: BuiltInRole | null;
+  name: string;
+  description: string;
+  permissions: string[];
+  memberCount: number;
+}
+
+// What the name dialog is doing: creating a blank role, cloning one, or
+// renaming a custom role
+type NameDialogState =
+  | { mode: "create" }
+  | { mode: "clone"; source: RoleSummary }
+  | { mode: "edit"; role: RoleSummary };
+
+const BUILT_IN_STYLES: Record<BuiltInRole, { icon: typeof Shield; color: string }> = {
+  owner: { icon: Shield, color: "text-primary" },
+  admin: { icon: UserCog, color: "text-amber-500" },
+  member: { icon: User, color: "text-muted-foreground" },
 };
 
-const ROLES = [
-  { id: "owner", name: "Owner", icon: Shield, color: "text-primary" },
-  { id: "admin", name: "Administrator", icon: UserCog, color: "text-amber-500" },
-  { id: "member", name: "Member", icon: User, color: "text-muted-foreground" },
-];
+// Built-in roles are addressed by key, custom roles by id
+function roleRef(role: RoleSummary): BuiltInRole | Id<"roles"> {
+  return role.key ?? role._id!;
+}
+
+function getErrorMessage(error: unknown, fallback: string) {
+  if (error instanceof ConvexError) {
+    return (error.data as { message: string }).message;
+  }
+  return fallback;
+}
 
 export default function RolePermissionsPage({ onBack }: RolePermissionsPageProps) {
-  const rolePermissions = useQuery(api.roles.getAllRolePermissions);
-  const updatePermissions = useMutation(api.roles.updateRolePermissions);
+  const roles = useQuery(api.roles.listRoles);
+  const createRole = useMutation(api.roles.createRole);
+  const cloneRole = useMutation(api.roles.cloneRole);
+  const updateRole = useMutation(api.roles.updateRole);
+  const deleteRole = useMutation(api.roles.deleteRole);
   const [savingRole, setSavingRole] = useState<string | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [submitting, setSubmitting] = useState(false);
 
   const handleTogglePermission = async (
-    role: "owner" | "admin" | "member",
+    role: RoleSummary,
     permission: string,
     currentlyHas: boolean
   ) => {
-    if (!rolePermissions) return;
-
-    const currentPermissions = rolePermissions[role] || [];
     const newPermissions = currentlyHas
-      ? currentPermissions.filter((p) => p !== permission)
-      : [...currentPermissions, permission];
+      ? role.permissions.filter((p) => p !== permission)
+      : [...role.permissions, permission];
 
-    setSavingRole(role);
+    setSavingRole(role.name);
     try {
-      await updatePermissions({ role, permissions: newPermissions });
-      toast.success(`${ROLES.find((r) => r.id === role)?.name} permissions updated`);
+      await updateRole({ role: roleRef(role), permissions: newPermissions });
+      toast.success(`${role.name} permissions updated`);
     } catch (error) {
-      toast.error("Failed to update permissions");
+      toast.error(getErrorMessage(error, "Failed to update permissions"));
     } finally {
       setSavingRole(null);
     }
   };
 
+  const openNameDialog = (state: NameDialogState) => {
+    setNameDialog(state);
+    if (state.mode === "edit") {
+      setName(state.role.name);
+      setDescription(state.role.description);
+    } else {
+      setName(state.mode === "clone" ? `${state.source.name} Copy` : "");
+      setDescription("");
+    }
+  };
+
+  const handleSubmitName = async () => {
+    if (!nameDialog || !name.trim()) return;
+    setSubmitting(true);
+    try {
+      if (nameDialog.mode === "create") {
+        await createRole({ name, description, permissions: [] });
+        toast.success(`${name.trim()} created`);
+      } else if (nameDialog.mode === "clone") {
+        await cloneRole({ sourceRole: roleRef(nameDialog.source), name });
+        toast.success(`${name.trim()} created from ${nameDialog.source.name}`);
+      } else {
+        await updateRole({ role: roleRef(nameDialog.role), name, description });
+        toast.success("Role updated");
+      }
+      setNameDialog(null);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save role"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (role: RoleSummary) => {
+    if (!role._id) return;
+    const membersNote =
+      role.memberCount > 0
+        ? ` Its ${role.memberCount} ${role.memberCount === 1 ? "member goes" : "members go"} back to their built-in role.`
+        : "";
+    if (!confirm(`Delete the ${role.name} role?${membersNote}`)) return;
+
+    try {
+      await deleteRole({ roleId: role._id });
+      toast.success(`${role.name} deleted`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to delete role"));
+    }
+  };
+
   return (
     <div className="h-full overflow-y-auto bg-background">
       <div className="border-b bg-card px-4 py-3">
@@ -100,12 +168,16 @@ export default function RolePermissionsPage({ onBack }: RolePermissionsPageProps
           <Button variant="ghost" size="sm" onClick={onBack}>
             <ArrowLeft className="h-4 w-4" />
           </Button>
-          <div>
+          <div className="flex-1">
             <h1 className="text-lg font-bold">Role Permissions</h1>
             <p className="text-xs text-muted-foreground">
               Configure permissions for each role
             </p>
           </div>
+          <Button size="sm" onClick={() => openNameDialog({ mode: "create" })}>
+            <Plus className="mr-1 h-4 w-4" />
+            New Role
+          </Button>
         </div>
       </div>
 
@@ -117,13 +189,13 @@ export default function RolePermissionsPage({ onBack }: RolePermissionsPageProps
             <div className="text-sm">
               <p className="font-medium text-foreground">Manage Role Permissions</p>
               <p className="mt-1 text-muted-foreground">
-                Configure what each role can do in the application. Changes apply immediately to all users with that role.
+                Configure what each role can do in the application. Create custom roles such as a support agent or marketplace reviewer, or clone an existing role as a starting point. Changes apply immediately to everyone with that role.
               </p>
             </div>
           </CardContent>
         </Card>
 
-        {rolePermissions === undefined ? (
+        {roles === undefined ? (
           <div className="space-y-3">
             {Array.from({ length: 3 }).map((_, i) => (
               <Skeleton key={i} className="h-96" />
@@ -131,41 +203,78 @@ export default function RolePermissionsPage({ onBack }: RolePermissionsPageProps
           </div>
         ) : (
           <Accordion type="single" collapsible defaultValue="owner" className="space-y-3">
-            {ROLES.map((role) => {
-              const Icon = role.icon;
-              const permissions: string[] = rolePermissions[role.id as keyof typeof rolePermissions] || [];
+            {roles.map((role) => {
+              const style = role.key ? BUILT_IN_STYLES[role.key] : null;
+              const Icon = style?.icon ?? Users;
               const allPermissions = Object.keys(PERMISSION_DESCRIPTIONS);
-              const isSaving = savingRole === role.id;
+              const isSaving = savingRole === role.name;
+              const isOwnerRole = role.key === "owner";
+              const itemValue = role.key ?? role._id!;
 
               return (
-                <Card key={role.id}>
-                  <AccordionItem value={role.id} className="border-0">
+                <Card key={itemValue}>
+                  <AccordionItem value={itemValue} className="border-0">
                     <AccordionTrigger className="px-6 hover:no-underline">
                       <div className="flex items-center gap-3">
-                        <div className={`rounded-lg bg-muted p-2 ${role.color}`}>
+                        <div className={`rounded-lg bg-muted p-2 ${style?.color ?? "text-purple-500"}`}>
                           <Icon className="h-5 w-5" />
                         </div>
                         <div className="text-left">
-                          <div className="flex items-center gap-2">
+                          <div className="flex flex-wrap items-center gap-2">
                             <h3 className="font-semibold">{role.name}</h3>
                             <Badge variant="secondary" className="text-xs">
-                              {permissions.length} {permissions.length === 1 ? "permission" : "permissions"}
+                              {role.permissions.length} {role.permissions.length === 1 ? "permission" : "permissions"}
                             </Badge>
+                            {!role.key && (
+                              <Badge variant="outline" className="text-xs">
+                                Custom
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-xs text-muted-foreground">
-                            {role.id === "owner" && "Full system access with all permissions"}
-                            {role.id === "admin" && "Elevated privileges for platform management"}
-                            {role.id === "member" && "Standard user access"}
+                            {role.description || "No description"} · {role.memberCount} {role.memberCount === 1 ? "member" : "members"}
                           </p>
                         </div>
                       </div>
                     </AccordionTrigger>
                     <AccordionContent>
                       <div className="space-y-1 px-6 pb-4">
+                        <div className="flex flex-wrap gap-2 pb-3">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openNameDialog({ mode: "clone", source: role })}
+                          >
+                            <Copy className="mr-1 h-4 w-4" />
+                            Clone
+                          </Button>
+                          {!role.key && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openNameDialog({ mode: "edit", role })}
+                              >
+                                <Pencil className="mr-1 h-4 w-4" />
+                                Rename
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-destructive"
+                                onClick={() => handleDelete(role)}
+                              >
+                                <Trash2 className="mr-1 h-4 w-4" />
+                                Delete
+                              </Button>
+                            </>
+                          )}
+                        </div>
+
                         {allPermissions.map((permission) => {
-                          const hasPermission = permissions.includes(permission);
+                          const hasPermission = role.permissions.includes(permission);
                           const permInfo = PERMISSION_DESCRIPTIONS[permission];
-                          const isOwnerRole = role.id === "owner";
+                          const switchId = `${itemValue}-${permission}`;
 
                           return (
                             <div
@@ -173,10 +282,7 @@ export default function RolePermissionsPage({ onBack }: RolePermissionsPageProps
                               className="flex items-start justify-between rounded-lg border bg-card p-4 transition-colors hover:bg-muted/50"
                             >
                               <div className="flex-1 space-y-1">
-                                <Label
-                                  htmlFor={`${role.id}-${permission}`}
-                                  className="cursor-pointer font-medium"
-                                >
+                                <Label htmlFor={switchId} className="cursor-pointer font-medium">
                                   {permInfo.name}
                                 </Label>
                                 <p className="text-xs text-muted-foreground">
@@ -184,24 +290,17 @@ export default function RolePermissionsPage({ onBack }: RolePermissionsPageProps
                                 </p>
                               </div>
                               <Switch
-                                id={`${role.id}-${permission}`}
+                                id={switchId}
                                 checked={hasPermission}
                                 disabled={isSaving || isOwnerRole}
-                                onCheckedChange={
-                                  role.id === "owner" || role.id === "admin" || role.id === "member"
-                                    ? () =>
-                                        handleTogglePermission(
-                                          role.id as "owner" | "admin" | "member",
-                                          permission,
-                                          hasPermission
-                                        )
-                                    : undefined
+                                onCheckedChange={() =>
+                                  handleTogglePermission(role, permission, hasPermission)
                                 }
                               />
                             </div>
                           );
                         })}
-                        {role.id === "owner" && (
+                        {isOwnerRole && (
                           <p className="pt-2 text-xs text-muted-foreground">
                             Owner permissions cannot be modified. Owners always have full access.
                           </p>
@@ -215,6 +314,59 @@ export default function RolePermissionsPage({ onBack }: RolePermissionsPageProps
           </Accordion>
         )}
       </div>
+
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {nameDialog?.mode === "create" && "New Role"}
+              {nameDialog?.mode === "clone" && `Clone ${nameDialog.source.name}`}
+              {nameDialog?.mode === "edit" && "Rename Role"}
+            </DialogTitle>
+            <DialogDescription>
+              {nameDialog?.mode === "clone"
+                ? "The new role starts with the same permissions."
+                : nameDialog?.mode === "create"
+                  ? "The new role starts with no permissions. Turn on the ones it needs after creating it."
+                  : "Members with this role keep it under the new name."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="role-name">Name</Label>
+              <Input
+                id="role-name"
+                value={name}
+                maxLength={50}
+                placeholder="e.g. Support Agent"
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            {nameDialog?.mode !== "clone" && (
+              <div className="space-y-2">
+                <Label htmlFor="role-description">Description</Label>
+                <Textarea
+                  id="role-description"
+                  value={description}
+                  maxLength={200}
+                  placeholder="What this role is for (optional)"
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitName} disabled={submitting || !name.trim()}>
+              {submitting ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from "react";
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, usePaginatedQuery } from "convex/react";
 import { api } from "@/convex/_generated/api.js";
 import { Button } from "@/components/ui/button.tsx";
 import { Card, CardContent, CardHeader } from "@/components/ui/card.tsx";
@@ -37,6 +37,12 @@ import type { Id } from "@/convex/_generated/dataModel.d.ts";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar.tsx";
 import { GoogleMap, useLoadScript, Marker } from "@react-google-maps/api";
 import { GOOGLE_MAPS_API_KEY, GOOGLE_MAPS_LIBRARIES } from "@/lib/google-maps.ts";
+import NearbyVolunteersCard from "@/components/recovery/NearbyVolunteersCard.tsx";
+import NotifiedVolunteersCard from "@/components/recovery/NotifiedVolunteersCard.tsx";
+import RecoveryRespondersCard from "@/components/recovery/RecoveryRespondersCard.tsx";
+import RecoveryEventItem from "@/components/recovery/RecoveryEventItem.tsx";
+
+const REQUESTS_PAGE_SIZE = 20;
 
 interface VehicleRecoveryPageProps {
   onBack: () => void;
@@ -66,7 +72,11 @@ export default function VehicleRecoveryPage({ onBack }: VehicleRecoveryPageProps
     }
   }, []);
 
-  const requests = useQuery(
+  const {
+    results: requests,
+    status: requestsStatus,
+    loadMore,
+  } = usePaginatedQuery(
     api.vehicleRecovery.getRequests,
     userLocation
       ? {
@@ -74,7 +84,8 @@ export default function VehicleRecoveryPage({ onBack }: VehicleRecoveryPageProps
           userLng: userLocation.lng,
           maxDistance: 50,
         }
-      : {}
+      : {},
+    { initialNumItems: REQUESTS_PAGE_SIZE }
   );
 
   if (selectedRequestId) {
@@ -109,8 +120,9 @@ export default function VehicleRecoveryPage({ onBack }: VehicleRecoveryPageProps
 
       {/* Active Requests List */}
       <div className="space-y-3 p-4">
+        {userLocation && <NearbyVolunteersCard location={userLocation} />}
         <h2 className="text-sm font-semibold text-muted-foreground">Active Requests</h2>
-        {!requests ? (
+        {requestsStatus === "LoadingFirstPage" ? (
           <>
             {Array.from({ length: 3 }).map((_, i) => (
               <Card key={i}>
@@ -198,6 +210,17 @@ export default function VehicleRecoveryPage({ onBack }: VehicleRecoveryPageProps
             </Card>
           ))
         )}
+        {(requestsStatus === "CanLoadMore" ||
+          requestsStatus === "LoadingMore") && (
+          <Button
+            variant="outline"
+            className="w-full"
+            disabled={requestsStatus === "LoadingMore"}
+            onClick={() => loadMore(REQUESTS_PAGE_SIZE)}
+          >
+            {requestsStatus === "LoadingMore" ? "Loading..." : "Load more"}
+          </Button>
+        )}
       </div>
 
       {/* Ticket History */}
@@ -220,8 +243,8 @@ function RequestHistorySection({
   onSelectRequest: (requestId: Id<"vehicleRecoveryRequests">) => void;
 }) {
   const history = useQuery(api.vehicleRecovery.getRequestHistory);
-  const currentUser = useQuery(api.users.getCurrentUser);
-  const isAdmin = currentUser?.role === "admin" || currentUser?.role === "owner";
+  const myPermissions = useQuery(api.roles.getMyPermissions);
+  const isAdmin = !!myPermissions?.includes("manage_support");
 
   if (!history || history.length === 0) {
     return null;
@@ -286,7 +309,8 @@ function RequestDetailView({
   const closeRequest = useMutation(api.vehicleRecovery.closeRequest);
   const reopenRequest = useMutation(api.vehicleRecovery.reopenRequest);
 
-  const isAdmin = currentUser?.role === "admin" || currentUser?.role === "owner";
+  const myPermissions = useQuery(api.roles.getMyPermissions);
+  const isAdmin = !!myPermissions?.includes("manage_support");
   const isOwner = request?.userId === currentUser?._id;
   const isClosed = request?.closedAt !== undefined;
 
@@ -440,6 +464,14 @@ function RequestDetailView({
             </CardContent>
           </Card>
 
+          <RecoveryRespondersCard
+            requestId={requestId}
+            request={request}
+            onCompleted={onBack}
+          />
+
+          {isOwner && <NotifiedVolunteersCard requestId={requestId} />}
+
           {/* Comments */}
           <div className="space-y-3">
             <h3 className="font-semibold">Comments ({request.commentCount})</h3>
@@ -452,28 +484,32 @@ function RequestDetailView({
                 </CardContent>
               </Card>
             ) : (
-              request.comments.map((comment) => (
-                <Card key={comment._id}>
-                  <CardContent className="p-4">
-                    <div className="mb-2 flex items-center gap-2">
-                      <Avatar className="h-6 w-6">
-                        <AvatarFallback className="text-xs">
-                          {comment.user?.name?.[0]?.toUpperCase() || "?"}
-                        </AvatarFallback>
-                      </Avatar>
-                      <p className="text-sm font-medium">
-                        {comment.user?.name || "Unknown"}
-                      </p>
-                      <span className="text-xs text-muted-foreground">
-                        {formatDistanceToNow(comment.createdAt, {
-                          addSuffix: true,
-                        })}
-                      </span>
-                    </div>
-                    <p className="text-sm">{comment.content}</p>
-                  </CardContent>
-                </Card>
-              ))
+              request.comments.map((comment) =>
+                comment.event ? (
+                  <RecoveryEventItem key={comment._id} event={comment} />
+                ) : (
+                  <Card key={comment._id}>
+                    <CardContent className="p-4">
+                      <div className="mb-2 flex items-center gap-2">
+                        <Avatar className="h-6 w-6">
+                          <AvatarFallback className="text-xs">
+                            {comment.user?.name?.[0]?.toUpperCase() || "?"}
+                          </AvatarFallback>
+                        </Avatar>
+                        <p className="text-sm font-medium">
+                          {comment.user?.name || "Unknown"}
+                        </p>
+                        <span className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(comment.createdAt, {
+                            addSuffix: true,
+                          })}
+                        </span>
+                      </div>
+                      <p className="text-sm">{comment.content}</p>
+                    </CardContent>
+                  </Card>
+                )
+              )
             )}
           </div>
         </div>
@@ -165,10 +165,25 @@ export default function ViewMemberProfilePage({ userId, onBack }: ViewMemberProf
   const user = useQuery(api.roles.getUserById, { userId });
   const notes = useQuery(api.roles.getAdminNotes, { userId });
   const callLogs = useQuery(api.roles.getCallLogs, { userId });
-  const tickets = useQuery(api.support.getUserTickets, { userId });
   const files = useQuery(api.roles.getMemberFiles, { userId });
-  const forumActivity = useQuery(api.forums.getUserForumActivity, { userId });
-  const myRole = useQuery(api.roles.getMyRole);
+  const myPermissions = useQuery(api.roles.getMyPermissions);
+  const canManageRoles = !!myPermissions?.includes("manage_roles");
+  const canManageSupport = !!myPermissions?.includes("manage_support");
+  const canModerateForums = !!myPermissions?.includes("moderate_forums");
+  const roles = useQuery(api.roles.listRoles, canManageRoles ? {} : "skip");
+  // Sections the viewer has no permission for show up empty
+  const userTickets = useQuery(
+    api.support.getUserTickets,
+    canManageSupport ? { userId } : "skip"
+  );
+  const userForumActivity = useQuery(
+    api.forums.getUserForumActivity,
+    canModerateForums ? { userId } : "skip"
+  );
+  const tickets = canManageSupport ? userTickets : [];
+  const forumActivity = canModerateForums
+    ? userForumActivity
+    : { posts: [], comments: [] };
 
   // Get avatar URL from storage if it's a storage ID
   const avatarUrl = useQuery(
@@ -251,7 +266,7 @@ export default function ViewMemberProfilePage({ userId, onBack }: ViewMemberProf
     }
   };
 
-  const handleRoleChange = async (newRole: "owner" | "admin" | "member") => {
+  const handleRoleChange = async (newRole: "owner" | "admin" | "member" | Id<"roles">) => {
     try {
       await changeRole({ userId, newRole });
       toast.success("Role updated successfully");
@@ -486,7 +501,7 @@ export default function ViewMemberProfilePage({ userId, onBack }: ViewMemberProf
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + " " + sizes[i];
   };
 
-  if (user === undefined || notes === undefined || callLogs === undefined || tickets === undefined || files === undefined || forumActivity === undefined) {
+  if (myPermissions === undefined || user === undefined || notes === undefined || callLogs === undefined || tickets === undefined || files === undefined || forumActivity === undefined) {
     return (
       <div className="h-full overflow-y-auto bg-background">
         <div className="border-b bg-card px-4 py-3">
@@ -588,23 +603,29 @@ export default function ViewMemberProfilePage({ userId, onBack }: ViewMemberProf
                       <Badge variant={getRoleBadgeVariant(user.role || "member")}>
                         <span className="flex items-center gap-1">
                           {getRoleIcon(user.role || "member")}
-                          {(user.role || "member").toUpperCase()}
+                          {user.roleName.toUpperCase()}
                         </span>
                       </Badge>
-                      {myRole === "owner" && (
+                      {roles && (
                         <Select
-                          value={user.role || "member"}
+                          value={
+                            user.role === "owner"
+                              ? "owner"
+                              : (user.roleId ?? user.role ?? "member")
+                          }
                           onValueChange={(value) =>
-                            handleRoleChange(value as "owner" | "admin" | "member")
+                            handleRoleChange(value as "owner" | "admin" | "member" | Id<"roles">)
                           }
                         >
-                          <SelectTrigger className="w-32">
+                          <SelectTrigger className="w-40">
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="member">Member</SelectItem>
-                            <SelectItem value="admin">Admin</SelectItem>
-                            <SelectItem value="owner">Owner</SelectItem>
+                            {roles.map((role) => (
+                              <SelectItem key={role.key ?? role._id} value={role.key ?? role._id!}>
+                                {role.name}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       )}
@@ -811,7 +832,7 @@ export default function ViewMemberProfilePage({ userId, onBack }: ViewMemberProf
                             <p className="text-xs text-muted-foreground">
                               {format(new Date(note.createdAt), "MMM d, yyyy h:mm a")}
                             </p>
-                            {myRole === "owner" && (
+                            {myPermissions.includes("delete_users") && (
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -873,7 +894,7 @@ export default function ViewMemberProfilePage({ userId, onBack }: ViewMemberProf
                           </p>
                         )}
                       </div>
-                      {(myRole === "owner" || myRole === "admin") && (
+                      {canModerateForums && (
                         <Button
                           size="sm"
                           variant="outline"